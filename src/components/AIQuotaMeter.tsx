@@ -0,0 +1,134 @@
+/**
+ * AI Quota Meter Component
+ *
+ * Shows how much of the user's AI quota has been used on the Profile page:
+ * requests today against the daily limit and tokens this month against the
+ * monthly limit, with when each one resets. Reading the quota does not
+ * count as a request.
+ *
+ * Key Features:
+ * - Progress bars that turn amber near the limit and red when it is reached
+ * - Reset date for each limit
+ * - Mobile-responsive design
+ *
+ * @author BizGenius Team
+ * @version 1.0.0
+ */
+
+import { useState, useEffect } from 'react';
+import { Gauge, Loader2, AlertCircle } from 'lucide-react';
+import { databaseService, type AIQuotaStatus } from '../lib/database';
+
+interface QuotaBarProps {
+  label: string;
+  used: number;
+  limit: number;
+  resetsAt: string;
+  showTime: boolean;
+}
+
+/**
+ * Format a count compactly, e.g. 15300 -> "15.3K"
+ */
+const formatCount = (value: number): string => {
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 1000) return `${(value / 1000).toFixed(1)}K`;
+  return value.toString();
+};
+
+/**
+ * One quota line: label, usage and a progress bar
+ */
+function QuotaBar({ label, used, limit, resetsAt, showTime }: QuotaBarProps) {
+  const percent = limit > 0 ? Math.min(100, (used / limit) * 100) : 100;
+  const barColor = percent >= 100 ? 'bg-red-500' : percent >= 80 ? 'bg-amber-500' : 'bg-blue-500';
+  const resetDate = new Date(resetsAt);
+
+  return (
+    <div>
+      <div className="flex justify-between text-xs sm:text-sm mb-1">
+        <span className="text-gray-600">{label}</span>
+        <span className="font-semibold text-gray-900">
+          {formatCount(used)} / {formatCount(limit)}
+        </span>
+      </div>
+      <div className="bg-gray-200 rounded-full h-2">
+        <div
+          className={`${barColor} h-2 rounded-full transition-all duration-500`}
+          style={{ width: `${percent}%` }}
+        ></div>
+      </div>
+      <p className="text-xs text-gray-500 mt-1">
+        Resets {showTime
+          ? resetDate.toLocaleString([], { weekday: 'short', hour: 'numeric', minute: '2-digit' })
+          : resetDate.toLocaleDateString([], { month: 'short', day: 'numeric' })}
+      </p>
+    </div>
+  );
+}
+
+export default function AIQuotaMeter() {
+  const [quota, setQuota] = useState<AIQuotaStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Load the current quota
+   */
+  useEffect(() => {
+    const loadQuota = async () => {
+      try {
+        setQuota(await databaseService.getAIQuota());
+      } catch (error) {
+        console.error('Error loading AI quota:', error);
+        setError('Failed to load AI quota');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadQuota();
+  }, []);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 sm:p-6">
+      <div className="flex items-center space-x-2 mb-4">
+        <Gauge className="h-5 w-5 text-gray-500" />
+        <h3 className="text-base sm:text-lg font-semibold text-gray-900">AI Usage Limits</h3>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-blue-600" />
+        </div>
+      ) : error || !quota ? (
+        <div className="flex items-center space-x-2 text-sm text-red-700">
+          <AlertCircle className="h-4 w-4 text-red-500" />
+          <span>{error}</span>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <QuotaBar
+            label="Requests today"
+            used={quota.requests_today}
+            limit={quota.requests_per_day}
+            resetsAt={quota.day_resets_at}
+            showTime
+          />
+          <QuotaBar
+            label="Tokens this month"
+            used={quota.tokens_this_month}
+            limit={quota.tokens_per_month}
+            resetsAt={quota.month_resets_at}
+            showTime={false}
+          />
+          {!quota.allowed && (
+            <p className="text-xs sm:text-sm text-red-700">
+              You've reached your AI limit. The assistant and business plan generator will be available again after the reset.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,293 @@
+/**
+ * AI Usage Panel Component
+ *
+ * Shows the user's AI usage on the Analytics page: tokens and estimated
+ * cost over time, a breakdown by model, and the slowest responses.
+ * Data comes from the ai_usage_daily / ai_usage_monthly / ai_usage_events
+ * views, which cover both assistant chat turns and business plan
+ * generations/modifications.
+ *
+ * Key Features:
+ * - Daily (last 30 days) or monthly (last 12 months) view
+ * - Requests, tokens and cost totals
+ * - Cost by model
+ * - Slowest responses from response_time_ms
+ * - Mobile-responsive design
+ *
+ * @author BizGenius Team
+ * @version 1.0.0
+ */
+
+import { useState, useEffect } from 'react';
+import { Cpu, Clock, DollarSign, Zap, Loader2, AlertCircle, MessageSquare, FileText } from 'lucide-react';
+import { databaseService, type UsagePeriodRecord, type UsageEventRecord } from '../lib/database';
+
+type UsageRange = 'day' | 'month';
+
+interface PeriodTotal {
+  period: string;
+  totalTokens: number;
+  costUsd: number;
+}
+
+interface ModelTotal {
+  model: string;
+  requestCount: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+/**
+ * Start of the range shown for each view
+ */
+const getRangeStart = (range: UsageRange): Date => {
+  const start = new Date();
+  if (range === 'day') {
+    start.setDate(start.getDate() - 29);
+  } else {
+    start.setMonth(start.getMonth() - 11, 1);
+  }
+  return start;
+};
+
+/**
+ * Format a USD amount; small amounts keep more precision
+ */
+const formatCost = (amount: number): string =>
+  `$${amount > 0 && amount < 0.01 ? amount.toFixed(4) : amount.toFixed(2)}`;
+
+/**
+ * Format a token count, e.g. 15300 -> "15.3K"
+ */
+const formatTokens = (tokens: number): string => {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1000) return `${(tokens / 1000).toFixed(1)}K`;
+  return tokens.toString();
+};
+
+/**
+ * Format a period label for the chosen range
+ */
+const formatPeriod = (period: string, range: UsageRange): string => {
+  const date = new Date(`${period}T00:00:00`);
+  return range === 'day'
+    ? date.toLocaleDateString([], { month: 'short', day: 'numeric' })
+    : date.toLocaleDateString([], { month: 'short', year: '2-digit' });
+};
+
+export default function AIUsagePanel() {
+  const [range, setRange] = useState<UsageRange>('day');
+  const [usage, setUsage] = useState<UsagePeriodRecord[]>([]);
+  const [slowest, setSlowest] = useState<UsageEventRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Load usage for the selected range
+   */
+  useEffect(() => {
+    const loadUsage = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const since = getRangeStart(range);
+        since.setHours(0, 0, 0, 0);
+        const [usageRows, slowestResponses] = await Promise.all([
+          databaseService.getUsageByPeriod(range, since),
+          databaseService.getSlowestResponses(5, since)
+        ]);
+        setUsage(usageRows);
+        setSlowest(slowestResponses);
+      } catch (error) {
+        console.error('Error loading AI usage:', error);
+        setError('Failed to load AI usage');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadUsage();
+  }, [range]);
+
+  // Totals per period (rows are per period and model)
+  const periodTotals = usage.reduce<PeriodTotal[]>((totals, row) => {
+    const existing = totals.find(total => total.period === row.period);
+    if (existing) {
+      existing.totalTokens += row.total_tokens;
+      existing.costUsd += row.cost_usd;
+    } else {
+      totals.push({ period: row.period, totalTokens: row.total_tokens, costUsd: row.cost_usd });
+    }
+    return totals;
+  }, []);
+
+  // Totals per model, most expensive first
+  const modelTotals = usage
+    .reduce<ModelTotal[]>((totals, row) => {
+      const existing = totals.find(total => total.model === row.model);
+      if (existing) {
+        existing.requestCount += row.request_count;
+        existing.totalTokens += row.total_tokens;
+        existing.costUsd += row.cost_usd;
+      } else {
+        totals.push({
+          model: row.model,
+          requestCount: row.request_count,
+          totalTokens: row.total_tokens,
+          costUsd: row.cost_usd
+        });
+      }
+      return totals;
+    }, [])
+    .sort((a, b) => b.costUsd - a.costUsd || b.totalTokens - a.totalTokens);
+
+  const totalRequests = modelTotals.reduce((sum, model) => sum + model.requestCount, 0);
+  const totalTokens = modelTotals.reduce((sum, model) => sum + model.totalTokens, 0);
+  const totalCost = modelTotals.reduce((sum, model) => sum + model.costUsd, 0);
+  const maxPeriodTokens = Math.max(1, ...periodTotals.map(period => period.totalTokens));
+
+  return (
+    <div className="bg-white p-4 sm:p-6 rounded-xl shadow-sm border border-gray-200">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-6">
+        <div className="flex items-center space-x-2">
+          <Cpu className="h-5 w-5 text-gray-500" />
+          <h3 className="text-base sm:text-lg font-semibold text-gray-900">AI Usage</h3>
+        </div>
+        <div className="flex rounded-lg border border-gray-300 overflow-hidden self-start">
+          {(['day', 'month'] as UsageRange[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setRange(option)}
+              className={`px-3 py-1.5 text-xs sm:text-sm font-medium transition-colors ${
+                range === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {option === 'day' ? 'Last 30 days' : 'Last 12 months'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+        </div>
+      ) : error ? (
+        <div className="flex items-center space-x-2 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <AlertCircle className="h-5 w-5 text-red-500" />
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      ) : totalRequests === 0 ? (
+        <p className="text-sm text-gray-600 text-center py-8">
+          No AI usage in this period yet. Ask the assistant a question or generate a business plan.
+        </p>
+      ) : (
+        <div className="space-y-6">
+          {/* Totals */}
+          <div className="grid grid-cols-3 gap-3">
+            <div className="p-3 bg-blue-50 rounded-lg">
+              <div className="flex items-center space-x-1 text-xs sm:text-sm text-blue-700">
+                <Zap className="h-4 w-4" />
+                <span>Requests</span>
+              </div>
+              <p className="text-lg sm:text-xl font-bold text-gray-900">{totalRequests}</p>
+            </div>
+            <div className="p-3 bg-teal-50 rounded-lg">
+              <div className="flex items-center space-x-1 text-xs sm:text-sm text-teal-700">
+                <Cpu className="h-4 w-4" />
+                <span>Tokens</span>
+              </div>
+              <p className="text-lg sm:text-xl font-bold text-gray-900">{formatTokens(totalTokens)}</p>
+            </div>
+            <div className="p-3 bg-amber-50 rounded-lg">
+              <div className="flex items-center space-x-1 text-xs sm:text-sm text-amber-700">
+                <DollarSign className="h-4 w-4" />
+                <span>Est. cost</span>
+              </div>
+              <p className="text-lg sm:text-xl font-bold text-gray-900">{formatCost(totalCost)}</p>
+            </div>
+          </div>
+
+          {/* Tokens over time */}
+          <div>
+            <h4 className="text-sm font-medium text-gray-900 mb-3">
+              Tokens per {range === 'day' ? 'day' : 'month'}
+            </h4>
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {periodTotals.map(period => (
+                <div key={period.period} className="flex items-center space-x-3">
+                  <span className="text-xs font-medium text-gray-600 w-14 sm:w-16">{formatPeriod(period.period, range)}</span>
+                  <div className="flex-1 bg-gray-200 rounded-full h-2">
+                    <div
+                      className="bg-blue-500 h-2 rounded-full transition-all duration-500"
+                      style={{ width: `${(period.totalTokens / maxPeriodTokens) * 100}%` }}
+                    ></div>
+                  </div>
+                  <span className="text-xs font-medium text-gray-900 w-20 text-right">
+                    {formatTokens(period.totalTokens)} · {formatCost(period.costUsd)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Cost by model */}
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 mb-3">Cost by model</h4>
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs sm:text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b border-gray-200">
+                      <th className="py-2 pr-2 font-medium">Model</th>
+                      <th className="py-2 px-2 font-medium text-right">Requests</th>
+                      <th className="py-2 px-2 font-medium text-right">Tokens</th>
+                      <th className="py-2 pl-2 font-medium text-right">Cost</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {modelTotals.map(model => (
+                      <tr key={model.model} className="border-b border-gray-100 last:border-0">
+                        <td className="py-2 pr-2 text-gray-900 truncate max-w-[10rem]" title={model.model}>{model.model}</td>
+                        <td className="py-2 px-2 text-right text-gray-700">{model.requestCount}</td>
+                        <td className="py-2 px-2 text-right text-gray-700">{formatTokens(model.totalTokens)}</td>
+                        <td className="py-2 pl-2 text-right text-gray-900 font-medium">{formatCost(model.costUsd)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            {/* Slowest responses */}
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 mb-3">Slowest responses</h4>
+              <ul className="space-y-2">
+                {slowest.map(event => (
+                  <li key={event.id} className="flex items-start space-x-3 p-2 bg-gray-50 rounded-lg">
+                    {event.source === 'chat' ? (
+                      <MessageSquare className="h-4 w-4 text-blue-500 mt-0.5 flex-shrink-0" />
+                    ) : (
+                      <FileText className="h-4 w-4 text-teal-500 mt-0.5 flex-shrink-0" />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-gray-900 truncate">{event.label}</p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {event.model} · {new Date(event.created_at).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <span className="flex items-center space-x-1 text-xs font-medium text-gray-700 flex-shrink-0">
+                      <Clock className="h-3 w-3" />
+                      <span>{(event.response_time_ms / 1000).toFixed(1)}s</span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
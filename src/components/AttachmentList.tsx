@@ -0,0 +1,117 @@
+/**
+ * Attachment List Component
+ *
+ * Files attached to an assistant question, shown as chips: in the input
+ * area while they are read and uploaded (removable), and on sent questions
+ * (click to download through a short-lived signed URL).
+ *
+ * @author BizGenius Team
+ * @version 1.0.0
+ */
+
+import { useState } from 'react';
+import { Paperclip, X, Loader2, AlertCircle } from 'lucide-react';
+import { storageService } from '../lib/storage';
+import { formatFileSize } from '../lib/attachments';
+import type { AttachmentRecord } from '../lib/database';
+
+/**
+ * Attachment shown in the list
+ *
+ * - status: 'reading' while text is extracted and the file uploaded
+ * - attachment: Stored file, set once uploaded
+ */
+export interface AttachmentListItem {
+  key: string;
+  name: string;
+  size: number;
+  status?: 'reading' | 'ready' | 'error';
+  error?: string;
+  attachment?: AttachmentRecord;
+}
+
+interface AttachmentListProps {
+  items: AttachmentListItem[];
+  onRemove?: (key: string) => void;
+  variant?: 'input' | 'question';
+}
+
+export default function AttachmentList({ items, onRemove, variant = 'input' }: AttachmentListProps) {
+  const [openingKey, setOpeningKey] = useState<string | null>(null);
+
+  /**
+   * Download a stored attachment under its original name
+   */
+  const openAttachment = async (item: AttachmentListItem) => {
+    if (!item.attachment || openingKey) return;
+
+    setOpeningKey(item.key);
+    const url = await storageService.getAttachmentUrl(item.attachment);
+    setOpeningKey(null);
+    if (!url) return;
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.rel = 'noopener';
+    link.click();
+  };
+
+  if (items.length === 0) return null;
+
+  return (
+    <ul className={`flex flex-wrap gap-2 ${variant === 'question' ? 'mt-2' : 'mb-2'}`}>
+      {items.map(item => {
+        const isError = item.status === 'error';
+        const isReading = item.status === 'reading' || openingKey === item.key;
+
+        return (
+          <li
+            key={item.key}
+            className={`flex items-center max-w-full px-2 py-1 text-xs rounded-md border ${
+              variant === 'question'
+                ? 'bg-blue-500 border-blue-400 text-white'
+                : isError
+                  ? 'bg-red-50 border-red-200 text-red-700'
+                  : 'bg-gray-50 border-gray-200 text-gray-700'
+            }`}
+            title={item.error || item.name}
+          >
+            {isReading ? (
+              <Loader2 className="h-3.5 w-3.5 mr-1 flex-shrink-0 animate-spin" />
+            ) : isError ? (
+              <AlertCircle className="h-3.5 w-3.5 mr-1 flex-shrink-0" />
+            ) : (
+              <Paperclip className="h-3.5 w-3.5 mr-1 flex-shrink-0" />
+            )}
+
+            {variant === 'question' && item.attachment ? (
+              <button
+                type="button"
+                onClick={() => openAttachment(item)}
+                className="truncate max-w-[12rem] hover:underline"
+              >
+                {item.name}
+              </button>
+            ) : (
+              <span className="truncate max-w-[12rem]">{isError ? item.error : item.name}</span>
+            )}
+            <span className={`ml-1 flex-shrink-0 ${variant === 'question' ? 'text-blue-100' : 'text-gray-500'}`}>
+              {formatFileSize(item.size)}
+            </span>
+
+            {onRemove && (
+              <button
+                type="button"
+                onClick={() => onRemove(item.key)}
+                className="ml-1 p-0.5 rounded text-gray-400 hover:text-gray-700 flex-shrink-0"
+                aria-label={`Remove ${item.name}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
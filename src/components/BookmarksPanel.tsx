@@ -7,7 +7,7 @@
  * Key Features:
  * - View bookmarked chat responses and lessons
  * - Filter bookmarks by type (chat/lesson)
- * - Remove bookmarks with confirmation
+ * - Remove bookmarks (moved to the trash, with undo)
  * - Navigate to original content
  * - Mobile-responsive design
  * 
@@ -27,12 +27,15 @@ import {
   BookmarkX
 } from 'lucide-react';
 import { databaseService, type BookmarkRecord } from '../lib/database';
+import { markdownToPlainText } from '../lib/markdown';
+import { useUndo } from '../contexts/useUndo';
 
 interface BookmarksPanelProps {
   className?: string;
 }
 
 export default function BookmarksPanel({ className = '' }: BookmarksPanelProps) {
+  const { showUndo } = useUndo();
   const [bookmarks, setBookmarks] = useState<any[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -71,14 +74,23 @@ export default function BookmarksPanel({ className = '' }: BookmarksPanelProps)
   }, []);
 
   /**
-   * Remove bookmark
+   * Move bookmark to the trash, with an undo toast
    */
   const removeBookmark = async (bookmarkId: string) => {
-    if (!confirm('Are you sure you want to remove this bookmark?')) return;
+    const removed = bookmarks.find(b => b.id === bookmarkId);
     
     try {
-      await databaseService.deleteBookmark(bookmarkId);
+      const deletedAt = await databaseService.deleteBookmark(bookmarkId);
       setBookmarks(prev => prev.filter(b => b.id !== bookmarkId));
+      
+      showUndo('Bookmark removed', async () => {
+        await databaseService.restoreTrashItem({ type: 'bookmark', id: bookmarkId, deleted_at: deletedAt });
+        if (removed) {
+          setBookmarks(prev =>
+            [...prev, removed].sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+          );
+        }
+      });
     } catch (error) {
       console.error('Error removing bookmark:', error);
       setError('Failed to remove bookmark');
@@ -195,7 +207,7 @@ export default function BookmarksPanel({ className = '' }: BookmarksPanelProps)
                           Q: {bookmark.chat_history.question}
                         </h4>
                         <p className="text-sm text-gray-600 line-clamp-3">
-                          A: {bookmark.chat_history.answer}
+                          A: {markdownToPlainText(bookmark.chat_history.answer)}
                         </p>
                       </div>
                     ) : (
@@ -0,0 +1,139 @@
+/**
+ * Chat Export Menu Component
+ *
+ * Header menu in the AI Assistant for exporting the open conversation or
+ * the whole chat history as Markdown, JSON or PDF, and for importing a
+ * previously exported JSON file.
+ *
+ * Key Features:
+ * - Export scope: this conversation or all history
+ * - Markdown, JSON and PDF formats
+ * - JSON import through a file picker
+ *
+ * @author BizGenius Team
+ * @version 1.0.0
+ */
+
+import React, { useState, useRef, useEffect } from 'react';
+import { Download, Upload, ChevronDown, Loader2 } from 'lucide-react';
+import type { ChatExportFormat } from '../lib/chatExport';
+
+export type ChatExportScope = 'conversation' | 'all';
+
+interface ChatExportMenuProps {
+  onExport: (scope: ChatExportScope, format: ChatExportFormat) => void;
+  onImport: (file: File) => void;
+  canExportConversation: boolean;
+  isBusy?: boolean;
+  disabled?: boolean;
+}
+
+const FORMATS: { value: ChatExportFormat; label: string }[] = [
+  { value: 'markdown', label: 'Markdown' },
+  { value: 'json', label: 'JSON' },
+  { value: 'pdf', label: 'PDF' }
+];
+
+export default function ChatExportMenu({
+  onExport,
+  onImport,
+  canExportConversation,
+  isBusy = false,
+  disabled = false
+}: ChatExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  /**
+   * Close when clicking outside
+   */
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const exportAs = (scope: ChatExportScope, format: ChatExportFormat) => {
+    setIsOpen(false);
+    onExport(scope, format);
+  };
+
+  /**
+   * Hand the chosen file to the parent and reset the picker, so the same
+   * file can be chosen again
+   */
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) onImport(file);
+  };
+
+  const renderGroup = (scope: ChatExportScope, label: string, enabled: boolean) => (
+    <div className="px-3 py-2">
+      <p className="text-xs font-medium text-gray-500 mb-1">{label}</p>
+      <div className="flex gap-1">
+        {FORMATS.map(format => (
+          <button
+            key={format.value}
+            type="button"
+            onClick={() => exportAs(scope, format.value)}
+            disabled={!enabled}
+            className="flex-1 px-2 py-1 text-xs font-medium text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {format.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled || isBusy}
+        className="px-2 py-2 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors flex items-center disabled:opacity-50 disabled:cursor-not-allowed sm:px-3 sm:text-sm"
+        aria-label="Export or import chats"
+      >
+        {isBusy ? <Loader2 className="h-4 w-4 animate-spin sm:mr-2" /> : <Download className="h-4 w-4 sm:mr-2" />}
+        <span className="hidden sm:inline">Export</span>
+        <ChevronDown className="hidden sm:inline h-4 w-4 ml-1" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-20 mt-2 w-64 bg-white border border-gray-200 rounded-lg shadow-lg divide-y divide-gray-100">
+          {renderGroup('conversation', 'This conversation', canExportConversation)}
+          {renderGroup('all', 'All chat history', true)}
+          <button
+            type="button"
+            onClick={() => {
+              setIsOpen(false);
+              fileInputRef.current?.click();
+            }}
+            className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50 transition-colors flex items-center space-x-2 rounded-b-lg"
+          >
+            <Upload className="h-4 w-4" />
+            <span>Import from JSON…</span>
+          </button>
+        </div>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        onChange={handleFileChange}
+        className="hidden"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+/**
+ * Conversation Memory Component
+ *
+ * Shows the rolling summary the assistant keeps for a long conversation.
+ * Older turns that no longer fit in the model's context window are folded
+ * into this summary, so the user can see - and correct - what the
+ * assistant still remembers about them.
+ *
+ * Key Features:
+ * - Collapsible summary banner above the messages
+ * - Inline editing with save/cancel
+ * - Mobile-responsive design
+ *
+ * @author BizGenius Team
+ * @version 1.0.0
+ */
+
+import { useState } from 'react';
+import {
+  Brain,
+  ChevronDown,
+  ChevronUp,
+  Edit,
+  Save,
+  X,
+  Loader2
+} from 'lucide-react';
+
+interface ConversationMemoryProps {
+  summary: string;
+  onSave: (summary: string) => Promise<void>;
+  disabled?: boolean;
+}
+
+export default function ConversationMemory({
+  summary,
+  onSave,
+  disabled = false
+}: ConversationMemoryProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editText, setEditText] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  /**
+   * Start editing the summary
+   */
+  const startEditing = () => {
+    setEditText(summary);
+    setIsEditing(true);
+    setIsExpanded(true);
+  };
+
+  /**
+   * Save the edited summary
+   */
+  const saveEdit = async () => {
+    try {
+      setIsSaving(true);
+      await onSave(editText.trim());
+      setIsEditing(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * Cancel editing
+   */
+  const cancelEdit = () => {
+    setIsEditing(false);
+    setEditText('');
+  };
+
+  return (
+    <div className="bg-indigo-50 border-b border-indigo-200 px-4 py-2 sm:px-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="flex items-center space-x-2 text-sm font-medium text-indigo-800"
+        >
+          <Brain className="h-4 w-4" />
+          <span>What the assistant remembers</span>
+          {isExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+        </button>
+
+        {!isEditing && (
+          <button
+            onClick={startEditing}
+            disabled={disabled}
+            className="p-1 text-indigo-400 hover:text-indigo-700 transition-colors disabled:opacity-50"
+            aria-label="Edit conversation summary"
+          >
+            <Edit className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+
+      {/* Summary */}
+      {isExpanded && (
+        <div className="mt-2">
+          {isEditing ? (
+            <div className="space-y-2">
+              <textarea
+                value={editText}
+                onChange={(e) => setEditText(e.target.value)}
+                rows={5}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-transparent resize-none"
+              />
+              <div className="flex space-x-2">
+                <button
+                  onClick={saveEdit}
+                  disabled={isSaving}
+                  className="px-3 py-1 text-xs font-medium text-white bg-green-600 rounded-md hover:bg-green-700 transition-colors flex items-center space-x-1 disabled:opacity-50"
+                >
+                  {isSaving ? <Loader2 className="h-3 w-3 animate-spin" /> : <Save className="h-3 w-3" />}
+                  <span>Save</span>
+                </button>
+                <button
+                  onClick={cancelEdit}
+                  disabled={isSaving}
+                  className="px-3 py-1 text-xs font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors flex items-center space-x-1"
+                >
+                  <X className="h-3 w-3" />
+                  <span>Cancel</span>
+                </button>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-indigo-900 whitespace-pre-wrap leading-relaxed">
+              {summary}
+            </p>
+          )}
+          <p className="mt-2 text-xs text-indigo-600">
+            Older messages are condensed into this summary to fit the model's context window.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+/**
+ * Conversations Panel Component
+ *
+ * Sidebar listing the user's AI assistant conversation threads.
+ * The parent page owns the conversation list and performs the database
+ * operations; this component renders the list and reports user actions.
+ *
+ * Key Features:
+ * - Start a new conversation
+ * - Reopen a past conversation
+ * - Rename a conversation inline
+ * - Delete a whole conversation (moved to the trash, with undo)
+ * - Mobile-responsive design
+ *
+ * @author BizGenius Team
+ * @version 1.0.0
+ */
+
+import { useState } from 'react';
+import {
+  MessageSquare,
+  Plus,
+  Edit,
+  Trash2,
+  Save,
+  X,
+  Loader2
+} from 'lucide-react';
+import type { ConversationRecord } from '../lib/database';
+
+interface ConversationsPanelProps {
+  conversations: ConversationRecord[];
+  activeConversationId: string | null;
+  isLoading?: boolean;
+  onSelect: (conversationId: string) => void;
+  onNewConversation: () => void;
+  onRename: (conversationId: string, title: string) => Promise<void>;
+  onDelete: (conversationId: string) => Promise<void>;
+  className?: string;
+}
+
+export default function ConversationsPanel({
+  conversations,
+  activeConversationId,
+  isLoading = false,
+  onSelect,
+  onNewConversation,
+  onRename,
+  onDelete,
+  className = ''
+}: ConversationsPanelProps) {
+  // Inline rename state
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+
+  /**
+   * Start renaming a conversation
+   */
+  const startEditing = (conversation: ConversationRecord) => {
+    setEditingId(conversation.id);
+    setEditTitle(conversation.title);
+  };
+
+  /**
+   * Save the new title
+   */
+  const saveEdit = async () => {
+    if (!editingId || !editTitle.trim()) return;
+
+    await onRename(editingId, editTitle.trim());
+    setEditingId(null);
+    setEditTitle('');
+  };
+
+  /**
+   * Cancel renaming
+   */
+  const cancelEdit = () => {
+    setEditingId(null);
+    setEditTitle('');
+  };
+
+  /**
+   * Format last activity date
+   */
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    const now = new Date();
+    const diffInHours = (now.getTime() - date.getTime()) / (1000 * 60 * 60);
+
+    if (diffInHours < 24) {
+      return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    } else {
+      return date.toLocaleDateString();
+    }
+  };
+
+  return (
+    <div className={`bg-white border-r border-gray-200 flex flex-col ${className}`}>
+      {/* Header */}
+      <div className="p-3 border-b border-gray-200">
+        <button
+          onClick={onNewConversation}
+          className="w-full px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors flex items-center justify-center space-x-2"
+        >
+          <Plus className="h-4 w-4" />
+          <span>New Conversation</span>
+        </button>
+      </div>
+
+      {/* Conversation List */}
+      <div className="flex-1 overflow-y-auto">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+          </div>
+        ) : conversations.length === 0 ? (
+          <div className="text-center py-8 px-4">
+            <MessageSquare className="h-10 w-10 text-gray-400 mx-auto mb-3" />
+            <p className="text-sm text-gray-600">No conversations yet. Ask a question to start one.</p>
+          </div>
+        ) : (
+          <ul className="p-2 space-y-1">
+            {conversations.map((conversation) => (
+              <li key={conversation.id}>
+                {editingId === conversation.id ? (
+                  <div className="p-2 bg-blue-50 rounded-lg space-y-2">
+                    <input
+                      type="text"
+                      value={editTitle}
+                      onChange={(e) => setEditTitle(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') saveEdit();
+                        if (e.key === 'Escape') cancelEdit();
+                      }}
+                      autoFocus
+                      className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={saveEdit}
+                        className="px-2 py-1 text-xs font-medium text-white bg-green-600 rounded-md hover:bg-green-700 transition-colors flex items-center space-x-1"
+                      >
+                        <Save className="h-3 w-3" />
+                        <span>Save</span>
+                      </button>
+                      <button
+                        onClick={cancelEdit}
+                        className="px-2 py-1 text-xs font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors flex items-center space-x-1"
+                      >
+                        <X className="h-3 w-3" />
+                        <span>Cancel</span>
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div
+                    className={`group flex items-center rounded-lg transition-colors ${
+                      conversation.id === activeConversationId
+                        ? 'bg-blue-50 text-blue-900'
+                        : 'text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    <button
+                      onClick={() => onSelect(conversation.id)}
+                      className="flex-1 min-w-0 text-left px-3 py-2"
+                    >
+                      <p className="text-sm font-medium truncate">{conversation.title}</p>
+                      <p className="text-xs text-gray-500">{formatDate(conversation.last_message_at)}</p>
+                    </button>
+
+                    {/* Actions */}
+                    <div className="flex items-center pr-2 space-x-1 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity">
+                      <button
+                        onClick={() => startEditing(conversation)}
+                        className="p-1 text-gray-400 hover:text-blue-600 transition-colors"
+                        aria-label="Rename conversation"
+                      >
+                        <Edit className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => onDelete(conversation.id)}
+                        className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                        aria-label="Delete conversation"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+/**
+ * Dictation Button Component
+ *
+ * Push-to-talk microphone button for the AI Assistant input: hold it (or
+ * hold Space/Enter while it has focus) to dictate, release to stop. Uses
+ * the browser's speech recognition; where that is unavailable the button
+ * stays visible but disabled and points to the keyboard's own dictation.
+ *
+ * @author BizGenius Team
+ * @version 1.0.0
+ */
+
+import React, { useState, useRef, useEffect } from 'react';
+import { Mic, MicOff } from 'lucide-react';
+import { isSpeechRecognitionSupported, startDictation, type Dictation } from '../lib/speech';
+
+interface DictationButtonProps {
+  onStart: () => void;
+  onTranscript: (transcript: string) => void;
+  onFinish: (transcript: string) => void;
+  onError: (message: string) => void;
+  disabled?: boolean;
+}
+
+export default function DictationButton({
+  onStart,
+  onTranscript,
+  onFinish,
+  onError,
+  disabled = false
+}: DictationButtonProps) {
+  const [isListening, setIsListening] = useState(false);
+  const dictationRef = useRef<Dictation | null>(null);
+  const transcriptRef = useRef('');
+  const isSupported = isSpeechRecognitionSupported();
+
+  // Latest callbacks, so results arriving later use the current page state
+  const handlersRef = useRef({ onTranscript, onFinish, onError });
+  handlersRef.current = { onTranscript, onFinish, onError };
+
+  /**
+   * Stop listening, without reporting anything, when the page is left
+   * mid-dictation
+   */
+  useEffect(() => () => {
+    handlersRef.current = { onTranscript: () => {}, onFinish: () => {}, onError: () => {} };
+    dictationRef.current?.abort();
+  }, []);
+
+  const start = () => {
+    if (disabled || dictationRef.current) return;
+
+    transcriptRef.current = '';
+    const dictation = startDictation({
+      onTranscript: (transcript) => {
+        transcriptRef.current = transcript;
+        handlersRef.current.onTranscript(transcript);
+      },
+      onEnd: () => {
+        dictationRef.current = null;
+        setIsListening(false);
+        handlersRef.current.onFinish(transcriptRef.current);
+      },
+      onError: (message) => handlersRef.current.onError(message)
+    });
+
+    if (!dictation) {
+      onError('Voice input could not be started. Please try again.');
+      return;
+    }
+
+    dictationRef.current = dictation;
+    setIsListening(true);
+    onStart();
+  };
+
+  // The final transcript arrives after stopping; onEnd reports it
+  const stop = () => dictationRef.current?.stop();
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLButtonElement>) => {
+    if ((event.key === ' ' || event.key === 'Enter') && !event.repeat) {
+      event.preventDefault();
+      start();
+    }
+  };
+
+  const handleKeyUp = (event: React.KeyboardEvent<HTMLButtonElement>) => {
+    if (event.key === ' ' || event.key === 'Enter') {
+      event.preventDefault();
+      stop();
+    }
+  };
+
+  if (!isSupported) {
+    return (
+      <button
+        type="button"
+        disabled
+        className="px-3 py-2 text-gray-300 border border-gray-200 rounded-lg cursor-not-allowed sm:px-4 sm:py-3"
+        aria-label="Voice input unavailable"
+        title="Voice input is not supported in this browser. Use your keyboard's dictation instead."
+      >
+        <MicOff className="h-4 w-4 sm:h-5 sm:w-5" />
+      </button>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onPointerDown={(event) => {
+        event.preventDefault();
+        start();
+      }}
+      onPointerUp={stop}
+      onPointerLeave={stop}
+      onPointerCancel={stop}
+      onKeyDown={handleKeyDown}
+      onKeyUp={handleKeyUp}
+      onContextMenu={(event) => event.preventDefault()}
+      disabled={disabled}
+      className={`px-3 py-2 rounded-lg border transition-colors select-none touch-none disabled:opacity-50 disabled:cursor-not-allowed sm:px-4 sm:py-3 ${
+        isListening
+          ? 'bg-red-600 border-red-600 text-white animate-pulse'
+          : 'bg-white border-gray-300 text-gray-600 hover:bg-gray-50'
+      }`}
+      aria-label={isListening ? 'Listening, release to stop' : 'Hold to talk'}
+      aria-pressed={isListening}
+      title="Hold to talk"
+    >
+      <Mic className="h-4 w-4 sm:h-5 sm:w-5" />
+    </button>
+  );
+}
@@ -1,22 +1,49 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useLocation, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
 import { Bell, Search, LogOut } from 'lucide-react';
 
 export default function Header() {
   const { user, logout } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const [query, setQuery] = useState('');
+
+  // Keep the box in sync with the search page's query
+  const pageQuery = location.pathname === '/search' ? searchParams.get('q') || '' : '';
+  useEffect(() => {
+    setQuery(pageQuery);
+  }, [pageQuery]);
+
+  /**
+   * Search chat history; filters chosen on the results page are kept
+   */
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = query.trim();
+    if (!trimmed) return;
+
+    const params = new URLSearchParams(location.pathname === '/search' ? searchParams : undefined);
+    params.set('q', trimmed);
+    navigate(`/search?${params.toString()}`);
+  };
 
   return (
     <header className="bg-white shadow-sm border-b border-gray-200 px-3 sm:px-4 lg:px-6 py-3 sm:py-4">
       <div className="flex items-center justify-between">
         <div className="flex-1 max-w-lg">
-          <div className="relative">
+          <form role="search" onSubmit={handleSearch} className="relative">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
             <input
-              type="text"
-              placeholder="Search..."
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search your chats..."
+              aria-label="Search chat history"
               className="w-full pl-10 pr-4 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             />
-          </div>
+          </form>
         </div>
         
         <div className="flex items-center space-x-2 sm:space-x-4 ml-4">
@@ -9,6 +9,7 @@ import {
   BarChart3, 
   User,
   Briefcase,
+  Trash2,
   Menu,
   X,
   LogOut
@@ -20,6 +21,7 @@ const navigation = [
   { name: 'Business Plans', href: '/business-plan', icon: FileText },
   { name: 'Learning Hub', href: '/learning', icon: BookOpen },
   { name: 'Analytics', href: '/analytics', icon: BarChart3, comingSoon: true },
+  { name: 'Trash', href: '/trash', icon: Trash2 },
   { name: 'Profile', href: '/profile', icon: User },
 ];
 
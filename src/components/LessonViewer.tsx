@@ -0,0 +1,167 @@
+/**
+ * Lesson Viewer Component
+ *
+ * Shows a single lesson in the Learning Hub: video link, description and
+ * transcript, with completion tracking. Opened through the lesson's path
+ * (/learning?lesson=<id>), which the AI Assistant links to when an answer
+ * draws on a lesson.
+ *
+ * Key Features:
+ * - Lesson and course details
+ * - Mark as completed / incomplete
+ * - Mobile-responsive design
+ *
+ * @author BizGenius Team
+ * @version 1.0.0
+ */
+
+import { useState, useEffect } from 'react';
+import { ArrowLeft, Clock, Play, CheckCircle, Circle, Loader2, AlertCircle } from 'lucide-react';
+import { databaseService, type CourseRecord, type LessonRecord } from '../lib/database';
+
+interface LessonViewerProps {
+  lessonId: string;
+  onClose: () => void;
+}
+
+export default function LessonViewer({ lessonId, onClose }: LessonViewerProps) {
+  const [lesson, setLesson] = useState<LessonRecord | null>(null);
+  const [course, setCourse] = useState<CourseRecord | null>(null);
+  const [isCompleted, setIsCompleted] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Load the lesson, its course and the user's progress
+   */
+  useEffect(() => {
+    const loadLesson = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        const lessonData = await databaseService.getLesson(lessonId);
+        const [courseData, progress] = await Promise.all([
+          databaseService.getCourse(lessonData.course_id),
+          databaseService.getLessonProgress(lessonData.course_id).catch(() => [])
+        ]);
+
+        setLesson(lessonData);
+        setCourse(courseData);
+        setIsCompleted(progress.some(record => record.lesson_id === lessonId && record.is_completed));
+      } catch (error) {
+        console.error('Error loading lesson:', error);
+        setError('This lesson could not be found or is no longer available.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadLesson();
+  }, [lessonId]);
+
+  /**
+   * Toggle the lesson's completion state
+   */
+  const toggleCompleted = async () => {
+    try {
+      setIsUpdating(true);
+      if (isCompleted) {
+        await databaseService.markLessonIncomplete(lessonId);
+      } else {
+        await databaseService.markLessonCompleted(lessonId);
+      }
+      setIsCompleted(!isCompleted);
+    } catch (error) {
+      console.error('Error updating lesson progress:', error);
+      setError('Failed to update lesson progress');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return (
+    <div className="max-w-3xl">
+      <button
+        onClick={onClose}
+        className="mb-4 flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-900"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        <span>Back to courses</span>
+      </button>
+
+      {isLoading && (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+        </div>
+      )}
+
+      {!isLoading && error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+          <AlertCircle className="h-5 w-5 text-red-500" />
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {!isLoading && lesson && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 sm:p-6 space-y-5">
+          {/* Lesson header */}
+          <div>
+            {course && (
+              <p className="text-xs sm:text-sm font-medium text-blue-600 mb-1">
+                {course.title} · Lesson {lesson.order}
+              </p>
+            )}
+            <h1 className="text-xl sm:text-2xl font-bold text-gray-900">{lesson.title}</h1>
+            <div className="flex items-center space-x-1 mt-2 text-sm text-gray-500">
+              <Clock className="h-4 w-4" />
+              <span>{lesson.duration}</span>
+            </div>
+          </div>
+
+          {/* Actions */}
+          <div className="flex flex-col sm:flex-row gap-2">
+            {lesson.video_url && (
+              <a
+                href={lesson.video_url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center justify-center space-x-2"
+              >
+                <Play className="h-4 w-4" />
+                <span className="text-sm sm:text-base">Watch lesson</span>
+              </a>
+            )}
+            <button
+              onClick={toggleCompleted}
+              disabled={isUpdating}
+              className={`px-4 py-2 border rounded-lg transition-colors flex items-center justify-center space-x-2 disabled:opacity-50 ${
+                isCompleted
+                  ? 'text-green-700 bg-green-50 border-green-300 hover:bg-green-100'
+                  : 'text-gray-700 bg-white border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {isCompleted ? <CheckCircle className="h-4 w-4" /> : <Circle className="h-4 w-4" />}
+              <span className="text-sm sm:text-base">{isCompleted ? 'Completed' : 'Mark as completed'}</span>
+            </button>
+          </div>
+
+          {lesson.description && (
+            <div>
+              <h2 className="text-base sm:text-lg font-semibold text-gray-900 mb-2">About this lesson</h2>
+              <p className="text-sm text-gray-700 leading-relaxed">{lesson.description}</p>
+            </div>
+          )}
+
+          {lesson.transcript && (
+            <div>
+              <h2 className="text-base sm:text-lg font-semibold text-gray-900 mb-2">Transcript</h2>
+              <p className="text-sm text-gray-700 leading-relaxed whitespace-pre-wrap">{lesson.transcript}</p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
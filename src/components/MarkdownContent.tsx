@@ -0,0 +1,181 @@
+/**
+ * Markdown Content Component
+ *
+ * Renders Markdown from the AI (assistant answers, business plan sections)
+ * as React elements. Content is parsed with src/lib/markdown.ts and never
+ * inserted as HTML, so model output cannot inject markup or scripts; links
+ * are limited to safe protocols. External links open in a new tab, app
+ * paths (e.g. lesson links) navigate within the app.
+ *
+ * Key Features:
+ * - Headings, paragraphs, nested lists, tables, code blocks, blockquotes
+ * - Bold, italic, inline code and links
+ * - Horizontally scrollable tables and code on small screens
+ *
+ * @author BizGenius Team
+ * @version 1.0.0
+ */
+
+import type { ReactNode } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  parseInline,
+  parseMarkdown,
+  type MarkdownBlock,
+  type MarkdownInline,
+  type TableAlignment
+} from '../lib/markdown';
+
+interface MarkdownContentProps {
+  content: string;
+  className?: string;
+}
+
+const HEADING_CLASSES: Record<number, string> = {
+  1: 'text-xl font-bold',
+  2: 'text-lg font-semibold',
+  3: 'text-base font-semibold',
+  4: 'font-semibold',
+  5: 'font-semibold',
+  6: 'font-semibold'
+};
+
+const ALIGN_CLASSES: Record<Exclude<TableAlignment, null>, string> = {
+  left: 'text-left',
+  center: 'text-center',
+  right: 'text-right'
+};
+
+/**
+ * Render inline nodes; single line breaks inside text become <br />
+ */
+const renderInline = (nodes: MarkdownInline[]): ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text': {
+        const lines = node.text.split('\n');
+        return lines.map((line, lineIndex) => (
+          <span key={`${index}-${lineIndex}`}>
+            {line}
+            {lineIndex < lines.length - 1 && <br />}
+          </span>
+        ));
+      }
+      case 'strong':
+        return <strong key={index} className="font-semibold">{renderInline(node.children)}</strong>;
+      case 'emphasis':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'code':
+        return (
+          <code key={index} className="px-1 py-0.5 rounded bg-gray-100 text-gray-800 font-mono text-[0.85em]">
+            {node.text}
+          </code>
+        );
+      case 'link':
+        if (node.href.startsWith('/')) {
+          return (
+            <Link key={index} to={node.href} className="text-blue-600 underline hover:text-blue-700 break-words">
+              {renderInline(node.children)}
+            </Link>
+          );
+        }
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="text-blue-600 underline hover:text-blue-700 break-words"
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+
+/**
+ * Render blocks
+ */
+const renderBlocks = (blocks: MarkdownBlock[]): ReactNode[] =>
+  blocks.map((block, index) => {
+    switch (block.type) {
+      case 'heading': {
+        const HeadingTag = `h${block.level}` as 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6';
+        return (
+          <HeadingTag key={index} className={`${HEADING_CLASSES[block.level]} text-gray-900`}>
+            {renderInline(parseInline(block.text))}
+          </HeadingTag>
+        );
+      }
+      case 'paragraph':
+        return <p key={index}>{renderInline(parseInline(block.text))}</p>;
+      case 'list': {
+        const ListTag = block.ordered ? 'ol' : 'ul';
+        return (
+          <ListTag
+            key={index}
+            start={block.ordered && block.start !== 1 ? block.start : undefined}
+            className={`pl-5 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'}`}
+          >
+            {block.items.map((item, itemIndex) => (
+              <li key={itemIndex} className="space-y-1">
+                {renderBlocks(item.blocks)}
+              </li>
+            ))}
+          </ListTag>
+        );
+      }
+      case 'code':
+        return (
+          <pre key={index} className="p-3 rounded-md bg-gray-900 text-gray-100 text-xs overflow-x-auto">
+            <code>{block.code}</code>
+          </pre>
+        );
+      case 'blockquote':
+        return (
+          <blockquote key={index} className="pl-3 border-l-4 border-gray-300 text-gray-600 space-y-2">
+            {renderBlocks(block.blocks)}
+          </blockquote>
+        );
+      case 'table':
+        return (
+          <div key={index} className="overflow-x-auto">
+            <table className="min-w-full text-sm border border-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {block.header.map((cell, column) => (
+                    <th
+                      key={column}
+                      className={`px-3 py-2 font-semibold text-gray-900 border-b border-gray-200 ${ALIGN_CLASSES[block.align[column] || 'left']}`}
+                    >
+                      {renderInline(parseInline(cell))}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, rowIndex) => (
+                  <tr key={rowIndex} className="border-b border-gray-100 last:border-0">
+                    {row.map((cell, column) => (
+                      <td key={column} className={`px-3 py-2 ${ALIGN_CLASSES[block.align[column] || 'left']}`}>
+                        {renderInline(parseInline(cell))}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      case 'rule':
+        return <hr key={index} className="border-gray-200" />;
+    }
+  });
+
+export default function MarkdownContent({ content, className = '' }: MarkdownContentProps) {
+  return (
+    <div className={`space-y-3 break-words ${className}`}>
+      {renderBlocks(parseMarkdown(content))}
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+/**
+ * Model Selector Component
+ *
+ * Dropdown for choosing the AI model used by a feature (chat or business
+ * plan generation). Lists the models reported by the provider with their
+ * context length and pricing, and can be filtered to free models.
+ *
+ * The parent owns the selected model and persists it as the user's
+ * default; this component loads the model list on first open and reports
+ * the user's choice.
+ *
+ * Key Features:
+ * - Search by model name or identifier
+ * - "Free only" filter
+ * - Context length and per-million-token pricing
+ * - Mobile-responsive design
+ *
+ * @author BizGenius Team
+ * @version 1.0.0
+ */
+
+import { useState, useRef, useEffect } from 'react';
+import { Cpu, ChevronDown, Search, Check, Loader2 } from 'lucide-react';
+import type { ModelInfo } from '../lib/llmProvider';
+
+interface ModelSelectorProps {
+  value: string;
+  onChange: (modelId: string) => void;
+  loadModels: () => Promise<ModelInfo[]>;
+  disabled?: boolean;
+  align?: 'left' | 'right';
+}
+
+/**
+ * Whether a model costs nothing to use
+ */
+const isFreeModel = (model: ModelInfo): boolean => {
+  if (model.id.endsWith(':free')) return true;
+  if (!model.pricing) return false;
+  return Number(model.pricing.prompt) === 0 && Number(model.pricing.completion) === 0;
+};
+
+/**
+ * Format context length, e.g. 131072 -> "131K"
+ */
+const formatContextLength = (tokens?: number): string | null => {
+  if (!tokens) return null;
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1).replace(/\.0$/, '')}M`;
+  return `${Math.round(tokens / 1000)}K`;
+};
+
+/**
+ * Format pricing as USD per million input/output tokens
+ */
+const formatPricing = (model: ModelInfo): string | null => {
+  if (isFreeModel(model)) return 'Free';
+  if (!model.pricing) return null;
+
+  const perMillion = (perToken: string) => {
+    const value = Number(perToken) * 1_000_000;
+    return `$${value < 1 ? value.toFixed(3) : value.toFixed(2)}`;
+  };
+  return `${perMillion(model.pricing.prompt)} in / ${perMillion(model.pricing.completion)} out per 1M`;
+};
+
+export default function ModelSelector({
+  value,
+  onChange,
+  loadModels,
+  disabled = false,
+  align = 'left'
+}: ModelSelectorProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [models, setModels] = useState<ModelInfo[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [search, setSearch] = useState('');
+  const [freeOnly, setFreeOnly] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const hasRequestedModels = useRef(false);
+
+  /**
+   * Load the model list the first time the dropdown opens
+   */
+  useEffect(() => {
+    if (!isOpen || hasRequestedModels.current) return;
+    hasRequestedModels.current = true;
+
+    const fetchModels = async () => {
+      setIsLoading(true);
+      try {
+        setModels(await loadModels());
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchModels();
+  }, [isOpen, loadModels]);
+
+  /**
+   * Close when clicking outside
+   */
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const query = search.trim().toLowerCase();
+  const filteredModels = (models || []).filter(model =>
+    (!freeOnly || isFreeModel(model)) &&
+    (!query || model.id.toLowerCase().includes(query) || (model.name || '').toLowerCase().includes(query))
+  );
+
+  const selectedModel = models?.find(model => model.id === value);
+
+  /**
+   * Choose a model and close the dropdown
+   */
+  const selectModel = (modelId: string) => {
+    onChange(modelId);
+    setIsOpen(false);
+    setSearch('');
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      {/* Trigger */}
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="max-w-full px-2 py-2 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors flex items-center space-x-1 disabled:opacity-50 disabled:cursor-not-allowed sm:px-3 sm:text-sm"
+        aria-label="Choose AI model"
+      >
+        <Cpu className="h-4 w-4 flex-shrink-0" />
+        <span className="truncate max-w-[8rem] sm:max-w-[14rem]">{selectedModel?.name || value}</span>
+        <ChevronDown className="h-4 w-4 flex-shrink-0" />
+      </button>
+
+      {/* Dropdown */}
+      {isOpen && (
+        <div className={`absolute z-20 mt-2 w-80 max-w-[90vw] bg-white border border-gray-200 rounded-lg shadow-lg ${
+          align === 'right' ? 'right-0' : 'left-0'
+        }`}>
+          {/* Filters */}
+          <div className="p-3 border-b border-gray-200 space-y-2">
+            <div className="relative">
+              <Search className="absolute left-2 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <input
+                type="text"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search models..."
+                autoFocus
+                className="w-full pl-8 pr-2 py-1.5 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={freeOnly}
+                onChange={(e) => setFreeOnly(e.target.checked)}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span>Free models only</span>
+            </label>
+          </div>
+
+          {/* Model List */}
+          <div className="max-h-72 overflow-y-auto">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin text-blue-600" />
+              </div>
+            ) : filteredModels.length === 0 ? (
+              <p className="px-3 py-6 text-sm text-center text-gray-500">
+                {models && models.length > 0 ? 'No models match your filters.' : 'Could not load models.'}
+              </p>
+            ) : (
+              <ul className="py-1">
+                {filteredModels.map(model => {
+                  const contextLength = formatContextLength(model.context_length);
+                  const pricing = formatPricing(model);
+
+                  return (
+                    <li key={model.id}>
+                      <button
+                        type="button"
+                        onClick={() => selectModel(model.id)}
+                        className={`w-full text-left px-3 py-2 flex items-start space-x-2 hover:bg-gray-50 transition-colors ${
+                          model.id === value ? 'bg-blue-50' : ''
+                        }`}
+                      >
+                        <Check className={`h-4 w-4 mt-0.5 flex-shrink-0 ${model.id === value ? 'text-blue-600' : 'invisible'}`} />
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium text-gray-900 truncate">{model.name || model.id}</p>
+                          <p className="text-xs text-gray-500 truncate">{model.id}</p>
+                          {(contextLength || pricing) && (
+                            <p className="text-xs text-gray-500">
+                              {contextLength && <span>{contextLength} context</span>}
+                              {contextLength && pricing && <span> · </span>}
+                              {pricing && (
+                                <span className={pricing === 'Free' ? 'text-green-600 font-medium' : ''}>{pricing}</span>
+                              )}
+                            </p>
+                          )}
+                        </div>
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
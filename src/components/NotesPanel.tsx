@@ -7,7 +7,7 @@
  * Key Features:
  * - Create notes for lessons or assistant chats
  * - Edit existing notes inline
- * - Delete notes with confirmation
+ * - Delete notes (moved to the trash, with undo)
  * - Filter notes by type (assistant/lesson)
  * - Search notes by content
  * - Mobile-responsive design
@@ -31,6 +31,7 @@ import {
   Loader2
 } from 'lucide-react';
 import { databaseService, type NoteRecord } from '../lib/database';
+import { useUndo } from '../contexts/useUndo';
 
 interface NotesPanelProps {
   type?: 'assistant' | 'lesson';
@@ -45,6 +46,7 @@ export default function NotesPanel({
   title = 'Notes',
   className = '' 
 }: NotesPanelProps) {
+  const { showUndo } = useUndo();
   const [notes, setNotes] = useState<NoteRecord[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -161,14 +163,23 @@ export default function NotesPanel({
   };
 
   /**
-   * Delete note
+   * Move note to the trash, with an undo toast
    */
   const deleteNote = async (noteId: string) => {
-    if (!confirm('Are you sure you want to delete this note?')) return;
+    const deletedNote = notes.find(note => note.id === noteId);
     
     try {
-      await databaseService.deleteNote(noteId);
+      const deletedAt = await databaseService.deleteNote(noteId);
       setNotes(prev => prev.filter(note => note.id !== noteId));
+      
+      showUndo('Note moved to trash', async () => {
+        await databaseService.restoreTrashItem({ type: 'note', id: noteId, deleted_at: deletedAt });
+        if (deletedNote) {
+          setNotes(prev =>
+            [...prev, deletedNote].sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+          );
+        }
+      });
     } catch (error) {
       console.error('Error deleting note:', error);
       setError('Failed to delete note');
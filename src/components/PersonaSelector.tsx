@@ -0,0 +1,137 @@
+/**
+ * Persona Selector Component
+ *
+ * Dropdown for choosing the assistant persona (CFO, marketing strategist,
+ * pitch coach, ...) used for the next questions. Lists the built-in
+ * personas followed by the user's custom personas, which are managed on
+ * the Profile page.
+ *
+ * Key Features:
+ * - Persona descriptions and custom persona section
+ * - Link to create personas on the Profile page
+ * - Mobile-responsive design
+ *
+ * @author BizGenius Team
+ * @version 1.0.0
+ */
+
+import { useState, useRef, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { UserCog, ChevronDown, Check, Plus } from 'lucide-react';
+import type { AssistantPersona } from '../lib/personas';
+
+interface PersonaSelectorProps {
+  personas: AssistantPersona[];
+  value: string;
+  onChange: (persona: AssistantPersona) => void;
+  disabled?: boolean;
+  align?: 'left' | 'right';
+}
+
+export default function PersonaSelector({
+  personas,
+  value,
+  onChange,
+  disabled = false,
+  align = 'left'
+}: PersonaSelectorProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  /**
+   * Close when clicking outside
+   */
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const selectedPersona = personas.find(persona => persona.id === value);
+  const builtInPersonas = personas.filter(persona => !persona.isCustom);
+  const customPersonas = personas.filter(persona => persona.isCustom);
+
+  /**
+   * Choose a persona and close the dropdown
+   */
+  const selectPersona = (persona: AssistantPersona) => {
+    onChange(persona);
+    setIsOpen(false);
+  };
+
+  const renderOption = (persona: AssistantPersona) => (
+    <li key={persona.id}>
+      <button
+        type="button"
+        onClick={() => selectPersona(persona)}
+        className={`w-full text-left px-3 py-2 flex items-start space-x-2 hover:bg-gray-50 transition-colors ${
+          persona.id === value ? 'bg-blue-50' : ''
+        }`}
+      >
+        <Check className={`h-4 w-4 mt-0.5 flex-shrink-0 ${persona.id === value ? 'text-blue-600' : 'invisible'}`} />
+        <div className="min-w-0">
+          <p className="text-sm font-medium text-gray-900 truncate">{persona.name}</p>
+          {persona.description && (
+            <p className="text-xs text-gray-500 line-clamp-2">{persona.description}</p>
+          )}
+        </div>
+      </button>
+    </li>
+  );
+
+  return (
+    <div ref={containerRef} className="relative">
+      {/* Trigger */}
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="max-w-full px-2 py-2 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors flex items-center space-x-1 disabled:opacity-50 disabled:cursor-not-allowed sm:px-3 sm:text-sm"
+        aria-label="Choose assistant persona"
+      >
+        <UserCog className="h-4 w-4 flex-shrink-0" />
+        <span className="truncate max-w-[6rem] sm:max-w-[10rem]">{selectedPersona?.name || 'Persona'}</span>
+        <ChevronDown className="h-4 w-4 flex-shrink-0" />
+      </button>
+
+      {/* Dropdown */}
+      {isOpen && (
+        <div className={`absolute z-20 mt-2 w-72 max-w-[90vw] bg-white border border-gray-200 rounded-lg shadow-lg ${
+          align === 'right' ? 'right-0' : 'left-0'
+        }`}>
+          <div className="max-h-80 overflow-y-auto">
+            <ul className="py-1">
+              {builtInPersonas.map(renderOption)}
+            </ul>
+
+            {customPersonas.length > 0 && (
+              <>
+                <p className="px-3 pt-2 pb-1 text-xs font-semibold text-gray-500 uppercase border-t border-gray-200">
+                  Your personas
+                </p>
+                <ul className="pb-1">
+                  {customPersonas.map(renderOption)}
+                </ul>
+              </>
+            )}
+          </div>
+
+          <Link
+            to="/profile"
+            className="flex items-center space-x-2 px-3 py-2 text-sm text-blue-600 border-t border-gray-200 hover:bg-gray-50"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Create a custom persona</span>
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+}
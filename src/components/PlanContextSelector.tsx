@@ -0,0 +1,141 @@
+/**
+ * Plan Context Selector Component
+ *
+ * Lets users attach one of their saved business plans to the AI Assistant
+ * so answers are grounded in the plan's inputs and sections. Shown above
+ * the message input; the attached plan applies to every following
+ * question until it is removed.
+ *
+ * Key Features:
+ * - Lists saved plans with industry and date
+ * - Attached plan shown as a removable chip
+ * - Link to create a plan when none exist
+ *
+ * @author BizGenius Team
+ * @version 1.0.0
+ */
+
+import { useState, useRef, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { FileText, ChevronDown, Check, X, Plus } from 'lucide-react';
+import type { BusinessPlanRecord } from '../lib/database';
+
+interface PlanContextSelectorProps {
+  plans: BusinessPlanRecord[];
+  value: BusinessPlanRecord | null;
+  onChange: (plan: BusinessPlanRecord | null) => void;
+  disabled?: boolean;
+}
+
+export default function PlanContextSelector({
+  plans,
+  value,
+  onChange,
+  disabled = false
+}: PlanContextSelectorProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  /**
+   * Close when clicking outside
+   */
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  /**
+   * Attach a plan and close the dropdown
+   */
+  const selectPlan = (plan: BusinessPlanRecord) => {
+    onChange(plan);
+    setIsOpen(false);
+  };
+
+  return (
+    <div ref={containerRef} className="relative flex items-center space-x-2">
+      {value ? (
+        <span className="inline-flex items-center max-w-full px-2 py-1 text-xs font-medium text-emerald-800 bg-emerald-50 border border-emerald-200 rounded-full">
+          <FileText className="h-3 w-3 mr-1 flex-shrink-0" />
+          <button
+            type="button"
+            onClick={() => setIsOpen(!isOpen)}
+            disabled={disabled}
+            className="truncate max-w-[12rem] sm:max-w-xs hover:underline disabled:no-underline"
+            title="Change attached plan"
+          >
+            Plan: {value.title}
+          </button>
+          <button
+            type="button"
+            onClick={() => onChange(null)}
+            disabled={disabled}
+            className="ml-1 p-0.5 rounded-full hover:bg-emerald-100"
+            aria-label="Remove plan context"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </span>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setIsOpen(!isOpen)}
+          disabled={disabled}
+          className="inline-flex items-center px-2 py-1 text-xs font-medium text-gray-600 bg-white border border-gray-300 rounded-full hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <FileText className="h-3 w-3 mr-1" />
+          <span>Attach plan context</span>
+          <ChevronDown className="h-3 w-3 ml-1" />
+        </button>
+      )}
+
+      {/* Dropdown - opens upwards from the input area */}
+      {isOpen && (
+        <div className="absolute z-20 bottom-full mb-2 left-0 w-72 max-w-[90vw] bg-white border border-gray-200 rounded-lg shadow-lg">
+          {plans.length === 0 ? (
+            <div className="p-3">
+              <p className="text-sm text-gray-600 mb-2">You haven't saved any business plans yet.</p>
+              <Link
+                to="/business-plan"
+                className="inline-flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700"
+              >
+                <Plus className="h-4 w-4" />
+                <span>Create a business plan</span>
+              </Link>
+            </div>
+          ) : (
+            <ul className="max-h-64 overflow-y-auto py-1">
+              {plans.map(plan => (
+                <li key={plan.id}>
+                  <button
+                    type="button"
+                    onClick={() => selectPlan(plan)}
+                    className={`w-full text-left px-3 py-2 flex items-start space-x-2 hover:bg-gray-50 transition-colors ${
+                      plan.id === value?.id ? 'bg-blue-50' : ''
+                    }`}
+                  >
+                    <Check className={`h-4 w-4 mt-0.5 flex-shrink-0 ${plan.id === value?.id ? 'text-blue-600' : 'invisible'}`} />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">{plan.title}</p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {plan.industry} · {new Date(plan.created_at).toLocaleDateString()}
+                      </p>
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
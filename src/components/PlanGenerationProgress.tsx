@@ -0,0 +1,81 @@
+/**
+ * Plan Generation Progress Component
+ *
+ * Per-section progress of business plan generation: each section is shown
+ * as waiting, generating, done or failed (with the reason), and failed
+ * sections get a Retry button when onRetry is given.
+ *
+ * @author BizGenius Team
+ * @version 1.0.0
+ */
+
+import { CheckCircle, Circle, Loader2, AlertCircle, RefreshCw } from 'lucide-react';
+import type { PlanSectionProgress } from '../lib/businessPlanGenerator';
+
+interface PlanGenerationProgressProps {
+  progress: PlanSectionProgress[];
+  onRetry?: (title: string) => void;
+  showSummary?: boolean;
+}
+
+export default function PlanGenerationProgress({ progress, onRetry, showSummary = true }: PlanGenerationProgressProps) {
+  const completed = progress.filter(item => item.status === 'complete').length;
+
+  return (
+    <div>
+      {showSummary && (
+        <>
+          <p className="text-sm font-medium text-gray-700 mb-2">
+            {completed} of {progress.length} sections written
+          </p>
+          <div
+            className="h-2 bg-gray-100 rounded-full overflow-hidden mb-4"
+            role="progressbar"
+            aria-valuemin={0}
+            aria-valuemax={progress.length}
+            aria-valuenow={completed}
+          >
+            <div
+              className="h-full bg-blue-600 transition-all duration-300"
+              style={{ width: `${progress.length > 0 ? (completed / progress.length) * 100 : 0}%` }}
+            />
+          </div>
+        </>
+      )}
+
+      <ol className="space-y-2">
+        {progress.map(item => (
+          <li key={item.title} className="flex items-start text-sm">
+            {item.status === 'complete' ? (
+              <CheckCircle className="h-4 w-4 mt-0.5 mr-2 flex-shrink-0 text-green-600" />
+            ) : item.status === 'generating' ? (
+              <Loader2 className="h-4 w-4 mt-0.5 mr-2 flex-shrink-0 text-blue-600 animate-spin" />
+            ) : item.status === 'failed' ? (
+              <AlertCircle className="h-4 w-4 mt-0.5 mr-2 flex-shrink-0 text-red-500" />
+            ) : (
+              <Circle className="h-4 w-4 mt-0.5 mr-2 flex-shrink-0 text-gray-300" />
+            )}
+
+            <div className="flex-1 min-w-0">
+              <span className={item.status === 'pending' ? 'text-gray-500' : 'text-gray-900'}>{item.title}</span>
+              {item.status === 'failed' && item.error && (
+                <p className="text-xs text-red-600 mt-0.5">{item.error}</p>
+              )}
+            </div>
+
+            {item.status === 'failed' && onRetry && (
+              <button
+                type="button"
+                onClick={() => onRetry(item.title)}
+                className="ml-2 px-2 py-1 text-xs font-medium text-blue-700 bg-blue-50 rounded-md hover:bg-blue-100 transition-colors flex items-center flex-shrink-0"
+              >
+                <RefreshCw className="h-3 w-3 mr-1" />
+                Retry
+              </button>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
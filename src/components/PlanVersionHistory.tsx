@@ -0,0 +1,278 @@
+/**
+ * Plan Version History Component
+ *
+ * Version timeline of a business plan in the plan viewer. Every save is a
+ * version (creation, manual edits, AI modifications, section actions and
+ * restores) with its author, time and change summary.
+ *
+ * Key Features:
+ * - Timeline, newest first, with the current version marked
+ * - Section-by-section diff between any two versions
+ * - One-click restore of an older version (saved as a new version, so
+ *   nothing is lost)
+ *
+ * @author BizGenius Team
+ * @version 1.0.0
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { History, RotateCcw, Loader2, AlertCircle, X } from 'lucide-react';
+import { databaseService, type BusinessPlanRecord, type BusinessPlanVersionRecord, type PlanChangeType } from '../lib/database';
+import { comparePlanSections } from '../lib/businessPlanGenerator';
+import SectionDiff from './SectionDiff';
+
+interface PlanVersionHistoryProps {
+  plan: BusinessPlanRecord;
+  onRestore: (version: BusinessPlanVersionRecord) => Promise<void>;
+  onClose: () => void;
+}
+
+const CHANGE_TYPE_LABELS: Record<PlanChangeType, string> = {
+  created: 'Created',
+  manual_edit: 'Manual edit',
+  ai_modification: 'AI modification',
+  section_action: 'Section AI action',
+  section_retry: 'Section generated',
+  restore: 'Restored'
+};
+
+const CHANGE_BADGES = {
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-800',
+  changed: 'bg-blue-100 text-blue-800'
+};
+
+export default function PlanVersionHistory({ plan, onRestore, onClose }: PlanVersionHistoryProps) {
+  const [versions, setVersions] = useState<BusinessPlanVersionRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  /**
+   * Load the versions, again whenever the plan is saved; the newest
+   * version is selected and compared with the one before it
+   */
+  useEffect(() => {
+    let isCancelled = false;
+
+    const loadVersions = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const loaded = await databaseService.getBusinessPlanVersions(plan.id);
+        if (isCancelled) return;
+        setVersions(loaded);
+        setSelectedId(loaded[0]?.id ?? null);
+        setCompareId(loaded[1]?.id ?? null);
+      } catch (error) {
+        if (!isCancelled) {
+          setError(error instanceof Error ? error.message : 'Failed to load version history');
+        }
+      } finally {
+        if (!isCancelled) setIsLoading(false);
+      }
+    };
+
+    loadVersions();
+    return () => {
+      isCancelled = true;
+    };
+  }, [plan.id, plan.last_modified_at]);
+
+  const selected = versions.find(version => version.id === selectedId) || null;
+  const compared = versions.find(version => version.id === compareId) || null;
+  const isCurrent = selected !== null && selected.id === versions[0]?.id;
+
+  // Changes always read from the older version to the newer one
+  const [older, newer] = selected && compared && compared.version_number > selected.version_number
+    ? [selected, compared]
+    : [compared, selected];
+
+  const changes = useMemo(
+    () => (older && newer ? comparePlanSections(older.generated_plan, newer.generated_plan) : []),
+    [older, newer]
+  );
+  const changedSections = changes.filter(section => section.change !== 'unchanged');
+
+  /**
+   * Select a version and compare it with the version before it
+   */
+  const selectVersion = (index: number) => {
+    setSelectedId(versions[index].id);
+    setCompareId(versions[index + 1]?.id ?? null);
+  };
+
+  const restore = async () => {
+    if (!selected || isCurrent) return;
+    if (!confirm(`Restore version ${selected.version_number}? The current content is kept in the history.`)) return;
+
+    setIsRestoring(true);
+    setError(null);
+    try {
+      await onRestore(selected);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to restore version');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-4 sm:p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+          <History className="h-5 w-5 mr-2" />
+          Version History
+        </h3>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1 rounded text-gray-400 hover:text-gray-600 transition-colors"
+          aria-label="Close version history"
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+          <AlertCircle className="h-4 w-4 text-red-500 flex-shrink-0" />
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {isLoading && versions.length === 0 ? (
+        <div className="flex items-center justify-center py-8 text-sm text-gray-500">
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          Loading history...
+        </div>
+      ) : versions.length === 0 ? (
+        <p className="text-sm text-gray-500">No versions have been recorded for this plan yet.</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Timeline, newest first */}
+          <ol className="space-y-1 lg:max-h-[32rem] lg:overflow-y-auto lg:pr-2">
+            {versions.map((version, index) => (
+              <li key={version.id}>
+                <button
+                  type="button"
+                  onClick={() => selectVersion(index)}
+                  className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                    version.id === selectedId
+                      ? 'border-blue-300 bg-blue-50'
+                      : 'border-transparent hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium text-gray-900">Version {version.version_number}</span>
+                    {index === 0 && (
+                      <span className="px-2 py-0.5 text-xs font-medium text-green-800 bg-green-100 rounded-full">Current</span>
+                    )}
+                  </div>
+                  <p className="text-xs font-medium text-gray-600 mt-1">{CHANGE_TYPE_LABELS[version.change_type]}</p>
+                  {version.change_summary && (
+                    <p className="text-xs text-gray-600 mt-0.5 line-clamp-2">{version.change_summary}</p>
+                  )}
+                  <p className="text-xs text-gray-500 mt-1">
+                    {version.author_name ? `${version.author_name} · ` : ''}
+                    {new Date(version.created_at).toLocaleString()}
+                  </p>
+                  {version.ai_model && (
+                    <p className="text-xs text-gray-400 mt-0.5 truncate">{version.ai_model}</p>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ol>
+
+          {/* Comparison of the selected version */}
+          {selected && (
+            <div className="lg:col-span-2 min-w-0">
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+                  <label htmlFor="compare-version">Version {selected.version_number} compared with</label>
+                  <select
+                    id="compare-version"
+                    value={compareId ?? ''}
+                    onChange={(e) => setCompareId(e.target.value || null)}
+                    className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">Select a version</option>
+                    {versions
+                      .filter(version => version.id !== selected.id)
+                      .map(version => (
+                        <option key={version.id} value={version.id}>
+                          Version {version.version_number}
+                        </option>
+                      ))}
+                  </select>
+                </div>
+
+                {!isCurrent && (
+                  <button
+                    type="button"
+                    onClick={restore}
+                    disabled={isRestoring}
+                    className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center"
+                  >
+                    {isRestoring ? (
+                      <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                    ) : (
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                    )}
+                    Restore this version
+                  </button>
+                )}
+              </div>
+
+              {!older || !newer ? (
+                <p className="text-sm text-gray-500">
+                  {versions.length === 1 ? 'This is the only version of the plan.' : 'Select a version to compare with.'}
+                </p>
+              ) : (
+                <div className="space-y-4">
+                  <p className="text-xs text-gray-500">
+                    Changes from version {older.version_number} to version {newer.version_number}
+                  </p>
+
+                  {older.title !== newer.title && (
+                    <div>
+                      <p className="text-sm font-medium text-gray-900 mb-2">Plan title</p>
+                      <SectionDiff before={older.title} after={newer.title} />
+                    </div>
+                  )}
+
+                  {changedSections.length === 0 && older.title === newer.title ? (
+                    <p className="text-sm text-gray-500">These versions have the same content.</p>
+                  ) : (
+                    changedSections.map(section => (
+                      <div key={`${section.change}/${section.title}`}>
+                        <div className="flex items-center gap-2 mb-2">
+                          <p className="text-sm font-medium text-gray-900">{section.title}</p>
+                          <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${CHANGE_BADGES[section.change as keyof typeof CHANGE_BADGES]}`}>
+                            {section.change === 'added' ? 'Added' : section.change === 'removed' ? 'Removed' : 'Changed'}
+                          </span>
+                        </div>
+                        <SectionDiff before={section.before} after={section.after} />
+                      </div>
+                    ))
+                  )}
+
+                  {changes.length > changedSections.length && (
+                    <p className="text-xs text-gray-500">
+                      {changes.length - changedSections.length === 1
+                        ? '1 section unchanged'
+                        : `${changes.length - changedSections.length} sections unchanged`}
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
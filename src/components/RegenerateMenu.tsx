@@ -0,0 +1,129 @@
+/**
+ * Regenerate Menu Component
+ *
+ * Per-answer action in the AI Assistant for generating a new answer to the
+ * same question, optionally with another model or temperature. The new
+ * answer is stored as an alternative branch next to the original, so
+ * nothing is lost.
+ *
+ * Key Features:
+ * - One-click regenerate with the answer's model
+ * - Model override (reuses ModelSelector)
+ * - Temperature slider, starting at the persona's temperature
+ *
+ * @author BizGenius Team
+ * @version 1.0.0
+ */
+
+import { useState, useRef, useEffect } from 'react';
+import { RefreshCw } from 'lucide-react';
+import type { ModelInfo } from '../lib/llmProvider';
+import type { GenerationOverrides } from '../lib/openai';
+import ModelSelector from './ModelSelector';
+
+interface RegenerateMenuProps {
+  defaultModel: string;
+  defaultTemperature: number;
+  loadModels: () => Promise<ModelInfo[]>;
+  onRegenerate: (overrides: GenerationOverrides) => void;
+  disabled?: boolean;
+}
+
+export default function RegenerateMenu({
+  defaultModel,
+  defaultTemperature,
+  loadModels,
+  onRegenerate,
+  disabled = false
+}: RegenerateMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [model, setModel] = useState(defaultModel);
+  const [temperature, setTemperature] = useState(defaultTemperature);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  /**
+   * Start from the answer's model and the persona's temperature on every open
+   */
+  useEffect(() => {
+    if (!isOpen) return;
+    setModel(defaultModel);
+    setTemperature(defaultTemperature);
+  }, [isOpen, defaultModel, defaultTemperature]);
+
+  /**
+   * Close when clicking outside
+   */
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const regenerate = () => {
+    setIsOpen(false);
+    onRegenerate({ model, temperature });
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="p-1 rounded text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        aria-label="Regenerate answer"
+        title="Regenerate answer"
+      >
+        <RefreshCw className="h-4 w-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 bottom-full z-20 mb-2 w-72 max-w-[90vw] p-3 space-y-3 bg-white border border-gray-200 rounded-lg shadow-lg">
+          <p className="text-sm font-medium text-gray-900">Regenerate answer</p>
+
+          <div>
+            <p className="text-xs font-medium text-gray-600 mb-1">Model</p>
+            <ModelSelector value={model} onChange={setModel} loadModels={loadModels} />
+          </div>
+
+          <div>
+            <label htmlFor="regenerate-temperature" className="flex justify-between text-xs font-medium text-gray-600 mb-1">
+              <span>Temperature</span>
+              <span>{temperature.toFixed(1)}</span>
+            </label>
+            <input
+              id="regenerate-temperature"
+              type="range"
+              min={0}
+              max={1.5}
+              step={0.1}
+              value={temperature}
+              onChange={(e) => setTemperature(Number(e.target.value))}
+              className="w-full"
+            />
+            <div className="flex justify-between text-xs text-gray-500">
+              <span>Focused</span>
+              <span>Creative</span>
+            </div>
+          </div>
+
+          <button
+            type="button"
+            onClick={regenerate}
+            className="w-full px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors flex items-center justify-center space-x-2"
+          >
+            <RefreshCw className="h-4 w-4" />
+            <span>Regenerate</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+/**
+ * Section Actions Menu Component
+ *
+ * Per-section AI actions in the business plan viewer. Each action produces
+ * a new version of that one section, which is shown as a diff for the user
+ * to accept or discard; the rest of the plan is not touched.
+ *
+ * Key Features:
+ * - Regenerate, expand, shorten and make more conservative
+ * - Rewrite for an audience, with common audiences as quick picks
+ *
+ * @author BizGenius Team
+ * @version 1.0.0
+ */
+
+import { useState, useRef, useEffect } from 'react';
+import { Wand2, RefreshCw, Maximize2, Minimize2, ShieldCheck, Users } from 'lucide-react';
+import type { SectionAction } from '../lib/businessPlanGenerator';
+
+interface SectionActionsMenuProps {
+  sectionTitle: string;
+  onAction: (action: SectionAction, label: string) => void;
+  disabled?: boolean;
+}
+
+const SIMPLE_ACTIONS = [
+  { action: { type: 'regenerate' }, label: 'Regenerate', icon: RefreshCw },
+  { action: { type: 'expand' }, label: 'Expand', icon: Maximize2 },
+  { action: { type: 'shorten' }, label: 'Shorten', icon: Minimize2 },
+  { action: { type: 'conservative' }, label: 'Make more conservative', icon: ShieldCheck }
+] as const;
+
+const SUGGESTED_AUDIENCES = ['Investors', 'Bank loan officers', 'Potential partners', 'Employees'];
+
+export default function SectionActionsMenu({ sectionTitle, onAction, disabled = false }: SectionActionsMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [audience, setAudience] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  /**
+   * Close when clicking outside
+   */
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const runAction = (action: SectionAction, label: string) => {
+    setIsOpen(false);
+    onAction(action, label);
+  };
+
+  const rewriteForAudience = (value: string) => {
+    const trimmed = value.trim();
+    if (!trimmed) return;
+    setAudience('');
+    runAction({ type: 'audience', audience: trimmed }, `Rewrite for ${trimmed.toLowerCase()}`);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="px-2 py-1 text-xs font-medium text-gray-600 bg-white border border-gray-200 rounded-md hover:bg-gray-50 transition-colors flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+        aria-label={`AI actions for ${sectionTitle}`}
+        title="AI actions for this section"
+      >
+        <Wand2 className="h-3.5 w-3.5 mr-1" />
+        AI Edit
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full z-20 mt-2 w-72 max-w-[90vw] p-3 space-y-3 bg-white border border-gray-200 rounded-lg shadow-lg">
+          <p className="text-sm font-medium text-gray-900 truncate">{sectionTitle}</p>
+
+          <div className="space-y-1">
+            {SIMPLE_ACTIONS.map(({ action, label, icon: Icon }) => (
+              <button
+                key={action.type}
+                type="button"
+                onClick={() => runAction(action, label)}
+                className="w-full px-2 py-1.5 text-sm text-left text-gray-700 rounded-md hover:bg-gray-100 transition-colors flex items-center"
+              >
+                <Icon className="h-4 w-4 mr-2 text-gray-500" />
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              rewriteForAudience(audience);
+            }}
+            className="pt-3 border-t border-gray-100"
+          >
+            <label htmlFor="section-audience" className="flex items-center text-xs font-medium text-gray-600 mb-1">
+              <Users className="h-3.5 w-3.5 mr-1" />
+              Rewrite for an audience
+            </label>
+            <div className="flex space-x-2">
+              <input
+                id="section-audience"
+                type="text"
+                value={audience}
+                onChange={(e) => setAudience(e.target.value)}
+                placeholder="e.g. Angel investors"
+                maxLength={100}
+                className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <button
+                type="submit"
+                disabled={!audience.trim()}
+                className="px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Rewrite
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-1 mt-2">
+              {SUGGESTED_AUDIENCES.map(suggestion => (
+                <button
+                  key={suggestion}
+                  type="button"
+                  onClick={() => rewriteForAudience(suggestion)}
+                  className="px-2 py-0.5 text-xs text-blue-700 bg-blue-50 rounded-full hover:bg-blue-100 transition-colors"
+                >
+                  {suggestion}
+                </button>
+              ))}
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+/**
+ * Section Diff Component
+ *
+ * Line-by-line comparison of two versions of a business plan section:
+ * removed lines in red, added lines in green, unchanged lines in gray.
+ * Long unchanged stretches are collapsed to the lines around the changes.
+ *
+ * @author BizGenius Team
+ * @version 1.0.0
+ */
+
+import { useMemo } from 'react';
+import { diffLines, getDiffStats } from '../lib/textDiff';
+
+interface SectionDiffProps {
+  before: string;
+  after: string;
+}
+
+// Unchanged lines kept around each change when collapsing
+const CONTEXT_LINES = 2;
+
+export default function SectionDiff({ before, after }: SectionDiffProps) {
+  const lines = useMemo(() => diffLines(before, after), [before, after]);
+  const stats = useMemo(() => getDiffStats(lines), [lines]);
+
+  const visible = useMemo(() => lines.map((line, index) => {
+    if (line.type !== 'same') return true;
+    for (let offset = -CONTEXT_LINES; offset <= CONTEXT_LINES; offset++) {
+      const near = lines[index + offset];
+      if (near && near.type !== 'same') return true;
+    }
+    return false;
+  }), [lines]);
+
+  if (stats.added === 0 && stats.removed === 0) {
+    return <p className="text-sm text-gray-500">No changes.</p>;
+  }
+
+  return (
+    <div>
+      <p className="text-xs text-gray-500 mb-2">
+        <span className="text-green-700">+{stats.added}</span>{' '}
+        <span className="text-red-700">-{stats.removed}</span> lines
+      </p>
+      <div className="max-h-[28rem] overflow-auto border border-gray-200 rounded-md font-mono text-xs leading-5">
+        {lines.map((line, index) => {
+          if (!visible[index]) {
+            return visible[index - 1] || index === 0 ? (
+              <div key={index} className="px-3 py-0.5 text-gray-400 bg-gray-50 select-none">⋯</div>
+            ) : null;
+          }
+
+          return (
+            <div
+              key={index}
+              className={`px-3 whitespace-pre-wrap break-words ${
+                line.type === 'added'
+                  ? 'bg-green-50 text-green-800'
+                  : line.type === 'removed'
+                    ? 'bg-red-50 text-red-800 line-through decoration-red-300'
+                    : 'text-gray-600'
+              }`}
+            >
+              <span className="inline-block w-4 select-none text-gray-400">
+                {line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}
+              </span>
+              {line.text || ' '}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+/**
+ * Tool Invocation List Component
+ *
+ * Shows the tools the AI Assistant called while answering (calculators,
+ * course search, business plans, notes) inline in the chat transcript.
+ * Each call can be expanded to see the exact inputs and the result the
+ * answer is based on.
+ *
+ * Key Features:
+ * - Collapsed one-line summary per call
+ * - Inputs and results as readable key/value lists
+ * - Failed calls highlighted with their error
+ *
+ * @author BizGenius Team
+ * @version 1.0.0
+ */
+
+import { Wrench, AlertCircle, ChevronRight } from 'lucide-react';
+import type { ToolInvocation } from '../lib/assistantTools';
+
+interface ToolInvocationListProps {
+  invocations: ToolInvocation[];
+}
+
+/**
+ * Turn snake_case / camelCase keys into labels
+ */
+const formatKey = (key: string): string =>
+  key
+    .replace(/_/g, ' ')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/^\w/, char => char.toUpperCase());
+
+/**
+ * Format a scalar value for display
+ */
+const formatScalar = (value: unknown): string => {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'number') return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Render a value: objects as key/value lists, arrays of scalars inline,
+ * other arrays as numbered items
+ */
+const renderValue = (value: unknown) => {
+  if (isPlainObject(value)) {
+    return (
+      <dl className="grid grid-cols-[auto,1fr] gap-x-3 gap-y-0.5">
+        {Object.entries(value).map(([key, item]) => (
+          <div key={key} className="contents">
+            <dt className="text-gray-500">{formatKey(key)}</dt>
+            <dd className="text-gray-900 break-words">
+              {isPlainObject(item) || Array.isArray(item) ? renderValue(item) : formatScalar(item)}
+            </dd>
+          </div>
+        ))}
+      </dl>
+    );
+  }
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return <span className="text-gray-500">No results</span>;
+    if (value.every(item => !isPlainObject(item) && !Array.isArray(item))) {
+      return <span>{value.map(formatScalar).join(', ')}</span>;
+    }
+    return (
+      <ol className="space-y-2">
+        {value.map((item, index) => (
+          <li key={index} className="pl-2 border-l-2 border-gray-200">{renderValue(item)}</li>
+        ))}
+      </ol>
+    );
+  }
+
+  return <span>{formatScalar(value)}</span>;
+};
+
+export default function ToolInvocationList({ invocations }: ToolInvocationListProps) {
+  if (invocations.length === 0) return null;
+
+  return (
+    <div className="space-y-1 mb-2">
+      {invocations.map(invocation => (
+        <details
+          key={invocation.id}
+          className={`group rounded-md border text-xs ${
+            invocation.error ? 'border-red-200 bg-red-50' : 'border-gray-200 bg-gray-50'
+          }`}
+        >
+          <summary className="flex items-center space-x-1 px-2 py-1 cursor-pointer select-none list-none">
+            <ChevronRight className="h-3 w-3 text-gray-400 transition-transform group-open:rotate-90" />
+            {invocation.error ? (
+              <AlertCircle className="h-3 w-3 text-red-500" />
+            ) : (
+              <Wrench className="h-3 w-3 text-gray-500" />
+            )}
+            <span className="font-medium text-gray-700">{invocation.label}</span>
+            {invocation.error && <span className="text-red-700 truncate">· {invocation.error}</span>}
+          </summary>
+
+          <div className="px-3 pb-2 pt-1 space-y-2">
+            {Object.keys(invocation.arguments).length > 0 && (
+              <div>
+                <p className="font-semibold text-gray-600 mb-0.5">Inputs</p>
+                {renderValue(invocation.arguments)}
+              </div>
+            )}
+            {!invocation.error && (
+              <div>
+                <p className="font-semibold text-gray-600 mb-0.5">Result</p>
+                {renderValue(invocation.result)}
+              </div>
+            )}
+          </div>
+        </details>
+      ))}
+    </div>
+  );
+}
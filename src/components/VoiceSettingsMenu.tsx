@@ -0,0 +1,157 @@
+/**
+ * Voice Settings Menu Component
+ *
+ * Header menu in the AI Assistant for read-aloud and hands-free settings:
+ * the speech synthesis voice, the reading speed and hands-free mode
+ * (dictated questions are sent on release and answers are read aloud).
+ *
+ * Key Features:
+ * - Voices offered by the browser/device, default voice first
+ * - Reading speed slider with a sample
+ * - Hands-free toggle, highlighted on the menu button while on
+ *
+ * @author BizGenius Team
+ * @version 1.0.0
+ */
+
+import { useState, useRef, useEffect } from 'react';
+import { Volume2, Headphones, Play } from 'lucide-react';
+import type { VoicePreferences } from '../lib/database';
+import { isSpeechSynthesisSupported, loadVoices, speak } from '../lib/speech';
+
+interface VoiceSettingsMenuProps {
+  preferences: VoicePreferences;
+  onChange: (updates: VoicePreferences) => void;
+  disabled?: boolean;
+}
+
+const SAMPLE_TEXT = 'This is how answers will sound.';
+
+export default function VoiceSettingsMenu({
+  preferences,
+  onChange,
+  disabled = false
+}: VoiceSettingsMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canSpeak = isSpeechSynthesisSupported();
+  const rate = preferences.rate ?? 1;
+
+  /**
+   * Load voices on first open, default voice first
+   */
+  useEffect(() => {
+    if (!isOpen || voices.length > 0) return;
+
+    loadVoices().then(available => {
+      setVoices([...available].sort((a, b) =>
+        Number(b.default) - Number(a.default) || a.name.localeCompare(b.name)
+      ));
+    });
+  }, [isOpen, voices.length]);
+
+  /**
+   * Close when clicking outside
+   */
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className={`px-2 py-2 text-xs font-medium border rounded-md transition-colors flex items-center disabled:opacity-50 disabled:cursor-not-allowed sm:px-3 sm:text-sm ${
+          preferences.hands_free
+            ? 'text-blue-700 bg-blue-50 border-blue-300 hover:bg-blue-100'
+            : 'text-gray-700 bg-white border-gray-300 hover:bg-gray-50'
+        }`}
+        aria-label="Voice settings"
+        title={preferences.hands_free ? 'Hands-free mode is on' : 'Voice settings'}
+      >
+        {preferences.hands_free ? <Headphones className="h-4 w-4 sm:mr-2" /> : <Volume2 className="h-4 w-4 sm:mr-2" />}
+        <span className="hidden sm:inline">Voice</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-20 mt-2 w-72 max-w-[90vw] p-3 space-y-3 bg-white border border-gray-200 rounded-lg shadow-lg">
+          {canSpeak ? (
+            <>
+              <div>
+                <label htmlFor="voice-select" className="block text-xs font-medium text-gray-600 mb-1">Voice</label>
+                <select
+                  id="voice-select"
+                  value={preferences.voice_uri || ''}
+                  onChange={(e) => onChange({ voice_uri: e.target.value || undefined })}
+                  className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Browser default</option>
+                  {voices.map(voice => (
+                    <option key={voice.voiceURI} value={voice.voiceURI}>
+                      {voice.name} ({voice.lang})
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="voice-rate" className="flex justify-between text-xs font-medium text-gray-600 mb-1">
+                  <span>Speed</span>
+                  <span>{rate.toFixed(1)}×</span>
+                </label>
+                <input
+                  id="voice-rate"
+                  type="range"
+                  min={0.5}
+                  max={2}
+                  step={0.1}
+                  value={rate}
+                  onChange={(e) => onChange({ rate: Number(e.target.value) })}
+                  className="w-full"
+                />
+              </div>
+
+              <button
+                type="button"
+                onClick={() => speak(SAMPLE_TEXT, { voiceURI: preferences.voice_uri, rate })}
+                className="w-full px-3 py-1.5 text-sm font-medium text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors flex items-center justify-center space-x-2"
+              >
+                <Play className="h-4 w-4" />
+                <span>Play sample</span>
+              </button>
+            </>
+          ) : (
+            <p className="text-sm text-gray-600">Reading aloud is not supported in this browser.</p>
+          )}
+
+          <label className="flex items-start space-x-2 pt-2 border-t border-gray-100">
+            <input
+              type="checkbox"
+              checked={Boolean(preferences.hands_free)}
+              onChange={(e) => onChange({ hands_free: e.target.checked })}
+              className="mt-0.5 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            <span>
+              <span className="block text-sm font-medium text-gray-900">Hands-free mode</span>
+              <span className="block text-xs text-gray-500">
+                Send dictated questions when you release the microphone and read answers aloud
+              </span>
+            </span>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+/**
+ * Undo Context
+ *
+ * App-wide toast shown right after something is moved to the trash, with
+ * an Undo button. Pages call showUndo with a message and the function that
+ * restores the item; a newer deletion replaces the toast. Pages get
+ * showUndo from the useUndo hook (useUndo.ts).
+ *
+ * @author BizGenius Team
+ * @version 1.0.0
+ */
+
+import { useState, useEffect, useRef, ReactNode } from 'react';
+import { Link } from 'react-router-dom';
+import { Undo2, X, Loader2 } from 'lucide-react';
+import { UndoContext } from './useUndo';
+
+// How long the toast stays up
+const UNDO_TIMEOUT_MS = 8000;
+
+interface UndoToast {
+  id: number;
+  message: string;
+  onUndo: () => Promise<void> | void;
+}
+
+interface UndoProviderProps {
+  children: ReactNode;
+}
+
+export function UndoProvider({ children }: UndoProviderProps) {
+  const [toast, setToast] = useState<UndoToast | null>(null);
+  const [isUndoing, setIsUndoing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const nextIdRef = useRef(0);
+
+  /**
+   * Hide the toast after a while, unless an undo is running
+   */
+  useEffect(() => {
+    if (!toast || isUndoing) return;
+
+    const timer = setTimeout(() => {
+      setToast(current => (current?.id === toast.id ? null : current));
+    }, UNDO_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [toast, isUndoing]);
+
+  const showUndo = (message: string, onUndo: () => Promise<void> | void) => {
+    nextIdRef.current += 1;
+    setToast({ id: nextIdRef.current, message, onUndo });
+    setError(null);
+  };
+
+  const undo = async () => {
+    if (!toast) return;
+
+    try {
+      setIsUndoing(true);
+      setError(null);
+      await toast.onUndo();
+      setToast(null);
+    } catch (err) {
+      console.error('Error undoing deletion:', err);
+      setError('Could not undo. The item is still in the trash.');
+    } finally {
+      setIsUndoing(false);
+    }
+  };
+
+  return (
+    <UndoContext.Provider value={{ showUndo }}>
+      {children}
+
+      {toast && (
+        <div
+          role="status"
+          className="fixed bottom-4 left-1/2 z-50 -translate-x-1/2 w-[calc(100%-2rem)] max-w-md px-4 py-3 bg-gray-900 text-white rounded-lg shadow-lg"
+        >
+          <div className="flex items-center space-x-3">
+            <p className="flex-1 text-sm">{error || toast.message}</p>
+            {error ? (
+              <Link
+                to="/trash"
+                onClick={() => setToast(null)}
+                className="text-sm font-medium text-blue-300 hover:text-blue-200"
+              >
+                Open Trash
+              </Link>
+            ) : (
+              <button
+                type="button"
+                onClick={undo}
+                disabled={isUndoing}
+                className="flex items-center space-x-1 text-sm font-medium text-blue-300 hover:text-blue-200 disabled:opacity-50"
+              >
+                {isUndoing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Undo2 className="h-4 w-4" />}
+                <span>Undo</span>
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => setToast(null)}
+              className="p-1 text-gray-400 hover:text-white"
+              aria-label="Dismiss"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      )}
+    </UndoContext.Provider>
+  );
+}
@@ -0,0 +1,25 @@
+/**
+ * Undo Hook
+ *
+ * Access to the app-wide undo toast (see UndoContext.tsx). Kept apart from
+ * the provider so the provider file only exports components.
+ *
+ * @author BizGenius Team
+ * @version 1.0.0
+ */
+
+import { createContext, useContext } from 'react';
+
+export interface UndoContextType {
+  showUndo: (message: string, onUndo: () => Promise<void> | void) => void;
+}
+
+export const UndoContext = createContext<UndoContextType | undefined>(undefined);
+
+export function useUndo() {
+  const context = useContext(UndoContext);
+  if (!context) {
+    throw new Error('useUndo must be used within UndoProvider');
+  }
+  return context;
+}
@@ -0,0 +1,94 @@
+/**
+ * AI Quota Enforcement
+ *
+ * Per-user limits on AI usage, checked before every call the AI services
+ * make to the LLM provider. Limits and counters live in the ai_quotas table
+ * and are only changed through the consume_ai_request / record_ai_tokens
+ * database functions, so users cannot raise their own limits.
+ *
+ * Limits:
+ * - Requests per day (resets at midnight UTC)
+ * - Tokens per month (resets on the first of the month, UTC)
+ *
+ * Usage:
+ * - Call reserveAIRequest() before a user-initiated completion
+ * - Call checkAIQuota() before follow-up calls that should not count as a request
+ * - Call recordAIUsage() with the completion's token usage afterwards
+ *
+ * @author BizGenius Team
+ * @version 1.0.0
+ */
+
+import { databaseService, type AIQuotaStatus } from './database';
+import type { TokenUsage } from './llmProvider';
+
+/**
+ * Quota Exceeded Error
+ *
+ * Thrown when the user has reached one of their AI limits. The message is
+ * user-facing and says when the quota resets.
+ */
+export class QuotaExceededError extends Error {
+  readonly limitType: 'requests' | 'tokens';
+  readonly resetsAt: Date;
+
+  constructor(limitType: 'requests' | 'tokens', limit: number, resetsAt: Date) {
+    const resetDate = limitType === 'requests'
+      ? resetsAt.toLocaleString([], { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+      : resetsAt.toLocaleDateString([], { month: 'long', day: 'numeric', year: 'numeric' });
+    const description = limitType === 'requests'
+      ? `your daily limit of ${limit.toLocaleString()} AI requests`
+      : `your monthly limit of ${limit.toLocaleString()} AI tokens`;
+
+    super(`Quota exceeded: you've reached ${description}. Your quota resets on ${resetDate}.`);
+    this.name = 'QuotaExceededError';
+    this.limitType = limitType;
+    this.resetsAt = resetsAt;
+  }
+}
+
+/**
+ * Throw a QuotaExceededError if the status says a limit has been reached
+ */
+const assertWithinQuota = (status: AIQuotaStatus): AIQuotaStatus => {
+  if (status.allowed) return status;
+
+  if (status.limit_type === 'tokens') {
+    throw new QuotaExceededError('tokens', status.tokens_per_month, new Date(status.month_resets_at));
+  }
+  throw new QuotaExceededError('requests', status.requests_per_day, new Date(status.day_resets_at));
+};
+
+/**
+ * Count one AI request against the user's quota
+ *
+ * @throws QuotaExceededError if a limit has been reached (nothing is counted)
+ */
+export async function reserveAIRequest(): Promise<AIQuotaStatus> {
+  return assertWithinQuota(await databaseService.consumeAIRequest(true));
+}
+
+/**
+ * Check the user's quota without counting a request
+ *
+ * @throws QuotaExceededError if a limit has been reached
+ */
+export async function checkAIQuota(): Promise<AIQuotaStatus> {
+  return assertWithinQuota(await databaseService.consumeAIRequest(false));
+}
+
+/**
+ * Add a completion's tokens to the user's monthly total
+ *
+ * Never throws: the completion already happened, so a failure here is
+ * logged rather than surfaced to the user.
+ */
+export async function recordAIUsage(usage: TokenUsage | null): Promise<void> {
+  if (!usage || usage.totalTokens <= 0) return;
+
+  try {
+    await databaseService.recordAITokens(usage.totalTokens);
+  } catch (error) {
+    console.error('Error recording AI quota usage:', error);
+  }
+}
@@ -0,0 +1,311 @@
+/**
+ * Assistant Tools
+ *
+ * Registry of local tools the business assistant can call through the
+ * provider's function calling: deterministic financial calculators, course
+ * search, the user's saved business plans and note creation. Each tool
+ * pairs the definition sent to the model with the function that runs it
+ * in the browser.
+ *
+ * Tool results are returned to the model as JSON. Failures (invalid
+ * arguments, database errors) are returned as { error } so the model can
+ * correct itself or explain the problem instead of the turn failing.
+ *
+ * @author BizGenius Team
+ * @version 1.0.0
+ */
+
+import type { ToolCall, ToolDefinition } from './llmProvider';
+import { databaseService } from './database';
+import {
+  calculateBreakEven,
+  calculateLoanAmortization,
+  calculateRunway,
+  calculateUnitEconomics
+} from './financialCalculators';
+
+type ToolArguments = Record<string, unknown>;
+
+/**
+ * Assistant Tool
+ *
+ * - label: Short name shown in the chat transcript
+ * - execute: Runs the tool; the returned value is sent to the model as JSON
+ */
+interface AssistantTool {
+  definition: ToolDefinition;
+  label: string;
+  execute: (args: ToolArguments) => Promise<unknown> | unknown;
+}
+
+/**
+ * Tool Invocation
+ *
+ * One tool call made while answering, as shown in the transcript and
+ * stored on the chat_history row (tool_invocations).
+ */
+export interface ToolInvocation {
+  id: string;
+  name: string;
+  label: string;
+  arguments: ToolArguments;
+  result: unknown;
+  error?: string;
+}
+
+// Longest plan section content returned by get_business_plan
+const MAX_PLAN_SECTION_CHARS = 1500;
+
+/**
+ * Read a numeric argument; models sometimes send numbers as strings
+ */
+const numberArg = (args: ToolArguments, name: string, fallback?: number): number => {
+  const value = args[name];
+  if (value === undefined || value === null || value === '') {
+    if (fallback !== undefined) return fallback;
+    throw new RangeError(`Missing required argument: ${name}`);
+  }
+  const parsed = typeof value === 'number' ? value : Number(String(value).replace(/[,\s$€£]/g, ''));
+  if (!Number.isFinite(parsed)) {
+    throw new RangeError(`Argument ${name} must be a number`);
+  }
+  return parsed;
+};
+
+const stringArg = (args: ToolArguments, name: string): string => {
+  const value = args[name];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new RangeError(`Missing required argument: ${name}`);
+  }
+  return value.trim();
+};
+
+const numberSchema = (description: string) => ({ type: 'number', description });
+
+const ASSISTANT_TOOLS: AssistantTool[] = [
+  {
+    label: 'Break-even calculator',
+    definition: {
+      name: 'calculate_break_even',
+      description: 'Calculate the break-even point in units and revenue for a period from fixed costs, unit price and variable cost per unit.',
+      parameters: {
+        type: 'object',
+        properties: {
+          fixed_costs: numberSchema('Fixed costs for the period (e.g. per month)'),
+          price_per_unit: numberSchema('Selling price per unit'),
+          variable_cost_per_unit: numberSchema('Variable cost per unit')
+        },
+        required: ['fixed_costs', 'price_per_unit', 'variable_cost_per_unit']
+      }
+    },
+    execute: args => calculateBreakEven({
+      fixedCosts: numberArg(args, 'fixed_costs'),
+      pricePerUnit: numberArg(args, 'price_per_unit'),
+      variableCostPerUnit: numberArg(args, 'variable_cost_per_unit')
+    })
+  },
+  {
+    label: 'CAC / LTV calculator',
+    definition: {
+      name: 'calculate_unit_economics',
+      description: 'Calculate customer acquisition cost (CAC), customer lifetime value (LTV), LTV:CAC ratio and CAC payback period.',
+      parameters: {
+        type: 'object',
+        properties: {
+          marketing_spend: numberSchema('Sales and marketing spend for the period'),
+          new_customers: numberSchema('New customers acquired in the same period'),
+          monthly_revenue_per_customer: numberSchema('Average monthly revenue per customer'),
+          gross_margin_percent: numberSchema('Gross margin in percent, e.g. 70'),
+          monthly_churn_percent: numberSchema('Customers lost per month in percent, e.g. 3')
+        },
+        required: ['marketing_spend', 'new_customers', 'monthly_revenue_per_customer', 'gross_margin_percent', 'monthly_churn_percent']
+      }
+    },
+    execute: args => calculateUnitEconomics({
+      marketingSpend: numberArg(args, 'marketing_spend'),
+      newCustomers: numberArg(args, 'new_customers'),
+      monthlyRevenuePerCustomer: numberArg(args, 'monthly_revenue_per_customer'),
+      grossMarginPercent: numberArg(args, 'gross_margin_percent'),
+      monthlyChurnPercent: numberArg(args, 'monthly_churn_percent')
+    })
+  },
+  {
+    label: 'Loan calculator',
+    definition: {
+      name: 'calculate_loan_amortization',
+      description: 'Calculate the monthly payment, total interest and a yearly amortization schedule for a fixed-rate loan.',
+      parameters: {
+        type: 'object',
+        properties: {
+          principal: numberSchema('Loan amount'),
+          annual_interest_rate_percent: numberSchema('Annual interest rate in percent, e.g. 7.5'),
+          term_months: { type: 'integer', description: 'Loan term in months' }
+        },
+        required: ['principal', 'annual_interest_rate_percent', 'term_months']
+      }
+    },
+    execute: args => calculateLoanAmortization({
+      principal: numberArg(args, 'principal'),
+      annualInterestRatePercent: numberArg(args, 'annual_interest_rate_percent'),
+      termMonths: numberArg(args, 'term_months')
+    })
+  },
+  {
+    label: 'Runway calculator',
+    definition: {
+      name: 'calculate_runway',
+      description: 'Calculate cash runway (months until cash runs out) and the break-even month from cash, monthly revenue and expenses, with optional monthly growth rates.',
+      parameters: {
+        type: 'object',
+        properties: {
+          cash_balance: numberSchema('Cash currently available'),
+          monthly_revenue: numberSchema('Current monthly revenue'),
+          monthly_expenses: numberSchema('Current monthly expenses'),
+          monthly_revenue_growth_percent: numberSchema('Monthly revenue growth in percent (default 0)'),
+          monthly_expense_growth_percent: numberSchema('Monthly expense growth in percent (default 0)')
+        },
+        required: ['cash_balance', 'monthly_revenue', 'monthly_expenses']
+      }
+    },
+    execute: args => calculateRunway({
+      cashBalance: numberArg(args, 'cash_balance'),
+      monthlyRevenue: numberArg(args, 'monthly_revenue'),
+      monthlyExpenses: numberArg(args, 'monthly_expenses'),
+      monthlyRevenueGrowthPercent: numberArg(args, 'monthly_revenue_growth_percent', 0),
+      monthlyExpenseGrowthPercent: numberArg(args, 'monthly_expense_growth_percent', 0)
+    })
+  },
+  {
+    label: 'Course search',
+    definition: {
+      name: 'search_courses',
+      description: 'Search the BizGenius Learning Hub courses by keywords, to recommend courses to the user.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'Keywords, e.g. "marketing" or "financial planning"' }
+        },
+        required: ['query']
+      }
+    },
+    execute: async args => {
+      const courses = await databaseService.searchCourses(stringArg(args, 'query'));
+      return courses.slice(0, 5).map(course => ({
+        title: course.title,
+        category: course.category,
+        level: course.level,
+        duration: course.duration,
+        description: course.description
+      }));
+    }
+  },
+  {
+    label: 'Business plans',
+    definition: {
+      name: 'get_business_plans',
+      description: "List the user's saved business plans with their inputs (industry, audience, revenue model, goals). Pass plan_id to also get the plan's sections.",
+      parameters: {
+        type: 'object',
+        properties: {
+          plan_id: { type: 'string', description: 'ID of one plan to return with its sections' }
+        }
+      }
+    },
+    execute: async args => {
+      if (typeof args.plan_id === 'string' && args.plan_id) {
+        const plan = await databaseService.getBusinessPlan(args.plan_id);
+        return {
+          id: plan.id,
+          title: plan.title,
+          sections: (plan.generated_plan || []).map(section => ({
+            title: section?.title,
+            content: typeof section?.content === 'string' && section.content.length > MAX_PLAN_SECTION_CHARS
+              ? `${section.content.slice(0, MAX_PLAN_SECTION_CHARS)} [...]`
+              : section?.content
+          }))
+        };
+      }
+
+      const plans = await databaseService.getBusinessPlans();
+      return plans.map(plan => ({
+        id: plan.id,
+        title: plan.title,
+        business_name: plan.business_name,
+        industry: plan.industry,
+        business_type: plan.business_type,
+        location: plan.location,
+        target_audience: plan.target_audience,
+        value_proposition: plan.value_proposition,
+        revenue_model: plan.revenue_model,
+        goals: plan.goals,
+        created_at: plan.created_at
+      }));
+    }
+  },
+  {
+    label: 'Create note',
+    definition: {
+      name: 'create_note',
+      description: "Save a note to the user's assistant notes, e.g. an action list or key figures. Only use when the user asks to save or note something.",
+      parameters: {
+        type: 'object',
+        properties: {
+          content: { type: 'string', description: 'Note text' }
+        },
+        required: ['content']
+      }
+    },
+    execute: async args => {
+      const note = await databaseService.createNote({
+        content: stringArg(args, 'content'),
+        type: 'assistant',
+        related_id: crypto.randomUUID()
+      });
+      return { saved: true, note_id: note.id };
+    }
+  }
+];
+
+/**
+ * Tool definitions to send with chat requests
+ */
+export const getToolDefinitions = (): ToolDefinition[] =>
+  ASSISTANT_TOOLS.map(tool => tool.definition);
+
+/**
+ * Run a tool call from the model
+ *
+ * Never throws: unknown tools, malformed arguments and tool failures are
+ * reported in the invocation's error (and its result) instead.
+ *
+ * @param call - Tool call as reported by the provider
+ * @returns Promise<ToolInvocation> - Arguments, result and error for the transcript
+ */
+export const runToolCall = async (call: ToolCall): Promise<ToolInvocation> => {
+  const tool = ASSISTANT_TOOLS.find(candidate => candidate.definition.name === call.name);
+  const invocation: ToolInvocation = {
+    id: call.id,
+    name: call.name,
+    label: tool?.label || call.name,
+    arguments: {},
+    result: null
+  };
+
+  try {
+    if (!tool) {
+      throw new Error(`Unknown tool: ${call.name}`);
+    }
+
+    const parsed = JSON.parse(call.arguments || '{}');
+    invocation.arguments = parsed && typeof parsed === 'object' ? parsed : {};
+    invocation.result = await tool.execute(invocation.arguments);
+  } catch (error) {
+    console.error(`Tool ${call.name} failed:`, error);
+    invocation.error = error instanceof SyntaxError
+      ? 'The tool arguments were not valid JSON'
+      : error instanceof Error ? error.message : 'Tool failed';
+    invocation.result = { error: invocation.error };
+  }
+
+  return invocation;
+};
@@ -0,0 +1,347 @@
+/**
+ * Chat Attachments
+ *
+ * Reads the text of files attached to assistant questions and builds the
+ * system message that sends it to the model. PDF text is read with pdf.js;
+ * DOCX and XLSX files are ZIP packages of XML parts and are read with
+ * JSZip; CSV and TXT files are used as they are. Spreadsheets become one
+ * CSV block per sheet.
+ *
+ * The attachments of a question share one token budget, so large files
+ * can't crowd the conversation out of the context window; text beyond a
+ * file's share is cut and marked as truncated.
+ *
+ * Files are kept in the private chat-attachments bucket and listed on the
+ * chat_history row (attachments). Regenerating or editing a question reads
+ * its stored files again.
+ *
+ * @author BizGenius Team
+ * @version 1.0.0
+ */
+
+import JSZip from 'jszip';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import type { ChatMessage } from './llmProvider';
+import type { AttachmentRecord } from './database';
+import { storageService, getFileExtension } from './storage';
+
+// Files per question
+export const MAX_ATTACHMENTS = 3;
+
+// File input filter
+export const ATTACHMENT_ACCEPT = '.pdf,.docx,.csv,.xlsx,.txt';
+
+// Estimated tokens shared by the attachments of one question
+const ATTACHMENT_CONTEXT_TOKEN_BUDGET = 6000;
+
+// Reading stops once a file has more text than the whole budget could take
+const MAX_EXTRACTED_CHARS = ATTACHMENT_CONTEXT_TOKEN_BUDGET * 4;
+
+const TRUNCATION_NOTE = '[... truncated: the rest of the file did not fit]';
+
+/**
+ * An attachment with its extracted text ('' when it could not be read)
+ */
+export interface AttachmentContent {
+  attachment: AttachmentRecord;
+  text: string;
+}
+
+/**
+ * Human-readable file size, e.g. "240 KB"
+ */
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Text of a PDF, page by page
+ */
+const extractPdfText = async (data: ArrayBuffer): Promise<string> => {
+  // pdf.js is large; load it only when a PDF is attached
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+  const pdf = await pdfjs.getDocument({ data }).promise;
+  try {
+    const pages: string[] = [];
+    let length = 0;
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages && length < MAX_EXTRACTED_CHARS; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const text = content.items
+        .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : ''))
+        .join('')
+        .trim();
+
+      if (text) {
+        pages.push(`[Page ${pageNumber}]\n${text}`);
+        length += text.length;
+      }
+    }
+
+    return pages.join('\n\n');
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+/**
+ * Parse an XML part of an Office package (null when the part is missing)
+ */
+const readXmlPart = async (zip: JSZip, path: string): Promise<Document | null> => {
+  const part = zip.file(path);
+  if (!part) return null;
+  return new DOMParser().parseFromString(await part.async('text'), 'application/xml');
+};
+
+/**
+ * Child elements with a local name, ignoring XML namespaces
+ */
+const childElements = (element: Element, localName: string): Element[] =>
+  Array.from(element.children).filter(child => child.localName === localName);
+
+/**
+ * Text of a Word paragraph: text runs, tabs and line breaks
+ */
+const wordParagraphText = (paragraph: Element): string =>
+  Array.from(paragraph.getElementsByTagName('*'))
+    .filter(node => node.parentElement?.localName === 'r')
+    .map(node => {
+      switch (node.localName) {
+        case 't':
+          return node.textContent || '';
+        case 'tab':
+          return '\t';
+        case 'br':
+        case 'cr':
+          return '\n';
+        default:
+          return '';
+      }
+    })
+    .join('');
+
+/**
+ * Lines of a Word body element; table rows become "cell | cell" lines
+ */
+const wordBlockLines = (element: Element): string[] => {
+  switch (element.localName) {
+    case 'p':
+      return [wordParagraphText(element)];
+    case 'tbl':
+      return childElements(element, 'tr').map(row =>
+        childElements(row, 'tc')
+          .map(cell => Array.from(cell.getElementsByTagNameNS('*', 'p')).map(wordParagraphText).join(' ').trim())
+          .join(' | ')
+      );
+    default:
+      // Content controls and other wrappers
+      return Array.from(element.children).flatMap(wordBlockLines);
+  }
+};
+
+/**
+ * Text of a DOCX document body
+ */
+const extractDocxText = async (data: ArrayBuffer): Promise<string> => {
+  const zip = await JSZip.loadAsync(data);
+  const document = await readXmlPart(zip, 'word/document.xml');
+  const body = document?.getElementsByTagNameNS('*', 'body')[0];
+  if (!body) throw new Error('Not a Word document');
+
+  return wordBlockLines(body)
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+/**
+ * Zero-based column of a cell reference such as "C12"
+ */
+const columnIndex = (reference: string): number => {
+  const letters = reference.replace(/[^A-Z]/gi, '').toUpperCase();
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+};
+
+const toCsvValue = (value: string): string =>
+  /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Text of an XLSX workbook: each sheet as CSV under its name
+ *
+ * Shows the stored cell values: formulas as their last calculated result,
+ * dates as spreadsheet serial numbers.
+ */
+const extractXlsxText = async (data: ArrayBuffer): Promise<string> => {
+  const zip = await JSZip.loadAsync(data);
+  const workbook = await readXmlPart(zip, 'xl/workbook.xml');
+  if (!workbook) throw new Error('Not an Excel workbook');
+
+  const relationships = await readXmlPart(zip, 'xl/_rels/workbook.xml.rels');
+  const sheetTargets = new Map(
+    Array.from(relationships?.getElementsByTagNameNS('*', 'Relationship') || []).map(relationship => [
+      relationship.getAttribute('Id'),
+      relationship.getAttribute('Target') || ''
+    ])
+  );
+
+  const sharedStringsPart = await readXmlPart(zip, 'xl/sharedStrings.xml');
+  const sharedStrings = Array.from(sharedStringsPart?.getElementsByTagNameNS('*', 'si') || []).map(item =>
+    Array.from(item.getElementsByTagNameNS('*', 't'))
+      .filter(text => text.parentElement?.localName !== 'rPh') // Skip phonetic guides
+      .map(text => text.textContent || '')
+      .join('')
+  );
+
+  const blocks: string[] = [];
+  let length = 0;
+
+  for (const sheet of Array.from(workbook.getElementsByTagNameNS('*', 'sheet'))) {
+    if (length >= MAX_EXTRACTED_CHARS) break;
+
+    const relationshipId = Array.from(sheet.attributes).find(attribute => attribute.localName === 'id')?.value;
+    const target = sheetTargets.get(relationshipId || null);
+    if (!target) continue;
+
+    const sheetPart = await readXmlPart(zip, target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+    if (!sheetPart) continue;
+
+    const rows = Array.from(sheetPart.getElementsByTagNameNS('*', 'row')).map(row => {
+      const values: string[] = [];
+
+      childElements(row, 'c').forEach((cell, position) => {
+        const reference = cell.getAttribute('r');
+        const index = reference ? columnIndex(reference) : position;
+        const type = cell.getAttribute('t');
+        const value = childElements(cell, 'v')[0]?.textContent || '';
+
+        switch (type) {
+          case 's':
+            values[index] = sharedStrings[Number(value)] || '';
+            break;
+          case 'inlineStr':
+            values[index] = Array.from(cell.getElementsByTagNameNS('*', 't')).map(text => text.textContent || '').join('');
+            break;
+          case 'b':
+            values[index] = value === '1' ? 'TRUE' : 'FALSE';
+            break;
+          default:
+            values[index] = value;
+        }
+      });
+
+      return Array.from(values, value => toCsvValue(value || '')).join(',');
+    }).filter(line => line.replace(/,/g, '').trim());
+
+    if (rows.length > 0) {
+      const block = `## Sheet: ${sheet.getAttribute('name') || 'Untitled'}\n${rows.join('\n')}`;
+      blocks.push(block);
+      length += block.length;
+    }
+  }
+
+  return blocks.join('\n\n');
+};
+
+/**
+ * Extract Attachment Text
+ *
+ * @param file - File or downloaded attachment
+ * @param fileName - Name used to tell the file type
+ * @returns Promise<string> - Extracted text
+ * @throws Error - When the file can't be read or contains no text
+ */
+export const extractAttachmentText = async (file: Blob, fileName: string): Promise<string> => {
+  let text: string;
+
+  try {
+    switch (getFileExtension(fileName)) {
+      case 'pdf':
+        text = await extractPdfText(await file.arrayBuffer());
+        break;
+      case 'docx':
+        text = await extractDocxText(await file.arrayBuffer());
+        break;
+      case 'xlsx':
+        text = await extractXlsxText(await file.arrayBuffer());
+        break;
+      default:
+        text = (await file.text()).trim();
+    }
+  } catch (error) {
+    console.error('Error reading attachment:', error);
+    throw new Error(`Failed to read ${fileName}`);
+  }
+
+  if (!text) {
+    throw new Error(`No text found in ${fileName}. Scanned documents and images are not supported.`);
+  }
+  return text;
+};
+
+/**
+ * Download and read stored attachments again, e.g. to regenerate an answer
+ *
+ * A file that can no longer be read is sent with empty text, so the model
+ * is told it is unavailable.
+ *
+ * @param attachments - Attachments stored on a chat_history row
+ */
+export const readStoredAttachments = (attachments: AttachmentRecord[]): Promise<AttachmentContent[]> =>
+  Promise.all(attachments.map(async attachment => {
+    try {
+      const file = await storageService.downloadChatAttachment(attachment);
+      return { attachment, text: await extractAttachmentText(file, attachment.name) };
+    } catch (error) {
+      console.error('Error reading stored attachment:', error);
+      return { attachment, text: '' };
+    }
+  }));
+
+/**
+ * Build the system message that attaches files to a question
+ *
+ * The budget is shared out smallest file first: files that need less than
+ * an equal share leave the rest to the larger ones.
+ *
+ * @param contents - Attachments with their extracted text
+ * @returns ChatMessage - System message with each file's (possibly cut) text
+ */
+export const buildAttachmentContextMessage = (contents: AttachmentContent[]): ChatMessage => {
+  const allowedChars = new Map<AttachmentContent, number>();
+  let remainingChars = ATTACHMENT_CONTEXT_TOKEN_BUDGET * 4;
+
+  [...contents]
+    .sort((a, b) => a.text.length - b.text.length)
+    .forEach((content, index, sorted) => {
+      const share = Math.floor(remainingChars / (sorted.length - index));
+      const allowed = Math.min(content.text.length, share);
+      allowedChars.set(content, allowed);
+      remainingChars -= allowed;
+    });
+
+  const files = contents.map(content => {
+    const { attachment, text } = content;
+    const allowed = allowedChars.get(content) ?? 0;
+    const heading = `## File: ${attachment.name} (${getFileExtension(attachment.name).toUpperCase()}, ${formatFileSize(attachment.size)})`;
+
+    if (!text) return `${heading}\n(The file could not be read.)`;
+    if (allowed >= text.length) return `${heading}\n${text}`;
+    return `${heading}\n${text.slice(0, allowed).trimEnd()}\n${TRUNCATION_NOTE}`;
+  });
+
+  return {
+    role: 'system',
+    content: `The user attached ${contents.length === 1 ? 'a file' : `${contents.length} files`} to their question. The text extracted from ${contents.length === 1 ? 'it' : 'them'} is below. Base your answer on it, refer to files by name, and say so if something you need is missing or was cut off.
+
+${files.join('\n\n')}`
+  };
+};
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// The section helpers don't use the database, whose client needs the Supabase settings to load
+vi.mock('./database', () => ({ databaseService: {} }));
+
+import { insertPlanSection, findPlanSection, type BusinessPlanSection } from './businessPlanGenerator';
+
+const section = (title: string, content = `${title} content`): BusinessPlanSection => ({ title, content });
+
+describe('insertPlanSection', () => {
+  it('adds a missing section at its place in the plan order', () => {
+    const sections = [section('Executive Summary'), section('Market Analysis')];
+
+    expect(insertPlanSection(sections, section('Company Description')).map(({ title }) => title)).toEqual([
+      'Executive Summary',
+      'Company Description',
+      'Market Analysis'
+    ]);
+  });
+
+  it('replaces the section with the same title', () => {
+    const sections = [section('Executive Summary'), section('Market Analysis')];
+    const replacement = section('2. Market analysis', 'New analysis');
+
+    expect(insertPlanSection(sections, replacement)).toEqual([sections[0], replacement]);
+  });
+
+  it('replaces only the first of several sections with the same heading', () => {
+    const sections = [section('Market Analysis', 'First'), section('Executive Summary'), section('Market Analysis', 'Second')];
+    const replacement = section('Market Analysis', 'New analysis');
+
+    expect(insertPlanSection(sections, replacement)).toEqual([replacement, sections[1], sections[2]]);
+  });
+});
+
+describe('findPlanSection', () => {
+  const original = section('Market Analysis');
+
+  it('finds an unchanged section at its position', () => {
+    expect(findPlanSection([section('Executive Summary'), original], 1, original)).toBe(1);
+  });
+
+  it('finds an unchanged section that has moved', () => {
+    const sections = [section('Executive Summary'), section('Company Description'), original];
+
+    expect(findPlanSection(sections, 1, original)).toBe(2);
+  });
+
+  it('does not find a section whose content changed', () => {
+    const sections = [section('Executive Summary'), section('Market Analysis', 'Edited by hand')];
+
+    expect(findPlanSection(sections, 1, original)).toBe(-1);
+  });
+
+  it('does not find a section that was removed', () => {
+    expect(findPlanSection([section('Executive Summary')], 1, original)).toBe(-1);
+  });
+
+  it('finds a duplicate heading by position but not after it moved', () => {
+    const copy = section('Market Analysis');
+
+    expect(findPlanSection([original, copy], 1, original)).toBe(1);
+    expect(findPlanSection([section('Executive Summary'), original, copy], 0, original)).toBe(-1);
+  });
+});
@@ -1,13 +1,13 @@
 /**
  * Business Plan Generator Module
  * 
- * This module provides comprehensive AI-powered business plan generation using OpenRouter API.
+ * This module provides comprehensive AI-powered business plan generation using the LLM provider layer.
  * It creates professional, investor-ready business plans based on user inputs and industry context.
  * 
  * Key Features:
  * - AI-generated comprehensive business plans with 10 structured sections
  * - Industry-specific content and market analysis
- * - Multiple export formats (PDF, Word, Text)
+ * - Export to formatted PDF and Word (.docx) documents
  * - Plan modification and editing capabilities
  * - Mobile-first responsive design integration
  * - Free DeepSeek model for cost-effective generation
@@ -23,6 +23,59 @@
  * @version 1.0.0
  */
 
+import { llmProvider, addUsage, type ChatCompletionResult, type ChatMessage, type LLMProvider, type ModelInfo, type TokenUsage } from './llmProvider';
+import { checkAIQuota, recordAIUsage, reserveAIRequest } from './aiQuota';
+import { databaseService } from './database';
+import { planToPdf, planToDocx, downloadPlanFile, type PlanExportDetails } from './planExport';
+
+// Full plans take much longer to generate than chat answers
+const PLAN_TIMEOUT_MS = 180000;
+
+// A single section is much shorter than a full plan
+const SECTION_TIMEOUT_MS = 90000;
+const SECTION_MAX_TOKENS = 2000;
+
+// Sections generated at the same time
+const SECTION_CONCURRENCY = 3;
+
+// A response that fails validation is sent back once with the problem
+const SECTION_ATTEMPTS = 2;
+
+// Shorter section content is treated as a failed response
+const MIN_SECTION_LENGTH = 200;
+
+/**
+ * Business Plan Sections
+ *
+ * The ten sections of a generated plan, in order. Each one is generated by
+ * its own request, with the guidance below.
+ */
+const BUSINESS_PLAN_SECTIONS: string[] = [
+  'Executive Summary',
+  'Company Description',
+  'Market Analysis',
+  'Organization & Management',
+  'Products or Services',
+  'Marketing & Sales Strategy',
+  'Financial Projections',
+  'Risk Analysis',
+  'Implementation Timeline',
+  'Appendices'
+];
+
+const SECTION_GUIDANCE: Record<string, string> = {
+  'Executive Summary': 'Summarize the business, its value proposition, target market, competitive advantage, financial highlights, funding needs and goals, so the section can be read on its own.',
+  'Company Description': 'Describe the mission and vision, legal structure and ownership, location, stage of the business, and the problem it solves for its customers.',
+  'Market Analysis': 'Cover the industry and its trends, market size and growth estimates, target customer segments, and the competition, with a table comparing the main competitors.',
+  'Organization & Management': 'Describe the organizational structure, key roles and the people or profiles needed for them, advisors, and hiring plans.',
+  'Products or Services': 'Describe the products or services, their features and benefits, pricing, development stage, suppliers, and intellectual property where relevant.',
+  'Marketing & Sales Strategy': 'Cover positioning, pricing strategy, channels, promotion, the sales process, and customer acquisition and retention, with a budget table where useful.',
+  'Financial Projections': 'Give 3-5 year projections of revenue, costs and profit in a Markdown table, startup costs, funding requirements, the break-even point, and the key assumptions.',
+  'Risk Analysis': 'List the main market, operational, financial and regulatory risks in a table with their likelihood, impact and mitigation.',
+  'Implementation Timeline': 'Give the milestones for the next 1-3 years in a table with quarters or dates, owners and success measures.',
+  'Appendices': 'List the supporting material investors would expect (detailed financials, research sources, permits, resumes) and summarize the key assumptions behind the plan.'
+};
+
 /**
  * Business Plan Input Interface
  * 
@@ -68,6 +121,8 @@ interface BusinessPlanSection {
  * 
  * Complete structure of a generated business plan with metadata.
  * Includes all sections, creation info, and status tracking.
+ * model and usage are set on freshly generated or modified plans.
+ * A generated plan is a 'draft' when some of its sections failed.
  */
 interface GeneratedBusinessPlan {
   id: string;
@@ -76,8 +131,221 @@ interface GeneratedBusinessPlan {
   createdAt: Date;
   sections: BusinessPlanSection[];
   status: 'draft' | 'complete';
+  model?: string;
+  usage?: TokenUsage | null;
 }
 
+/**
+ * Plan Section Progress
+ * 
+ * Generation state of one section, reported while a plan is generated.
+ * - error: Why the section failed (user-facing)
+ */
+interface PlanSectionProgress {
+  title: string;
+  status: 'pending' | 'generating' | 'complete' | 'failed';
+  error?: string;
+}
+
+/**
+ * Generated Plan Section
+ * 
+ * One section with the model and usage of the request(s) that produced it.
+ */
+interface GeneratedPlanSection {
+  section: BusinessPlanSection;
+  model: string;
+  usage: TokenUsage | null;
+}
+
+/**
+ * Section Action
+ * 
+ * AI action on a single plan section:
+ * - regenerate: Write the section again
+ * - expand / shorten: Change its length, keeping the key content
+ * - conservative: More cautious assumptions and figures
+ * - audience: Rewrite it for a given audience (e.g. "bank loan officers")
+ */
+type SectionAction =
+  | { type: 'regenerate' }
+  | { type: 'expand' }
+  | { type: 'shorten' }
+  | { type: 'conservative' }
+  | { type: 'audience'; audience: string };
+
+/**
+ * Plan Section Change
+ * 
+ * How one section differs between two versions of a plan; content is ''
+ * on the side the section is missing from.
+ */
+interface PlanSectionChange {
+  title: string;
+  change: 'added' | 'removed' | 'changed' | 'unchanged';
+  before: string;
+  after: string;
+}
+
+/**
+ * Normalized section title for matching, e.g. "4. Organization and Management"
+ * and "Organization & Management" are the same section
+ */
+const normalizeSectionTitle = (title: string): string =>
+  title
+    .toLowerCase()
+    .replace(/^\s*\d+[.)]\s*/, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const isSameSection = (a: string, b: string): boolean =>
+  normalizeSectionTitle(a) === normalizeSectionTitle(b);
+
+/**
+ * Position of a section in the plan order (sections outside it go last)
+ */
+const sectionOrder = (title: string): number => {
+  const index = BUSINESS_PLAN_SECTIONS.findIndex(known => isSameSection(known, title));
+  return index === -1 ? BUSINESS_PLAN_SECTIONS.length : index;
+};
+
+/**
+ * Get Missing Plan Sections
+ * 
+ * @param sections - Sections of a plan
+ * @returns string[] - Standard sections the plan doesn't have, in plan order
+ */
+export const getMissingPlanSections = (sections: BusinessPlanSection[]): string[] =>
+  BUSINESS_PLAN_SECTIONS.filter(title => !sections.some(section => isSameSection(section.title, title)));
+
+/**
+ * Insert Plan Section
+ * 
+ * Adds a section at its place in the plan order, or replaces the plan's
+ * section with the same title (only the first one, if the plan has the
+ * same heading more than once).
+ * 
+ * @param sections - Sections of a plan
+ * @param section - Section to add
+ * @returns BusinessPlanSection[] - New sections array
+ */
+export const insertPlanSection = (sections: BusinessPlanSection[], section: BusinessPlanSection): BusinessPlanSection[] => {
+  const existingIndex = sections.findIndex(existing => isSameSection(existing.title, section.title));
+  if (existingIndex !== -1) {
+    return sections.map((existing, index) => index === existingIndex ? section : existing);
+  }
+
+  const position = sections.findIndex(existing => sectionOrder(existing.title) > sectionOrder(section.title));
+  return position === -1
+    ? [...sections, section]
+    : [...sections.slice(0, position), section, ...sections.slice(position)];
+};
+
+/**
+ * Find Plan Section
+ * 
+ * Finds a section that was read from a plan at a given position, in the
+ * plan as it is now. Sections may have been added or changed since (by a
+ * retry, a restore or an edit): the section is found only if its title and
+ * content are unchanged, at its old position or, failing that, at the one
+ * position where it now is.
+ * 
+ * @param sections - Current sections of the plan
+ * @param index - Position the section was read from
+ * @param section - Section as it was read
+ * @returns number - Its current position, or -1 when it changed or can't be told apart from a copy
+ */
+export const findPlanSection = (sections: BusinessPlanSection[], index: number, section: BusinessPlanSection): number => {
+  const isUnchanged = (existing: BusinessPlanSection | undefined) =>
+    existing !== undefined && existing.title === section.title && existing.content === section.content;
+
+  if (isUnchanged(sections[index])) return index;
+
+  const matches = sections.flatMap((existing, position) => isUnchanged(existing) ? [position] : []);
+  return matches.length === 1 ? matches[0] : -1;
+};
+
+/**
+ * Compare Plan Sections
+ * 
+ * Matches the sections of two versions of a plan by title.
+ * 
+ * @param before - Sections of the older version
+ * @param after - Sections of the newer version
+ * @returns PlanSectionChange[] - Sections of the newer version in order, then the removed ones
+ */
+export const comparePlanSections = (before: BusinessPlanSection[], after: BusinessPlanSection[]): PlanSectionChange[] => {
+  const changes: PlanSectionChange[] = after.map(section => {
+    const previous = before.find(existing => isSameSection(existing.title, section.title));
+    if (!previous) {
+      return { title: section.title, change: 'added', before: '', after: section.content || '' };
+    }
+    return {
+      title: section.title,
+      change: previous.content === section.content ? 'unchanged' : 'changed',
+      before: previous.content || '',
+      after: section.content || ''
+    };
+  });
+
+  before
+    .filter(section => !after.some(existing => isSameSection(existing.title, section.title)))
+    .forEach(section => changes.push({ title: section.title, change: 'removed', before: section.content || '', after: '' }));
+
+  return changes;
+};
+
+/**
+ * Validate a section response against the section schema
+ * 
+ * The response must be a JSON object {"title": string, "content": string}
+ * whose title names the requested section and whose content is the section
+ * in Markdown - long enough, and without other plan sections merged in.
+ * A leading heading repeating the section title is dropped.
+ * 
+ * @returns The section content, or what is wrong with the response
+ */
+const validateSectionResponse = (raw: string, title: string): { content: string } | { error: string } => {
+  // Models without JSON mode may wrap the object in a code fence or add text around it
+  const text = raw.trim();
+  let value: unknown;
+  try {
+    value = JSON.parse(text.slice(text.indexOf('{'), text.lastIndexOf('}') + 1));
+  } catch {
+    return { error: 'The response is not a valid JSON object.' };
+  }
+
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { error: 'The response is not a JSON object.' };
+  }
+  const { title: responseTitle, content } = value as Record<string, unknown>;
+  if (typeof responseTitle !== 'string' || typeof content !== 'string') {
+    return { error: 'The object must have a string "title" and a string "content".' };
+  }
+  if (!isSameSection(responseTitle, title)) {
+    return { error: `"title" is "${responseTitle}" instead of "${title}".` };
+  }
+
+  const body = content
+    .replace(/\r\n?/g, '\n')
+    .trim()
+    .replace(/^#{1,6}\s+(.+)\n+/, (heading: string, headingText: string) => isSameSection(headingText, title) ? '' : heading);
+  if (body.length < MIN_SECTION_LENGTH) {
+    return { error: `"content" is too short for a complete ${title} section.` };
+  }
+
+  const mergedSection = body
+    .split('\n')
+    .map(line => line.match(/^#{1,3}\s+(.+)$/)?.[1] || '')
+    .find(heading => heading && !isSameSection(heading, title) && BUSINESS_PLAN_SECTIONS.some(known => isSameSection(known, heading)));
+  if (mergedSection) {
+    return { error: `"content" must only contain the ${title} section, but it also contains "${mergedSection}".` };
+  }
+
+  return { content: body };
+};
+
 /**
  * BusinessPlanGenerator Class
  * 
@@ -98,33 +366,27 @@ interface GeneratedBusinessPlan {
  * 4. Display, edit, or export as needed
  */
 export class BusinessPlanGenerator {
-  // OpenRouter API configuration
-  private apiKey: string;
-  
-  private baseUrl = 'https://openrouter.ai/api/v1';
-  private model = 'tngtech/deepseek-r1t2-chimera:free'; // Free model optimized for business content
+  // LLM provider and model configuration
+  private provider: LLMProvider;
+  private model: string;
 
   /**
-   * System Prompt for Business Plan Generation
+   * Consultant Prompt
    * 
-   * This is the core prompt that defines the AI's expertise and output format.
-   * It's crucial for generating professional, structured business plans.
+   * Establishes the AI as an expert business consultant and sets the
+   * quality standards. Shared by the section and full-plan system prompts.
    * 
    * Key Elements:
    * - Establishes AI as expert business consultant
    * - Defines 20+ years of experience context
    * - Lists specific areas of expertise
    * - Sets quality standards for output
-   * - Specifies exact section structure required
-   * - Ensures plain text formatting (no markdown)
    * 
    * Modification Guide:
    * - Update expertise areas for different industries
-   * - Adjust section structure as needed
    * - Modify tone for different audiences
-   * - Add specific requirements for your use case
    */
-  private systemPrompt = `You are an expert business plan consultant with 20+ years of experience helping entrepreneurs and startups create professional, investor-ready business plans. Your expertise includes:
+  private consultantPrompt = `You are an expert business plan consultant with 20+ years of experience helping entrepreneurs and startups create professional, investor-ready business plans. Your expertise includes:
 
 - Market analysis and competitive research
 - Financial modeling and projections
@@ -138,9 +400,32 @@ Create comprehensive, professional business plans that are:
 - Data-driven with realistic projections
 - Tailored to the specific industry and market
 - Investor-ready with compelling narratives
-- Actionable with clear implementation steps
+- Actionable with clear implementation steps`;
+
+  /**
+   * System Prompt for Section Generation
+   * 
+   * Plans are generated one section per request. The response must be a
+   * JSON object matching the section schema (see validateSectionResponse),
+   * with the section in Markdown.
+   */
+  private sectionSystemPrompt = `${this.consultantPrompt}
+
+You write one section of a business plan at a time. Respond with a single JSON object and nothing else, in exactly this shape:
+{"title": "<name of the requested section>", "content": "<the section in Markdown>"}
+
+In "content", write only the requested section: do not repeat its name as a heading and do not include other sections. Make it detailed, professional and specific to the business. Use paragraphs, bulleted or numbered lists, bold for key figures and terms, level-3 subheadings where helpful, and Markdown tables for financial projections, budgets and timelines. Escape newlines and quotes in the JSON string.`;
 
-IMPORTANT: Format your response as clean, readable text without any markdown formatting, asterisks, or special characters. Use plain text with proper paragraphs and line breaks. Structure your response with the following sections:
+  /**
+   * System Prompt for Full Plans
+   * 
+   * Used when a whole plan is rewritten at once (modifyBusinessPlan).
+   * Specifies the exact section structure, in Markdown with one level-2
+   * heading per section, so the response can be split into sections.
+   */
+  private systemPrompt = `${this.consultantPrompt}
+
+IMPORTANT: Format your response in Markdown. Start each section with a level-2 heading containing its number and name (for example "## 1. Executive Summary"), and use these sections in this order:
 1. Executive Summary
 2. Company Description
 3. Market Analysis
@@ -152,43 +437,43 @@ IMPORTANT: Format your response as clean, readable text without any markdown for
 9. Implementation Timeline
 10. Appendices
 
-Each section should be detailed, professional, and specific to the business context provided. Write in clear, professional language without any formatting symbols, asterisks, or markdown. Use proper paragraphs with line breaks for readability.`;
+Each section should be detailed, professional, and specific to the business context provided. Write in clear, professional language. Within sections, use paragraphs, bulleted or numbered lists, bold for key figures and terms, level-3 subheadings where helpful, and Markdown tables for financial projections, budgets and timelines.`;
 
   /**
    * Constructor - Initialize BusinessPlanGenerator
    * 
-   * Sets up API configuration and validates environment setup.
-   * Provides warnings for missing API keys to help with debugging.
+   * @param provider - LLM provider to use (defaults to the configured provider)
    */
-  constructor() {
-    this.apiKey = import.meta.env.VITE_OPENROUTER_API_KEY;
-    
-    if (!this.apiKey || this.apiKey === 'your_openrouter_api_key_here') {
-      console.warn('OpenRouter API key not configured');
-    }
+  constructor(provider: LLMProvider = llmProvider) {
+    this.provider = provider;
+    this.model = provider.defaultModel;
   }
 
   /**
    * Generate Business Plan
    * 
    * Main method for creating comprehensive business plans using AI.
-   * Takes user inputs and generates a professional, structured business plan.
+   * Each of the ten sections is generated by its own request and validated
+   * against the section schema, a few sections at a time, so sections can't
+   * be lost or merged and a failed section doesn't fail the whole plan.
    * 
    * @param input - BusinessPlanInput object with all required business details
-   * @returns Promise<GeneratedBusinessPlan> - Complete business plan with sections
+   * @param onProgress - Called with the state of every section whenever one changes
+   * @returns Promise<GeneratedBusinessPlan> - Business plan with the sections that
+   *   were generated; 'draft' when some failed (retry them with generateSection)
    * 
    * Process Flow:
-   * 1. Validate API key configuration
-   * 2. Create detailed prompt from user inputs
-   * 3. Send request to OpenRouter API
-   * 4. Parse AI response into structured sections
-   * 5. Return formatted business plan object
+   * 1. Count the plan as one request against the user's AI quota
+   * 2. Request each section with a prompt built from the user inputs
+   * 3. Validate each response, sending an invalid one back once with the problem
+   * 4. Report each section as generating, complete or failed
+   * 5. Return the sections in plan order with their combined usage
    * 
    * Error Handling:
+   * - QuotaExceededError when the user's AI quota is used up
    * - API key validation
-   * - Network and API errors
-   * - Response parsing failures
-   * - Rate limiting and quota issues
+   * - Network and API errors, and invalid section responses, fail that section
+   * - Throws the first section error when no section could be generated
    * 
    * Usage Example:
    * const input = {
@@ -196,59 +481,55 @@ Each section should be detailed, professional, and specific to the business cont
    *   industry: "Renewable Energy",
    *   // ... other fields
    * };
-   * const plan = await generator.generateBusinessPlan(input);
+   * const plan = await generator.generateBusinessPlan(input, setProgress);
    */
-  async generateBusinessPlan(input: BusinessPlanInput): Promise<GeneratedBusinessPlan> {
-    if (!this.apiKey || this.apiKey === 'your_openrouter_api_key_here') {
-      throw new Error('OpenRouter API key not configured. Please add your API key to the .env file.');
-    }
-
+  async generateBusinessPlan(
+    input: BusinessPlanInput,
+    onProgress?: (progress: PlanSectionProgress[]) => void
+  ): Promise<GeneratedBusinessPlan> {
     try {
-      // Create comprehensive prompt from user inputs
-      const prompt = this.createBusinessPlanPrompt(input);
-      
-      // Make API request to OpenRouter
-      const response = await fetch(`${this.baseUrl}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-          'HTTP-Referer': window.location.origin,
-          'X-Title': 'BizGenius Business Plan Generator'
-        },
-        body: JSON.stringify({
-          model: this.model,
-          messages: [
-            { role: 'system', content: this.systemPrompt },
-            { role: 'user', content: prompt }
-          ],
-          max_tokens: 4000, // Longer responses for comprehensive plans
-          temperature: 0.7, // Balanced creativity for business content
-          stream: false,
-        })
-      });
+      // The whole plan counts as one request against the user's quota
+      await reserveAIRequest();
 
-      // Handle API errors with specific messages
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        
-        if (response.status === 401) {
-          throw new Error('Invalid API key. Please check your OpenRouter API key configuration.');
-        } else if (response.status === 402) {
-          throw new Error('Insufficient credits. Please check your OpenRouter billing.');
-        } else if (response.status === 429) {
-          throw new Error('Rate limit exceeded. Please wait a moment and try again.');
-        } else {
-          throw new Error(errorData.error?.message || `API request failed with status ${response.status}`);
-        }
-      }
+      const progress: PlanSectionProgress[] = BUSINESS_PLAN_SECTIONS.map(title => ({ title, status: 'pending' }));
+      const results = new Map<string, GeneratedPlanSection>();
+      const errors: unknown[] = [];
+      const reportProgress = () => onProgress?.(progress.map(item => ({ ...item })));
+      reportProgress();
 
-      // Extract AI response content
-      const data = await response.json();
-      const generatedContent = data.choices[0]?.message?.content || 'Failed to generate business plan.';
+      // Each worker takes the next pending section until none are left
+      let nextIndex = 0;
+      const generateNextSections = async () => {
+        while (nextIndex < progress.length) {
+          const item = progress[nextIndex++];
+          item.status = 'generating';
+          reportProgress();
 
-      // Parse AI response into structured sections
-      const sections = this.parseBusinessPlanSections(generatedContent);
+          try {
+            await checkAIQuota();
+            results.set(item.title, await this.requestSection(
+              item.title,
+              this.createSectionPrompt(input, item.title),
+              `${input.businessName}: ${item.title}`
+            ));
+            item.status = 'complete';
+          } catch (error) {
+            console.error(`Error generating ${item.title} section:`, error);
+            errors.push(error);
+            item.status = 'failed';
+            item.error = error instanceof Error ? error.message : 'Failed to generate section';
+          }
+          reportProgress();
+        }
+      };
+      await Promise.all(Array.from({ length: SECTION_CONCURRENCY }, generateNextSections));
+
+      const generated = BUSINESS_PLAN_SECTIONS
+        .map(title => results.get(title))
+        .filter((result): result is GeneratedPlanSection => Boolean(result));
+      if (generated.length === 0) {
+        throw errors[0] instanceof Error ? errors[0] : new Error('Failed to generate business plan. Please try again.');
+      }
 
       // Create final business plan object
       const businessPlan: GeneratedBusinessPlan = {
@@ -256,8 +537,10 @@ Each section should be detailed, professional, and specific to the business cont
         title: `${input.businessName} Business Plan`,
         industry: input.industry,
         createdAt: new Date(), 
-        sections,
-        status: 'complete'
+        sections: generated.map(result => result.section),
+        status: generated.length === BUSINESS_PLAN_SECTIONS.length ? 'complete' : 'draft',
+        model: generated[0].model,
+        usage: generated.reduce<TokenUsage | null>((total, result) => addUsage(total, result.usage), null)
       };
 
       return businessPlan;
@@ -273,31 +556,252 @@ Each section should be detailed, professional, and specific to the business cont
   }
 
   /**
-   * Create Business Plan Prompt
+   * Generate Section
+   * 
+   * Generates one standard section on its own, e.g. to retry a section that
+   * failed or is missing from a plan. Counts as a request against the
+   * user's AI quota.
    * 
-   * Constructs a detailed prompt for the AI based on user inputs.
+   * @param input - Business details of the plan
+   * @param title - One of the ten plan sections, e.g. "Market Analysis"
+   * @param planId - Saved plan the usage is added to
+   * @returns Promise<GeneratedPlanSection> - Validated section with its model and usage
+   */
+  async generateSection(input: BusinessPlanInput, title: string, planId?: string): Promise<GeneratedPlanSection> {
+    const sectionTitle = BUSINESS_PLAN_SECTIONS.find(known => isSameSection(known, title));
+    if (!sectionTitle) {
+      throw new Error(`Unknown business plan section: ${title}`);
+    }
+
+    try {
+      await reserveAIRequest();
+      return await this.requestSection(
+        sectionTitle,
+        this.createSectionPrompt(input, sectionTitle),
+        `${input.businessName}: ${sectionTitle}`,
+        planId
+      );
+    } catch (error) {
+      console.error('Business Plan Section Generation Error:', error);
+
+      if (error instanceof Error) {
+        throw error;
+      }
+
+      throw new Error(`Failed to generate ${sectionTitle}. Please try again.`);
+    }
+  }
+
+  /**
+   * Revise Section
+   * 
+   * Applies an AI action to one section of a plan and returns the new
+   * version of that section only, for the user to review before accepting.
+   * The section keeps its title; no other section is sent or changed.
+   * Counts as a request against the user's AI quota.
+   * 
+   * @param input - Business details of the plan
+   * @param section - Section to revise
+   * @param action - What to do with it
+   * @param planId - Saved plan the usage is added to, whether or not the
+   *   new version is accepted
+   * @returns Promise<GeneratedPlanSection> - Validated new version with its model and usage
+   */
+  async reviseSection(
+    input: BusinessPlanInput,
+    section: BusinessPlanSection,
+    action: SectionAction,
+    planId?: string
+  ): Promise<GeneratedPlanSection> {
+    try {
+      await reserveAIRequest();
+      return await this.requestSection(
+        section.title,
+        this.createRevisionPrompt(input, section, action),
+        `${input.businessName}: ${section.title} (${action.type})`,
+        planId
+      );
+    } catch (error) {
+      console.error('Business Plan Section Revision Error:', error);
+
+      if (error instanceof Error) {
+        throw error;
+      }
+
+      throw new Error(`Failed to revise ${section.title}. Please try again.`);
+    }
+  }
+
+  /**
+   * Request and validate one section
+   * 
+   * An invalid response is sent back to the model with what is wrong with
+   * it, up to SECTION_ATTEMPTS requests in total. Usage of every request is
+   * recorded.
+   * 
+   * @param title - Section title the response must have
+   * @param prompt - Section or revision prompt
+   * @param usageLabel - What the request is for, in the usage history
+   * @param planId - Saved plan the usage is added to
+   * @throws Error - When no valid section was returned
+   */
+  private async requestSection(
+    title: string,
+    prompt: string,
+    usageLabel: string,
+    planId?: string
+  ): Promise<GeneratedPlanSection> {
+    const messages: ChatMessage[] = [
+      { role: 'system', content: this.sectionSystemPrompt },
+      { role: 'user', content: prompt }
+    ];
+    let usage: TokenUsage | null = null;
+    let problem = '';
+
+    for (let attempt = 1; attempt <= SECTION_ATTEMPTS; attempt++) {
+      if (attempt > 1) await checkAIQuota();
+
+      const startTime = Date.now();
+      const result = await this.provider.createChatCompletion({
+        model: this.model,
+        messages,
+        maxTokens: SECTION_MAX_TOKENS,
+        temperature: 0.7, // Balanced creativity for business content
+        timeoutMs: SECTION_TIMEOUT_MS,
+        responseFormat: 'json'
+      });
+      await recordAIUsage(result.usage);
+      await this.recordRequestUsage(usageLabel, result, Date.now() - startTime, planId);
+      usage = addUsage(usage, result.usage);
+
+      const validation = validateSectionResponse(result.content, title);
+      if ('content' in validation) {
+        return {
+          section: { title, content: this.formatSectionContent(validation.content) },
+          model: result.model,
+          usage
+        };
+      }
+
+      problem = validation.error;
+      messages.push(
+        { role: 'assistant', content: result.content },
+        { role: 'user', content: `That response is invalid: ${problem} Reply again with only the JSON object {"title": "${title}", "content": "..."}.` }
+      );
+    }
+
+    throw new Error(`The AI returned an invalid ${title} section (${problem}). Please retry.`);
+  }
+
+  /**
+   * Record one request in the user's usage history, with its own time and
+   * model. Never throws: the request already happened, so a failure here is
+   * logged rather than surfaced to the user.
+   * 
+   * @param label - What the request was for
+   * @param result - Completion of the request
+   * @param responseTimeMs - How long the request took
+   * @param planId - Saved plan the usage is added to
+   */
+  private async recordRequestUsage(
+    label: string,
+    result: ChatCompletionResult,
+    responseTimeMs: number,
+    planId?: string
+  ): Promise<void> {
+    try {
+      await databaseService.recordPlanUsage({
+        ...(planId ? { plan_id: planId } : {}),
+        label,
+        model: result.model,
+        prompt_tokens: result.usage?.promptTokens || 0,
+        completion_tokens: result.usage?.completionTokens || 0,
+        total_tokens: result.usage?.totalTokens || 0,
+        cost_usd: result.usage?.cost ?? null,
+        response_time_ms: responseTimeMs
+      });
+    } catch (error) {
+      console.error('Error recording plan usage:', error);
+    }
+  }
+
+  /**
+   * Create Section Prompt
+   * 
+   * Constructs the prompt for one section from the user's inputs.
    * This method is crucial for generating relevant, industry-specific content.
    * 
    * @param input - User's business information
+   * @param title - Section to write
    * @returns string - Formatted prompt for AI
    * 
    * Prompt Structure:
+   * - Section to write and its place in the plan
    * - Business details section
-   * - Specific requirements for content
-   * - Industry and location context
-   * - Target audience considerations
-   * - Expected deliverables
+   * - What the section should include (SECTION_GUIDANCE)
+   * - Industry, location and audience context
    * 
    * Customization Points:
-   * - Add industry-specific requirements
+   * - Adjust SECTION_GUIDANCE per section
    * - Include regional market data requests
-   * - Specify financial modeling depth
    * - Adjust for different business types
    */
-  private createBusinessPlanPrompt(input: BusinessPlanInput): string {
-    return `Create a comprehensive, professional business plan for the following business:
+  private createSectionPrompt(input: BusinessPlanInput, title: string): string {
+    const outline = BUSINESS_PLAN_SECTIONS.map((section, index) => `${index + 1}. ${section}`).join('\n');
+
+    return `Write section ${BUSINESS_PLAN_SECTIONS.indexOf(title) + 1} of ${BUSINESS_PLAN_SECTIONS.length}: ${title}
+
+${this.formatBusinessDetails(input)}
+
+The plan has these sections, each written separately:
+${outline}
+
+Write only the ${title} section. ${SECTION_GUIDANCE[title]}
+
+The plan should be professional and ready for presentation to investors, lenders, or stakeholders. Tailor it to ${input.industry} in ${input.location} and to ${input.targetAudience}, and include specific data, metrics, and actionable strategies where possible.`;
+  }
+
+  /**
+   * Create Revision Prompt
+   * 
+   * Prompt for a section action. Regenerating a standard section uses the
+   * same prompt as generating it; other actions send the current section
+   * with the instruction for the action.
+   * 
+   * @param input - User's business information
+   * @param section - Current section
+   * @param action - Action to apply
+   * @returns string - Formatted prompt for AI
+   */
+  private createRevisionPrompt(input: BusinessPlanInput, section: BusinessPlanSection, action: SectionAction): string {
+    const standardTitle = BUSINESS_PLAN_SECTIONS.find(known => isSameSection(known, section.title));
+    if (action.type === 'regenerate' && standardTitle) {
+      return this.createSectionPrompt(input, standardTitle);
+    }
+
+    const instructions: Record<SectionAction['type'], string> = {
+      regenerate: 'Write this section again from scratch, covering the same topic just as completely but with a fresh take.',
+      expand: 'Expand this section to about twice its length: keep everything that is there, and add depth, specific figures, examples and actionable detail.',
+      shorten: 'Shorten this section to about half its length: keep the key points, figures and tables that matter most, and cut repetition and filler.',
+      conservative: 'Make this section more conservative: use cautious assumptions, lower growth and revenue figures, higher costs and longer timelines where they appear, and state the assumptions. Keep its structure.',
+      audience: `Rewrite this section for ${action.type === 'audience' ? action.audience : 'its readers'}: adjust the emphasis, vocabulary and level of detail to what they care about most, keeping the facts and figures consistent.`
+    };
 
-**Business Details:**
+    return `Revise the section: ${section.title}
+
+${this.formatBusinessDetails(input)}
+
+**Current section:**
+${section.content}
+
+${instructions[action.type]} Reply with the complete new version of the section, with the title "${section.title}".`;
+  }
+
+  /**
+   * Business details block shared by the section prompts
+   */
+  private formatBusinessDetails(input: BusinessPlanInput): string {
+    return `**Business Details:**
 - Business Name: ${input.businessName}
 - Industry: ${input.industry}
 - Business Type: ${input.businessType}
@@ -305,18 +809,7 @@ Each section should be detailed, professional, and specific to the business cont
 - Target Audience: ${input.targetAudience}
 - Unique Value Proposition: ${input.uniqueValue}
 - Revenue Model: ${input.revenueModel}
-- Goals: ${input.goals}
-
-Please create a detailed, investor-ready business plan that includes:
-- Market research specific to ${input.industry} in ${input.location}
-- Competitive analysis and positioning
-- Realistic financial projections for 3-5 years
-- Marketing strategies tailored to ${input.targetAudience}
-- Implementation roadmap aligned with the goal: ${input.goals}
-- Risk assessment and mitigation strategies
-- Industry-specific insights and trends
-
-The plan should be professional, comprehensive, and ready for presentation to investors, lenders, or stakeholders. Include specific data, metrics, and actionable strategies where possible.`;
+- Goals: ${input.goals}`;
   }
 
   /**
@@ -324,6 +817,7 @@ The plan should be professional, comprehensive, and ready for presentation to in
    * 
    * Converts AI-generated text into structured sections for easy display and editing.
    * This method handles the complex task of identifying and organizing content.
+   * Used for full-plan responses (modifyBusinessPlan).
    * 
    * @param content - Raw AI response text
    * @returns BusinessPlanSection[] - Array of structured sections
@@ -348,35 +842,21 @@ The plan should be professional, comprehensive, and ready for presentation to in
    * - Appendices
    * 
    * Maintenance Notes:
-   * - Update sectionHeaders array to add new sections
+   * - Update BUSINESS_PLAN_SECTIONS to add new sections
    * - Modify regex patterns for different header formats
    * - Adjust content cleaning rules as needed
    */
   private parseBusinessPlanSections(content: string): BusinessPlanSection[] {
     const sections: BusinessPlanSection[] = [];
     
-    // Clean up AI response - remove markdown and formatting
+    // Normalize line endings and spacing; Markdown inside sections is kept
     const cleanContent = content
-      .replace(/\*\*/g, '') // Remove bold markdown
-      .replace(/\*/g, '') // Remove asterisks
-      .replace(/#{1,6}\s/g, '') // Remove markdown headers
-      .replace(/^\s*[-•]\s/gm, '• ') // Normalize bullet points
+      .replace(/\r\n?/g, '\n') // Normalize line endings
       .replace(/\n{3,}/g, '\n\n') // Normalize multiple line breaks
       .trim();
     
-    // Define expected business plan sections
-    const sectionHeaders = [
-      'Executive Summary',
-      'Company Description',
-      'Market Analysis',
-      'Organization & Management',
-      'Products or Services',
-      'Marketing & Sales Strategy',
-      'Financial Projections',
-      'Risk Analysis',
-      'Implementation Timeline',
-      'Appendices'
-    ];
+    // Expected business plan sections
+    const sectionHeaders = BUSINESS_PLAN_SECTIONS;
 
     let currentSection = '';
     let currentContent = '';
@@ -385,7 +865,12 @@ The plan should be professional, comprehensive, and ready for presentation to in
     
     // Process each line to identify sections and content
     for (const line of lines) {
-      const trimmedLine = line.trim();
+      // Section headers may be Markdown headings or bold ("## 1. Executive Summary", "**Market Analysis**")
+      const trimmedLine = line
+        .trim()
+        .replace(/^#{1,6}\s+/, '')
+        .replace(/^\*\*(.+?)\*\*:?$/, '$1')
+        .trim();
       
       // Check if current line matches a section header
       const matchedHeader = sectionHeaders.find(header => 
@@ -440,130 +925,86 @@ The plan should be professional, comprehensive, and ready for presentation to in
    * @returns string - Cleaned and formatted content
    * 
    * Formatting Rules:
-   * - Remove remaining markdown symbols
-   * - Normalize bullet points
+   * - Keep Markdown (rendered by MarkdownContent in the plan viewer)
+   * - Remove trailing whitespace
    * - Clean up line breaks
-   * - Remove excessive whitespace
-   * - Maintain paragraph structure
+   * - Keep indentation, which nested lists and code blocks depend on
    */
   private formatSectionContent(content: string): string {
     return content
-      .replace(/\*\*/g, '') // Remove any remaining bold markdown
-      .replace(/\*/g, '') // Remove any remaining asterisks
-      .replace(/^\s*[-•]\s/gm, '• ') // Normalize bullet points
+      .replace(/[ \t]+$/gm, '') // Remove trailing whitespace from lines
       .replace(/\n{3,}/g, '\n\n') // Normalize line breaks
-      .replace(/^\s+/gm, '') // Remove leading whitespace from lines
       .trim();
   }
 
   /**
    * Export Business Plan to PDF
    * 
-   * Generates a downloadable text file of the business plan.
-   * Note: This creates a .txt file, not a true PDF. For real PDF generation,
-   * you would need a library like jsPDF or Puppeteer.
+   * Generates and downloads a formatted PDF of the business plan: a cover
+   * page with the business name, a logo mark and the date, a table of
+   * contents, one page per section with page numbers, headers and footers.
    * 
    * @param businessPlan - Complete business plan object
-   * 
-   * Enhancement Opportunities:
-   * - Integrate jsPDF for real PDF generation
-   * - Add custom styling and formatting
-   * - Include charts and graphs
-   * - Add company branding
+   * @param details - Business name, location and author shown in the document
+   * @throws Error - When the PDF can't be generated
    */
-  exportToPDF(businessPlan: GeneratedBusinessPlan): void {
-    const content = this.formatBusinessPlanForExport(businessPlan);
-    const blob = new Blob([content], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${businessPlan.title.replace(/\s+/g, '_')}.txt`;
-    a.click();
-    URL.revokeObjectURL(url);
+  exportToPDF(businessPlan: GeneratedBusinessPlan, details: PlanExportDetails): void {
+    let blob: Blob;
+    try {
+      blob = planToPdf({
+        title: businessPlan.title,
+        industry: businessPlan.industry,
+        date: businessPlan.createdAt,
+        sections: businessPlan.sections,
+        ...details
+      });
+    } catch (error) {
+      console.error('Error generating PDF:', error);
+      throw new Error('Failed to generate PDF');
+    }
+
+    downloadPlanFile(blob, `${businessPlan.title.replace(/\s+/g, '_')}.pdf`);
   }
 
   /**
    * Export Business Plan to Word
    * 
-   * Generates a downloadable Word-compatible file.
-   * Note: This creates a .doc file with plain text. For true Word documents,
-   * you would need a library like docx or mammoth.js.
+   * Generates and downloads a .docx document of the business plan: a title
+   * page, a table of contents, sections as Word headings, lists and tables,
+   * and document properties (author, company).
    * 
    * @param businessPlan - Complete business plan object
-   * 
-   * Enhancement Opportunities:
-   * - Use docx library for real Word documents
-   * - Add professional formatting
-   * - Include tables and charts
-   * - Support for headers and footers
+   * @param details - Business name, location, author and company shown in the document
+   * @throws Error - When the document can't be generated
    */
-  exportToWord(businessPlan: GeneratedBusinessPlan): void {
-    const content = this.formatBusinessPlanForExport(businessPlan);
-    const blob = new Blob([content], { type: 'application/msword' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${businessPlan.title.replace(/\s+/g, '_')}.doc`;
-    a.click();
-    URL.revokeObjectURL(url);
-  }
+  async exportToWord(businessPlan: GeneratedBusinessPlan, details: PlanExportDetails): Promise<void> {
+    let blob: Blob;
+    try {
+      blob = await planToDocx({
+        title: businessPlan.title,
+        industry: businessPlan.industry,
+        date: businessPlan.createdAt,
+        sections: businessPlan.sections,
+        ...details
+      });
+    } catch (error) {
+      console.error('Error generating Word document:', error);
+      throw new Error('Failed to generate Word document');
+    }
 
-  /**
-   * Format Business Plan for Export
-   * 
-   * Creates a formatted text version of the business plan suitable for export.
-   * Includes metadata, proper section headers, and clean content formatting.
-   * 
-   * @param businessPlan - Business plan object to format
-   * @returns string - Formatted text content
-   * 
-   * Format Structure:
-   * - Title and metadata header
-   * - Separator line
-   * - Each section with title and content
-   * - Consistent spacing and formatting
-   */
-  private formatBusinessPlanForExport(businessPlan: GeneratedBusinessPlan): string {
-    let content = `${businessPlan.title}\n`;
-    content += `Industry: ${businessPlan.industry}\n`;
-    content += `Created: ${businessPlan.createdAt.toLocaleDateString()}\n\n`;
-    content += '='.repeat(50) + '\n\n';
-    
-    businessPlan.sections.forEach(section => {
-      content += `${section.title}\n`;
-      content += '-'.repeat(section.title.length) + '\n\n';
-      content += `${section.content}\n\n`;
-    });
-    
-    return content;
+    downloadPlanFile(blob, `${businessPlan.title.replace(/\s+/g, '_')}.docx`);
   }
 
   /**
    * Get Available Models
    * 
-   * Retrieves list of available AI models from OpenRouter.
+   * Retrieves list of available AI models from the provider.
    * Useful for implementing model selection features.
    * 
-   * @returns Promise<any[]> - Array of available models
+   * @returns Promise<ModelInfo[]> - Array of available models
    */
-  async getAvailableModels(): Promise<any[]> {
-    try {
-      const response = await fetch(`${this.baseUrl}/models`, {
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-        }
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch models');
-      }
-
-      const data = await response.json();
-      return data.data || [];
-    } catch (error) {
-      console.error('Error fetching models:', error);
-      return [];
-    }
+  async getAvailableModels(): Promise<ModelInfo[]> {
+    return this.provider.listModels();
   }
 
   /**
@@ -602,6 +1043,7 @@ The plan should be professional, comprehensive, and ready for presentation to in
    * 
    * @param businessPlan - Existing business plan to modify
    * @param modificationRequest - Natural language description of desired changes
+   * @param planId - Saved plan the usage is added to
    * @returns Promise<GeneratedBusinessPlan> - New modified business plan
    * 
    * Process:
@@ -625,13 +1067,12 @@ The plan should be professional, comprehensive, and ready for presentation to in
    */
   async modifyBusinessPlan(
     businessPlan: GeneratedBusinessPlan, 
-    modificationRequest: string
+    modificationRequest: string,
+    planId?: string
   ): Promise<GeneratedBusinessPlan> {
-    if (!this.apiKey || this.apiKey === 'your_openrouter_api_key_here') {
-      throw new Error('OpenRouter API key not configured. Please add your API key to the .env file.');
-    }
-
     try {
+      await reserveAIRequest();
+
       // Format current plan for AI context
       const currentPlanText = this.formatBusinessPlanForModification(businessPlan);
       
@@ -643,47 +1084,24 @@ ${currentPlanText}
 
 Please provide the complete modified business plan with all sections updated as needed. Maintain the same professional structure and format. Focus specifically on the requested changes while ensuring the entire plan remains coherent and professional.
 
-IMPORTANT: Format your response as clean, readable text without any markdown formatting, asterisks, or special characters. Use plain text with proper paragraphs and line breaks.`;
+IMPORTANT: Format your response in Markdown, starting each section with a level-2 heading containing its number and name (for example "## 1. Executive Summary").`;
 
       // Send modification request to AI
-      const response = await fetch(`${this.baseUrl}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-          'HTTP-Referer': window.location.origin,
-          'X-Title': 'BizGenius Business Plan Modifier'
-        },
-        body: JSON.stringify({
-          model: this.model,
-          messages: [
-            { role: 'system', content: this.systemPrompt },
-            { role: 'user', content: prompt }
-          ],
-          max_tokens: 4000,
-          temperature: 0.7,
-          stream: false,
-        })
+      const startTime = Date.now();
+      const result = await this.provider.createChatCompletion({
+        model: this.model,
+        messages: [
+          { role: 'system', content: this.systemPrompt },
+          { role: 'user', content: prompt }
+        ],
+        maxTokens: 4000,
+        temperature: 0.7,
+        timeoutMs: PLAN_TIMEOUT_MS
       });
+      await recordAIUsage(result.usage);
+      await this.recordRequestUsage(`${businessPlan.title}: modification`, result, Date.now() - startTime, planId);
 
-      // Handle API errors
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        
-        if (response.status === 401) {
-          throw new Error('Invalid API key. Please check your OpenRouter API key configuration.');
-        } else if (response.status === 402) {
-          throw new Error('Insufficient credits. Please check your OpenRouter billing.');
-        } else if (response.status === 429) {
-          throw new Error('Rate limit exceeded. Please wait a moment and try again.');
-        } else {
-          throw new Error(errorData.error?.message || `API request failed with status ${response.status}`);
-        }
-      }
-
-      // Extract and parse modified content
-      const data = await response.json();
-      const modifiedContent = data.choices[0]?.message?.content || 'Failed to modify business plan.';
+      const modifiedContent = result.content || 'Failed to modify business plan.';
 
       // Parse modified content into structured sections
       const sections = this.parseBusinessPlanSections(modifiedContent);
@@ -695,7 +1113,9 @@ IMPORTANT: Format your response as clean, readable text without any markdown for
         title: `${businessPlan.title} (Modified)`,
         createdAt: new Date(),
         sections,
-        status: 'complete'
+        status: 'complete',
+        model: result.model,
+        usage: result.usage
       };
 
       return modifiedPlan;
@@ -724,7 +1144,7 @@ IMPORTANT: Format your response as clean, readable text without any markdown for
     content += `Industry: ${businessPlan.industry}\n\n`;
     
     businessPlan.sections.forEach(section => {
-      content += `${section.title}\n`;
+      content += `## ${section.title}\n`;
       content += `${section.content}\n\n`;
     });
     
@@ -750,4 +1170,4 @@ export const businessPlanGenerator = new BusinessPlanGenerator();
  * Exports all interfaces for type safety in components and other modules.
  * Use these when defining props, state, or function parameters.
  */
-export type { BusinessPlanInput, GeneratedBusinessPlan, BusinessPlanSection };
\ No newline at end of file
+export type { BusinessPlanInput, GeneratedBusinessPlan, BusinessPlanSection, PlanSectionProgress, GeneratedPlanSection, SectionAction, PlanSectionChange };
\ No newline at end of file
@@ -0,0 +1,118 @@
+/**
+ * Chat Branches
+ *
+ * Helpers for conversations whose turns form a tree. Every chat_history
+ * row points to the turn it follows (parent_id); regenerating an answer or
+ * editing a question adds a new turn next to the original, so turns with
+ * the same parent are alternative branches the user can switch between.
+ *
+ * The branch on screen is identified by its last turn, stored on the
+ * conversation as active_turn_id.
+ *
+ * @author BizGenius Team
+ * @version 1.0.0
+ */
+
+import type { ChatHistoryRecord } from './database';
+
+/**
+ * Fields of a turn the helpers need; saved and exported turns both have them
+ */
+export type TurnNode = Pick<ChatHistoryRecord, 'id' | 'parent_id' | 'created_at'>;
+
+/**
+ * Branch Position
+ *
+ * - index: 0-based position of the turn among its alternatives (oldest first)
+ * - siblings: All alternatives, the turn included
+ */
+export interface BranchPosition<T extends TurnNode = ChatHistoryRecord> {
+  index: number;
+  siblings: T[];
+}
+
+const byCreatedAt = (a: TurnNode, b: TurnNode) =>
+  a.created_at.localeCompare(b.created_at);
+
+/**
+ * Turns that follow a turn (or the first turns, for null), oldest first
+ */
+export const getChildren = <T extends TurnNode>(records: T[], parentId: string | null): T[] =>
+  records.filter(record => record.parent_id === parentId).sort(byCreatedAt);
+
+/**
+ * Alternatives of a turn and its position among them
+ *
+ * @param records - All turns of the conversation
+ * @param turnId - Turn to locate
+ * @returns BranchPosition | null - null when the turn is unknown
+ */
+export const getBranchPosition = <T extends TurnNode>(records: T[], turnId: string): BranchPosition<T> | null => {
+  const turn = records.find(record => record.id === turnId);
+  if (!turn) return null;
+
+  const siblings = getChildren(records, turn.parent_id);
+  return { index: siblings.findIndex(sibling => sibling.id === turnId), siblings };
+};
+
+/**
+ * Last turn of the most recent branch below a turn
+ *
+ * Follows the newest follow-up at every step, so switching to an
+ * alternative shows the conversation as it was last continued there.
+ *
+ * @param records - All turns of the conversation
+ * @param turnId - Turn to start from
+ * @returns string - ID of the last turn (turnId itself when nothing follows)
+ */
+export const findLatestLeaf = (records: TurnNode[], turnId: string): string => {
+  let currentId = turnId;
+  const visited = new Set<string>();
+
+  while (!visited.has(currentId)) {
+    visited.add(currentId);
+    const children = getChildren(records, currentId);
+    if (children.length === 0) break;
+    currentId = children[children.length - 1].id;
+  }
+
+  return currentId;
+};
+
+/**
+ * Turns from the start of the conversation to a turn, oldest first
+ *
+ * @param records - All turns of the conversation
+ * @param turnId - Last turn of the branch
+ * @returns T[] - Empty when the turn is unknown
+ */
+export const buildBranchPath = <T extends TurnNode>(records: T[], turnId: string): T[] => {
+  const recordsById = new Map(records.map(record => [record.id, record]));
+  const path: T[] = [];
+  let current = recordsById.get(turnId);
+
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parent_id ? recordsById.get(current.parent_id) : undefined;
+  }
+
+  return path;
+};
+
+/**
+ * Last turn of the branch to show when a conversation opens
+ *
+ * Continues from the stored active turn to its latest follow-up, since
+ * plain follow-up questions do not move active_turn_id. Without a valid
+ * active turn, the most recent turn is used.
+ *
+ * @param records - All turns of the conversation, in chronological order
+ * @param activeTurnId - conversations.active_turn_id
+ * @returns string | null - null for a conversation without turns
+ */
+export const resolveActiveTurn = (records: TurnNode[], activeTurnId: string | null): string | null => {
+  if (activeTurnId && records.some(record => record.id === activeTurnId)) {
+    return findLatestLeaf(records, activeTurnId);
+  }
+  return records.length > 0 ? records[records.length - 1].id : null;
+};
@@ -0,0 +1,454 @@
+/**
+ * Chat Export
+ *
+ * Export of assistant conversations to Markdown, JSON and PDF, and import
+ * of exported JSON files (to move history between accounts or restore it
+ * after clearing). Exports include timestamps, the model and persona that
+ * answered and the user's notes on each turn (assistant notes whose
+ * related_id is the turn).
+ *
+ * - JSON contains every turn, branches included, and can be imported
+ * - Markdown and PDF contain each conversation's active branch, as shown
+ *   in the assistant
+ *
+ * @author BizGenius Team
+ * @version 1.0.0
+ */
+
+import { jsPDF } from 'jspdf';
+import { markdownToPlainText } from './markdown';
+import { buildBranchPath, resolveActiveTurn } from './chatBranches';
+import {
+  databaseService,
+  type ChatHistoryRecord,
+  type ConversationRecord,
+  type ImportConversationInput,
+  type ImportTurnInput,
+  type NoteRecord
+} from './database';
+
+export type ChatExportFormat = 'markdown' | 'json' | 'pdf';
+
+// Identifies BizGenius chat export files
+export const CHAT_EXPORT_FORMAT = 'bizgenius-chat-export';
+export const CHAT_EXPORT_VERSION = 1;
+
+// Chat history rows fetched per request when exporting all history
+const HISTORY_PAGE_SIZE = 500;
+
+// Most conversations listed when exporting all history
+const MAX_EXPORT_CONVERSATIONS = 1000;
+
+/**
+ * Exported Conversation
+ *
+ * Same shape as the import input, plus the original IDs and timestamps.
+ */
+export interface ExportedConversation extends ImportConversationInput {
+  id: string;
+  created_at: string;
+  last_message_at: string;
+}
+
+export interface ChatExportFile {
+  format: typeof CHAT_EXPORT_FORMAT;
+  version: number;
+  exported_at: string;
+  conversations: ExportedConversation[];
+}
+
+/**
+ * Chat Import Result
+ *
+ * - conversations: Imported conversations, in file order
+ * - failed: Conversations that could not be saved
+ */
+export interface ChatImportResult {
+  conversations: ConversationRecord[];
+  failed: number;
+}
+
+const byCreatedAt = (a: { created_at: string }, b: { created_at: string }) =>
+  a.created_at.localeCompare(b.created_at);
+
+const formatTimestamp = (value: string): string => new Date(value).toLocaleString();
+
+// ==================== BUILDING EXPORTS ====================
+
+/**
+ * Convert a conversation's turns and notes into its export form
+ */
+const toExportedConversation = (
+  conversation: Pick<ConversationRecord, 'id' | 'title' | 'active_turn_id' | 'created_at' | 'last_message_at'>,
+  turns: ChatHistoryRecord[],
+  notes: NoteRecord[]
+): ExportedConversation => ({
+  id: conversation.id,
+  title: conversation.title,
+  active_turn_id: conversation.active_turn_id,
+  created_at: conversation.created_at,
+  last_message_at: conversation.last_message_at,
+  turns: [...turns].sort(byCreatedAt).map(turn => ({
+    id: turn.id,
+    parent_id: turn.parent_id,
+    question: turn.question,
+    answer: turn.answer,
+    message_type: turn.message_type,
+    model_used: turn.model_used,
+    persona_name: turn.persona_name,
+    business_plan_title: turn.business_plan_title,
+    lesson_sources: turn.lesson_sources || [],
+    tool_invocations: turn.tool_invocations || [],
+    temperature: turn.temperature,
+    created_at: turn.created_at,
+    notes: notes
+      .filter(note => note.related_id === turn.id)
+      .sort(byCreatedAt)
+      .map(note => ({ content: note.content, created_at: note.created_at }))
+  }))
+});
+
+const createChatExport = (conversations: ExportedConversation[]): ChatExportFile => ({
+  format: CHAT_EXPORT_FORMAT,
+  version: CHAT_EXPORT_VERSION,
+  exported_at: new Date().toISOString(),
+  conversations
+});
+
+/**
+ * Build the export of one conversation
+ *
+ * @param conversationId - Conversation to export
+ * @returns Promise<ChatExportFile> - Export with every turn and its notes
+ */
+export const buildConversationExport = async (conversationId: string): Promise<ChatExportFile> => {
+  const conversation = await databaseService.getConversation(conversationId);
+  const notes = await databaseService.getAssistantNotes(conversation.messages.map(turn => turn.id));
+
+  return createChatExport([toExportedConversation(conversation, conversation.messages, notes)]);
+};
+
+/**
+ * Build the export of the user's whole chat history
+ *
+ * Turns are read page by page from getChatHistory() and grouped by
+ * conversation, most recently active conversation first.
+ *
+ * @returns Promise<ChatExportFile> - Export of every conversation
+ */
+export const buildHistoryExport = async (): Promise<ChatExportFile> => {
+  const records: ChatHistoryRecord[] = [];
+  for (let offset = 0; ; offset += HISTORY_PAGE_SIZE) {
+    const page = await databaseService.getChatHistory(HISTORY_PAGE_SIZE, offset);
+    records.push(...page);
+    if (page.length < HISTORY_PAGE_SIZE) break;
+  }
+
+  const [conversations, notes] = await Promise.all([
+    databaseService.listConversations(MAX_EXPORT_CONVERSATIONS),
+    databaseService.getAssistantNotes(records.map(record => record.id))
+  ]);
+
+  const turnsByConversation = new Map<string, ChatHistoryRecord[]>();
+  records.forEach(record => {
+    turnsByConversation.set(record.conversation_id, [...(turnsByConversation.get(record.conversation_id) || []), record]);
+  });
+
+  const exported = Array.from(turnsByConversation.entries()).map(([conversationId, turns]) => {
+    const sortedTurns = [...turns].sort(byCreatedAt);
+    // Turns of conversations beyond the listed ones keep their grouping, untitled
+    const conversation = conversations.find(candidate => candidate.id === conversationId) || {
+      id: conversationId,
+      title: '',
+      active_turn_id: null,
+      created_at: sortedTurns[0].created_at,
+      last_message_at: sortedTurns[sortedTurns.length - 1].created_at
+    };
+    return toExportedConversation(conversation, sortedTurns, notes);
+  });
+
+  return createChatExport(
+    exported.sort((a, b) => b.last_message_at.localeCompare(a.last_message_at))
+  );
+};
+
+// ==================== FORMATS ====================
+
+/**
+ * Turns of a conversation's active branch, oldest first
+ */
+const getActiveBranch = (conversation: ExportedConversation): ImportTurnInput[] => {
+  const activeTurnId = resolveActiveTurn(conversation.turns, conversation.active_turn_id);
+  return activeTurnId ? buildBranchPath(conversation.turns, activeTurnId) : [];
+};
+
+/**
+ * Timestamp, model, persona and plan of an answer
+ */
+const describeAnswer = (turn: ImportTurnInput): string =>
+  [
+    formatTimestamp(turn.created_at),
+    turn.model_used,
+    turn.persona_name,
+    turn.business_plan_title ? `Plan: ${turn.business_plan_title}` : null
+  ].filter(Boolean).join(' · ');
+
+/**
+ * Markdown document with one section per conversation
+ */
+export const chatExportToMarkdown = (file: ChatExportFile): string => {
+  const lines = [
+    '# BizGenius Chat Export',
+    '',
+    `Exported ${formatTimestamp(file.exported_at)} · ${file.conversations.length} conversation(s)`,
+    ''
+  ];
+
+  file.conversations.forEach(conversation => {
+    lines.push(`## ${conversation.title || 'Untitled conversation'}`, '', `_Started ${formatTimestamp(conversation.created_at)}_`, '');
+
+    getActiveBranch(conversation).forEach(turn => {
+      lines.push(`### You · ${formatTimestamp(turn.created_at)}`, '', turn.question, '');
+      lines.push(`### AI Assistant · ${describeAnswer(turn)}`, '', turn.answer, '');
+      turn.notes.forEach(note => {
+        lines.push(`> **Note** (${formatTimestamp(note.created_at)}): ${note.content.replace(/\n/g, '\n> ')}`, '');
+      });
+    });
+
+    lines.push('---', '');
+  });
+
+  return lines.join('\n');
+};
+
+/**
+ * Replace characters the built-in PDF fonts cannot show
+ */
+export const toPdfText = (text: string): string =>
+  text.replace(/[^\t\n\r\x20-\x7E\xA0-\xFF–—‘’“”•…€]/gu, '?');
+
+type RGB = [number, number, number];
+
+interface PdfTextStyle {
+  size?: number;
+  bold?: boolean;
+  italic?: boolean;
+  color?: RGB;
+  indent?: number;
+  spacingAfter?: number;
+}
+
+/**
+ * PDF document (A4) with one section per conversation and page numbers
+ */
+export const chatExportToPdf = (file: ChatExportFile): Blob => {
+  const pdf = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const margin = 18;
+  const contentWidth = pageWidth - margin * 2;
+  let y = margin;
+
+  /**
+   * Write wrapped text at the cursor, starting new pages as needed
+   */
+  const write = (text: string, { size = 10, bold = false, italic = false, color = [17, 24, 39], indent = 0, spacingAfter = 2 }: PdfTextStyle = {}) => {
+    const fontStyle = bold && italic ? 'bolditalic' : bold ? 'bold' : italic ? 'italic' : 'normal';
+    pdf.setFont('helvetica', fontStyle);
+    pdf.setFontSize(size);
+    pdf.setTextColor(...color);
+
+    // Points to millimetres, with line spacing
+    const lineHeight = size * 0.3528 * 1.35;
+    const lines: string[] = pdf.splitTextToSize(toPdfText(text), contentWidth - indent);
+
+    lines.forEach(line => {
+      if (y + lineHeight > pageHeight - margin) {
+        pdf.addPage();
+        y = margin;
+      }
+      pdf.text(line, margin + indent, y, { baseline: 'top' });
+      y += lineHeight;
+    });
+    y += spacingAfter;
+  };
+
+  pdf.setProperties({ title: 'BizGenius Chat Export', creator: 'BizGenius' });
+
+  write('BizGenius Chat Export', { size: 20, bold: true });
+  write(`Exported ${formatTimestamp(file.exported_at)} · ${file.conversations.length} conversation(s)`, { size: 9, color: [107, 114, 128], spacingAfter: 6 });
+
+  file.conversations.forEach((conversation, index) => {
+    if (index > 0) {
+      pdf.addPage();
+      y = margin;
+    }
+
+    write(conversation.title || 'Untitled conversation', { size: 15, bold: true });
+    write(`Started ${formatTimestamp(conversation.created_at)}`, { size: 9, color: [107, 114, 128], spacingAfter: 5 });
+
+    getActiveBranch(conversation).forEach(turn => {
+      write(`You · ${formatTimestamp(turn.created_at)}`, { size: 9, bold: true, color: [37, 99, 235], spacingAfter: 1 });
+      write(turn.question, { spacingAfter: 4 });
+      write(`AI Assistant · ${describeAnswer(turn)}`, { size: 9, bold: true, color: [75, 85, 99], spacingAfter: 1 });
+      write(markdownToPlainText(turn.answer), { spacingAfter: 4 });
+      turn.notes.forEach(note => {
+        write(`Note (${formatTimestamp(note.created_at)}): ${note.content}`, { size: 9, italic: true, color: [180, 83, 9], indent: 4, spacingAfter: 3 });
+      });
+      y += 2;
+    });
+  });
+
+  // Footer with page numbers on every page
+  const pageCount = pdf.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    pdf.setPage(page);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(8);
+    pdf.setTextColor(156, 163, 175);
+    pdf.text('BizGenius Chat Export', margin, pageHeight - 10);
+    pdf.text(`Page ${page} of ${pageCount}`, pageWidth - margin, pageHeight - 10, { align: 'right' });
+  }
+
+  return pdf.output('blob');
+};
+
+/**
+ * Download an export in the given format
+ *
+ * @param file - Export to download
+ * @param format - Markdown, JSON or PDF
+ * @param name - File name without extension
+ */
+export const downloadChatExport = (file: ChatExportFile, format: ChatExportFormat, name: string) => {
+  const blob = format === 'pdf'
+    ? chatExportToPdf(file)
+    : format === 'json'
+      ? new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' })
+      : new Blob([chatExportToMarkdown(file)], { type: 'text/markdown' });
+  const extension = format === 'markdown' ? 'md' : format;
+
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${name}.${extension}`;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// ==================== IMPORT ====================
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isTimestamp = (value: unknown): value is string =>
+  typeof value === 'string' && !Number.isNaN(Date.parse(value));
+
+const optionalString = (value: unknown): string | null =>
+  typeof value === 'string' ? value : null;
+
+/**
+ * Validate one exported turn
+ */
+const parseTurn = (value: unknown): ImportTurnInput => {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.question !== 'string' ||
+      typeof value.answer !== 'string' || !isTimestamp(value.created_at)) {
+    throw new Error('a turn is missing its id, question, answer or timestamp');
+  }
+
+  return {
+    id: value.id,
+    parent_id: optionalString(value.parent_id),
+    question: value.question,
+    answer: value.answer,
+    message_type: value.message_type === 'system' || value.message_type === 'error' ? value.message_type : 'interaction',
+    model_used: optionalString(value.model_used) || '',
+    persona_name: optionalString(value.persona_name),
+    business_plan_title: optionalString(value.business_plan_title),
+    lesson_sources: Array.isArray(value.lesson_sources) ? value.lesson_sources : [],
+    tool_invocations: Array.isArray(value.tool_invocations) ? value.tool_invocations : [],
+    temperature: typeof value.temperature === 'number' ? value.temperature : null,
+    created_at: value.created_at,
+    notes: (Array.isArray(value.notes) ? value.notes : [])
+      .filter((note): note is Record<string, unknown> => isRecord(note) && typeof note.content === 'string' && Boolean(note.content.trim()))
+      .map(note => ({
+        content: String(note.content),
+        created_at: isTimestamp(note.created_at) ? note.created_at : value.created_at as string
+      }))
+  };
+};
+
+/**
+ * Parse and validate an exported JSON file
+ *
+ * @param text - File contents
+ * @returns ChatExportFile - Validated export
+ * @throws Error - With a message for the user when the file cannot be imported
+ */
+export const parseChatExport = (text: string): ChatExportFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  if (!isRecord(data) || data.format !== CHAT_EXPORT_FORMAT || !Array.isArray(data.conversations)) {
+    throw new Error('This file is not a BizGenius chat export.');
+  }
+  if (typeof data.version !== 'number' || data.version > CHAT_EXPORT_VERSION) {
+    throw new Error('This export was made by a newer version of BizGenius and cannot be imported.');
+  }
+
+  const conversations = data.conversations.map((conversation, index): ExportedConversation => {
+    try {
+      if (!isRecord(conversation) || !Array.isArray(conversation.turns)) {
+        throw new Error('its turns are missing');
+      }
+      const turns = conversation.turns.map(parseTurn);
+      const firstTurn = [...turns].sort(byCreatedAt)[0];
+
+      return {
+        id: optionalString(conversation.id) || '',
+        title: optionalString(conversation.title) || '',
+        active_turn_id: optionalString(conversation.active_turn_id),
+        created_at: isTimestamp(conversation.created_at) ? conversation.created_at : firstTurn?.created_at || new Date().toISOString(),
+        last_message_at: isTimestamp(conversation.last_message_at) ? conversation.last_message_at : firstTurn?.created_at || new Date().toISOString(),
+        turns
+      };
+    } catch (error) {
+      throw new Error(`Conversation ${index + 1} cannot be imported: ${error instanceof Error ? error.message : 'invalid data'}.`);
+    }
+  });
+
+  return {
+    format: CHAT_EXPORT_FORMAT,
+    version: data.version,
+    exported_at: isTimestamp(data.exported_at) ? data.exported_at : new Date().toISOString(),
+    conversations
+  };
+};
+
+/**
+ * Import every conversation of an export into the current account
+ *
+ * Conversations are imported one by one; a failed conversation is counted
+ * and the rest are still imported.
+ *
+ * @param file - Validated export (see parseChatExport)
+ * @returns Promise<ChatImportResult> - Imported conversations and failures
+ */
+export const importChatExport = async (file: ChatExportFile): Promise<ChatImportResult> => {
+  const result: ChatImportResult = { conversations: [], failed: 0 };
+
+  for (const conversation of file.conversations) {
+    try {
+      result.conversations.push(await databaseService.importConversation(conversation));
+    } catch (error) {
+      console.error('Error importing conversation:', error);
+      result.failed++;
+    }
+  }
+
+  return result;
+};
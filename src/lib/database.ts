@@ -7,6 +7,7 @@
  * 
  * Key Features:
  * - Chat history management with bookmarking
+ * - Conversation threads (list, reopen, rename, delete)
  * - Business plan CRUD operations
  * - User profile management
  * - Real-time data synchronization
@@ -18,6 +19,7 @@
 
 import { supabase } from './supabase';
 import type { User } from '@supabase/supabase-js';
+import type { ToolInvocation } from './assistantTools';
 
 /**
  * Chat History Interfaces
@@ -31,8 +33,22 @@ export interface ChatHistoryRecord {
   conversation_id: string;
   message_type: 'interaction' | 'system' | 'error';
   tokens_used: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number | null;
   model_used: string;
   response_time_ms: number;
+  persona_id: string | null;
+  persona_name: string | null;
+  business_plan_id: string | null;
+  business_plan_title: string | null;
+  lesson_sources: LessonSourceRecord[];
+  tool_invocations: ToolInvocation[];
+  attachments: AttachmentRecord[];
+  follow_ups: string[];
+  parent_id: string | null;
+  temperature: number | null;
+  deleted_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -43,8 +59,109 @@ export interface CreateChatHistoryInput {
   conversation_id?: string;
   message_type?: 'interaction' | 'system' | 'error';
   tokens_used?: number;
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  cost_usd?: number | null;
   model_used?: string;
   response_time_ms?: number;
+  persona_id?: string | null;
+  persona_name?: string | null;
+  business_plan_id?: string | null;
+  business_plan_title?: string | null;
+  lesson_sources?: LessonSourceRecord[];
+  tool_invocations?: ToolInvocation[];
+  attachments?: AttachmentRecord[];
+  follow_ups?: string[];
+  parent_id?: string | null;
+  temperature?: number | null;
+}
+
+/**
+ * Conversation Interfaces
+ */
+export interface ConversationRecord {
+  id: string;
+  user_id: string;
+  title: string;
+  last_message_at: string;
+  summary: string;
+  summarized_through: string | null;
+  active_turn_id: string | null;
+  deleted_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Default AI models per feature, stored in profiles.preferences.ai_models
+ */
+export interface ModelPreferences {
+  chat?: string;
+  plan?: string;
+}
+
+/**
+ * AI Assistant voice settings, stored in profiles.preferences.voice
+ * 
+ * - voice_uri: Speech synthesis voice; browser default when unset or not
+ *   available on this device
+ * - rate: Reading speed (1 = normal)
+ * - hands_free: Send dictated questions right away and read answers aloud
+ */
+export interface VoicePreferences {
+  voice_uri?: string;
+  rate?: number;
+  hands_free?: boolean;
+}
+
+export interface ConversationWithMessages extends ConversationRecord {
+  messages: ChatHistoryRecord[];
+}
+
+/**
+ * Conversation to import, e.g. from a chat export file
+ * 
+ * Turn IDs only link turns (parent_id, active_turn_id) within the input;
+ * imported turns get new IDs. Notes are imported as assistant notes of
+ * their turn.
+ */
+export interface ImportConversationInput {
+  title: string;
+  active_turn_id: string | null;
+  turns: ImportTurnInput[];
+}
+
+export type ImportTurnInput = Pick<
+  ChatHistoryRecord,
+  'id' | 'parent_id' | 'question' | 'answer' | 'message_type' | 'model_used' | 'persona_name' |
+  'business_plan_title' | 'lesson_sources' | 'tool_invocations' | 'temperature' | 'created_at'
+> & {
+  notes: Pick<NoteRecord, 'content' | 'created_at'>[];
+};
+
+/**
+ * Assistant Persona Interfaces
+ * 
+ * Custom personas created by the user; built-in personas live in src/lib/personas.ts.
+ */
+export interface PersonaRecord {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string;
+  system_prompt: string;
+  temperature: number;
+  starter_questions: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreatePersonaInput {
+  name: string;
+  description?: string;
+  system_prompt: string;
+  temperature?: number;
+  starter_questions?: string[];
 }
 
 /**
@@ -67,9 +184,14 @@ export interface BusinessPlanRecord {
   sections_count: number;
   ai_model_used: string;
   generation_time_ms: number;
+  tokens_used: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number | null;
   last_modified_at: string;
   is_favorite: boolean;
   export_count: number;
+  deleted_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -87,8 +209,131 @@ export interface CreateBusinessPlanInput {
   title: string;
   ai_model_used?: string;
   generation_time_ms?: number;
+  tokens_used?: number;
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  cost_usd?: number | null;
+  status?: 'draft' | 'complete';
+}
+
+/**
+ * Content of a plan that a save can change; each save is recorded as a version.
+ * Usage totals are not saved with the content: the database adds each
+ * recorded usage event of the plan to them.
+ */
+export type BusinessPlanContentUpdate = Partial<Pick<BusinessPlanRecord, 'title' | 'status' | 'generated_plan'>>;
+
+/**
+ * Business Plan Version Interfaces
+ * 
+ * A snapshot of a plan's title, status and sections, recorded on every save.
+ */
+export type PlanChangeType =
+  | 'created'
+  | 'manual_edit'
+  | 'ai_modification'
+  | 'section_action'
+  | 'section_retry'
+  | 'restore';
+
+export interface BusinessPlanVersionRecord {
+  id: string;
+  plan_id: string;
+  user_id: string;
+  version_number: number;
+  title: string;
+  status: 'draft' | 'complete' | 'archived';
+  generated_plan: BusinessPlanRecord['generated_plan'];
+  change_type: PlanChangeType;
+  change_summary: string;
+  author_name: string | null;
+  ai_model: string | null;
+  created_at: string;
+}
+
+export interface PlanVersionChange {
+  change_type: PlanChangeType;
+  change_summary: string;
+  author_name?: string | null;
+  ai_model?: string | null;
+}
+
+/**
+ * AI Usage Interfaces
+ * 
+ * Backed by the ai_usage_events / ai_usage_daily / ai_usage_monthly views.
+ */
+export interface UsageEventRecord {
+  id: string;
+  user_id: string;
+  source: 'chat' | 'plan';
+  label: string;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost_usd: number | null;
+  response_time_ms: number;
+  created_at: string;
 }
 
+/**
+ * One plan AI request, recorded in plan_usage_events when it is made
+ * 
+ * - plan_id: Saved plan the request was for; its usage is added to the
+ *   plan's totals. Omitted while a new plan is generated.
+ */
+export interface PlanUsageEventInput {
+  plan_id?: string;
+  label: string;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost_usd: number | null;
+  response_time_ms: number;
+}
+
+export interface UsagePeriodRecord {
+  user_id: string;
+  period: string;
+  model: string;
+  request_count: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost_usd: number;
+}
+
+/**
+ * Per-user AI quota status returned by the consume_ai_request function.
+ * limit_type is set when a limit has been reached.
+ */
+export interface AIQuotaStatus {
+  allowed: boolean;
+  limit_type: 'requests' | 'tokens' | null;
+  requests_today: number;
+  requests_per_day: number;
+  tokens_this_month: number;
+  tokens_per_month: number;
+  day_resets_at: string;
+  month_resets_at: string;
+}
+
+// Chat IDs per query when loading the notes of many chats
+const NOTE_BATCH_SIZE = 100;
+const MAX_NOTES_PER_BATCH = 1000;
+
+// Days before trashed items are purged (see purge_deleted_items)
+const TRASH_RETENTION_DAYS = 30;
+
+// Tables of trash items that are a single row
+const SINGLE_ROW_TRASH_TABLES = {
+  note: 'notes',
+  business_plan: 'business_plans',
+  bookmark: 'bookmarks'
+} as const;
+
 /**
  * Database Service Class
  * 
@@ -116,17 +361,34 @@ export class DatabaseService {
     try {
       const user = await this.getCurrentUser();
       
+      // Every turn belongs to a conversation - start one if none was given
+      const conversationId = input.conversation_id
+        || (await this.createConversation(input.question)).id;
+      
       const { data, error } = await supabase
         .from('chat_history')
         .insert({
           user_id: user.id,
           question: input.question,
           answer: input.answer,
-          conversation_id: input.conversation_id || crypto.randomUUID(),
+          conversation_id: conversationId,
           message_type: input.message_type || 'interaction',
           tokens_used: input.tokens_used || 0,
+          prompt_tokens: input.prompt_tokens || 0,
+          completion_tokens: input.completion_tokens || 0,
+          cost_usd: input.cost_usd ?? null,
           model_used: input.model_used || 'tngtech/deepseek-r1t2-chimera:free',
-          response_time_ms: input.response_time_ms || 0
+          response_time_ms: input.response_time_ms || 0,
+          persona_id: input.persona_id ?? null,
+          persona_name: input.persona_name ?? null,
+          business_plan_id: input.business_plan_id ?? null,
+          business_plan_title: input.business_plan_title ?? null,
+          lesson_sources: input.lesson_sources ?? [],
+          tool_invocations: input.tool_invocations ?? [],
+          attachments: input.attachments ?? [],
+          follow_ups: input.follow_ups ?? [],
+          parent_id: input.parent_id ?? null,
+          temperature: input.temperature ?? null
         })
         .select()
         .single();
@@ -150,6 +412,7 @@ export class DatabaseService {
         .from('chat_history')
         .select('*')
         .eq('user_id', user.id)
+        .is('deleted_at', null)
         .order('created_at', { ascending: false })
         .range(offset, offset + limit - 1);
 
@@ -172,6 +435,7 @@ export class DatabaseService {
         .from('chat_history')
         .select('*')
         .eq('user_id', user.id)
+        .is('deleted_at', null)
         .eq('is_bookmarked', true)
         .order('created_at', { ascending: false });
 
@@ -202,6 +466,7 @@ export class DatabaseService {
         .select('is_bookmarked')
         .eq('id', chatId)
         .eq('user_id', user.id)
+        .is('deleted_at', null)
         .single();
 
       if (fetchError) throw fetchError;
@@ -224,73 +489,749 @@ export class DatabaseService {
   }
 
   /**
-   * Delete chat history record
+   * Move a chat turn to the trash
+   * 
+   * The turns that follow it (its branches) are trashed with it, as a hard
+   * delete would remove them too.
+   * 
+   * @returns string - Deletion timestamp, needed to undo
+   */
+  async deleteChatHistory(chatId: string): Promise<string> {
+    try {
+      const user = await this.getCurrentUser();
+      const deletedAt = new Date().toISOString();
+      
+      const { data: turn, error: turnError } = await supabase
+        .from('chat_history')
+        .select('conversation_id')
+        .eq('id', chatId)
+        .eq('user_id', user.id)
+        .is('deleted_at', null)
+        .single();
+
+      if (turnError) throw turnError;
+
+      // Collect the turn and everything below it
+      const chatIds = [chatId];
+      if (turn.conversation_id) {
+        const { data: turns, error: turnsError } = await supabase
+          .from('chat_history')
+          .select('id, parent_id')
+          .eq('conversation_id', turn.conversation_id)
+          .eq('user_id', user.id)
+          .is('deleted_at', null);
+
+        if (turnsError) throw turnsError;
+
+        for (let index = 0; index < chatIds.length; index++) {
+          const parentId = chatIds[index];
+          chatIds.push(...(turns || []).filter(row => row.parent_id === parentId).map(row => row.id as string));
+        }
+      }
+
+      const { error } = await supabase
+        .from('chat_history')
+        .update({ deleted_at: deletedAt })
+        .in('id', chatIds)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+      return deletedAt;
+    } catch (error) {
+      console.error('Error deleting chat history:', error);
+      throw new Error('Failed to delete chat history');
+    }
+  }
+
+  /**
+   * Move all chat history (conversations and their turns) to the trash
+   * 
+   * @returns string - Deletion timestamp, needed to undo (see restoreChatHistory)
+   */
+  async clearAllChatHistory(): Promise<string> {
+    try {
+      const user = await this.getCurrentUser();
+      const deletedAt = new Date().toISOString();
+      
+      const { error } = await supabase
+        .from('chat_history')
+        .update({ deleted_at: deletedAt })
+        .eq('user_id', user.id)
+        .is('deleted_at', null);
+
+      if (error) throw error;
+
+      const { error: conversationsError } = await supabase
+        .from('conversations')
+        .update({ deleted_at: deletedAt })
+        .eq('user_id', user.id)
+        .is('deleted_at', null);
+
+      if (conversationsError) throw conversationsError;
+      return deletedAt;
+    } catch (error) {
+      console.error('Error clearing chat history:', error);
+      throw new Error('Failed to clear chat history');
+    }
+  }
+
+  /**
+   * Restore chat history cleared with clearAllChatHistory
+   * 
+   * @param deletedAt - Timestamp returned by clearAllChatHistory
+   */
+  async restoreChatHistory(deletedAt: string): Promise<void> {
+    try {
+      const user = await this.getCurrentUser();
+      
+      const { error: conversationsError } = await supabase
+        .from('conversations')
+        .update({ deleted_at: null })
+        .eq('user_id', user.id)
+        .eq('deleted_at', deletedAt);
+
+      if (conversationsError) throw conversationsError;
+
+      const { error } = await supabase
+        .from('chat_history')
+        .update({ deleted_at: null })
+        .eq('user_id', user.id)
+        .eq('deleted_at', deletedAt);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error restoring chat history:', error);
+      throw new Error('Failed to restore chat history');
+    }
+  }
+
+  /**
+   * Full-text search over the user's chat history
+   * 
+   * Matches questions and answers (websearch syntax: "exact phrase",
+   * -exclude, or). Excerpts mark matches with \u0002 ... \u0003, see
+   * search_chat_history.
+   * 
+   * @param query - Search terms
+   * @param filters - Optional date range, model, bookmark and conversation filters
+   * @param limit - Maximum number of results (capped at 50)
+   * @param offset - Number of results to skip, for paging
+   */
+  async searchChatHistory(
+    query: string,
+    filters: ChatSearchFilters = {},
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<ChatSearchResult[]> {
+    try {
+      const { data, error } = await supabase
+        .rpc('search_chat_history', {
+          p_query: query,
+          p_from: filters.from ?? null,
+          p_to: filters.to ?? null,
+          p_model: filters.model ?? null,
+          p_bookmarked_only: filters.bookmarkedOnly ?? false,
+          p_conversation_id: filters.conversationId ?? null,
+          p_limit: limit,
+          p_offset: offset
+        });
+
+      if (error) throw error;
+      return (data || []) as ChatSearchResult[];
+    } catch (error) {
+      console.error('Error searching chat history:', error);
+      throw new Error('Failed to search chat history');
+    }
+  }
+
+  /**
+   * Models the user has chatted with, for search filters
+   */
+  async getChatModels(): Promise<string[]> {
+    try {
+      const user = await this.getCurrentUser();
+      
+      const { data, error } = await supabase
+        .from('chat_history')
+        .select('model_used')
+        .eq('user_id', user.id)
+        .is('deleted_at', null)
+        .order('model_used');
+
+      if (error) throw error;
+      return [...new Set((data || []).map(row => row.model_used as string))];
+    } catch (error) {
+      console.error('Error fetching chat models:', error);
+      throw new Error('Failed to fetch chat models');
+    }
+  }
+
+  // ==================== CONVERSATION METHODS ====================
+
+  /**
+   * Build a conversation title from the first question
+   */
+  private buildConversationTitle(question: string): string {
+    const singleLine = question.replace(/\s+/g, ' ').trim();
+    if (!singleLine) return 'New conversation';
+    if (singleLine.length <= 60) return singleLine;
+
+    // Cut at the last word boundary before the limit
+    const truncated = singleLine.slice(0, 60);
+    const lastSpace = truncated.lastIndexOf(' ');
+    return `${lastSpace > 30 ? truncated.slice(0, lastSpace) : truncated}…`;
+  }
+
+  /**
+   * Start a new conversation, titled from its first question
+   */
+  async createConversation(firstQuestion: string): Promise<ConversationRecord> {
+    try {
+      const user = await this.getCurrentUser();
+      
+      const { data, error } = await supabase
+        .from('conversations')
+        .insert({
+          user_id: user.id,
+          title: this.buildConversationTitle(firstQuestion)
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Error creating conversation:', error);
+      throw new Error('Failed to create conversation');
+    }
+  }
+
+  /**
+   * List user's conversations, most recently active first
+   */
+  async listConversations(limit: number = 50): Promise<ConversationRecord[]> {
+    try {
+      const user = await this.getCurrentUser();
+      
+      const { data, error } = await supabase
+        .from('conversations')
+        .select('*')
+        .eq('user_id', user.id)
+        .is('deleted_at', null)
+        .order('last_message_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching conversations:', error);
+      throw new Error('Failed to fetch conversations');
+    }
+  }
+
+  /**
+   * Get a conversation with all of its turns in chronological order
+   */
+  async getConversation(conversationId: string): Promise<ConversationWithMessages> {
+    try {
+      const user = await this.getCurrentUser();
+      
+      const { data: conversation, error: conversationError } = await supabase
+        .from('conversations')
+        .select('*')
+        .eq('id', conversationId)
+        .eq('user_id', user.id)
+        .is('deleted_at', null)
+        .single();
+
+      if (conversationError) throw conversationError;
+
+      const { data: messages, error: messagesError } = await supabase
+        .from('chat_history')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .eq('user_id', user.id)
+        .is('deleted_at', null)
+        .order('created_at', { ascending: true });
+
+      if (messagesError) throw messagesError;
+      return { ...conversation, messages: messages || [] };
+    } catch (error) {
+      console.error('Error fetching conversation:', error);
+      throw new Error('Failed to fetch conversation');
+    }
+  }
+
+  /**
+   * Rename a conversation
+   */
+  async renameConversation(conversationId: string, title: string): Promise<ConversationRecord> {
+    try {
+      const user = await this.getCurrentUser();
+      
+      const { data, error } = await supabase
+        .from('conversations')
+        .update({ title: title.trim() || 'New conversation' })
+        .eq('id', conversationId)
+        .eq('user_id', user.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Error renaming conversation:', error);
+      throw new Error('Failed to rename conversation');
+    }
+  }
+
+  /**
+   * Move a conversation and all of its turns to the trash
+   * 
+   * @returns string - Deletion timestamp, needed to undo
+   */
+  async deleteConversation(conversationId: string): Promise<string> {
+    try {
+      const user = await this.getCurrentUser();
+      const deletedAt = new Date().toISOString();
+      
+      const { error } = await supabase
+        .from('conversations')
+        .update({ deleted_at: deletedAt })
+        .eq('id', conversationId)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+
+      // Turns trashed earlier keep their own timestamp and trash entry
+      const { error: turnsError } = await supabase
+        .from('chat_history')
+        .update({ deleted_at: deletedAt })
+        .eq('conversation_id', conversationId)
+        .eq('user_id', user.id)
+        .is('deleted_at', null);
+
+      if (turnsError) throw turnsError;
+      return deletedAt;
+    } catch (error) {
+      console.error('Error deleting conversation:', error);
+      throw new Error('Failed to delete conversation');
+    }
+  }
+
+  /**
+   * Import a conversation with its turns and notes
+   * 
+   * Timestamps are kept, so the conversation sorts by its original activity.
+   * Token counts and costs are not imported, so imported history does not
+   * show up as AI usage of this account. Business plans and custom personas
+   * belong to the original account; only their names are kept.
+   */
+  async importConversation(input: ImportConversationInput): Promise<ConversationRecord> {
+    try {
+      const user = await this.getCurrentUser();
+      
+      // Insert in chronological order so the last turn sets last_message_at
+      const turns = [...input.turns].sort((a, b) => a.created_at.localeCompare(b.created_at));
+      const newIds = new Map(turns.map(turn => [turn.id, crypto.randomUUID()]));
+      
+      const { data: conversation, error: conversationError } = await supabase
+        .from('conversations')
+        .insert({
+          user_id: user.id,
+          title: input.title.trim() || this.buildConversationTitle(turns[0]?.question || '')
+        })
+        .select()
+        .single();
+
+      if (conversationError) throw conversationError;
+
+      try {
+        if (turns.length > 0) {
+          const { error: turnsError } = await supabase
+            .from('chat_history')
+            .insert(turns.map(turn => ({
+              id: newIds.get(turn.id),
+              user_id: user.id,
+              conversation_id: conversation.id,
+              parent_id: turn.parent_id ? newIds.get(turn.parent_id) ?? null : null,
+              question: turn.question,
+              answer: turn.answer,
+              message_type: turn.message_type || 'interaction',
+              model_used: turn.model_used || undefined,
+              persona_name: turn.persona_name ?? null,
+              business_plan_title: turn.business_plan_title ?? null,
+              lesson_sources: turn.lesson_sources ?? [],
+              tool_invocations: turn.tool_invocations ?? [],
+              temperature: turn.temperature ?? null,
+              created_at: turn.created_at
+            })));
+
+          if (turnsError) throw turnsError;
+        }
+
+        const notes = turns.flatMap(turn =>
+          turn.notes.map(note => ({
+            user_id: user.id,
+            type: 'assistant' as const,
+            related_id: newIds.get(turn.id),
+            content: note.content,
+            created_at: note.created_at
+          }))
+        );
+
+        if (notes.length > 0) {
+          const { error: notesError } = await supabase
+            .from('notes')
+            .insert(notes);
+
+          if (notesError) throw notesError;
+        }
+
+        const { data: updated, error: updateError } = await supabase
+          .from('conversations')
+          .update({ active_turn_id: input.active_turn_id ? newIds.get(input.active_turn_id) ?? null : null })
+          .eq('id', conversation.id)
+          .eq('user_id', user.id)
+          .select()
+          .single();
+
+        if (updateError) throw updateError;
+        return updated;
+      } catch (error) {
+        // Don't leave a partly imported conversation behind (turns cascade)
+        await supabase.from('conversations').delete().eq('id', conversation.id);
+        throw error;
+      }
+    } catch (error) {
+      console.error('Error importing conversation:', error);
+      throw new Error('Failed to import conversation');
+    }
+  }
+
+  /**
+   * Remember which branch of a conversation the user is viewing
+   * 
+   * turnId is the last turn of the branch; pass null to fall back to the
+   * most recent turn.
+   */
+  async setActiveTurn(conversationId: string, turnId: string | null): Promise<void> {
+    try {
+      const user = await this.getCurrentUser();
+      
+      const { error } = await supabase
+        .from('conversations')
+        .update({ active_turn_id: turnId })
+        .eq('id', conversationId)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error updating active branch:', error);
+      throw new Error('Failed to update active branch');
+    }
+  }
+
+  /**
+   * Update a conversation's rolling summary
+   * 
+   * summarizedThrough is the created_at of the last turn folded into the
+   * summary; omit it to edit the summary text without moving the boundary.
+   */
+  async updateConversationSummary(
+    conversationId: string,
+    summary: string,
+    summarizedThrough?: string | null
+  ): Promise<ConversationRecord> {
+    try {
+      const user = await this.getCurrentUser();
+      
+      const updates: Partial<ConversationRecord> = { summary: summary.trim() };
+      if (summarizedThrough !== undefined) {
+        updates.summarized_through = summarizedThrough;
+      }
+
+      const { data, error } = await supabase
+        .from('conversations')
+        .update(updates)
+        .eq('id', conversationId)
+        .eq('user_id', user.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Error updating conversation summary:', error);
+      throw new Error('Failed to update conversation summary');
+    }
+  }
+
+  // ==================== ASSISTANT PERSONA METHODS ====================
+
+  /**
+   * Get the user's custom assistant personas
+   */
+  async getCustomPersonas(): Promise<PersonaRecord[]> {
+    try {
+      const user = await this.getCurrentUser();
+      
+      const { data, error } = await supabase
+        .from('assistant_personas')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return (data || []).map(row => ({ ...row, temperature: Number(row.temperature) }));
+    } catch (error) {
+      console.error('Error fetching personas:', error);
+      throw new Error('Failed to fetch personas');
+    }
+  }
+
+  /**
+   * Create a custom assistant persona
+   */
+  async createPersona(input: CreatePersonaInput): Promise<PersonaRecord> {
+    try {
+      const user = await this.getCurrentUser();
+      
+      const { data, error } = await supabase
+        .from('assistant_personas')
+        .insert({
+          user_id: user.id,
+          name: input.name,
+          description: input.description || '',
+          system_prompt: input.system_prompt,
+          temperature: input.temperature ?? 0.7,
+          starter_questions: input.starter_questions || []
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { ...data, temperature: Number(data.temperature) };
+    } catch (error) {
+      console.error('Error creating persona:', error);
+      throw new Error('Failed to create persona');
+    }
+  }
+
+  /**
+   * Update a custom assistant persona
+   */
+  async updatePersona(personaId: string, updates: Partial<CreatePersonaInput>): Promise<PersonaRecord> {
+    try {
+      const user = await this.getCurrentUser();
+      
+      const { data, error } = await supabase
+        .from('assistant_personas')
+        .update(updates)
+        .eq('id', personaId)
+        .eq('user_id', user.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { ...data, temperature: Number(data.temperature) };
+    } catch (error) {
+      console.error('Error updating persona:', error);
+      throw new Error('Failed to update persona');
+    }
+  }
+
+  /**
+   * Delete a custom assistant persona
+   * 
+   * Past chat turns keep the persona's name in chat_history.persona_name.
+   */
+  async deletePersona(personaId: string): Promise<void> {
+    try {
+      const user = await this.getCurrentUser();
+      
+      const { error } = await supabase
+        .from('assistant_personas')
+        .delete()
+        .eq('id', personaId)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error deleting persona:', error);
+      throw new Error('Failed to delete persona');
+    }
+  }
+
+  // ==================== AI USAGE METHODS ====================
+
+  /**
+   * Get AI usage summed per day or month and model
+   * 
+   * @param period - 'day' or 'month'
+   * @param since - Earliest period to include
+   */
+  async getUsageByPeriod(period: 'day' | 'month', since: Date): Promise<UsagePeriodRecord[]> {
+    try {
+      const user = await this.getCurrentUser();
+      
+      const { data, error } = await supabase
+        .from(period === 'day' ? 'ai_usage_daily' : 'ai_usage_monthly')
+        .select('*')
+        .eq('user_id', user.id)
+        .gte('period', since.toISOString().split('T')[0])
+        .order('period', { ascending: true });
+
+      if (error) throw error;
+      return (data || []).map(row => ({ ...row, cost_usd: Number(row.cost_usd) || 0 }));
+    } catch (error) {
+      console.error('Error fetching AI usage:', error);
+      throw new Error('Failed to fetch AI usage');
+    }
+  }
+
+  /**
+   * Get the slowest AI responses (chat turns and plan requests)
+   */
+  async getSlowestResponses(limit: number = 10, since?: Date): Promise<UsageEventRecord[]> {
+    try {
+      const user = await this.getCurrentUser();
+      
+      let query = supabase
+        .from('ai_usage_events')
+        .select('*')
+        .eq('user_id', user.id);
+
+      if (since) {
+        query = query.gte('created_at', since.toISOString());
+      }
+
+      const { data, error } = await query
+        .order('response_time_ms', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching slowest responses:', error);
+      throw new Error('Failed to fetch slowest responses');
+    }
+  }
+
+  /**
+   * Record the usage of one plan AI request
+   * 
+   * Plan usage is counted per request, at the time and with the model of
+   * the request, rather than from the totals on the plan. An event with a
+   * plan_id is also added to that plan's totals by the database.
+   */
+  async recordPlanUsage(event: PlanUsageEventInput): Promise<void> {
+    try {
+      const user = await this.getCurrentUser();
+      
+      const { error } = await supabase
+        .from('plan_usage_events')
+        .insert({
+          user_id: user.id,
+          ...event
+        });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error recording plan usage:', error);
+      throw new Error('Failed to record plan usage');
+    }
+  }
+
+  // ==================== AI QUOTA METHODS ====================
+
+  /**
+   * Check the user's AI quota and, when allowed, count one request against it
+   * 
+   * @param consume - Pass false to only check the quota without counting a request
    */
-  async deleteChatHistory(chatId: string): Promise<void> {
+  async consumeAIRequest(consume: boolean = true): Promise<AIQuotaStatus> {
     try {
-      const user = await this.getCurrentUser();
+      await this.getCurrentUser();
       
-      const { error } = await supabase
-        .from('chat_history')
-        .delete()
-        .eq('id', chatId)
-        .eq('user_id', user.id);
+      const { data, error } = await supabase
+        .rpc('consume_ai_request', {
+          p_consume: consume
+        })
+        .single<AIQuotaStatus>();
 
       if (error) throw error;
+      return data;
     } catch (error) {
-      console.error('Error deleting chat history:', error);
-      throw new Error('Failed to delete chat history');
+      console.error('Error checking AI quota:', error);
+      throw new Error('Failed to check AI quota');
     }
   }
 
   /**
-   * Clear all chat history for user
+   * Get the user's AI quota without counting a request
+   */
+  async getAIQuota(): Promise<AIQuotaStatus> {
+    return this.consumeAIRequest(false);
+  }
+
+  /**
+   * Add tokens used by a completion to the user's monthly total
    */
-  async clearAllChatHistory(): Promise<void> {
+  async recordAITokens(tokens: number): Promise<void> {
     try {
-      const user = await this.getCurrentUser();
+      await this.getCurrentUser();
       
       const { error } = await supabase
-        .from('chat_history')
-        .delete()
-        .eq('user_id', user.id);
+        .rpc('record_ai_tokens', {
+          p_tokens: Math.round(tokens)
+        });
 
       if (error) throw error;
     } catch (error) {
-      console.error('Error clearing chat history:', error);
-      throw new Error('Failed to clear chat history');
+      console.error('Error recording AI tokens:', error);
+      throw new Error('Failed to record AI tokens');
     }
   }
 
   // ==================== BUSINESS PLAN METHODS ====================
 
   /**
-   * Save business plan to database
+   * Save a generated business plan to database
+   * 
+   * The plan and its first version are saved together: if either fails,
+   * neither is saved.
+   * 
+   * @param input - Generated plan
+   * @param change - How it was created, for the version history
    */
-  async saveBusinessPlan(input: CreateBusinessPlanInput): Promise<BusinessPlanRecord> {
+  async saveBusinessPlan(input: CreateBusinessPlanInput, change: PlanVersionChange): Promise<BusinessPlanRecord> {
     try {
-      const user = await this.getCurrentUser();
+      await this.getCurrentUser();
       
       const { data, error } = await supabase
-        .from('business_plans')
-        .insert({
-          user_id: user.id,
-          business_name: input.business_name,
-          industry: input.industry,
-          business_type: input.business_type,
-          location: input.location,
-          target_audience: input.target_audience,
-          value_proposition: input.value_proposition,
-          revenue_model: input.revenue_model || '',
-          goals: input.goals || '',
-          generated_plan: input.generated_plan,
-          title: input.title,
-          ai_model_used: input.ai_model_used || 'tngtech/deepseek-r1t2-chimera:free',
-          generation_time_ms: input.generation_time_ms || 0,
-          status: 'complete'
-        })
-        .select()
-        .single();
+        .rpc('create_business_plan', {
+          p_plan: {
+            business_name: input.business_name,
+            industry: input.industry,
+            business_type: input.business_type,
+            location: input.location,
+            target_audience: input.target_audience,
+            value_proposition: input.value_proposition,
+            revenue_model: input.revenue_model || '',
+            goals: input.goals || '',
+            generated_plan: input.generated_plan,
+            title: input.title,
+            ai_model_used: input.ai_model_used || 'tngtech/deepseek-r1t2-chimera:free',
+            generation_time_ms: input.generation_time_ms || 0,
+            tokens_used: input.tokens_used || 0,
+            prompt_tokens: input.prompt_tokens || 0,
+            completion_tokens: input.completion_tokens || 0,
+            cost_usd: input.cost_usd ?? null,
+            status: input.status || 'complete'
+          },
+          p_change: change
+        });
 
       if (error) throw error;
       return data;
@@ -311,6 +1252,7 @@ export class DatabaseService {
         .from('business_plans')
         .select('*')
         .eq('user_id', user.id)
+        .is('deleted_at', null)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -333,6 +1275,7 @@ export class DatabaseService {
         .select('*')
         .eq('id', planId)
         .eq('user_id', user.id)
+        .is('deleted_at', null)
         .single();
 
       if (error) throw error;
@@ -344,22 +1287,30 @@ export class DatabaseService {
   }
 
   /**
-   * Update business plan
+   * Save changes to a business plan's content and record the result as a
+   * new version
+   * 
+   * The plan and the version are saved together: if either fails, neither
+   * is saved.
+   * 
+   * @param planId - Plan to change
+   * @param updates - Changed content
+   * @param change - What changed and who changed it, for the version history
    */
-  async updateBusinessPlan(planId: string, updates: Partial<BusinessPlanRecord>): Promise<BusinessPlanRecord> {
+  async updateBusinessPlan(
+    planId: string,
+    updates: BusinessPlanContentUpdate,
+    change: PlanVersionChange
+  ): Promise<BusinessPlanRecord> {
     try {
-      const user = await this.getCurrentUser();
+      await this.getCurrentUser();
       
       const { data, error } = await supabase
-        .from('business_plans')
-        .update({
-          ...updates,
-          last_modified_at: new Date().toISOString()
-        })
-        .eq('id', planId)
-        .eq('user_id', user.id)
-        .select()
-        .single();
+        .rpc('save_business_plan_change', {
+          p_plan_id: planId,
+          p_updates: updates,
+          p_change: change
+        });
 
       if (error) throw error;
       return data;
@@ -369,6 +1320,30 @@ export class DatabaseService {
     }
   }
 
+  // ==================== BUSINESS PLAN VERSION METHODS ====================
+
+  /**
+   * Get the versions of a business plan, newest first
+   */
+  async getBusinessPlanVersions(planId: string): Promise<BusinessPlanVersionRecord[]> {
+    try {
+      const user = await this.getCurrentUser();
+
+      const { data, error } = await supabase
+        .from('business_plan_versions')
+        .select('*')
+        .eq('plan_id', planId)
+        .eq('user_id', user.id)
+        .order('version_number', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching business plan versions:', error);
+      throw new Error('Failed to fetch business plan versions');
+    }
+  }
+
   // ==================== PROFILE METHODS ====================
 
   /**
@@ -431,6 +1406,123 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Get the user's default AI models per feature
+   */
+  async getModelPreferences(): Promise<ModelPreferences> {
+    try {
+      const user = await this.getCurrentUser();
+      
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('preferences')
+        .eq('id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data?.preferences?.ai_models || {};
+    } catch (error) {
+      console.error('Error fetching model preferences:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Remember the default AI model for a feature
+   * 
+   * Merges into profiles.preferences so other settings are preserved.
+   */
+  async saveModelPreference(feature: keyof ModelPreferences, model: string): Promise<void> {
+    try {
+      const user = await this.getCurrentUser();
+      
+      const { data: profile, error: fetchError } = await supabase
+        .from('profiles')
+        .select('preferences')
+        .eq('id', user.id)
+        .maybeSingle();
+
+      if (fetchError) throw fetchError;
+
+      const preferences = profile?.preferences || {};
+      const { error } = await supabase
+        .from('profiles')
+        .upsert({
+          id: user.id,
+          email: user.email,
+          preferences: {
+            ...preferences,
+            ai_models: { ...(preferences.ai_models || {}), [feature]: model }
+          },
+          updated_at: new Date().toISOString()
+        });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error saving model preference:', error);
+      throw new Error('Failed to save model preference');
+    }
+  }
+
+  /**
+   * Get the user's AI Assistant voice settings
+   */
+  async getVoicePreferences(): Promise<VoicePreferences> {
+    try {
+      const user = await this.getCurrentUser();
+      
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('preferences')
+        .eq('id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data?.preferences?.voice || {};
+    } catch (error) {
+      console.error('Error fetching voice preferences:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Save the user's AI Assistant voice settings
+   * 
+   * Replaces the stored voice settings (so cleared fields are removed) and
+   * merges into profiles.preferences so other settings are preserved.
+   */
+  async saveVoicePreferences(voice: VoicePreferences): Promise<void> {
+    try {
+      const user = await this.getCurrentUser();
+      
+      const { data: profile, error: fetchError } = await supabase
+        .from('profiles')
+        .select('preferences')
+        .eq('id', user.id)
+        .maybeSingle();
+
+      if (fetchError) throw fetchError;
+
+      const preferences = profile?.preferences || {};
+      const { error } = await supabase
+        .from('profiles')
+        .upsert({
+          id: user.id,
+          email: user.email,
+          preferences: {
+            ...preferences,
+            voice
+          },
+          updated_at: new Date().toISOString()
+        });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error saving voice preferences:', error);
+      throw new Error('Failed to save voice preferences');
+    }
+  }
+
   /**
    * Toggle favorite status of business plan
    */
@@ -444,6 +1536,7 @@ export class DatabaseService {
         .select('is_favorite')
         .eq('id', planId)
         .eq('user_id', user.id)
+        .is('deleted_at', null)
         .single();
 
       if (fetchError) throw fetchError;
@@ -467,15 +1560,26 @@ export class DatabaseService {
 
   /**
    * Increment export count for business plan
+   * 
+   * Call once the exported file has been produced.
    */
   async incrementExportCount(planId: string): Promise<void> {
     try {
       const user = await this.getCurrentUser();
-      
+
+      const { data: plan, error: readError } = await supabase
+        .from('business_plans')
+        .select('export_count')
+        .eq('id', planId)
+        .eq('user_id', user.id)
+        .single();
+
+      if (readError) throw readError;
+
       const { error } = await supabase
         .from('business_plans')
         .update({ 
-          export_count: supabase.raw('export_count + 1')
+          export_count: (plan.export_count || 0) + 1
         })
         .eq('id', planId)
         .eq('user_id', user.id);
@@ -488,19 +1592,23 @@ export class DatabaseService {
   }
 
   /**
-   * Delete business plan
+   * Move business plan to the trash
+   * 
+   * @returns string - Deletion timestamp
    */
-  async deleteBusinessPlan(planId: string): Promise<void> {
+  async deleteBusinessPlan(planId: string): Promise<string> {
     try {
       const user = await this.getCurrentUser();
+      const deletedAt = new Date().toISOString();
       
       const { error } = await supabase
         .from('business_plans')
-        .delete()
+        .update({ deleted_at: deletedAt })
         .eq('id', planId)
         .eq('user_id', user.id);
 
       if (error) throw error;
+      return deletedAt;
     } catch (error) {
       console.error('Error deleting business plan:', error);
       throw new Error('Failed to delete business plan');
@@ -518,6 +1626,7 @@ export class DatabaseService {
         .from('business_plans')
         .select('*')
         .eq('user_id', user.id)
+        .is('deleted_at', null)
         .eq('is_favorite', true)
         .order('created_at', { ascending: false });
 
@@ -692,6 +1801,28 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Search lesson descriptions and transcripts
+   * 
+   * Returns the best matching chunks of published lessons (full-text
+   * search over lesson_chunks, see search_lesson_chunks).
+   * 
+   * @param query - Free-text question or keywords
+   * @param limit - Maximum number of chunks (capped at 10)
+   */
+  async searchLessonChunks(query: string, limit: number = 4): Promise<LessonChunkMatch[]> {
+    try {
+      const { data, error } = await supabase
+        .rpc('search_lesson_chunks', { p_query: query, p_limit: limit });
+
+      if (error) throw error;
+      return (data || []) as LessonChunkMatch[];
+    } catch (error) {
+      console.error('Error searching lessons:', error);
+      throw new Error('Failed to search lessons');
+    }
+  }
+
   /**
    * Search courses by title or description
    */
@@ -898,10 +2029,12 @@ export class DatabaseService {
 
   /**
    * Get user's notes with optional filtering
+   * 
+   * relatedId may be a list to get the notes of several items at once.
    */
   async getNotes(
     type?: 'assistant' | 'lesson',
-    relatedId?: string,
+    relatedId?: string | string[],
     limit: number = 50
   ): Promise<NoteRecord[]> {
     try {
@@ -911,6 +2044,7 @@ export class DatabaseService {
         .from('notes')
         .select('*')
         .eq('user_id', user.id)
+        .is('deleted_at', null)
         .order('created_at', { ascending: false })
         .limit(limit);
 
@@ -918,7 +2052,9 @@ export class DatabaseService {
         query = query.eq('type', type);
       }
 
-      if (relatedId) {
+      if (Array.isArray(relatedId)) {
+        query = query.in('related_id', relatedId);
+      } else if (relatedId) {
         query = query.eq('related_id', relatedId);
       }
 
@@ -940,10 +2076,21 @@ export class DatabaseService {
   }
 
   /**
-   * Get notes for a specific assistant chat
+   * Get notes for a specific assistant chat, or for several chats
+   * 
+   * Lists of chat IDs are queried in batches to keep request URLs short.
    */
-  async getAssistantNotes(chatId: string): Promise<NoteRecord[]> {
-    return this.getNotes('assistant', chatId);
+  async getAssistantNotes(chatId: string | string[]): Promise<NoteRecord[]> {
+    if (!Array.isArray(chatId)) {
+      return this.getNotes('assistant', chatId);
+    }
+
+    const notes: NoteRecord[] = [];
+    for (let start = 0; start < chatId.length; start += NOTE_BATCH_SIZE) {
+      const batch = chatId.slice(start, start + NOTE_BATCH_SIZE);
+      notes.push(...await this.getNotes('assistant', batch, MAX_NOTES_PER_BATCH));
+    }
+    return notes;
   }
 
   /**
@@ -970,19 +2117,23 @@ export class DatabaseService {
   }
 
   /**
-   * Delete a note
+   * Move a note to the trash
+   * 
+   * @returns string - Deletion timestamp
    */
-  async deleteNote(noteId: string): Promise<void> {
+  async deleteNote(noteId: string): Promise<string> {
     try {
       const user = await this.getCurrentUser();
+      const deletedAt = new Date().toISOString();
       
       const { error } = await supabase
         .from('notes')
-        .delete()
+        .update({ deleted_at: deletedAt })
         .eq('id', noteId)
         .eq('user_id', user.id);
 
       if (error) throw error;
+      return deletedAt;
     } catch (error) {
       console.error('Error deleting note:', error);
       throw new Error('Failed to delete note');
@@ -1003,6 +2154,7 @@ export class DatabaseService {
         .from('notes')
         .select('*')
         .eq('user_id', user.id)
+        .is('deleted_at', null)
         .ilike('content', `%${query}%`)
         .order('created_at', { ascending: false });
 
@@ -1061,6 +2213,7 @@ export class DatabaseService {
         .from('bookmarks')
         .select('*')
         .eq('user_id', user.id)
+        .is('deleted_at', null)
         .order('created_at', { ascending: false })
         .limit(limit);
 
@@ -1103,6 +2256,7 @@ export class DatabaseService {
         .from('bookmarks')
         .select('id')
         .eq('user_id', user.id)
+        .is('deleted_at', null)
         .eq('type', type)
         .eq('related_id', relatedId)
         .single();
@@ -1122,10 +2276,10 @@ export class DatabaseService {
     try {
       const user = await this.getCurrentUser();
       
-      // Check if bookmark exists
+      // Check if bookmark exists (trashed bookmarks included)
       const { data: existing, error: fetchError } = await supabase
         .from('bookmarks')
-        .select('id')
+        .select('id, deleted_at')
         .eq('user_id', user.id)
         .eq('type', type)
         .eq('related_id', relatedId)
@@ -1133,7 +2287,16 @@ export class DatabaseService {
 
       if (fetchError && fetchError.code !== 'PGRST116') throw fetchError;
 
-      if (existing) {
+      if (existing?.deleted_at) {
+        // Bookmarking again takes the bookmark out of the trash
+        const { error: restoreError } = await supabase
+          .from('bookmarks')
+          .update({ deleted_at: null })
+          .eq('id', existing.id);
+
+        if (restoreError) throw restoreError;
+        return true; // Now bookmarked
+      } else if (existing) {
         // Remove bookmark
         const { error: deleteError } = await supabase
           .from('bookmarks')
@@ -1154,19 +2317,23 @@ export class DatabaseService {
   }
 
   /**
-   * Delete a bookmark
+   * Move a bookmark to the trash
+   * 
+   * @returns string - Deletion timestamp
    */
-  async deleteBookmark(bookmarkId: string): Promise<void> {
+  async deleteBookmark(bookmarkId: string): Promise<string> {
     try {
       const user = await this.getCurrentUser();
+      const deletedAt = new Date().toISOString();
       
       const { error } = await supabase
         .from('bookmarks')
-        .delete()
+        .update({ deleted_at: deletedAt })
         .eq('id', bookmarkId)
         .eq('user_id', user.id);
 
       if (error) throw error;
+      return deletedAt;
     } catch (error) {
       console.error('Error deleting bookmark:', error);
       throw new Error('Failed to delete bookmark');
@@ -1185,6 +2352,7 @@ export class DatabaseService {
         .from('bookmarks')
         .select('*')
         .eq('user_id', user.id)
+        .is('deleted_at', null)
         .eq('type', 'lesson')
         .order('created_at', { ascending: false });
 
@@ -1240,6 +2408,7 @@ export class DatabaseService {
         .from('bookmarks')
         .select('*')
         .eq('user_id', user.id)
+        .is('deleted_at', null)
         .eq('type', 'chat')
         .order('created_at', { ascending: false });
 
@@ -1258,7 +2427,8 @@ export class DatabaseService {
           answer,
           created_at
         `)
-        .in('id', chatIds);
+        .in('id', chatIds)
+        .is('deleted_at', null);
 
       if (chatsError) throw chatsError;
 
@@ -1277,6 +2447,283 @@ export class DatabaseService {
       throw new Error('Failed to fetch bookmarked chats');
     }
   }
+
+  // ==================== TRASH METHODS ====================
+
+  /**
+   * Get the user's trashed items, most recently deleted first
+   * 
+   * Turns trashed together with their conversation are part of the
+   * conversation's entry; other trashed turns are grouped per deletion.
+   */
+  async getTrash(): Promise<TrashItem[]> {
+    try {
+      const user = await this.getCurrentUser();
+      
+      const [conversations, chats, notes, plans, bookmarks] = await Promise.all([
+        supabase
+          .from('conversations')
+          .select('id, title, deleted_at')
+          .eq('user_id', user.id)
+          .not('deleted_at', 'is', null),
+        supabase
+          .from('chat_history')
+          .select('id, conversation_id, parent_id, question, created_at, deleted_at')
+          .eq('user_id', user.id)
+          .not('deleted_at', 'is', null)
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('notes')
+          .select('id, type, content, deleted_at')
+          .eq('user_id', user.id)
+          .not('deleted_at', 'is', null),
+        supabase
+          .from('business_plans')
+          .select('id, title, business_name, deleted_at')
+          .eq('user_id', user.id)
+          .not('deleted_at', 'is', null),
+        supabase
+          .from('bookmarks')
+          .select('id, type, related_id, deleted_at')
+          .eq('user_id', user.id)
+          .not('deleted_at', 'is', null)
+      ]);
+
+      for (const result of [conversations, chats, notes, plans, bookmarks]) {
+        if (result.error) throw result.error;
+      }
+
+      const items: Omit<TrashItem, 'purge_at'>[] = [];
+      const countLabel = (count: number) => `${count} message${count === 1 ? '' : 's'}`;
+
+      // Group trashed turns by conversation and deletion
+      const turnGroups = new Map<string, NonNullable<typeof chats.data>>();
+      (chats.data || []).forEach(turn => {
+        const key = `${turn.conversation_id}|${turn.deleted_at}`;
+        turnGroups.set(key, [...(turnGroups.get(key) || []), turn]);
+      });
+
+      (conversations.data || []).forEach(conversation => {
+        const key = `${conversation.id}|${conversation.deleted_at}`;
+        const turns = turnGroups.get(key) || [];
+        turnGroups.delete(key);
+        items.push({
+          type: 'conversation',
+          id: conversation.id,
+          title: conversation.title,
+          detail: countLabel(turns.length),
+          deleted_at: conversation.deleted_at
+        });
+      });
+
+      turnGroups.forEach(turns => {
+        const turnIds = new Set(turns.map(turn => turn.id));
+        const first = turns.find(turn => !turn.parent_id || !turnIds.has(turn.parent_id)) || turns[0];
+        items.push({
+          type: 'chat',
+          id: first.id,
+          title: first.question,
+          detail: countLabel(turns.length),
+          deleted_at: first.deleted_at
+        });
+      });
+
+      (notes.data || []).forEach(note => {
+        items.push({
+          type: 'note',
+          id: note.id,
+          title: note.type === 'lesson' ? 'Lesson note' : 'Assistant note',
+          detail: note.content,
+          deleted_at: note.deleted_at
+        });
+      });
+
+      (plans.data || []).forEach(plan => {
+        items.push({
+          type: 'business_plan',
+          id: plan.id,
+          title: plan.title,
+          detail: plan.business_name,
+          deleted_at: plan.deleted_at
+        });
+      });
+
+      // Name bookmarks after the lesson or question they point to
+      const bookmarkRows = bookmarks.data || [];
+      const lessonIds = bookmarkRows.filter(b => b.type === 'lesson').map(b => b.related_id);
+      const chatIds = bookmarkRows.filter(b => b.type === 'chat').map(b => b.related_id);
+      const [lessons, bookmarkedChats] = await Promise.all([
+        lessonIds.length > 0
+          ? supabase.from('lessons').select('id, title').in('id', lessonIds)
+          : Promise.resolve({ data: [], error: null }),
+        chatIds.length > 0
+          ? supabase.from('chat_history').select('id, question').in('id', chatIds).eq('user_id', user.id)
+          : Promise.resolve({ data: [], error: null })
+      ]);
+
+      if (lessons.error) throw lessons.error;
+      if (bookmarkedChats.error) throw bookmarkedChats.error;
+
+      const bookmarkTitles = new Map<string, string>([
+        ...(lessons.data || []).map(lesson => [lesson.id, lesson.title] as [string, string]),
+        ...(bookmarkedChats.data || []).map(chat => [chat.id, chat.question] as [string, string])
+      ]);
+
+      bookmarkRows.forEach(bookmark => {
+        items.push({
+          type: 'bookmark',
+          id: bookmark.id,
+          title: bookmarkTitles.get(bookmark.related_id) || 'Bookmark',
+          detail: bookmark.type === 'lesson' ? 'Lesson bookmark' : 'Chat bookmark',
+          deleted_at: bookmark.deleted_at
+        });
+      });
+
+      return items
+        .map(item => {
+          const purgeAt = new Date(item.deleted_at);
+          purgeAt.setDate(purgeAt.getDate() + TRASH_RETENTION_DAYS);
+          return { ...item, purge_at: purgeAt.toISOString() };
+        })
+        .sort((a, b) => b.deleted_at.localeCompare(a.deleted_at));
+    } catch (error) {
+      console.error('Error fetching trash:', error);
+      throw new Error('Failed to fetch trash');
+    }
+  }
+
+  /**
+   * Take an item out of the trash
+   * 
+   * Everything trashed with it (a conversation's turns, a turn's branches)
+   * is restored too.
+   * 
+   * @param item - Trash item, or the ID and timestamp returned by a delete method
+   */
+  async restoreTrashItem(item: Pick<TrashItem, 'type' | 'id' | 'deleted_at'>): Promise<void> {
+    try {
+      const user = await this.getCurrentUser();
+
+      if (item.type === 'conversation') {
+        const { error } = await supabase
+          .from('conversations')
+          .update({ deleted_at: null })
+          .eq('id', item.id)
+          .eq('user_id', user.id);
+
+        if (error) throw error;
+      }
+
+      if (item.type === 'conversation' || item.type === 'chat') {
+        const scope = await this.getTrashedTurnsScope(item, user.id);
+        const { error } = await supabase
+          .from('chat_history')
+          .update({ deleted_at: null })
+          .eq('user_id', user.id)
+          .eq('deleted_at', item.deleted_at)
+          .eq(scope.column, scope.value);
+
+        if (error) throw error;
+        return;
+      }
+
+      const { error } = await supabase
+        .from(SINGLE_ROW_TRASH_TABLES[item.type])
+        .update({ deleted_at: null })
+        .eq('id', item.id)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error restoring from trash:', error);
+      throw new Error('Failed to restore item');
+    }
+  }
+
+  /**
+   * Permanently delete an item from the trash
+   */
+  async deleteTrashItem(item: Pick<TrashItem, 'type' | 'id' | 'deleted_at'>): Promise<void> {
+    try {
+      const user = await this.getCurrentUser();
+
+      if (item.type === 'chat') {
+        // Later branches below these turns are removed by ON DELETE CASCADE
+        const scope = await this.getTrashedTurnsScope(item, user.id);
+        const { error } = await supabase
+          .from('chat_history')
+          .delete()
+          .eq('user_id', user.id)
+          .eq('deleted_at', item.deleted_at)
+          .eq(scope.column, scope.value);
+
+        if (error) throw error;
+        return;
+      }
+
+      // A conversation's turns are removed by ON DELETE CASCADE
+      const table = item.type === 'conversation' ? 'conversations' : SINGLE_ROW_TRASH_TABLES[item.type];
+      const { error } = await supabase
+        .from(table)
+        .delete()
+        .eq('id', item.id)
+        .eq('user_id', user.id)
+        .not('deleted_at', 'is', null);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error deleting from trash:', error);
+      throw new Error('Failed to delete item permanently');
+    }
+  }
+
+  /**
+   * Permanently delete everything in the trash
+   */
+  async emptyTrash(): Promise<void> {
+    try {
+      const user = await this.getCurrentUser();
+
+      // Conversations first: their turns go with them
+      for (const table of ['conversations', 'chat_history', 'notes', 'business_plans', 'bookmarks']) {
+        const { error } = await supabase
+          .from(table)
+          .delete()
+          .eq('user_id', user.id)
+          .not('deleted_at', 'is', null);
+
+        if (error) throw error;
+      }
+    } catch (error) {
+      console.error('Error emptying trash:', error);
+      throw new Error('Failed to empty trash');
+    }
+  }
+
+  /**
+   * Column filter for the chat_history rows of a conversation or turn trash
+   * item; combined with its deleted_at it matches the turns trashed together
+   */
+  private async getTrashedTurnsScope(
+    item: Pick<TrashItem, 'type' | 'id'>,
+    userId: string
+  ): Promise<{ column: 'conversation_id' | 'id'; value: string }> {
+    if (item.type === 'conversation') {
+      return { column: 'conversation_id', value: item.id };
+    }
+
+    const { data: turn, error } = await supabase
+      .from('chat_history')
+      .select('conversation_id')
+      .eq('id', item.id)
+      .eq('user_id', userId)
+      .single();
+
+    if (error) throw error;
+    return turn.conversation_id
+      ? { column: 'conversation_id', value: turn.conversation_id }
+      : { column: 'id', value: item.id };
+  }
 }
 
 /**
@@ -1323,6 +2770,67 @@ export interface LessonRecord {
   updated_at: string;
 }
 
+/**
+ * Lesson Retrieval Interfaces
+ * 
+ * LessonChunkMatch is a search hit from search_lesson_chunks;
+ * LessonSourceRecord is a lesson stored on chat_history.lesson_sources.
+ */
+export interface LessonChunkMatch {
+  chunk_id: string;
+  lesson_id: string;
+  course_id: string;
+  lesson_title: string;
+  course_title: string;
+  source: 'description' | 'transcript';
+  content: string;
+  rank: number;
+}
+
+export interface LessonSourceRecord {
+  lesson_id: string;
+  lesson_title: string;
+  course_title: string;
+}
+
+/**
+ * File attached to an assistant question, stored on
+ * chat_history.attachments; path is in the private chat-attachments bucket
+ */
+export interface AttachmentRecord {
+  name: string;
+  path: string;
+  mime_type: string;
+  size: number;
+}
+
+/**
+ * Chat Search Interfaces
+ * 
+ * ChatSearchFilters narrow searchChatHistory (from inclusive, to
+ * exclusive, ISO timestamps); ChatSearchResult is a hit from
+ * search_chat_history.
+ */
+export interface ChatSearchFilters {
+  from?: string;
+  to?: string;
+  model?: string;
+  bookmarkedOnly?: boolean;
+  conversationId?: string;
+}
+
+export interface ChatSearchResult {
+  chat_id: string;
+  conversation_id: string | null;
+  conversation_title: string | null;
+  question_excerpt: string;
+  answer_excerpt: string;
+  model_used: string;
+  is_bookmarked: boolean;
+  created_at: string;
+  rank: number;
+}
+
 /**
  * User Progress Interfaces
  */
@@ -1361,6 +2869,7 @@ export interface NoteRecord {
   content: string;
   type: 'assistant' | 'lesson';
   related_id: string;
+  deleted_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -1379,6 +2888,7 @@ export interface BookmarkRecord {
   user_id: string;
   type: 'lesson' | 'chat';
   related_id: string;
+  deleted_at: string | null;
   created_at: string;
 }
 
@@ -1387,6 +2897,26 @@ export interface CreateBookmarkInput {
   related_id: string;
 }
 
+/**
+ * Trash Interfaces
+ * 
+ * A TrashItem is one restorable deletion: a conversation with its turns, a
+ * chat turn with its branches, a note, a business plan or a bookmark.
+ * - id: Row ID (for chat turns: the first trashed turn)
+ * - detail: Secondary line, e.g. message count or note excerpt
+ * - purge_at: When the item is deleted permanently
+ */
+export type TrashItemType = 'conversation' | 'chat' | 'note' | 'business_plan' | 'bookmark';
+
+export interface TrashItem {
+  type: TrashItemType;
+  id: string;
+  title: string;
+  detail: string;
+  deleted_at: string;
+  purge_at: string;
+}
+
 /**
  * Singleton Database Service Instance
  * 
@@ -0,0 +1,287 @@
+/**
+ * Financial Calculators
+ *
+ * Deterministic business calculations used by the assistant's tools, so
+ * figures such as break-even points, unit economics, loan payments and
+ * runway are computed exactly instead of being estimated by the model.
+ *
+ * All money values are in the caller's currency; percentages are given as
+ * percent (e.g. 5 for 5%). Invalid inputs throw a RangeError with a message
+ * that is passed back to the model.
+ *
+ * @author BizGenius Team
+ * @version 1.0.0
+ */
+
+// Longest horizon simulated by the runway calculator
+const MAX_RUNWAY_MONTHS = 120;
+
+/**
+ * Round to cents (or another number of decimals)
+ */
+const round = (value: number, decimals: number = 2): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+const requireNonNegative = (value: number, name: string) => {
+  if (!Number.isFinite(value) || value < 0) {
+    throw new RangeError(`${name} must be a number of at least 0`);
+  }
+};
+
+const requirePositive = (value: number, name: string) => {
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new RangeError(`${name} must be a number greater than 0`);
+  }
+};
+
+// ==================== BREAK-EVEN ====================
+
+export interface BreakEvenInput {
+  fixedCosts: number;
+  pricePerUnit: number;
+  variableCostPerUnit: number;
+}
+
+export interface BreakEvenResult {
+  contributionMarginPerUnit: number;
+  contributionMarginPercent: number;
+  breakEvenUnits: number;
+  breakEvenRevenue: number;
+}
+
+/**
+ * Break-even point
+ *
+ * Units (rounded up) and revenue needed to cover fixed costs for the period.
+ */
+export const calculateBreakEven = ({ fixedCosts, pricePerUnit, variableCostPerUnit }: BreakEvenInput): BreakEvenResult => {
+  requireNonNegative(fixedCosts, 'Fixed costs');
+  requirePositive(pricePerUnit, 'Price per unit');
+  requireNonNegative(variableCostPerUnit, 'Variable cost per unit');
+
+  const contributionMargin = pricePerUnit - variableCostPerUnit;
+  if (contributionMargin <= 0) {
+    throw new RangeError('Price per unit must be higher than the variable cost per unit to break even');
+  }
+
+  const breakEvenUnits = Math.ceil(fixedCosts / contributionMargin);
+  return {
+    contributionMarginPerUnit: round(contributionMargin),
+    contributionMarginPercent: round((contributionMargin / pricePerUnit) * 100, 1),
+    breakEvenUnits,
+    breakEvenRevenue: round(breakEvenUnits * pricePerUnit)
+  };
+};
+
+// ==================== UNIT ECONOMICS ====================
+
+export interface UnitEconomicsInput {
+  marketingSpend: number;
+  newCustomers: number;
+  monthlyRevenuePerCustomer: number;
+  grossMarginPercent: number;
+  monthlyChurnPercent: number;
+}
+
+export interface UnitEconomicsResult {
+  cac: number;
+  monthlyGrossProfitPerCustomer: number;
+  averageLifetimeMonths: number;
+  ltv: number;
+  ltvToCacRatio: number;
+  cacPaybackMonths: number;
+}
+
+/**
+ * Customer acquisition cost and lifetime value
+ *
+ * - CAC = marketing spend / new customers
+ * - LTV = monthly gross profit per customer / monthly churn
+ * - Payback = CAC / monthly gross profit per customer
+ */
+export const calculateUnitEconomics = ({
+  marketingSpend,
+  newCustomers,
+  monthlyRevenuePerCustomer,
+  grossMarginPercent,
+  monthlyChurnPercent
+}: UnitEconomicsInput): UnitEconomicsResult => {
+  requireNonNegative(marketingSpend, 'Marketing spend');
+  requirePositive(newCustomers, 'New customers');
+  requirePositive(monthlyRevenuePerCustomer, 'Monthly revenue per customer');
+  requirePositive(grossMarginPercent, 'Gross margin');
+  requirePositive(monthlyChurnPercent, 'Monthly churn');
+  if (grossMarginPercent > 100 || monthlyChurnPercent > 100) {
+    throw new RangeError('Gross margin and monthly churn must be at most 100 percent');
+  }
+
+  const cac = marketingSpend / newCustomers;
+  const monthlyGrossProfit = monthlyRevenuePerCustomer * (grossMarginPercent / 100);
+  const lifetimeMonths = 100 / monthlyChurnPercent;
+  const ltv = monthlyGrossProfit * lifetimeMonths;
+
+  return {
+    cac: round(cac),
+    monthlyGrossProfitPerCustomer: round(monthlyGrossProfit),
+    averageLifetimeMonths: round(lifetimeMonths, 1),
+    ltv: round(ltv),
+    ltvToCacRatio: cac > 0 ? round(ltv / cac, 2) : 0,
+    cacPaybackMonths: round(cac / monthlyGrossProfit, 1)
+  };
+};
+
+// ==================== LOAN AMORTIZATION ====================
+
+export interface LoanInput {
+  principal: number;
+  annualInterestRatePercent: number;
+  termMonths: number;
+}
+
+export interface LoanYearSummary {
+  year: number;
+  principalPaid: number;
+  interestPaid: number;
+  remainingBalance: number;
+}
+
+export interface LoanResult {
+  monthlyPayment: number;
+  totalPaid: number;
+  totalInterest: number;
+  schedule: LoanYearSummary[];
+}
+
+/**
+ * Fixed-rate loan amortization
+ *
+ * Monthly payment plus a schedule summarized per year (a full monthly
+ * schedule is too long to be useful in a chat answer).
+ */
+export const calculateLoanAmortization = ({ principal, annualInterestRatePercent, termMonths }: LoanInput): LoanResult => {
+  requirePositive(principal, 'Loan amount');
+  requireNonNegative(annualInterestRatePercent, 'Interest rate');
+  if (!Number.isInteger(termMonths) || termMonths <= 0 || termMonths > 600) {
+    throw new RangeError('Term must be a whole number of months between 1 and 600');
+  }
+
+  const monthlyRate = annualInterestRatePercent / 100 / 12;
+  const monthlyPayment = monthlyRate === 0
+    ? principal / termMonths
+    : (principal * monthlyRate) / (1 - (1 + monthlyRate) ** -termMonths);
+
+  const schedule: LoanYearSummary[] = [];
+  let balance = principal;
+  let totalInterest = 0;
+
+  for (let month = 1; month <= termMonths; month++) {
+    const interest = balance * monthlyRate;
+    // The last payment clears any rounding remainder
+    const principalPaid = month === termMonths ? balance : monthlyPayment - interest;
+    balance -= principalPaid;
+    totalInterest += interest;
+
+    const year = Math.ceil(month / 12);
+    if (!schedule[year - 1]) {
+      schedule[year - 1] = { year, principalPaid: 0, interestPaid: 0, remainingBalance: 0 };
+    }
+    schedule[year - 1].principalPaid += principalPaid;
+    schedule[year - 1].interestPaid += interest;
+    schedule[year - 1].remainingBalance = Math.max(balance, 0);
+  }
+
+  return {
+    monthlyPayment: round(monthlyPayment),
+    totalPaid: round(principal + totalInterest),
+    totalInterest: round(totalInterest),
+    schedule: schedule.map(entry => ({
+      year: entry.year,
+      principalPaid: round(entry.principalPaid),
+      interestPaid: round(entry.interestPaid),
+      remainingBalance: round(entry.remainingBalance)
+    }))
+  };
+};
+
+// ==================== RUNWAY ====================
+
+export interface RunwayInput {
+  cashBalance: number;
+  monthlyRevenue: number;
+  monthlyExpenses: number;
+  monthlyRevenueGrowthPercent?: number;
+  monthlyExpenseGrowthPercent?: number;
+}
+
+export interface RunwayResult {
+  currentNetBurn: number;
+  runwayMonths: number | null;
+  cashOutDate: string | null;
+  breakEvenMonth: number | null;
+  note: string;
+}
+
+/**
+ * Cash runway
+ *
+ * Simulates month by month with optional revenue and expense growth.
+ * runwayMonths is null when the cash lasts beyond the simulated horizon
+ * (the business is profitable or becomes profitable in time).
+ */
+export const calculateRunway = ({
+  cashBalance,
+  monthlyRevenue,
+  monthlyExpenses,
+  monthlyRevenueGrowthPercent = 0,
+  monthlyExpenseGrowthPercent = 0
+}: RunwayInput): RunwayResult => {
+  requireNonNegative(cashBalance, 'Cash balance');
+  requireNonNegative(monthlyRevenue, 'Monthly revenue');
+  requireNonNegative(monthlyExpenses, 'Monthly expenses');
+  if (!Number.isFinite(monthlyRevenueGrowthPercent) || !Number.isFinite(monthlyExpenseGrowthPercent)) {
+    throw new RangeError('Growth rates must be numbers');
+  }
+
+  let cash = cashBalance;
+  let revenue = monthlyRevenue;
+  let expenses = monthlyExpenses;
+  let breakEvenMonth: number | null = revenue >= expenses ? 0 : null;
+
+  for (let month = 1; month <= MAX_RUNWAY_MONTHS; month++) {
+    cash += revenue - expenses;
+
+    if (cash < 0) {
+      // Cash runs out during this month; count the fraction of it that was covered
+      const monthlyShortfall = expenses - revenue;
+      const runwayMonths = round(month - 1 + (cash + monthlyShortfall) / monthlyShortfall, 1);
+      const cashOutDate = new Date();
+      cashOutDate.setDate(cashOutDate.getDate() + Math.floor(runwayMonths * 30.44));
+
+      return {
+        currentNetBurn: round(monthlyExpenses - monthlyRevenue),
+        runwayMonths,
+        cashOutDate: cashOutDate.toISOString().slice(0, 10),
+        breakEvenMonth,
+        note: `Cash runs out in about ${runwayMonths} months.`
+      };
+    }
+
+    revenue *= 1 + monthlyRevenueGrowthPercent / 100;
+    expenses *= 1 + monthlyExpenseGrowthPercent / 100;
+    if (breakEvenMonth === null && revenue >= expenses) {
+      breakEvenMonth = month;
+    }
+  }
+
+  return {
+    currentNetBurn: round(monthlyExpenses - monthlyRevenue),
+    runwayMonths: null,
+    cashOutDate: null,
+    breakEvenMonth,
+    note: breakEvenMonth === 0
+      ? 'The business is cash-flow positive; cash does not run out.'
+      : `Cash lasts beyond ${MAX_RUNWAY_MONTHS} months with these assumptions.`
+  };
+};
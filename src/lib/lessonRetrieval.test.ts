@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { buildLessonContext, getLessonPath } from './lessonRetrieval';
+import type { LessonChunkMatch } from './database';
+
+const PROJECTIONS_ID = '7a1c1f0e-3b7d-4c55-9a63-2f0d1c9e8b01';
+const FUNDING_ID = '0f6b2d4a-8e1c-4f3a-b5d7-6c9e2a1b3d02';
+
+const match = (overrides: Partial<LessonChunkMatch> = {}): LessonChunkMatch => ({
+  chunk_id: `chunk-${Math.random()}`,
+  lesson_id: PROJECTIONS_ID,
+  course_id: 'course-financial-planning',
+  lesson_title: 'Creating Financial Projections',
+  course_title: 'Financial Planning for Startups',
+  source: 'transcript',
+  content: 'Start with a bottom-up revenue forecast. Instead of claiming a share of a huge market, work from the drivers you control.',
+  rank: 0.83,
+  ...overrides
+});
+
+// Shaped like search_lesson_chunks results for a startup finance question
+// against the lessons in supabase/seed.sql: several chunks of one lesson, with
+// a chunk of another lesson in between
+const seededMatches: LessonChunkMatch[] = [
+  match({ rank: 0.83 }),
+  match({
+    source: 'description',
+    content: 'Learn to create accurate financial forecasts',
+    rank: 0.79
+  }),
+  match({
+    lesson_id: FUNDING_ID,
+    lesson_title: 'Funding Strategies',
+    content: 'Match the amount you raise to your cash flow forecast plus a safety buffer.',
+    rank: 0.55
+  }),
+  match({
+    content: 'Your cash flow forecast shows the lowest point your bank balance will reach and therefore how much funding you need and when.',
+    rank: 0.54
+  })
+];
+
+describe('getLessonPath', () => {
+  it('opens the lesson in the Learning Hub', () => {
+    expect(getLessonPath(PROJECTIONS_ID)).toBe(`/learning?lesson=${PROJECTIONS_ID}`);
+  });
+});
+
+describe('buildLessonContext', () => {
+  it('returns null when nothing was found', () => {
+    expect(buildLessonContext([])).toBeNull();
+  });
+
+  it('adds every excerpt, best match first, with its lesson link', () => {
+    const context = buildLessonContext(seededMatches)!;
+    const { content } = context.message;
+
+    expect(context.message.role).toBe('system');
+    seededMatches.forEach(({ content: excerpt }) => expect(content).toContain(excerpt));
+    expect(content.indexOf(seededMatches[0].content)).toBeLessThan(content.indexOf(seededMatches[2].content));
+    expect(content.indexOf(seededMatches[2].content)).toBeLessThan(content.indexOf(seededMatches[3].content));
+
+    expect(content).toContain(`### Creating Financial Projections (course: Financial Planning for Startups)
+Link: /learning?lesson=${PROJECTIONS_ID}
+Transcript excerpt: ${seededMatches[0].content}`);
+    expect(content).toContain(`Lesson description: ${seededMatches[1].content}`);
+    expect(content).toContain(`### Funding Strategies (course: Financial Planning for Startups)
+Link: /learning?lesson=${FUNDING_ID}`);
+  });
+
+  it('lists each lesson once as a source, best match first', () => {
+    expect(buildLessonContext(seededMatches)!.sources).toEqual([
+      {
+        lesson_id: PROJECTIONS_ID,
+        lesson_title: 'Creating Financial Projections',
+        course_title: 'Financial Planning for Startups'
+      },
+      {
+        lesson_id: FUNDING_ID,
+        lesson_title: 'Funding Strategies',
+        course_title: 'Financial Planning for Startups'
+      }
+    ]);
+  });
+
+  it('skips excerpts that do not fit the token budget but keeps later ones that do', () => {
+    // Each long excerpt takes about 900 of the 1200 tokens
+    const longChunk = (index: number) => match({
+      lesson_id: `lesson-${index}`,
+      lesson_title: `Lesson ${index}`,
+      content: 'word '.repeat(700).trim(),
+      rank: 1 - index / 10
+    });
+    const shortMatch = match({ lesson_id: FUNDING_ID, lesson_title: 'Funding Strategies', rank: 0.1 });
+
+    const context = buildLessonContext([longChunk(0), longChunk(1), longChunk(2), shortMatch])!;
+
+    expect(context.sources.map(source => source.lesson_title)).toEqual(['Lesson 0', 'Funding Strategies']);
+    expect(context.message.content).not.toContain('Lesson 1');
+  });
+
+  it('returns null when no excerpt fits the token budget', () => {
+    expect(buildLessonContext([match({ content: 'word '.repeat(1500) })])).toBeNull();
+  });
+});
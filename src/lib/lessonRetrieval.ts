@@ -0,0 +1,85 @@
+/**
+ * Lesson Retrieval
+ *
+ * Turns lesson search hits (chunks of lesson descriptions and transcripts,
+ * indexed in the lesson_chunks table) into context for the assistant, so
+ * answers can draw on our own course content and link to the lessons they
+ * used.
+ *
+ * Retrieval itself runs in BusinessAssistant.retrieveLessonContext();
+ * the lessons used for a chat turn are stored on the chat_history row
+ * (lesson_sources).
+ *
+ * @author BizGenius Team
+ * @version 1.0.0
+ */
+
+import type { ChatMessage } from './llmProvider';
+import type { LessonChunkMatch, LessonSourceRecord } from './database';
+
+// Chunks requested per question
+export const LESSON_CHUNK_LIMIT = 4;
+
+// Estimated tokens available for lesson excerpts
+const LESSON_CONTEXT_TOKEN_BUDGET = 1200;
+
+/**
+ * Lesson Context
+ *
+ * - message: System message with the excerpts, sent before the conversation
+ * - sources: Distinct lessons the excerpts came from, best match first
+ */
+export interface LessonContext {
+  message: ChatMessage;
+  sources: LessonSourceRecord[];
+}
+
+/**
+ * App path that opens a lesson in the Learning Hub
+ */
+export const getLessonPath = (lessonId: string): string => `/learning?lesson=${lessonId}`;
+
+/**
+ * Build the lesson context for the retrieved chunks
+ *
+ * Chunks are added best match first while they fit the token budget.
+ *
+ * @param matches - Search hits, best match first
+ * @returns LessonContext | null - null when nothing was found
+ */
+export const buildLessonContext = (matches: LessonChunkMatch[]): LessonContext | null => {
+  const excerpts: string[] = [];
+  const sources: LessonSourceRecord[] = [];
+  let usedTokens = 0;
+
+  for (const match of matches) {
+    const excerpt = `### ${match.lesson_title} (course: ${match.course_title})
+Link: ${getLessonPath(match.lesson_id)}
+${match.source === 'transcript' ? 'Transcript excerpt' : 'Lesson description'}: ${match.content}`;
+    const tokens = Math.ceil(excerpt.length / 4);
+
+    if (usedTokens + tokens > LESSON_CONTEXT_TOKEN_BUDGET) continue;
+    usedTokens += tokens;
+    excerpts.push(excerpt);
+
+    if (!sources.some(source => source.lesson_id === match.lesson_id)) {
+      sources.push({
+        lesson_id: match.lesson_id,
+        lesson_title: match.lesson_title,
+        course_title: match.course_title
+      });
+    }
+  }
+
+  if (excerpts.length === 0) return null;
+
+  return {
+    message: {
+      role: 'system',
+      content: `Excerpts from BizGenius Learning Hub lessons that may be relevant to the user's question are below. Use them when they help and prefer them over generic advice where they apply. When you use a lesson, link to it with a Markdown link to its path, using the lesson title and the Link given for it, so the user can watch it. Ignore excerpts that are not relevant and never invent lessons or links.
+
+${excerpts.join('\n\n')}`
+    },
+    sources
+  };
+};
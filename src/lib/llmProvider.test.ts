@@ -0,0 +1,440 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  OpenAICompatibleProvider,
+  MockProvider,
+  ResilientProvider,
+  LLMProviderError,
+  type ChatCompletionRequest,
+  type CompletionMetadata,
+  type LLMProvider,
+  type LLMProviderConfig,
+  type RetryPolicy
+} from './llmProvider';
+
+const config: LLMProviderConfig = {
+  provider: 'openai-compatible',
+  baseUrl: 'https://llm.test/v1',
+  apiKey: 'test-key',
+  defaultModel: 'test/model',
+  fallbackModels: [],
+  maxRetries: 0,
+  timeoutMs: 5000
+};
+
+const request = (overrides: Partial<ChatCompletionRequest> = {}): ChatCompletionRequest => ({
+  model: 'test/model',
+  messages: [{ role: 'user', content: 'How do I price my product?' }],
+  maxTokens: 100,
+  temperature: 0.5,
+  ...overrides
+});
+
+/**
+ * Response whose body arrives in the given network chunks
+ */
+const streamResponse = (chunks: (string | Uint8Array)[]): Response => {
+  const encoder = new TextEncoder();
+  return new Response(new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk));
+      controller.close();
+    }
+  }), { status: 200 });
+};
+
+const readAll = async (stream: ReadableStream<string>): Promise<string[]> => {
+  const reader = stream.getReader();
+  const chunks: string[] = [];
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return chunks;
+    chunks.push(value);
+  }
+};
+
+const sse = (payload: unknown): string => `data: ${JSON.stringify(payload)}\n\n`;
+
+describe('OpenAICompatibleProvider', () => {
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+    vi.unstubAllGlobals();
+  });
+
+  describe('streaming', () => {
+    it('buffers SSE lines split across network chunks and skips comments', async () => {
+      const first = sse({ model: 'test/model-v2', choices: [{ delta: { content: 'Hello' } }] });
+      fetchMock.mockResolvedValue(streamResponse([
+        first.slice(0, 20),
+        first.slice(20) + ': OPENROUTER PROCESSING\n\n',
+        sse({ choices: [{ delta: { content: ' world' } }] }),
+        'data: {"choices":[],"usage":{"prompt_tokens":10,"completion_tokens":2,"cost":0.001}}\n\ndata: [DONE]\n\n'
+      ]));
+      const onFinish = vi.fn<(metadata: CompletionMetadata) => void>();
+
+      const stream = await new OpenAICompatibleProvider(config).streamChatCompletion(request(), undefined, onFinish);
+
+      expect((await readAll(stream)).join('')).toBe('Hello world');
+      expect(onFinish).toHaveBeenCalledWith({
+        model: 'test/model-v2',
+        usage: { promptTokens: 10, completionTokens: 2, totalTokens: 12, cost: 0.001 }
+      });
+    });
+
+    it('decodes multi-byte characters split across chunks', async () => {
+      const bytes = new TextEncoder().encode(sse({ choices: [{ delta: { content: 'Café €' } }] }));
+      const splitAt = bytes.indexOf(0xc3) + 1; // Inside "é"
+      fetchMock.mockResolvedValue(streamResponse([bytes.slice(0, splitAt), bytes.slice(splitAt), 'data: [DONE]\n']));
+
+      const stream = await new OpenAICompatibleProvider(config).streamChatCompletion(request());
+
+      expect((await readAll(stream)).join('')).toBe('Café €');
+    });
+
+    it('processes a last line without a trailing newline', async () => {
+      fetchMock.mockResolvedValue(streamResponse([
+        sse({ choices: [{ delta: { content: 'Done' } }] }),
+        'data: {"choices":[],"usage":{"prompt_tokens":3,"completion_tokens":1}}'
+      ]));
+      const onFinish = vi.fn<(metadata: CompletionMetadata) => void>();
+
+      const stream = await new OpenAICompatibleProvider(config).streamChatCompletion(request(), undefined, onFinish);
+
+      expect(await readAll(stream)).toEqual(['Done']);
+      expect(onFinish.mock.calls[0][0].usage).toEqual({ promptTokens: 3, completionTokens: 1, totalTokens: 4, cost: null });
+    });
+
+    it('assembles tool calls from fragments keyed by index', async () => {
+      fetchMock.mockResolvedValue(streamResponse([
+        sse({ choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_a', function: { name: 'calculate_', arguments: '' } }] } }] }),
+        sse({ choices: [{ delta: { tool_calls: [{ index: 0, function: { name: 'break_even', arguments: '{"fixed' } }] } }] }),
+        sse({ choices: [{ delta: { tool_calls: [{ index: 1, id: 'call_b', function: { name: 'search_courses', arguments: '{"query":' } }] } }] }),
+        sse({ choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: 'Costs":5000}' } }] } }] }),
+        sse({ choices: [{ delta: { tool_calls: [{ index: 1, function: { arguments: '"pricing"}' } }] } }] }),
+        'data: [DONE]\n\n'
+      ]));
+      const onFinish = vi.fn<(metadata: CompletionMetadata) => void>();
+
+      const stream = await new OpenAICompatibleProvider(config).streamChatCompletion(request(), undefined, onFinish);
+      await readAll(stream);
+
+      expect(onFinish.mock.calls[0][0].toolCalls).toEqual([
+        { id: 'call_a', name: 'calculate_break_even', arguments: '{"fixedCosts":5000}' },
+        { id: 'call_b', name: 'search_courses', arguments: '{"query":"pricing"}' }
+      ]);
+    });
+
+    it('errors the stream when the provider sends an error event', async () => {
+      fetchMock.mockResolvedValue(streamResponse([
+        sse({ choices: [{ delta: { content: 'Partial' } }] }),
+        sse({ error: { message: 'Upstream model crashed' } })
+      ]));
+
+      const stream = await new OpenAICompatibleProvider(config).streamChatCompletion(request());
+
+      await expect(readAll(stream)).rejects.toThrow('Upstream model crashed');
+    });
+
+    it('stops listening to the caller signal once the stream ends or the request fails', async () => {
+      const signal = new AbortController().signal;
+      const addListener = vi.spyOn(signal, 'addEventListener');
+      const removeListener = vi.spyOn(signal, 'removeEventListener');
+      const provider = new OpenAICompatibleProvider(config);
+
+      fetchMock.mockResolvedValueOnce(streamResponse([sse({ choices: [{ delta: { content: 'Hi' } }] }), 'data: [DONE]\n']));
+      const stream = await provider.streamChatCompletion(request(), signal);
+      expect(removeListener).not.toHaveBeenCalled();
+      await readAll(stream);
+
+      fetchMock.mockResolvedValueOnce(new Response('{}', { status: 500 }));
+      await expect(provider.streamChatCompletion(request(), signal)).rejects.toBeInstanceOf(LLMProviderError);
+
+      expect(addListener).toHaveBeenCalledTimes(2);
+      addListener.mock.calls.forEach(([, handler]) =>
+        expect(removeListener).toHaveBeenCalledWith('abort', handler)
+      );
+    });
+
+    it('aborts a stream in progress when the caller signal fires', async () => {
+      const controller = new AbortController();
+      let requestSignal: AbortSignal | undefined;
+      fetchMock.mockImplementation(async (_url, init) => {
+        requestSignal = init?.signal ?? undefined;
+        return streamResponse([sse({ choices: [{ delta: { content: 'Hi' } }] })]);
+      });
+
+      await new OpenAICompatibleProvider(config).streamChatCompletion(request(), controller.signal);
+      controller.abort();
+
+      expect(requestSignal?.aborted).toBe(true);
+    });
+  });
+
+  describe('errors', () => {
+    const errorResponse = (status: number, headers: Record<string, string> = {}, message = 'Something failed') =>
+      new Response(JSON.stringify({ error: { message } }), { status, headers });
+
+    const requestError = async (): Promise<LLMProviderError> => {
+      const error = await new OpenAICompatibleProvider(config).createChatCompletion(request()).catch(e => e);
+      expect(error).toBeInstanceOf(LLMProviderError);
+      return error;
+    };
+
+    it('reads Retry-After given in seconds', async () => {
+      fetchMock.mockResolvedValue(errorResponse(429, { 'Retry-After': '3' }));
+
+      const error = await requestError();
+
+      expect(error.status).toBe(429);
+      expect(error.retryable).toBe(true);
+      expect(error.retryAfterMs).toBe(3000);
+    });
+
+    it('reads Retry-After given as an HTTP date', async () => {
+      vi.useFakeTimers({ now: new Date('2025-08-01T12:00:00Z'), toFake: ['Date'] });
+      fetchMock.mockResolvedValue(errorResponse(503, { 'Retry-After': 'Fri, 01 Aug 2025 12:00:10 GMT' }));
+
+      const error = await requestError();
+      vi.useRealTimers();
+
+      expect(error.retryable).toBe(true);
+      expect(error.retryAfterMs).toBe(10000);
+    });
+
+    it('ignores an unreadable Retry-After and never returns a negative wait', async () => {
+      fetchMock.mockResolvedValueOnce(errorResponse(429, { 'Retry-After': 'soon' }));
+      expect((await requestError()).retryAfterMs).toBeNull();
+
+      fetchMock.mockResolvedValueOnce(errorResponse(429, { 'Retry-After': 'Thu, 01 Jan 1970 00:00:00 GMT' }));
+      expect((await requestError()).retryAfterMs).toBe(0);
+    });
+
+    it('passes the provider message through for non-retryable errors', async () => {
+      fetchMock.mockResolvedValue(errorResponse(400, {}, 'max_tokens is too large'));
+
+      const error = await requestError();
+
+      expect(error.message).toBe('max_tokens is too large');
+      expect(error.status).toBe(400);
+      expect(error.retryable).toBe(false);
+    });
+
+    it('turns network failures into retryable errors', async () => {
+      fetchMock.mockRejectedValue(new TypeError('fetch failed'));
+
+      const error = await requestError();
+
+      expect(error.retryable).toBe(true);
+      expect(error.status).toBeNull();
+    });
+  });
+});
+
+describe('MockProvider', () => {
+  const mock = new MockProvider({ ...config, provider: 'mock', defaultModel: 'mock/model' });
+
+  it('answers the same request the same way', async () => {
+    const first = await mock.createChatCompletion(request());
+    const second = await mock.createChatCompletion(request());
+
+    expect(first).toEqual(second);
+    expect(first.content).toContain('How do I price my product?');
+    expect(first.usage?.totalTokens).toBeGreaterThan(0);
+  });
+
+  it('returns a valid section object for plan section requests', async () => {
+    const result = await mock.createChatCompletion(request({
+      responseFormat: 'json',
+      messages: [{ role: 'user', content: 'Write section 3 of 10: Market Analysis\n\nDetails...' }]
+    }));
+
+    const section = JSON.parse(result.content);
+    expect(section.title).toBe('Market Analysis');
+    expect(section.content.length).toBeGreaterThan(200);
+  });
+
+  it('streams the same content as the completion and reports usage at the end', async () => {
+    const onFinish = vi.fn<(metadata: CompletionMetadata) => void>();
+    const completion = await mock.createChatCompletion(request());
+
+    const stream = await mock.streamChatCompletion(request(), undefined, onFinish);
+
+    expect((await readAll(stream)).join('')).toBe(completion.content);
+    expect(onFinish).toHaveBeenCalledWith({ model: 'test/model', usage: completion.usage });
+  });
+});
+
+describe('ResilientProvider', () => {
+  const policy: RetryPolicy = { fallbackModels: ['fallback/model'], maxRetries: 2, baseDelayMs: 1000, maxDelayMs: 20000 };
+  const mock = new MockProvider({ ...config, provider: 'mock' });
+
+  /**
+   * Provider that throws the queued errors in turn, then answers with the mock
+   */
+  const failingProvider = (...errors: Error[]) => {
+    const models: string[] = [];
+    const provider: LLMProvider = {
+      name: 'mock',
+      defaultModel: 'test/model',
+      isConfigured: () => true,
+      createChatCompletion: async (req) => {
+        models.push(req.model);
+        const error = errors.shift();
+        if (error) throw error;
+        return mock.createChatCompletion(req);
+      },
+      streamChatCompletion: async (req, signal, onFinish) => {
+        models.push(req.model);
+        const error = errors.shift();
+        if (error) throw error;
+        return mock.streamChatCompletion(req, signal, onFinish);
+      },
+      listModels: () => mock.listModels()
+    };
+    return { provider, models };
+  };
+
+  const rateLimited = (retryAfterMs: number | null = null) =>
+    new LLMProviderError('Rate limit exceeded.', { status: 429, retryable: true, retryAfterMs });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('retries retryable errors with exponential backoff', async () => {
+    const { provider, models } = failingProvider(rateLimited(), rateLimited());
+
+    const result = new ResilientProvider(provider, policy).createChatCompletion(request());
+
+    // With no jitter the waits are half the backoff: 500ms, then 1000ms
+    await vi.advanceTimersByTimeAsync(499);
+    expect(models).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(models).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(models).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect((await result).model).toBe('test/model');
+    expect(models).toEqual(['test/model', 'test/model', 'test/model']);
+  });
+
+  it('caps the backoff at maxDelayMs', async () => {
+    const { provider, models } = failingProvider(rateLimited(), rateLimited(), rateLimited());
+
+    const result = new ResilientProvider(provider, { ...policy, maxRetries: 3, maxDelayMs: 1500 })
+      .createChatCompletion(request());
+
+    await vi.advanceTimersByTimeAsync(500 + 750);
+    expect(models).toHaveLength(3);
+    await vi.advanceTimersByTimeAsync(749);
+    expect(models).toHaveLength(3);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await result;
+    expect(models).toHaveLength(4);
+  });
+
+  it('falls back to the next model when retries run out', async () => {
+    const { provider, models } = failingProvider(rateLimited(), rateLimited(), rateLimited());
+
+    const result = new ResilientProvider(provider, policy).createChatCompletion(request());
+    await vi.runAllTimersAsync();
+
+    expect((await result).model).toBe('fallback/model');
+    expect(models).toEqual(['test/model', 'test/model', 'test/model', 'fallback/model']);
+  });
+
+  it('falls back immediately when the model is not found', async () => {
+    const { provider, models } = failingProvider(new LLMProviderError('No such model', { status: 404 }));
+
+    const result = await new ResilientProvider(provider, policy).createChatCompletion(request());
+
+    expect(result.model).toBe('fallback/model');
+    expect(models).toEqual(['test/model', 'fallback/model']);
+  });
+
+  it('does not fall back when the model cannot use tools', async () => {
+    const noToolUse = new LLMProviderError('No endpoints found that support tool use.', { status: 404 });
+    const { provider, models } = failingProvider(noToolUse);
+
+    await expect(new ResilientProvider(provider, policy).createChatCompletion(request())).rejects.toBe(noToolUse);
+    expect(models).toEqual(['test/model']);
+  });
+
+  it('waits for Retry-After when it is within the cap', async () => {
+    const { provider, models } = failingProvider(rateLimited(5000));
+
+    const result = new ResilientProvider(provider, policy).createChatCompletion(request());
+
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(models).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect((await result).model).toBe('test/model');
+  });
+
+  it('moves to the next model instead of waiting for a Retry-After over the cap', async () => {
+    const { provider, models } = failingProvider(rateLimited(60000));
+
+    const result = await new ResilientProvider(provider, policy).createChatCompletion(request());
+
+    expect(result.model).toBe('fallback/model');
+    expect(models).toEqual(['test/model', 'fallback/model']);
+  });
+
+  it('throws non-retryable errors without retrying or falling back', async () => {
+    const invalidKey = new LLMProviderError('Invalid API key.', { status: 401 });
+    const { provider, models } = failingProvider(invalidKey);
+
+    await expect(new ResilientProvider(provider, policy).createChatCompletion(request())).rejects.toBe(invalidKey);
+    expect(models).toEqual(['test/model']);
+  });
+
+  it('throws the last error when every model fails', async () => {
+    const { provider, models } = failingProvider(
+      new LLMProviderError('No such model', { status: 404 }),
+      new LLMProviderError('Also missing', { status: 404 })
+    );
+
+    await expect(new ResilientProvider(provider, policy).createChatCompletion(request())).rejects.toThrow('Also missing');
+    expect(models).toEqual(['test/model', 'fallback/model']);
+  });
+
+  it('stops waiting when the caller aborts during a backoff', async () => {
+    const { provider, models } = failingProvider(rateLimited());
+    const controller = new AbortController();
+
+    const result = new ResilientProvider(provider, policy).streamChatCompletion(request(), controller.signal);
+    const rejection = expect(result).rejects.toMatchObject({ name: 'AbortError' });
+    await vi.advanceTimersByTimeAsync(100);
+    controller.abort();
+
+    await rejection;
+    expect(models).toHaveLength(1);
+  });
+
+  it('retries opening a stream and reports the model that answered', async () => {
+    const { provider } = failingProvider(new LLMProviderError('No such model', { status: 404 }));
+    const onFinish = vi.fn<(metadata: CompletionMetadata) => void>();
+
+    const stream = await new ResilientProvider(provider, policy).streamChatCompletion(request(), undefined, onFinish);
+    const reading = readAll(stream);
+    await vi.runAllTimersAsync();
+    await reading;
+
+    expect(onFinish.mock.calls[0][0].model).toBe('fallback/model');
+  });
+});
@@ -0,0 +1,1102 @@
+/**
+ * LLM Provider Layer
+ *
+ * This module provides a single abstraction over the chat completion APIs
+ * used by the AI services (BusinessAssistant and BusinessPlanGenerator).
+ * It owns the HTTP requests, API key checks, error mapping, streaming
+ * parsing, retries, fallback models and timeouts so the services only deal
+ * with prompts and responses.
+ *
+ * Providers:
+ * - openrouter: OpenRouter API (default)
+ * - openai-compatible: Any OpenAI-compatible endpoint, e.g. a local Ollama
+ *   (http://localhost:11434/v1) or llama.cpp server
+ * - mock: Deterministic offline responses for development and tests
+ *
+ * Tool calling uses the OpenAI function-calling format: requests may list
+ * tools, results report the tool calls the model made, and the follow-up
+ * request carries the assistant's tool calls and one 'tool' message per
+ * result.
+ *
+ * Configuration (environment variables):
+ * - VITE_LLM_PROVIDER: 'openrouter' | 'openai-compatible' | 'mock' (default 'openrouter')
+ * - VITE_LLM_BASE_URL: API base URL (defaults to the provider's standard URL)
+ * - VITE_LLM_API_KEY: API key (falls back to VITE_OPENROUTER_API_KEY)
+ * - VITE_LLM_MODEL: Default model identifier
+ * - VITE_LLM_FALLBACK_MODELS: Comma-separated models to try, in order, when
+ *   the requested model is unavailable or keeps failing
+ * - VITE_LLM_MAX_RETRIES: Retries per model for rate limits, server errors
+ *   and timeouts (default 2)
+ * - VITE_LLM_TIMEOUT_MS: Request timeout in milliseconds (default 60000)
+ *
+ * Usage:
+ * - Import llmProvider for the configured provider instance
+ * - Call createChatCompletion() for standard responses
+ * - Call streamChatCompletion() for a stream of content chunks
+ *
+ * @author BizGenius Team
+ * @version 1.0.0
+ */
+
+/**
+ * Interface defining the structure of chat messages
+ * Used for maintaining conversation context and API communication
+ *
+ * - toolCalls: Tools the assistant called in this message
+ * - toolCallId: For 'tool' messages, the call this message is the result of
+ */
+export interface ChatMessage {
+  role: 'user' | 'assistant' | 'system' | 'tool';
+  content: string;
+  toolCalls?: ToolCall[];
+  toolCallId?: string;
+}
+
+/**
+ * Tool Definition
+ *
+ * A function the model may call. parameters is a JSON Schema object
+ * describing the arguments.
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+/**
+ * Tool Call
+ *
+ * - arguments: JSON-encoded arguments exactly as produced by the model
+ */
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+/**
+ * Chat Completion Request
+ *
+ * - model: Model identifier understood by the provider
+ * - messages: Full message list, including any system prompt
+ * - maxTokens: Maximum tokens to generate
+ * - temperature: Sampling temperature
+ * - timeoutMs: Overrides the configured timeout (e.g. for long generations)
+ * - tools: Tools the model may call (omit for plain completions)
+ * - toolChoice: 'none' forbids further tool calls while still describing
+ *   the tools used earlier in the conversation (default 'auto')
+ * - responseFormat: 'json' asks for a single JSON object (JSON mode); models
+ *   without JSON mode ignore it, so callers still validate the response
+ */
+export interface ChatCompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  maxTokens: number;
+  temperature: number;
+  timeoutMs?: number;
+  tools?: ToolDefinition[];
+  toolChoice?: 'auto' | 'none';
+  responseFormat?: 'text' | 'json';
+}
+
+/**
+ * Token Usage
+ *
+ * Usage block reported by the provider for one completion.
+ * - cost: Cost in USD when the provider reports it (OpenRouter), otherwise null
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number | null;
+}
+
+/**
+ * Completion Metadata
+ *
+ * - model: Model that produced the response, as reported by the provider
+ * - usage: Token usage, or null if the provider did not report it
+ * - toolCalls: Tools the model called instead of (or besides) answering
+ */
+export interface CompletionMetadata {
+  model: string;
+  usage: TokenUsage | null;
+  toolCalls?: ToolCall[];
+}
+
+/**
+ * Chat Completion Result
+ *
+ * - content: Raw (unformatted) response text
+ */
+export interface ChatCompletionResult extends CompletionMetadata {
+  content: string;
+}
+
+/**
+ * Model Info
+ *
+ * Model metadata as returned by the provider's /models endpoint. Only id
+ * is guaranteed; OpenRouter also includes name, context length and pricing
+ * (USD per token, as decimal strings).
+ */
+export interface ModelInfo {
+  id: string;
+  name?: string;
+  context_length?: number;
+  pricing?: {
+    prompt: string;
+    completion: string;
+  };
+  [key: string]: unknown;
+}
+
+/**
+ * Provider Error
+ *
+ * A failed provider request with a user-facing message.
+ * - status: HTTP status, or null for network errors and timeouts
+ * - retryable: Worth retrying (rate limits, server errors, timeouts)
+ * - retryAfterMs: Wait requested by the server's Retry-After header
+ */
+export class LLMProviderError extends Error {
+  readonly status: number | null;
+  readonly retryable: boolean;
+  readonly retryAfterMs: number | null;
+
+  constructor(
+    message: string,
+    options: { status?: number | null; retryable?: boolean; retryAfterMs?: number | null } = {}
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+    this.status = options.status ?? null;
+    this.retryable = options.retryable ?? false;
+    this.retryAfterMs = options.retryAfterMs ?? null;
+  }
+}
+
+/**
+ * Whether an HTTP status is worth retrying
+ */
+const isRetryableStatus = (status: number): boolean =>
+  status === 408 || status === 429 || status >= 500;
+
+/**
+ * Whether a provider error says the model can't use tools, e.g. OpenRouter's
+ * "No endpoints found that support tool use" (404) or "model does not
+ * support tools" (400). Other 400/404 errors (bad request, unknown model)
+ * are not about tools.
+ */
+export const isToolsUnsupportedError = (error: unknown): boolean =>
+  error instanceof LLMProviderError &&
+  (error.status === 400 || error.status === 404) &&
+  /\b(tools?|tool[ _]use|tool[ _]calling|function[ _]calling|functions)\b/i.test(error.message) &&
+  /(not|n't|un)\s*support|no endpoints/i.test(error.message);
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+const parseRetryAfter = (header: string | null): number | null => {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+/**
+ * Whether an error is an AbortError (request cancelled)
+ */
+const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * Wait for a delay, rejecting with an AbortError if the signal fires first
+ */
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Error body returned by OpenAI-compatible APIs
+ */
+interface ProviderErrorBody {
+  error?: { message?: string };
+}
+
+/**
+ * Usage block in OpenAI-compatible responses (cost is OpenRouter-only)
+ */
+interface ProviderUsageBody {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  cost?: number;
+}
+
+/**
+ * Tool call in OpenAI-compatible responses; streamed calls arrive in
+ * fragments keyed by index
+ */
+interface ProviderToolCallBody {
+  index?: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+/**
+ * Convert a message to the OpenAI-compatible wire format
+ */
+const toProviderMessage = (message: ChatMessage): Record<string, unknown> => {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+  }
+  if (message.toolCalls && message.toolCalls.length > 0) {
+    return {
+      role: message.role,
+      content: message.content || null,
+      tool_calls: message.toolCalls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: call.arguments }
+      }))
+    };
+  }
+  return { role: message.role, content: message.content };
+};
+
+/**
+ * Convert provider tool calls to ToolCall
+ */
+const parseToolCalls = (toolCalls?: ProviderToolCallBody[] | null): ToolCall[] =>
+  (toolCalls || [])
+    .filter(call => call.function?.name)
+    .map((call, index) => ({
+      id: call.id || `call_${index}`,
+      name: call.function?.name || '',
+      arguments: call.function?.arguments || '{}'
+    }));
+
+/**
+ * Convert a provider usage block to TokenUsage
+ */
+const parseUsage = (usage?: ProviderUsageBody | null): TokenUsage | null => {
+  if (!usage) return null;
+
+  const promptTokens = usage.prompt_tokens || 0;
+  const completionTokens = usage.completion_tokens || 0;
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: usage.total_tokens || promptTokens + completionTokens,
+    cost: typeof usage.cost === 'number' ? usage.cost : null
+  };
+};
+
+export type LLMProviderName = 'openrouter' | 'openai-compatible' | 'mock';
+
+/**
+ * Provider Configuration
+ */
+export interface LLMProviderConfig {
+  provider: LLMProviderName;
+  baseUrl: string;
+  apiKey: string;
+  defaultModel: string;
+  fallbackModels: string[];
+  maxRetries: number;
+  timeoutMs: number;
+}
+
+/**
+ * LLM Provider Interface
+ *
+ * Implemented by every provider. Services depend only on this interface.
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly defaultModel: string;
+  isConfigured(): boolean;
+  createChatCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResult>;
+  streamChatCompletion(
+    request: ChatCompletionRequest,
+    signal?: AbortSignal,
+    onFinish?: (metadata: CompletionMetadata) => void
+  ): Promise<ReadableStream<string>>;
+  listModels(): Promise<ModelInfo[]>;
+}
+
+// Placeholder value shipped in example .env files
+const PLACEHOLDER_API_KEY = 'your_openrouter_api_key_here';
+
+const DEFAULT_BASE_URLS: Record<LLMProviderName, string> = {
+  'openrouter': 'https://openrouter.ai/api/v1',
+  'openai-compatible': 'http://localhost:11434/v1',
+  'mock': ''
+};
+
+// Retry and timeout defaults when not set in the environment
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_TIMEOUT_MS = 60000;
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  'openrouter': 'tngtech/deepseek-r1t2-chimera:free', // Free DeepSeek model - excellent for business content
+  'openai-compatible': 'llama3.1',
+  'mock': 'mock/bizgenius-offline'
+};
+
+/**
+ * OpenAI-Compatible Provider
+ *
+ * Talks to any endpoint implementing the OpenAI chat completions API.
+ * The API key is optional because local servers usually don't need one.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: LLMProviderName = 'openai-compatible';
+  readonly defaultModel: string;
+  protected baseUrl: string;
+  protected apiKey: string;
+  protected timeoutMs: number;
+
+  constructor(config: LLMProviderConfig) {
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.apiKey = config.apiKey;
+    this.defaultModel = config.defaultModel;
+    this.timeoutMs = config.timeoutMs;
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.baseUrl);
+  }
+
+  /**
+   * Request headers for the endpoint
+   */
+  protected buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json'
+    };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+
+  /**
+   * Error thrown when the provider is not configured
+   */
+  protected notConfiguredError(): Error {
+    return new Error('LLM provider not configured. Please set VITE_LLM_BASE_URL in the .env file.');
+  }
+
+  /**
+   * Map a failed HTTP response to a user-facing error
+   *
+   * @param status - HTTP status code
+   * @param errorData - Parsed error body (may be empty)
+   * @param retryAfterMs - Wait requested by the Retry-After header, if any
+   */
+  protected describeError(status: number, errorData: ProviderErrorBody, retryAfterMs: number | null): LLMProviderError {
+    const options = { status, retryable: isRetryableStatus(status), retryAfterMs };
+
+    if (status === 401) {
+      return new LLMProviderError('Invalid API key. Please check your LLM provider API key configuration.', options);
+    } else if (status === 429) {
+      return new LLMProviderError('Rate limit exceeded. Please wait a moment and try again.', options);
+    }
+    return new LLMProviderError(errorData.error?.message || `API request failed with status ${status}`, options);
+  }
+
+  /**
+   * Request body for a chat completion
+   *
+   * Streaming requests ask for a final usage chunk (stream_options).
+   */
+  protected buildRequestBody(request: ChatCompletionRequest, stream: boolean): Record<string, unknown> {
+    return {
+      model: request.model,
+      messages: request.messages.map(toProviderMessage),
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      stream,
+      ...(stream ? { stream_options: { include_usage: true } } : {}),
+      ...(request.responseFormat === 'json' ? { response_format: { type: 'json_object' } } : {}),
+      ...(request.tools && request.tools.length > 0
+        ? {
+            tools: request.tools.map(tool => ({ type: 'function', function: tool })),
+            tool_choice: request.toolChoice || 'auto'
+          }
+        : {})
+    };
+  }
+
+  /**
+   * POST a chat completion request and return the successful response
+   *
+   * The request is aborted if no response arrives within the timeout, or
+   * when the caller's signal fires. Call the returned started() as soon as
+   * a stream starts to stop the timer, so long generations are not cut off,
+   * and done() once the response has been read to also stop listening to
+   * the caller's signal.
+   */
+  private async postChatCompletion(
+    request: ChatCompletionRequest,
+    stream: boolean,
+    signal?: AbortSignal
+  ): Promise<{ response: Response; started: () => void; done: () => void }> {
+    if (!this.isConfigured()) {
+      throw this.notConfiguredError();
+    }
+
+    const timeoutMs = request.timeoutMs ?? this.timeoutMs;
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const started = () => clearTimeout(timer);
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    try {
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: this.buildHeaders(),
+        body: JSON.stringify(this.buildRequestBody(request, stream)),
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw this.describeError(response.status, errorData, parseRetryAfter(response.headers.get('Retry-After')));
+      }
+
+      return { response, started, done };
+    } catch (error) {
+      done();
+      throw this.normalizeError(error, timeoutMs, signal);
+    }
+  }
+
+  /**
+   * Turn timeouts and network failures into retryable provider errors;
+   * caller aborts stay AbortErrors
+   */
+  private normalizeError(error: unknown, timeoutMs: number, signal?: AbortSignal): unknown {
+    if (error instanceof LLMProviderError || signal?.aborted) return error;
+
+    if (isAbortError(error)) {
+      return new LLMProviderError(
+        `The AI model did not respond within ${Math.round(timeoutMs / 1000)} seconds.`,
+        { retryable: true }
+      );
+    }
+    if (error instanceof TypeError) {
+      return new LLMProviderError('Could not reach the AI service. Please check your connection.', { retryable: true });
+    }
+    return error;
+  }
+
+  async createChatCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    const { response, done } = await this.postChatCompletion(request, false);
+
+    try {
+      const data = await response.json();
+      const toolCalls = parseToolCalls(data.choices?.[0]?.message?.tool_calls);
+
+      return {
+        content: data.choices?.[0]?.message?.content || '',
+        model: data.model || request.model,
+        usage: parseUsage(data.usage),
+        ...(toolCalls.length > 0 ? { toolCalls } : {})
+      };
+    } catch (error) {
+      throw this.normalizeError(error, request.timeoutMs ?? this.timeoutMs);
+    } finally {
+      done();
+    }
+  }
+
+  /**
+   * Stream Chat Completion
+   *
+   * @returns Promise<ReadableStream<string>> - Stream of raw content chunks
+   *
+   * Stream Parsing:
+   * - Server-sent event lines can be split across network chunks, so
+   *   incomplete lines are buffered until the next chunk arrives
+   * - Comment lines (e.g. ": OPENROUTER PROCESSING") are ignored
+   * - The stream closes on the [DONE] marker or when the body ends
+   * - Usage arrives in a final chunk with no choices; onFinish receives
+   *   it together with the reported model once the stream completes
+   * - Tool calls arrive as fragments (name first, then pieces of the JSON
+   *   arguments) keyed by index; they are assembled and reported to onFinish
+   */
+  async streamChatCompletion(
+    request: ChatCompletionRequest,
+    signal?: AbortSignal,
+    onFinish?: (metadata: CompletionMetadata) => void
+  ): Promise<ReadableStream<string>> {
+    const { response, started, done } = await this.postChatCompletion(request, true, signal);
+    started();
+    const reader = response.body?.getReader();
+    const metadata: CompletionMetadata = { model: request.model, usage: null };
+    const toolCallParts: ProviderToolCallBody[] = [];
+
+    // Report metadata with the assembled tool calls
+    const finish = () => {
+      const toolCalls = parseToolCalls(toolCallParts.filter(Boolean));
+      onFinish?.(toolCalls.length > 0 ? { ...metadata, toolCalls } : metadata);
+    };
+
+    return new ReadableStream<string>({
+      async start(controller) {
+        if (!reader) {
+          done();
+          controller.error(new Error('No response body'));
+          return;
+        }
+
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        // Parse a single SSE line; returns true once the stream is finished
+        const processLine = (rawLine: string): boolean => {
+          const line = rawLine.trim();
+          if (!line.startsWith('data:')) return false;
+
+          const data = line.slice(5).trim();
+          if (data === '[DONE]') return true;
+
+          try {
+            const parsed = JSON.parse(data);
+            if (parsed.error) {
+              throw new Error(parsed.error.message || 'Streaming request failed');
+            }
+            if (parsed.model) metadata.model = parsed.model;
+            if (parsed.usage) metadata.usage = parseUsage(parsed.usage);
+
+            const content = parsed.choices?.[0]?.delta?.content || '';
+            if (content) {
+              controller.enqueue(content);
+            }
+
+            const toolCallDeltas: ProviderToolCallBody[] = parsed.choices?.[0]?.delta?.tool_calls || [];
+            toolCallDeltas.forEach((delta, position) => {
+              const index = delta.index ?? position;
+              const part = toolCallParts[index] ?? { function: { name: '', arguments: '' } };
+              toolCallParts[index] = {
+                id: delta.id || part.id,
+                function: {
+                  name: (part.function?.name || '') + (delta.function?.name || ''),
+                  arguments: (part.function?.arguments || '') + (delta.function?.arguments || '')
+                }
+              };
+            });
+          } catch (error) {
+            // Surface provider errors, skip malformed JSON payloads
+            if (!(error instanceof SyntaxError)) throw error;
+          }
+          return false;
+        };
+
+        try {
+          while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            // Keep the trailing partial line in the buffer until it is complete
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() ?? '';
+
+            for (const line of lines) {
+              if (processLine(line)) {
+                finish();
+                controller.close();
+                await reader.cancel();
+                return;
+              }
+            }
+          }
+
+          // Flush whatever is left once the body ends
+          buffer += decoder.decode();
+          if (buffer) processLine(buffer);
+          finish();
+          controller.close();
+        } catch (error) {
+          controller.error(error);
+        } finally {
+          done();
+        }
+      },
+      cancel() {
+        done();
+        return reader?.cancel();
+      }
+    });
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    try {
+      const response = await fetch(`${this.baseUrl}/models`, {
+        headers: this.buildHeaders()
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch models');
+      }
+
+      const data = await response.json();
+      return data.data || [];
+    } catch (error) {
+      console.error('Error fetching models:', error);
+      return [];
+    }
+  }
+}
+
+/**
+ * OpenRouter Provider
+ *
+ * OpenAI-compatible API with a required API key, app attribution headers
+ * and OpenRouter-specific billing errors.
+ */
+export class OpenRouterProvider extends OpenAICompatibleProvider {
+  readonly name: LLMProviderName = 'openrouter';
+
+  isConfigured(): boolean {
+    return Boolean(this.baseUrl && this.apiKey && this.apiKey !== PLACEHOLDER_API_KEY);
+  }
+
+  /**
+   * Request headers including OpenRouter app attribution
+   */
+  protected buildHeaders(): Record<string, string> {
+    return {
+      ...super.buildHeaders(),
+      'HTTP-Referer': window.location.origin, // Required by OpenRouter
+      'X-Title': 'BizGenius' // App identification
+    };
+  }
+
+  /**
+   * Request body with OpenRouter usage accounting, which adds the cost
+   * of the request to the usage block
+   */
+  protected buildRequestBody(request: ChatCompletionRequest, stream: boolean): Record<string, unknown> {
+    return {
+      ...super.buildRequestBody(request, stream),
+      usage: { include: true }
+    };
+  }
+
+  protected notConfiguredError(): Error {
+    return new Error('OpenRouter API key not configured. Please add your API key to the .env file.');
+  }
+
+  protected describeError(status: number, errorData: ProviderErrorBody, retryAfterMs: number | null): LLMProviderError {
+    if (status === 401) {
+      return new LLMProviderError('Invalid API key. Please check your OpenRouter API key configuration.', { status });
+    } else if (status === 402) {
+      return new LLMProviderError('Insufficient credits. Please check your OpenRouter billing.', { status });
+    }
+    return super.describeError(status, errorData, retryAfterMs);
+  }
+}
+
+/**
+ * Mock Provider
+ *
+ * Deterministic, offline provider for development and tests. The same
+ * request always produces the same response. Business plan section requests
+ * (JSON requests starting "Write section n of m: Title", or "Revise the
+ * section: Title") get a valid section object; full plan requests (those whose system prompt lists the plan
+ * sections) get a complete plan with every section so the plan parser and
+ * viewer can be exercised.
+ */
+export class MockProvider implements LLMProvider {
+  readonly name: LLMProviderName = 'mock';
+  readonly defaultModel: string;
+
+  // Delay between streamed words, to make streaming visible in the UI
+  private streamDelayMs = 15;
+
+  constructor(config: LLMProviderConfig) {
+    this.defaultModel = config.defaultModel;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  /**
+   * Build the deterministic response for a request
+   */
+  private buildResponse(request: ChatCompletionRequest): string {
+    const systemPrompt = request.messages.find(msg => msg.role === 'system')?.content || '';
+    const lastUserMessage = [...request.messages].reverse().find(msg => msg.role === 'user')?.content || '';
+    const topic = lastUserMessage.replace(/\s+/g, ' ').trim().slice(0, 120);
+
+    // Matched on any user message, so corrections of an invalid section are answered too
+    const planSection = request.responseFormat === 'json' && request.messages
+      .filter(msg => msg.role === 'user')
+      .map(msg => msg.content.match(/^(Write section \d+ of \d+|Revise the section): (.+)$/m))
+      .find(Boolean);
+    if (planSection) {
+      const title = planSection[2].trim();
+      const revised = planSection[1] === 'Revise the section';
+      return JSON.stringify({
+        title,
+        content: `This is ${revised ? 'revised ' : ''}offline mock content for the **${title}** section. It was generated without calling a language model, so it only shows how a section is structured and formatted.\n\n### Key Points\n\n- A first point about ${title.toLowerCase()}\n- A second point with a **key figure** of 25%\n\n| Metric | Year 1 | Year 2 |\n| --- | ---: | ---: |\n| Revenue | $100,000 | $180,000 |\n| Customers | 250 | 450 |`
+      });
+    }
+
+    if (systemPrompt.includes('1. Executive Summary')) {
+      const sections = [
+        'Executive Summary',
+        'Company Description',
+        'Market Analysis',
+        'Organization & Management',
+        'Products or Services',
+        'Marketing & Sales Strategy',
+        'Financial Projections',
+        'Risk Analysis',
+        'Implementation Timeline',
+        'Appendices'
+      ];
+      return sections
+        .map((section, index) =>
+          `${index + 1}. ${section}\n\nThis is offline mock content for the ${section} section. It was generated without calling a language model, based on the request: ${topic}`
+        )
+        .join('\n\n');
+    }
+
+    const response = `This is a mock response generated offline by the BizGenius development provider.\n\nYou asked: "${topic}"\n\nConfigure VITE_LLM_PROVIDER to use a real model.`;
+
+    // Chat answers asked for follow-up questions get a fixed set
+    if (systemPrompt.includes('<follow_ups>')) {
+      return `${response}\n\n<follow_ups>\n- Can you give me a concrete example?\n- What should I do first?\n- Which mistakes should I avoid?\n</follow_ups>`;
+    }
+    return response;
+  }
+
+  /**
+   * Deterministic usage estimate (about 4 characters per token, no cost)
+   */
+  private buildUsage(request: ChatCompletionRequest, content: string): TokenUsage {
+    const promptChars = request.messages.reduce((total, msg) => total + msg.content.length, 0);
+    const promptTokens = Math.ceil(promptChars / 4);
+    const completionTokens = Math.ceil(content.length / 4);
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      cost: 0
+    };
+  }
+
+  async createChatCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    const content = this.buildResponse(request);
+    return {
+      content,
+      model: request.model,
+      usage: this.buildUsage(request, content)
+    };
+  }
+
+  async streamChatCompletion(
+    request: ChatCompletionRequest,
+    signal?: AbortSignal,
+    onFinish?: (metadata: CompletionMetadata) => void
+  ): Promise<ReadableStream<string>> {
+    const content = this.buildResponse(request);
+    const usage = this.buildUsage(request, content);
+    const words = content.match(/\S+\s*/g) ?? [];
+    const delay = this.streamDelayMs;
+    let index = 0;
+
+    return new ReadableStream<string>({
+      async pull(controller) {
+        if (signal?.aborted) {
+          controller.error(new DOMException('The operation was aborted.', 'AbortError'));
+          return;
+        }
+        if (index >= words.length) {
+          onFinish?.({ model: request.model, usage });
+          controller.close();
+          return;
+        }
+
+        await new Promise(resolve => setTimeout(resolve, delay));
+        controller.enqueue(words[index++]);
+      }
+    });
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    return [{
+      id: this.defaultModel,
+      name: 'Offline mock model',
+      context_length: 8192,
+      pricing: { prompt: '0', completion: '0' }
+    }];
+  }
+}
+
+/**
+ * Retry Policy
+ *
+ * - fallbackModels: Models to try, in order, after the requested one
+ * - maxRetries: Retries per model after the first attempt
+ * - baseDelayMs / maxDelayMs: Exponential backoff bounds; a Retry-After
+ *   longer than maxDelayMs moves on to the next model instead of waiting
+ */
+export interface RetryPolicy {
+  fallbackModels: string[];
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+/**
+ * Resilient Provider
+ *
+ * Wraps a provider with retries, jittered exponential backoff and fallback
+ * models, so chat, plan generation and plan modification all share the
+ * same behavior.
+ *
+ * - Retryable errors (429, 5xx, timeouts, network failures) are retried on
+ *   the same model, waiting for Retry-After when the server sends one
+ * - When retries run out, or the model is not found (404), the next
+ *   fallback model is tried
+ * - Errors saying the model can't use tools are thrown immediately, so the
+ *   caller can retry the requested model without tools rather than get an
+ *   answer from a fallback model
+ * - Other errors (invalid key, insufficient credits, bad request) and
+ *   caller aborts are thrown immediately
+ * - Streams are only retried while opening; once content has started
+ *   arriving, errors are passed to the reader
+ *
+ * The model that actually answered is reported in the result (or to
+ * onFinish for streams), so the UI can show it.
+ */
+export class ResilientProvider implements LLMProvider {
+  readonly name: LLMProviderName;
+  readonly defaultModel: string;
+  private provider: LLMProvider;
+  private policy: RetryPolicy;
+
+  constructor(provider: LLMProvider, policy: RetryPolicy) {
+    this.provider = provider;
+    this.policy = policy;
+    this.name = provider.name;
+    this.defaultModel = provider.defaultModel;
+  }
+
+  isConfigured(): boolean {
+    return this.provider.isConfigured();
+  }
+
+  async createChatCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    return this.withRetries(request.model, undefined, model =>
+      this.provider.createChatCompletion({ ...request, model })
+    );
+  }
+
+  async streamChatCompletion(
+    request: ChatCompletionRequest,
+    signal?: AbortSignal,
+    onFinish?: (metadata: CompletionMetadata) => void
+  ): Promise<ReadableStream<string>> {
+    return this.withRetries(request.model, signal, model =>
+      this.provider.streamChatCompletion({ ...request, model }, signal, onFinish)
+    );
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    return this.provider.listModels();
+  }
+
+  /**
+   * Requested model followed by the fallback models, without duplicates
+   */
+  private modelsToTry(requestedModel: string): string[] {
+    return [requestedModel, ...this.policy.fallbackModels]
+      .filter((model, index, models) => model && models.indexOf(model) === index);
+  }
+
+  /**
+   * Delay before the next attempt on the same model
+   *
+   * @returns number | null - Milliseconds to wait, or null to move to the next model
+   */
+  private retryDelay(attempt: number, error: LLMProviderError): number | null {
+    if (attempt >= this.policy.maxRetries) return null;
+
+    if (error.retryAfterMs !== null) {
+      return error.retryAfterMs <= this.policy.maxDelayMs ? error.retryAfterMs : null;
+    }
+
+    // Exponential backoff with jitter, so concurrent clients don't retry in lockstep
+    const backoff = Math.min(this.policy.maxDelayMs, this.policy.baseDelayMs * 2 ** attempt);
+    return Math.round(backoff / 2 + Math.random() * (backoff / 2));
+  }
+
+  /**
+   * Run a call with retries and fallback models
+   *
+   * @param requestedModel - Model asked for by the caller
+   * @param signal - Caller's AbortSignal; aborts also cancel backoff waits
+   * @param call - Makes one attempt with the given model
+   */
+  private async withRetries<T>(
+    requestedModel: string,
+    signal: AbortSignal | undefined,
+    call: (model: string) => Promise<T>
+  ): Promise<T> {
+    const models = this.modelsToTry(requestedModel);
+    let lastError: unknown = null;
+
+    for (const [modelIndex, model] of models.entries()) {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return await call(model);
+        } catch (error) {
+          lastError = error;
+          // Caller aborts and unexpected errors are not retried
+          if (!(error instanceof LLMProviderError)) throw error;
+          // A 404 for tool use is not an unknown model; the caller retries without tools
+          if (isToolsUnsupportedError(error)) throw error;
+
+          const modelNotFound = error.status === 404;
+          if (!error.retryable && !modelNotFound) throw error;
+
+          const delay = modelNotFound ? null : this.retryDelay(attempt, error);
+          if (delay === null) break;
+
+          console.warn(`${model} failed (${error.message}), retrying in ${delay}ms`);
+          await sleep(delay, signal);
+        }
+      }
+
+      const nextModel = models[modelIndex + 1];
+      if (nextModel) {
+        console.warn(`${model} unavailable, falling back to ${nextModel}`);
+      }
+    }
+
+    throw lastError;
+  }
+}
+
+/**
+ * Add Two Usage Records
+ *
+ * Used when one user action makes several calls (e.g. summary + answer).
+ * Cost stays null only if neither call reported one.
+ *
+ * @returns TokenUsage | null - Combined usage, or null if neither is known
+ */
+export const addUsage = (a: TokenUsage | null, b: TokenUsage | null): TokenUsage | null => {
+  if (!a) return b;
+  if (!b) return a;
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+    cost: a.cost === null && b.cost === null ? null : (a.cost || 0) + (b.cost || 0)
+  };
+};
+
+/**
+ * Read Provider Configuration from Environment
+ *
+ * @returns LLMProviderConfig - Provider, base URL, API key and default model
+ */
+export const getLLMConfig = (): LLMProviderConfig => {
+  const env = import.meta.env;
+  const requested = (env.VITE_LLM_PROVIDER || 'openrouter') as string;
+
+  let provider: LLMProviderName = 'openrouter';
+  if (requested === 'openrouter' || requested === 'openai-compatible' || requested === 'mock') {
+    provider = requested;
+  } else {
+    console.warn(`Unknown LLM provider "${requested}", falling back to openrouter`);
+  }
+
+  const maxRetries = Number(env.VITE_LLM_MAX_RETRIES);
+  const timeoutMs = Number(env.VITE_LLM_TIMEOUT_MS);
+
+  return {
+    provider,
+    baseUrl: env.VITE_LLM_BASE_URL || DEFAULT_BASE_URLS[provider],
+    apiKey: env.VITE_LLM_API_KEY || env.VITE_OPENROUTER_API_KEY || '',
+    defaultModel: env.VITE_LLM_MODEL || DEFAULT_MODELS[provider],
+    fallbackModels: ((env.VITE_LLM_FALLBACK_MODELS || '') as string)
+      .split(',')
+      .map(model => model.trim())
+      .filter(Boolean),
+    maxRetries: Number.isInteger(maxRetries) && maxRetries >= 0 ? maxRetries : DEFAULT_MAX_RETRIES,
+    timeoutMs: timeoutMs > 0 ? timeoutMs : DEFAULT_TIMEOUT_MS
+  };
+};
+
+/**
+ * Create a Provider from Configuration
+ *
+ * @param config - Provider configuration
+ * @returns LLMProvider - Provider instance wrapped with retries and fallback models
+ */
+export const createLLMProvider = (config: LLMProviderConfig): LLMProvider => {
+  let provider: LLMProvider;
+  switch (config.provider) {
+    case 'mock':
+      provider = new MockProvider(config);
+      break;
+    case 'openai-compatible':
+      provider = new OpenAICompatibleProvider(config);
+      break;
+    default:
+      provider = new OpenRouterProvider(config);
+  }
+
+  return new ResilientProvider(provider, {
+    fallbackModels: config.fallbackModels,
+    maxRetries: config.maxRetries,
+    baseDelayMs: 1000,
+    maxDelayMs: 20000
+  });
+};
+
+/**
+ * Singleton Instance Export
+ *
+ * Provider chosen from environment configuration, shared by all AI services.
+ */
+export const llmProvider = createLLMProvider(getLLMConfig());
+
+if (!llmProvider.isConfigured()) {
+  console.warn(`${llmProvider.name} LLM provider not configured`);
+}
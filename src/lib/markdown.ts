@@ -0,0 +1,532 @@
+/**
+ * Markdown Parsing
+ *
+ * Small Markdown parser for AI output (assistant answers and business plan
+ * sections). It turns Markdown into a simple block/inline tree that the
+ * MarkdownContent component renders as React elements - raw HTML is never
+ * interpreted, so model output cannot inject markup or scripts - and that
+ * markdownToPlainText() flattens for copying and text exports.
+ *
+ * Supported Syntax:
+ * - Headings (# to ######)
+ * - Paragraphs (single line breaks are kept)
+ * - Bulleted (-, *, +, •) and numbered lists, including nested lists
+ * - Tables (GitHub style, with column alignment)
+ * - Fenced code blocks, blockquotes and horizontal rules
+ * - Bold, italic, inline code and links
+ *
+ * Safety Rules:
+ * - Links are only kept for http(s), mailto and relative URLs
+ * - Images are shown as links rather than loaded
+ * - Emphasis markers inside words or numbers ("5*3", "2**3") stay literal
+ *
+ * @author BizGenius Team
+ * @version 1.0.0
+ */
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'emphasis'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] };
+
+export type TableAlignment = 'left' | 'center' | 'right' | null;
+
+export interface MarkdownListItem {
+  blocks: MarkdownBlock[];
+}
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownListItem[] }
+  | { type: 'code'; language: string; code: string }
+  | { type: 'blockquote'; blocks: MarkdownBlock[] }
+  | { type: 'table'; header: string[]; align: TableAlignment[]; rows: string[][] }
+  | { type: 'rule' };
+
+const HEADING_PATTERN = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})\s*([\w+-]*)/;
+const RULE_PATTERN = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const LIST_ITEM_PATTERN = /^( {0,3})([-*+•]|\d{1,9}[.)])(\s+)(.*)$/;
+const BLOCKQUOTE_PATTERN = /^ {0,3}>\s?(.*)$/;
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+/**
+ * Number of leading spaces (tabs count as 4)
+ */
+const indentOf = (line: string): number => {
+  let indent = 0;
+  for (const char of line) {
+    if (char === ' ') indent++;
+    else if (char === '\t') indent += 4;
+    else break;
+  }
+  return indent;
+};
+
+/**
+ * Remove up to `count` columns of leading whitespace
+ */
+const dedent = (line: string, count: number): string => {
+  let removed = 0;
+  let index = 0;
+  while (index < line.length && removed < count) {
+    if (line[index] === ' ') removed++;
+    else if (line[index] === '\t') removed += 4;
+    else break;
+    index++;
+  }
+  return line.slice(index);
+};
+
+const isBlank = (line: string): boolean => line.trim() === '';
+
+/**
+ * Split a table row into trimmed cells
+ */
+const splitTableRow = (line: string): string[] => {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+
+  const cells: string[] = [];
+  let current = '';
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '\\' && row[i + 1] === '|') {
+      current += '|';
+      i++;
+    } else if (row[i] === '|') {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += row[i];
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+/**
+ * Whether a table starts at this line (header row followed by a separator row)
+ */
+const isTableStart = (lines: string[], index: number): boolean =>
+  lines[index].includes('|') &&
+  index + 1 < lines.length &&
+  lines[index + 1].includes('-') &&
+  TABLE_SEPARATOR_PATTERN.test(lines[index + 1]);
+
+/**
+ * Whether a line starts a block other than a paragraph
+ */
+const startsBlock = (lines: string[], index: number): boolean => {
+  const line = lines[index];
+  return (
+    HEADING_PATTERN.test(line) ||
+    FENCE_PATTERN.test(line) ||
+    RULE_PATTERN.test(line) ||
+    LIST_ITEM_PATTERN.test(line) ||
+    BLOCKQUOTE_PATTERN.test(line) ||
+    isTableStart(lines, index)
+  );
+};
+
+/**
+ * Parse Markdown into blocks
+ *
+ * @param markdown - Markdown source
+ * @returns MarkdownBlock[] - Block tree; inline text is parsed separately with parseInline()
+ */
+export function parseMarkdown(markdown: string): MarkdownBlock[] {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    // Fenced code block
+    const fence = line.match(FENCE_PATTERN);
+    if (fence) {
+      const marker = fence[1];
+      const codeLines: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(marker)) {
+        codeLines.push(lines[i]);
+        i++;
+      }
+      i++; // Skip the closing fence
+      blocks.push({ type: 'code', language: fence[2] || '', code: codeLines.join('\n') });
+      continue;
+    }
+
+    // Heading
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+      i++;
+      continue;
+    }
+
+    // Horizontal rule (checked before lists, since "- - -" and "***" look like list items)
+    if (RULE_PATTERN.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    // Table
+    if (isTableStart(lines, i)) {
+      const header = splitTableRow(line);
+      const align = splitTableRow(lines[i + 1]).map<TableAlignment>(cell => {
+        const left = cell.startsWith(':');
+        const right = cell.endsWith(':');
+        if (left && right) return 'center';
+        if (right) return 'right';
+        if (left) return 'left';
+        return null;
+      });
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+        const cells = splitTableRow(lines[i]);
+        // Pad or trim each row to the header width
+        rows.push(header.map((_, column) => cells[column] ?? ''));
+        i++;
+      }
+      blocks.push({ type: 'table', header, align: header.map((_, column) => align[column] ?? null), rows });
+      continue;
+    }
+
+    // Blockquote
+    if (BLOCKQUOTE_PATTERN.test(line)) {
+      const quoteLines: string[] = [];
+      while (i < lines.length && !isBlank(lines[i])) {
+        const quoted = lines[i].match(BLOCKQUOTE_PATTERN);
+        quoteLines.push(quoted ? quoted[1] : lines[i]);
+        i++;
+      }
+      blocks.push({ type: 'blockquote', blocks: parseMarkdown(quoteLines.join('\n')) });
+      continue;
+    }
+
+    // List
+    const listItem = line.match(LIST_ITEM_PATTERN);
+    if (listItem) {
+      const ordered = /\d/.test(listItem[2]);
+      const start = ordered ? parseInt(listItem[2], 10) : 1;
+      const items: MarkdownListItem[] = [];
+
+      while (i < lines.length) {
+        const item = lines[i].match(LIST_ITEM_PATTERN);
+        if (!item || /\d/.test(item[2]) !== ordered) break;
+
+        // Continuation lines are indented to at least the item's content
+        const contentIndent = item[1].length + item[2].length + Math.min(item[3].length, 4);
+        const itemLines = [item[4]];
+        i++;
+
+        while (i < lines.length) {
+          const next = lines[i];
+          if (isBlank(next)) {
+            // A blank line continues the item only if indented content follows
+            const following = lines[i + 1];
+            if (following !== undefined && !isBlank(following) && indentOf(following) >= contentIndent) {
+              itemLines.push('');
+              i++;
+              continue;
+            }
+            break;
+          }
+          if (indentOf(next) >= contentIndent) {
+            itemLines.push(dedent(next, contentIndent));
+          } else if (!startsBlock(lines, i) && !isBlank(itemLines[itemLines.length - 1])) {
+            // Lazy continuation of the item's paragraph
+            itemLines.push(next.trim());
+          } else {
+            break;
+          }
+          i++;
+        }
+
+        items.push({ blocks: parseMarkdown(itemLines.join('\n')) });
+
+        // Blank lines between items of the same list don't end it
+        let lookahead = i;
+        while (lookahead < lines.length && isBlank(lines[lookahead])) lookahead++;
+        const nextItem = lookahead < lines.length ? lines[lookahead].match(LIST_ITEM_PATTERN) : null;
+        if (lookahead > i && nextItem && /\d/.test(nextItem[2]) === ordered) {
+          i = lookahead;
+        }
+      }
+
+      blocks.push({ type: 'list', ordered, start, items });
+      continue;
+    }
+
+    // Paragraph: runs until a blank line or the start of another block
+    const paragraphLines = [line.trim()];
+    i++;
+    while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines, i)) {
+      paragraphLines.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', text: paragraphLines.join('\n') });
+  }
+
+  return blocks;
+}
+
+/**
+ * Keep only links with safe protocols
+ *
+ * @returns string | null - The URL, or null if it should not be linked
+ */
+export const sanitizeUrl = (url: string): string | null => {
+  const trimmed = url.trim();
+  if (/^(https?:|mailto:)/i.test(trimmed)) return trimmed;
+  if (/^[/#]/.test(trimmed) && !trimmed.startsWith('//')) return trimmed;
+  return null;
+};
+
+const isWordChar = (char: string | undefined): boolean => !!char && /[\p{L}\p{N}]/u.test(char);
+
+/**
+ * Find the closing emphasis delimiter for an opener at `start`
+ *
+ * The closer must follow a non-space character and must not be directly
+ * followed by a letter or digit.
+ */
+const findCloser = (text: string, start: number, delimiter: string): number => {
+  let index = start + delimiter.length;
+  while (index < text.length) {
+    const found = text.indexOf(delimiter, index);
+    if (found === -1) return -1;
+
+    const before = text[found - 1];
+    const after = text[found + delimiter.length];
+    const isEscaped = before === '\\';
+    const touchesDelimiter = after === delimiter[0] || (delimiter.length === 1 && before === delimiter);
+    if (found > start + delimiter.length && !isEscaped && !/\s/.test(before) && !isWordChar(after) && !touchesDelimiter) {
+      return found;
+    }
+    index = found + 1;
+  }
+  return -1;
+};
+
+/**
+ * Find the ")" closing a link destination, allowing balanced parentheses inside it
+ */
+const findClosingParen = (text: string, start: number): number => {
+  let depth = 0;
+  for (let index = start; index < text.length; index++) {
+    if (text[index] === '(') depth++;
+    else if (text[index] === ')') {
+      if (depth === 0) return index;
+      depth--;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Merge adjacent text nodes
+ */
+const pushText = (nodes: MarkdownInline[], text: string) => {
+  if (!text) return;
+  const last = nodes[nodes.length - 1];
+  if (last && last.type === 'text') {
+    last.text += text;
+  } else {
+    nodes.push({ type: 'text', text });
+  }
+};
+
+/**
+ * Parse inline Markdown (emphasis, code, links) in a block's text
+ *
+ * @param text - Inline Markdown
+ * @returns MarkdownInline[] - Inline nodes
+ */
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    // Backslash escapes
+    if (char === '\\' && i + 1 < text.length && /[\\`*_{}[\]()#+\-.!|>~]/.test(text[i + 1])) {
+      pushText(nodes, text[i + 1]);
+      i += 2;
+      continue;
+    }
+
+    // Inline code
+    if (char === '`') {
+      const ticks = /^`+/.exec(text.slice(i))?.[0] ?? '`';
+      const end = text.indexOf(ticks, i + ticks.length);
+      if (end !== -1) {
+        nodes.push({ type: 'code', text: text.slice(i + ticks.length, end).trim() });
+        i = end + ticks.length;
+        continue;
+      }
+      pushText(nodes, ticks);
+      i += ticks.length;
+      continue;
+    }
+
+    // Links and images: [text](url) / ![alt](url)
+    if (char === '[' || (char === '!' && text[i + 1] === '[')) {
+      const labelStart = char === '!' ? i + 2 : i + 1;
+      const labelEnd = text.indexOf('](', labelStart);
+      const urlEnd = labelEnd === -1 ? -1 : findClosingParen(text, labelEnd + 2);
+      if (labelEnd !== -1 && urlEnd !== -1 && !text.slice(labelStart, labelEnd).includes(']')) {
+        const label = text.slice(labelStart, labelEnd);
+        const rawUrl = text.slice(labelEnd + 2, urlEnd).trim().replace(/^<|>$/g, '').split(/\s+/)[0];
+        const href = sanitizeUrl(rawUrl);
+        const children = parseInline(label || rawUrl);
+        if (href) {
+          nodes.push({ type: 'link', href, children });
+        } else {
+          children.forEach(child => child.type === 'text' ? pushText(nodes, child.text) : nodes.push(child));
+        }
+        i = urlEnd + 1;
+        continue;
+      }
+    }
+
+    // Autolinks: <https://...> and bare URLs
+    if (char === '<') {
+      const match = text.slice(i).match(/^<((?:https?:\/\/|mailto:)[^\s>]+)>/i);
+      if (match) {
+        nodes.push({ type: 'link', href: match[1], children: [{ type: 'text', text: match[1] }] });
+        i += match[0].length;
+        continue;
+      }
+    }
+    if ((char === 'h' || char === 'H') && !isWordChar(text[i - 1])) {
+      const match = text.slice(i).match(/^https?:\/\/[^\s<]+/i);
+      if (match) {
+        // Trailing punctuation belongs to the sentence, not the URL
+        const url = match[0].replace(/[.,;:!?)\]'"]+$/, '');
+        nodes.push({ type: 'link', href: url, children: [{ type: 'text', text: url }] });
+        i += url.length;
+        continue;
+      }
+    }
+
+    // Bold and italic; openers must not sit inside a word or number
+    if (char === '*' || char === '_') {
+      const delimiter = /^(\*+|_+)/.exec(text.slice(i))?.[0] ?? char;
+      const next = text[i + delimiter.length];
+      if (delimiter.length <= 2 && !isWordChar(text[i - 1]) && next && !/\s/.test(next)) {
+        const end = findCloser(text, i, delimiter);
+        if (end !== -1) {
+          const children = parseInline(text.slice(i + delimiter.length, end));
+          nodes.push(delimiter.length === 2 ? { type: 'strong', children } : { type: 'emphasis', children });
+          i = end + delimiter.length;
+          continue;
+        }
+      }
+      pushText(nodes, delimiter);
+      i += delimiter.length;
+      continue;
+    }
+
+    pushText(nodes, char);
+    i++;
+  }
+
+  return nodes;
+}
+
+/**
+ * Flatten inline nodes to plain text; links keep their URL in parentheses
+ */
+export const inlineToPlainText = (nodes: MarkdownInline[]): string =>
+  nodes
+    .map(node => {
+      switch (node.type) {
+        case 'text':
+        case 'code':
+          return node.text;
+        case 'link': {
+          const label = inlineToPlainText(node.children);
+          return label === node.href || `mailto:${label}` === node.href ? label : `${label} (${node.href})`;
+        }
+        default:
+          return inlineToPlainText(node.children);
+      }
+    })
+    .join('');
+
+/**
+ * Convert blocks to plain text
+ *
+ * @param separator - Text between blocks (list items keep their blocks on consecutive lines)
+ */
+const blocksToPlainText = (blocks: MarkdownBlock[], separator: string = '\n\n'): string =>
+  blocks
+    .map(block => {
+      switch (block.type) {
+        case 'heading':
+        case 'paragraph':
+          return inlineToPlainText(parseInline(block.text));
+        case 'code':
+          return block.code;
+        case 'rule':
+          return '----------';
+        case 'blockquote':
+          return blocksToPlainText(block.blocks)
+            .split('\n')
+            .map(line => `> ${line}`)
+            .join('\n');
+        case 'list':
+          return block.items
+            .map((item, index) => {
+              const marker = block.ordered ? `${block.start + index}. ` : '• ';
+              const [first = '', ...rest] = blocksToPlainText(item.blocks, '\n').split('\n');
+              const indent = ' '.repeat(marker.length);
+              return [marker + first, ...rest.map(line => (line ? indent + line : line))].join('\n');
+            })
+            .join('\n');
+        case 'table': {
+          const rows = [block.header, ...block.rows].map(row =>
+            row.map(cell => inlineToPlainText(parseInline(cell)))
+          );
+          const widths = block.header.map((_, column) =>
+            Math.max(...rows.map(row => row[column].length))
+          );
+          const formatRow = (row: string[]) =>
+            row.map((cell, column) => cell.padEnd(widths[column])).join(' | ').trimEnd();
+          return [
+            formatRow(rows[0]),
+            widths.map(width => '-'.repeat(width)).join('-+-'),
+            ...rows.slice(1).map(formatRow)
+          ].join('\n');
+        }
+      }
+    })
+    .join(separator);
+
+/**
+ * Convert Markdown to Plain Text
+ *
+ * Used for copying answers and for text exports. Formatting markers are
+ * removed; lists keep their bullets/numbers and tables become aligned
+ * columns.
+ *
+ * @param markdown - Markdown source
+ * @returns string - Readable plain text
+ */
+export function markdownToPlainText(markdown: string): string {
+  return blocksToPlainText(parseMarkdown(markdown));
+}
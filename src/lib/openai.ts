@@ -1,7 +1,7 @@
 /**
- * OpenRouter API Integration for AI Business Assistant
+ * AI Business Assistant
  * 
- * This module provides a comprehensive interface to OpenRouter's API for business consulting.
+ * This module provides a comprehensive interface to the configured LLM provider for business consulting.
  * It handles chat completions, streaming responses, and model management with proper error handling.
  * 
  * Key Features:
@@ -10,95 +10,165 @@
  * - Streaming responses for better user experience
  * - Comprehensive error handling for different API scenarios
  * - Model switching capabilities
- * - Response formatting for human readability
+ * - Markdown responses, rendered safely by the UI
+ * - Selectable personas (system prompt, temperature, starter questions)
+ * - Token budget with rolling conversation summaries
+ * - Retrieval of matching course lesson excerpts, linked in answers
+ * - Tool calling: financial calculators, course search, plans and notes
+ * - Suggested follow-up questions parsed from streamed answers
+ * - Per-user AI quota enforced before every provider call
  * 
  * Usage:
  * - Import businessAssistant instance for immediate use
  * - Call getChatCompletion() for standard responses
  * - Use getStreamingResponse() for real-time streaming
+ * - Use streamChatCompletion() for token-by-token UI updates
  * 
  * @author BizGenius Team
  * @version 1.0.0
  */
 
+import {
+  addUsage,
+  isToolsUnsupportedError,
+  llmProvider,
+  type ChatMessage,
+  type ChatCompletionResult,
+  type CompletionMetadata,
+  type LLMProvider,
+  type ModelInfo,
+  type TokenUsage,
+  type ToolDefinition
+} from './llmProvider';
+import { getDefaultPersona, type AssistantPersona } from './personas';
+import { checkAIQuota, recordAIUsage, reserveAIRequest } from './aiQuota';
+import { buildLessonContext, LESSON_CHUNK_LIMIT, type LessonContext } from './lessonRetrieval';
+import { databaseService } from './database';
+import { getToolDefinitions, runToolCall, type ToolInvocation } from './assistantTools';
+import { FOLLOW_UP_GUIDELINES, hideFollowUps, splitFollowUps } from './suggestedQuestions';
+
+/**
+ * Result of fitting a conversation into the context token budget
+ * 
+ * - messages: What to send to the model (summary message + recent turns)
+ * - summary: Rolling summary after folding older turns
+ * - foldedCount: How many of the input messages were folded into the summary
+ * - usage: Tokens spent on summarization (null if no summary was requested)
+ */
+interface PreparedContext {
+  messages: ChatMessage[];
+  summary: string;
+  foldedCount: number;
+  usage: TokenUsage | null;
+}
+
+/**
+ * Assistant Completion Result
+ * 
+ * - usage: Summed over every request made for the answer (tool rounds included)
+ * - toolInvocations: Tools called while answering, in call order
+ * - followUps: Follow-up questions suggested with the answer (not part of content)
+ */
+export interface AssistantCompletionResult extends ChatCompletionResult {
+  toolInvocations: ToolInvocation[];
+  followUps: string[];
+}
+
 /**
- * Interface defining the structure of chat messages
- * Used for maintaining conversation context and API communication
+ * Generation Overrides
+ * 
+ * Per-request model and temperature, e.g. when regenerating an answer with
+ * a different model. Omitted values use the current model and persona.
  */
-interface ChatMessage {
-  role: 'user' | 'assistant' | 'system';
-  content: string;
+export interface GenerationOverrides {
+  model?: string;
+  temperature?: number;
 }
 
+/**
+ * Streaming Options
+ * 
+ * - tools: Tools offered to the model
+ * - toolChoice: 'none' to describe tools without allowing new calls
+ * - countRequest: Count the call against the daily request quota (default
+ *   true); follow-up calls for the same question only check the quota
+ * - suggestFollowUps: Ask for follow-up questions at the end of the answer
+ * - model / temperature: Override the assistant's model and the persona's
+ *   temperature for this request (see GenerationOverrides)
+ */
+interface StreamingOptions extends GenerationOverrides {
+  tools?: ToolDefinition[];
+  toolChoice?: 'auto' | 'none';
+  countRequest?: boolean;
+  suggestFollowUps?: boolean;
+}
+
+// Model calls allowed to use tools per question; the next call must answer
+const MAX_TOOL_ROUNDS = 3;
+
 /**
  * BusinessAssistant Class
  * 
- * Main class for handling AI business consulting through OpenRouter API.
+ * Main class for handling AI business consulting through the LLM provider layer.
  * Provides methods for chat completions, streaming, and model management.
  * 
  * Architecture:
  * - Singleton pattern for consistent API usage
+ * - Provider injected (defaults to the configured llmProvider)
  * - Configurable model selection
  * - Built-in response formatting
  * - Comprehensive error handling
  */
 export class BusinessAssistant {
-  // OpenRouter API configuration
-  private apiKey: string;
-  private baseUrl = 'https://openrouter.ai/api/v1';
-  private model = 'tngtech/deepseek-r1t2-chimera:free'; // Free DeepSeek model - excellent for business advice
+  // LLM provider and model configuration
+  private provider: LLMProvider;
+  private model: string;
+  
+  // Token budget for conversation history (summary + recent turns), excluding the system prompt
+  private contextTokenBudget = 3000;
+
+  // Active persona: system prompt, temperature and starter questions
+  private persona: AssistantPersona = getDefaultPersona();
 
   /**
-   * System prompt that defines the AI's expertise and behavior
-   * 
-   * This prompt is crucial for:
-   * - Setting the AI's role as a business expert
-   * - Defining areas of expertise
-   * - Ensuring consistent response quality
-   * - Maintaining professional tone
-   * 
-   * Modification Guide:
-   * - Update expertise areas as needed
-   * - Adjust tone and style requirements
-   * - Add industry-specific knowledge
+   * Response guidelines added to every persona's system prompt
+   * 
+   * Keeps formatting consistent across personas (answers are rendered
+   * as Markdown) while each persona defines its own expertise and tone.
    */
-  private systemPrompt = `You are an expert AI Business Assistant specializing in helping entrepreneurs, startups, and business owners. Your expertise includes:
+  private responseGuidelines = `Format your responses in Markdown. Use headings, bulleted or numbered lists, tables (for comparisons, budgets and projections), bold for key terms, and code blocks only for code or formulas, when they make the answer easier to read. Keep short answers as plain paragraphs.
 
-- Marketing strategies and digital marketing
-- Financial planning and analysis  
-- Operations management and optimization
-- Business strategy and competitive analysis
-- Leadership and team management
-- Startup funding and investment
-- Legal and regulatory guidance
-- Technology and innovation
+Keep responses concise but comprehensive and tailored to users context. Write in professional, conversational language. Ask clarifying questions when needed to provide better advice.`;
 
-IMPORTANT: Always respond in clean, readable plain text without any markdown formatting, asterisks, or special characters. 
+  /**
+   * Tool guidelines added to the system prompt when tools are offered
+   */
+  private toolGuidelines = `You can call tools. Use the calculator tools for break-even, CAC/LTV, loan and runway figures instead of calculating them yourself, and report the tool's numbers exactly. Use search_courses to recommend Learning Hub courses, get_business_plans to look up the user's saved plans, and create_note only when the user asks to save something. When required figures are missing, ask for them or state the example values you use.`;
 
-Provide practical, actionable advice that is:
-- Clear and easy to understand
-- Specific to the user's situation
-- Based on current best practices
-- Focused on real-world implementation
+  // Models that rejected tool requests; they are asked without tools
+  private modelsWithoutTools = new Set<string>();
 
-Keep responses concise but comprehensive and tailored to users context. Write in professional, conversational language using proper paragraphs and line breaks for readability. Do not use any formatting symbols, asterisks, or markdown. Ask clarifying questions when needed to provide better advice.`;
+  /**
+   * Constructor - Initializes the BusinessAssistant with a provider
+   * 
+   * @param provider - LLM provider to use (defaults to the configured provider)
+   */
+  constructor(provider: LLMProvider = llmProvider) {
+    this.provider = provider;
+    this.model = provider.defaultModel;
+  }
 
   /**
-   * Constructor - Initializes the BusinessAssistant with API configuration
+   * Check Provider Configuration
    * 
-   * Automatically retrieves API key from environment variables
-   * Provides warning if API key is not properly configured
+   * @returns boolean - Whether the provider can make requests (e.g. API key present)
    */
-  constructor() {
-    this.apiKey = import.meta.env.VITE_OPENROUTER_API_KEY;
-    
-    if (!this.apiKey || this.apiKey === 'your_openrouter_api_key_here') {
-      console.warn('OpenRouter API key not configured');
-    }
+  isConfigured(): boolean {
+    return this.provider.isConfigured();
   }
 
   /**
-   * Get Chat Completion from OpenRouter API
+   * Get Chat Completion
    * 
    * Main method for getting AI responses to business questions.
    * Handles the complete request/response cycle with proper error handling.
@@ -107,9 +177,9 @@ Keep responses concise but comprehensive and tailored to users context. Write in
    * @returns Promise<string> - Formatted AI response
    * 
    * Error Handling:
-   * - 401: Invalid API key
-   * - 402: Insufficient credits
-   * - 429: Rate limit exceeded
+   * - QuotaExceededError when the user's AI quota is used up
+   * - Provider errors (invalid key, credits, rate limits) are mapped
+   *   to user-facing messages by the provider layer
    * - Network errors and timeouts
    * 
    * Usage Example:
@@ -118,59 +188,30 @@ Keep responses concise but comprehensive and tailored to users context. Write in
    * ]);
    */
   async getChatCompletion(messages: ChatMessage[]): Promise<string> {
-    // Validate API key configuration
-    if (!this.apiKey || this.apiKey === 'your_openrouter_api_key_here') {
-      throw new Error('OpenRouter API key not configured. Please add your API key to the .env file.');
-    }
-
     try {
+      // Count the request against the user's quota before calling the provider
+      await reserveAIRequest();
+
       // Prepare messages with system prompt for consistent AI behavior
       const messagesWithSystem = [
-        { role: 'system' as const, content: this.systemPrompt },
+        { role: 'system' as const, content: this.getSystemPrompt() },
         ...messages
       ];
 
-      // Make API request to OpenRouter
-      const response = await fetch(`${this.baseUrl}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`, // API authentication
-          'Content-Type': 'application/json',
-          'HTTP-Referer': window.location.origin, // Required by OpenRouter
-          'X-Title': 'BizGenius AI Assistant' // App identification
-        },
-        body: JSON.stringify({
-          model: this.model, // DeepSeek model for free usage
-          messages: messagesWithSystem,
-          max_tokens: 1000, // Reasonable response length
-          temperature: 0.7, // Balanced creativity vs consistency
-          stream: false, // Standard completion mode
-        })
+      const result = await this.provider.createChatCompletion({
+        model: this.model,
+        messages: messagesWithSystem,
+        maxTokens: 1000, // Reasonable response length
+        temperature: this.persona.temperature
       });
+      await recordAIUsage(result.usage);
 
-      // Handle different types of API errors with specific messages
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        
-        if (response.status === 401) {
-          throw new Error('Invalid API key. Please check your OpenRouter API key configuration.');
-        } else if (response.status === 402) {
-          throw new Error('Insufficient credits. Please check your OpenRouter billing.');
-        } else if (response.status === 429) {
-          throw new Error('Rate limit exceeded. Please wait a moment and try again.');
-        } else {
-          throw new Error(errorData.error?.message || `API request failed with status ${response.status}`);
-        }
-      }
-
-      // Extract and format the AI response
-      const data = await response.json();
-      const rawContent = data.choices[0]?.message?.content || 'Sorry, I could not generate a response.';
+      const rawContent = result.content || 'Sorry, I could not generate a response.';
       
-      // Format response for human readability (remove markdown, etc.)
+      // Tidy whitespace; Markdown is kept for the UI to render
       return this.formatResponse(rawContent);
     } catch (error) {
-      console.error('OpenRouter API Error:', error);
+      console.error('AI Assistant Error:', error);
       
       if (error instanceof Error) {
         throw error;
@@ -181,29 +222,25 @@ Keep responses concise but comprehensive and tailored to users context. Write in
   }
 
   /**
-   * Format AI Response for Human Readability
+   * Format AI Response
    * 
-   * Cleans up AI responses by removing markdown formatting and normalizing text.
-   * This ensures consistent, professional presentation in the UI.
+   * Tidies whitespace in AI responses. Markdown is left intact: the UI
+   * renders it with MarkdownContent and converts it with
+   * markdownToPlainText() for copying and exports.
    * 
    * @param content - Raw AI response content
-   * @returns string - Cleaned, formatted content
+   * @returns string - Formatted Markdown content
    * 
    * Transformations:
-   * - Removes bold markdown (**text**)
-   * - Removes asterisks and formatting symbols
-   * - Normalizes bullet points
+   * - Normalizes line endings
+   * - Removes trailing whitespace from lines
    * - Cleans up excessive line breaks
-   * - Removes leading whitespace
    */
   private formatResponse(content: string): string {
     return content
-      .replace(/\*\*/g, '') // Remove bold markdown
-      .replace(/\*/g, '') // Remove asterisks
-      .replace(/#{1,6}\s/g, '') // Remove markdown headers
-      .replace(/^\s*[-•]\s/gm, '• ') // Normalize bullet points
+      .replace(/\r\n?/g, '\n') // Normalize line endings
+      .replace(/[ \t]+$/gm, '') // Remove trailing whitespace
       .replace(/\n{3,}/g, '\n\n') // Normalize multiple line breaks
-      .replace(/^\s+/gm, '') // Remove leading whitespace
       .trim();
   }
 
@@ -214,126 +251,376 @@ Keep responses concise but comprehensive and tailored to users context. Write in
    * Useful for long responses or when you want to show progress.
    * 
    * @param messages - Array of chat messages for context
-   * @returns Promise<ReadableStream> - Stream of response chunks
+   * @param signal - Optional AbortSignal to cancel the in-flight request
+   * @param onFinish - Optional callback with model, token usage and tool calls once the stream completes
+   * @param options - Tools to offer, whether to count the request and overrides (see StreamingOptions)
+   * @returns Promise<ReadableStream<string>> - Stream of raw content chunks
+   * @throws QuotaExceededError - If the user's AI quota is used up
    * 
    * Usage Example:
-   * const stream = await businessAssistant.getStreamingResponse(messages);
+   * const stream = await businessAssistant.getStreamingResponse(messages, controller.signal);
    * // Process stream chunks as they arrive
    */
-  async getStreamingResponse(messages: ChatMessage[]): Promise<ReadableStream> {
-    if (!this.apiKey || this.apiKey === 'your_openrouter_api_key_here') {
-      throw new Error('OpenRouter API key not configured. Please add your API key to the .env file.');
-    }
-
+  async getStreamingResponse(
+    messages: ChatMessage[],
+    signal?: AbortSignal,
+    onFinish?: (metadata: CompletionMetadata) => void,
+    options: StreamingOptions = {}
+  ): Promise<ReadableStream<string>> {
     try {
+      if (options.countRequest === false) {
+        await checkAIQuota();
+      } else {
+        await reserveAIRequest();
+      }
+
+      const hasTools = Boolean(options.tools && options.tools.length > 0);
+      const systemPrompt = [
+        this.getSystemPrompt(),
+        ...(hasTools ? [this.toolGuidelines] : []),
+        ...(options.suggestFollowUps ? [FOLLOW_UP_GUIDELINES] : [])
+      ].join('\n\n');
       const messagesWithSystem = [
-        { role: 'system' as const, content: this.systemPrompt },
+        { role: 'system' as const, content: systemPrompt },
         ...messages
       ];
 
-      const response = await fetch(`${this.baseUrl}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-          'HTTP-Referer': window.location.origin,
-          'X-Title': 'BizGenius AI Assistant'
-        },
-        body: JSON.stringify({
-          model: this.model,
-          messages: messagesWithSystem,
-          max_tokens: 1000,
-          temperature: 0.7,
-          stream: true, // Enable streaming mode
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error(`API request failed with status ${response.status}`);
-      }
-
-      // Create ReadableStream for processing streaming data
-      return new ReadableStream({
-        async start(controller) {
-          const reader = response.body?.getReader();
-          if (!reader) {
-            controller.error(new Error('No response body'));
-            return;
-          }
-
-          try {
-            while (true) {
-              const { done, value } = await reader.read();
-              if (done) break;
-
-              // Process streaming chunks and extract content
-              const chunk = new TextDecoder().decode(value);
-              const lines = chunk.split('\n');
-
-              for (const line of lines) {
-                if (line.startsWith('data: ')) {
-                  const data = line.slice(6);
-                  if (data === '[DONE]') {
-                    controller.close();
-                    return;
-                  }
-
-                  try {
-                    const parsed = JSON.parse(data);
-                    const content = parsed.choices[0]?.delta?.content || '';
-                    if (content) {
-                      controller.enqueue(content);
-                    }
-                  } catch (e) {
-                    // Skip invalid JSON chunks (normal in streaming)
-                  }
-                }
-              }
-            }
-            controller.close();
-          } catch (error) {
-            controller.error(error);
-          }
-        }
+      return await this.provider.streamChatCompletion({
+        model: options.model ?? this.model,
+        messages: messagesWithSystem,
+        maxTokens: 1000,
+        temperature: options.temperature ?? this.persona.temperature,
+        ...(hasTools ? { tools: options.tools, toolChoice: options.toolChoice } : {})
+      }, signal, (metadata) => {
+        recordAIUsage(metadata.usage);
+        onFinish?.(metadata);
       });
     } catch (error) {
-      console.error('OpenRouter Streaming Error:', error);
+      console.error('AI Streaming Error:', error);
       throw error;
     }
   }
 
   /**
-   * Get Available Models from OpenRouter
+   * Stream Chat Completion
    * 
-   * Retrieves list of available AI models for potential switching.
-   * Useful for implementing model selection features.
+   * Convenience wrapper around getStreamingResponse() that accumulates the
+   * streamed chunks and reports the formatted text after every chunk.
    * 
-   * @returns Promise<any[]> - Array of available models
+   * Tool Calling:
+   * - The assistant's tools are offered to the model; when it calls tools,
+   *   they run locally and their results are sent back in a follow-up
+   *   request, which continues the same answer
+   * - At most MAX_TOOL_ROUNDS rounds may call tools; the next must answer
+   * - Only the first request counts against the daily request quota
+   * - If the model rejects tool requests (400/404), the question is retried
+   *   without tools and tools stay off for this session
+   * 
+   * Follow-up Questions:
+   * - The model is asked to end the answer with suggested follow-ups; they
+   *   are never passed to onChunk and are returned separately
+   * 
+   * @param messages - Array of chat messages for context
+   * @param onChunk - Called with the formatted answer so far on every chunk
+   * @param signal - Optional AbortSignal to stop generation
+   * @param onToolInvocation - Called after each tool call with its arguments and result
+   * @param overrides - Model and temperature for this answer instead of the current ones
+   * @returns Promise<AssistantCompletionResult> - Formatted response with model, token usage, tool invocations and follow-ups
+   * 
+   * Abort Handling:
+   * - Aborting rejects with an AbortError (DOMException)
+   * - The last value passed to onChunk is the partial answer
+   * - Usage is not reported for aborted streams
    */
-  async getAvailableModels(): Promise<any[]> {
-    try {
-      const response = await fetch(`${this.baseUrl}/models`, {
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
+  async streamChatCompletion(
+    messages: ChatMessage[],
+    onChunk: (content: string) => void,
+    signal?: AbortSignal,
+    onToolInvocation?: (invocation: ToolInvocation) => void,
+    overrides: GenerationOverrides = {}
+  ): Promise<AssistantCompletionResult> {
+    const conversation = [...messages];
+    const toolInvocations: ToolInvocation[] = [];
+    let model = overrides.model ?? this.model;
+    let usage: TokenUsage | null = null;
+    let rawContent = '';
+    let requestCounted = false;
+
+    for (let round = 0; ; round++) {
+      const requestModel = overrides.model ?? this.model;
+      const offerTools = !this.modelsWithoutTools.has(requestModel);
+      let metadata: CompletionMetadata = { model: requestModel, usage: null };
+      let stream: ReadableStream<string>;
+
+      try {
+        const countRequest = !requestCounted;
+        requestCounted = true;
+        stream = await this.getStreamingResponse(conversation, signal, (finished) => {
+          metadata = finished;
+        }, {
+          tools: offerTools ? getToolDefinitions() : undefined,
+          toolChoice: round < MAX_TOOL_ROUNDS ? 'auto' : 'none',
+          countRequest,
+          suggestFollowUps: true,
+          ...overrides
+        });
+      } catch (error) {
+        // Models without function calling reject requests that include tools
+        if (offerTools && toolInvocations.length === 0 && isToolsUnsupportedError(error)) {
+          console.warn(`${requestModel} rejected tool calling, retrying without tools:`, (error as Error).message);
+          this.modelsWithoutTools.add(requestModel);
+          continue;
         }
-      });
+        throw error;
+      }
+
+      const reader = stream.getReader();
+      let roundContent = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
 
-      if (!response.ok) {
-        throw new Error('Failed to fetch models');
+        roundContent += value;
+        onChunk(this.formatResponse(hideFollowUps(rawContent + roundContent)));
       }
 
-      const data = await response.json();
-      return data.data || [];
+      rawContent += roundContent;
+      model = metadata.model;
+      usage = addUsage(usage, metadata.usage);
+
+      const toolCalls = offerTools && round < MAX_TOOL_ROUNDS ? metadata.toolCalls || [] : [];
+      if (toolCalls.length === 0) break;
+
+      // Run the requested tools and send their results back for the next round
+      conversation.push({ role: 'assistant', content: roundContent, toolCalls });
+      for (const call of toolCalls) {
+        const invocation = await runToolCall(call);
+        toolInvocations.push(invocation);
+        onToolInvocation?.(invocation);
+        conversation.push({ role: 'tool', toolCallId: call.id, content: JSON.stringify(invocation.result) });
+      }
+
+      if (signal?.aborted) {
+        throw new DOMException('The operation was aborted.', 'AbortError');
+      }
+      if (rawContent.trim()) rawContent += '\n\n';
+    }
+
+    const { content, followUps } = splitFollowUps(rawContent);
+    return {
+      model,
+      usage,
+      toolInvocations,
+      followUps,
+      content: this.formatResponse(content) || 'Sorry, I could not generate a response.'
+    };
+  }
+
+  /**
+   * Estimate Tokens for a Chat Message
+   * 
+   * Rough, model-agnostic estimate (about 4 characters per token plus a
+   * small per-message overhead for role and formatting). Good enough for
+   * budgeting; not meant for billing.
+   * 
+   * @param message - Chat message to measure
+   * @returns number - Estimated token count
+   */
+  estimateTokens(message: ChatMessage): number {
+    return Math.ceil(message.content.length / 4) + 4;
+  }
+
+  /**
+   * Prepare Conversation Context
+   * 
+   * Fits a conversation into the context token budget. The most recent
+   * messages are kept verbatim; older messages that do not fit are folded
+   * into a rolling summary produced by the model.
+   * 
+   * @param messages - Unsummarized messages, oldest first, ending with the new question
+   * @param summary - Current rolling summary of earlier turns (may be empty)
+   * @returns Promise<PreparedContext> - Messages to send plus the updated summary
+   * 
+   * Rules:
+   * - The last message (the new question) is always kept
+   * - Kept history never starts with an assistant message, so turns stay whole
+   * - If summarization fails, the old summary is kept, nothing is marked as
+   *   folded (so it is retried next turn) and only the recent messages are sent
+   */
+  async prepareContext(messages: ChatMessage[], summary: string): Promise<PreparedContext> {
+    const summaryTokens = summary ? this.estimateTokens({ role: 'system', content: summary }) : 0;
+    const available = this.contextTokenBudget - summaryTokens;
+
+    // Walk backwards, keeping as many recent messages as fit
+    let keepFrom = messages.length - 1;
+    let usedTokens = messages.length > 0 ? this.estimateTokens(messages[keepFrom]) : 0;
+    while (keepFrom > 0) {
+      const nextTokens = this.estimateTokens(messages[keepFrom - 1]);
+      if (usedTokens + nextTokens > available) break;
+      usedTokens += nextTokens;
+      keepFrom--;
+    }
+
+    // Don't start the kept history halfway through a turn
+    while (keepFrom < messages.length - 1 && messages[keepFrom].role === 'assistant') {
+      keepFrom++;
+    }
+
+    let updatedSummary = summary;
+    let foldedCount = 0;
+    let usage: TokenUsage | null = null;
+
+    if (keepFrom > 0) {
+      try {
+        const result = await this.summarizeMessages(summary, messages.slice(0, keepFrom));
+        updatedSummary = result.summary;
+        usage = result.usage;
+        foldedCount = keepFrom;
+      } catch (error) {
+        console.error('Conversation summarization failed:', error);
+      }
+    }
+
+    const recentMessages = messages.slice(keepFrom);
+    const contextMessages: ChatMessage[] = updatedSummary
+      ? [{ role: 'system', content: `Summary of the earlier conversation with this user:\n${updatedSummary}` }, ...recentMessages]
+      : recentMessages;
+
+    return { messages: contextMessages, summary: updatedSummary, foldedCount, usage };
+  }
+
+  /**
+   * Retrieve Lesson Context
+   * 
+   * Searches lesson descriptions and transcripts for the question and
+   * returns the best matching excerpts as a system message, together with
+   * the lessons they came from. Retrieval is best-effort: if the search
+   * fails the question is answered without lesson context.
+   * 
+   * @param question - The user's new question
+   * @returns Promise<LessonContext | null> - null when no lesson matches
+   */
+  async retrieveLessonContext(question: string): Promise<LessonContext | null> {
+    try {
+      const matches = await databaseService.searchLessonChunks(question, LESSON_CHUNK_LIMIT);
+      return buildLessonContext(matches);
     } catch (error) {
-      console.error('Error fetching models:', error);
-      return [];
+      console.error('Lesson retrieval failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Summarize Messages into the Rolling Summary
+   * 
+   * Asks the model to merge older turns into the existing summary so the
+   * assistant keeps the facts it needs (business details, decisions,
+   * open questions) without resending the full history.
+   * 
+   * @param previousSummary - Existing summary (may be empty)
+   * @param messages - Messages being folded, oldest first
+   * @returns Promise - Updated summary and the tokens spent producing it
+   */
+  private async summarizeMessages(
+    previousSummary: string,
+    messages: ChatMessage[]
+  ): Promise<{ summary: string; usage: TokenUsage | null }> {
+    const transcript = messages
+      .map(msg => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`)
+      .join('\n\n');
+
+    // Summaries belong to the user's request, so they count tokens but not requests
+    await checkAIQuota();
+
+    const result = await this.provider.createChatCompletion({
+      model: this.model,
+      messages: [
+        {
+          role: 'system',
+          content: 'You maintain a concise running summary of a business consulting conversation. Keep facts about the user and their business, decisions made, figures mentioned and open questions. Write plain text in short paragraphs, at most 200 words.'
+        },
+        {
+          role: 'user',
+          content: `Current summary:\n${previousSummary || '(none yet)'}\n\nNew conversation turns to merge into the summary:\n${transcript}\n\nReturn only the updated summary.`
+        }
+      ],
+      maxTokens: 400,
+      temperature: 0.3 // Favor faithful over creative summaries
+    });
+
+    await recordAIUsage(result.usage);
+
+    if (!result.content) {
+      throw new Error('Empty summary response');
     }
+
+    return { summary: this.formatResponse(result.content), usage: result.usage };
+  }
+
+  /**
+   * Get System Prompt
+   * 
+   * @returns string - Active persona's prompt followed by the response guidelines
+   */
+  private getSystemPrompt(): string {
+    return `${this.persona.systemPrompt}\n\n${this.responseGuidelines}`;
+  }
+
+  /**
+   * Set Persona
+   * 
+   * Switches the assistant's expertise, tone and temperature for following requests.
+   * 
+   * @param persona - Built-in or custom persona
+   */
+  setPersona(persona: AssistantPersona) {
+    this.persona = persona;
+  }
+
+  /**
+   * Get Current Persona
+   * 
+   * @returns AssistantPersona - Active persona
+   */
+  getCurrentPersona(): AssistantPersona {
+    return this.persona;
+  }
+
+  /**
+   * Set Context Token Budget
+   * 
+   * @param tokens - Maximum estimated tokens for summary plus recent history
+   */
+  setContextTokenBudget(tokens: number) {
+    this.contextTokenBudget = tokens;
+  }
+
+  /**
+   * Get Context Token Budget
+   * 
+   * @returns number - Current context token budget
+   */
+  getContextTokenBudget(): number {
+    return this.contextTokenBudget;
+  }
+
+  /**
+   * Get Available Models
+   * 
+   * Retrieves list of available AI models from the provider.
+   * Useful for implementing model selection features.
+   * 
+   * @returns Promise<ModelInfo[]> - Array of available models
+   */
+  async getAvailableModels(): Promise<ModelInfo[]> {
+    return this.provider.listModels();
   }
 
   /**
    * Set AI Model
    * 
-   * Allows switching between different AI models available on OpenRouter.
+   * Allows switching between different AI models available from the provider.
    * 
    * @param model - Model identifier (e.g., 'anthropic/claude-3.5-sonnet')
    * 
@@ -374,7 +661,7 @@ export const businessAssistant = new BusinessAssistant();
 /**
  * Type Export for TypeScript Support
  * 
- * Exports the ChatMessage interface for type safety in components.
+ * Exports the ChatMessage and PreparedContext interfaces for type safety in components.
  * Use this when defining message arrays or function parameters.
  */
-export type { ChatMessage };
\ No newline at end of file
+export type { ChatMessage, PreparedContext };
\ No newline at end of file
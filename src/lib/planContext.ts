@@ -0,0 +1,199 @@
+/**
+ * Business Plan Context
+ *
+ * Grounds assistant answers in one of the user's saved business plans.
+ * The plan's inputs (industry, audience, revenue model, ...) and the
+ * sections most relevant to the question are sent to the model as a
+ * system message, and the model is asked to cite the sections it used as
+ * "(Source: Section Title)". Citations are read back from the answer so
+ * the UI can show which plan sections an answer relied on.
+ *
+ * The attached plan is stored on the chat_history row
+ * (business_plan_id, business_plan_title).
+ *
+ * @author BizGenius Team
+ * @version 1.0.0
+ */
+
+import type { ChatMessage } from './llmProvider';
+import type { BusinessPlanRecord } from './database';
+
+interface PlanSection {
+  title: string;
+  content: string;
+}
+
+// Estimated tokens available for plan sections (inputs and instructions come on top)
+const PLAN_CONTEXT_TOKEN_BUDGET = 2500;
+
+// Longer sections are cut so a single section can't crowd out the others
+const MAX_SECTION_CHARS = 3000;
+
+// Always sent when it fits: gives the model the plan's overall picture
+const OVERVIEW_SECTION = 'executive summary';
+
+// Short or very common words that say nothing about relevance
+const STOP_WORDS = new Set([
+  'about', 'after', 'also', 'been', 'could', 'does', 'from', 'have', 'help',
+  'into', 'just', 'know', 'like', 'make', 'more', 'most', 'much', 'need',
+  'should', 'some', 'than', 'that', 'their', 'them', 'then', 'there',
+  'these', 'they', 'this', 'what', 'when', 'where', 'which', 'while',
+  'will', 'with', 'would', 'your', 'business', 'plan'
+]);
+
+const CITATION_PATTERN = /\(Sources?:\s*([^)]+)\)/gi;
+
+/**
+ * Rough token estimate (about 4 characters per token)
+ */
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+/**
+ * Distinct meaningful words of a text, lowercased
+ */
+const keywords = (text: string): Set<string> =>
+  new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9&]+/)
+      .filter(word => word.length >= 4 && !STOP_WORDS.has(word))
+  );
+
+/**
+ * Read the generated_plan column as sections, skipping malformed entries
+ */
+const getPlanSections = (plan: BusinessPlanRecord): PlanSection[] =>
+  (plan.generated_plan || []).filter(
+    (section): section is PlanSection =>
+      typeof section?.title === 'string' && typeof section?.content === 'string'
+  );
+
+/**
+ * Score how relevant a section is to the question
+ *
+ * Question keywords found in the title count more than ones found in
+ * the content.
+ */
+const scoreSection = (section: PlanSection, questionKeywords: Set<string>): number => {
+  const titleKeywords = keywords(section.title);
+  const content = section.content.toLowerCase();
+  let score = 0;
+
+  questionKeywords.forEach(word => {
+    if (titleKeywords.has(word)) score += 5;
+    if (content.includes(word)) score += 1;
+  });
+
+  return score;
+};
+
+/**
+ * Select the sections to send for a question
+ *
+ * Sections are ranked by relevance (the executive summary first) and
+ * added while they fit the token budget. The selection is returned in
+ * plan order so the model reads the plan as written.
+ *
+ * @param plan - Attached business plan
+ * @param question - The user's new question
+ * @returns PlanSection[] - Sections to include, possibly truncated
+ */
+export const selectRelevantSections = (plan: BusinessPlanRecord, question: string): PlanSection[] => {
+  const sections = getPlanSections(plan);
+  const questionKeywords = keywords(question);
+
+  const ranked = sections
+    .map((section, index) => ({
+      section,
+      index,
+      score: section.title.toLowerCase() === OVERVIEW_SECTION
+        ? Number.MAX_SAFE_INTEGER
+        : scoreSection(section, questionKeywords)
+    }))
+    .sort((a, b) => b.score - a.score || a.index - b.index);
+
+  const selected: { section: PlanSection; index: number }[] = [];
+  let usedTokens = 0;
+
+  for (const { section, index } of ranked) {
+    const content = section.content.length > MAX_SECTION_CHARS
+      ? `${section.content.slice(0, MAX_SECTION_CHARS).trimEnd()}\n[...]`
+      : section.content;
+    const tokens = estimateTokens(section.title) + estimateTokens(content);
+
+    if (usedTokens + tokens > PLAN_CONTEXT_TOKEN_BUDGET) continue;
+    usedTokens += tokens;
+    selected.push({ section: { title: section.title, content }, index });
+  }
+
+  return selected
+    .sort((a, b) => a.index - b.index)
+    .map(({ section }) => section);
+};
+
+/**
+ * Build the system message that attaches a plan to a question
+ *
+ * @param plan - Business plan selected in the assistant
+ * @param question - The user's new question (used to pick sections)
+ * @returns ChatMessage - System message with plan inputs, sections and citation rules
+ */
+export const buildPlanContextMessage = (plan: BusinessPlanRecord, question: string): ChatMessage => {
+  const profile = [
+    ['Business name', plan.business_name],
+    ['Industry', plan.industry],
+    ['Business type', plan.business_type],
+    ['Location', plan.location],
+    ['Target audience', plan.target_audience],
+    ['Value proposition', plan.value_proposition],
+    ['Revenue model', plan.revenue_model],
+    ['Goals', plan.goals]
+  ]
+    .filter(([, value]) => value && value.trim())
+    .map(([label, value]) => `- ${label}: ${value.trim()}`)
+    .join('\n');
+
+  const sections = selectRelevantSections(plan, question)
+    .map(section => `### ${section.title}\n${section.content}`)
+    .join('\n\n');
+
+  return {
+    role: 'system',
+    content: `The user attached their business plan "${plan.title}". Use it as the facts about their business and tailor your answer to it instead of asking for details it already contains.
+
+When a statement relies on a plan section, cite it right after the statement as (Source: Section Title), using the exact section titles below. Cite only sections you actually used. If the plan does not cover something, say so and answer from general best practice without a citation.
+
+## Plan inputs
+${profile || '- (none provided)'}
+
+## Plan sections
+${sections || '(The plan has no sections.)'}`
+  };
+};
+
+/**
+ * Extract the plan sections cited in an answer
+ *
+ * Reads "(Source: Market Analysis)" and "(Sources: Market Analysis; Risk
+ * Analysis)" citations.
+ *
+ * @param answer - Assistant answer
+ * @returns string[] - Distinct cited section titles in order of first citation
+ */
+export const extractPlanCitations = (answer: string): string[] => {
+  const cited: string[] = [];
+
+  for (const match of answer.matchAll(CITATION_PATTERN)) {
+    match[1]
+      .split(/[;,]/)
+      .map(title => title.replace(/[*_`"]/g, '').trim())
+      .filter(Boolean)
+      .forEach(title => {
+        if (!cited.some(existing => existing.toLowerCase() === title.toLowerCase())) {
+          cited.push(title);
+        }
+      });
+  }
+
+  return cited;
+};
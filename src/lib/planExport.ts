@@ -0,0 +1,897 @@
+/**
+ * Business Plan Export
+ *
+ * Builds business plan documents in the browser, so exports also work
+ * offline. The PDF has a cover page (business name, a logo mark made from
+ * its initials, date), a table of contents with page numbers that link to
+ * the sections, each section starting on a new page, and a running header
+ * and footer with page numbers. Section Markdown keeps its headings, bold
+ * and italic text, links, lists, tables, quotes and code.
+ *
+ * The Word export is an Office Open XML (.docx) package written with JSZip:
+ * a title page, a table of contents field, sections as Heading 1, real
+ * list items and tables, and author and company document properties.
+ *
+ * @author BizGenius Team
+ * @version 1.0.0
+ */
+
+import { jsPDF } from 'jspdf';
+import JSZip from 'jszip';
+import { inlineToPlainText, parseInline, parseMarkdown, type MarkdownBlock, type MarkdownInline } from './markdown';
+import { toPdfText } from './chatExport';
+import type { BusinessPlanSection } from './businessPlanGenerator';
+
+/**
+ * Plan Export Document
+ *
+ * What an exported plan shows besides its sections.
+ *
+ * - author: Shown in the document properties (the user's name)
+ * - company: Company in the Word document properties (defaults to the business name)
+ * - date: Shown on the cover page
+ */
+export interface PlanExportDocument {
+  title: string;
+  businessName: string;
+  industry: string;
+  location?: string;
+  author?: string;
+  company?: string;
+  date: Date;
+  sections: BusinessPlanSection[];
+}
+
+/**
+ * Cover and property details that are not part of the generated plan
+ */
+export type PlanExportDetails = Pick<PlanExportDocument, 'businessName' | 'location' | 'author' | 'company'>;
+
+type RGB = [number, number, number];
+
+const BRAND: RGB = [37, 99, 235];
+const BRAND_DARK: RGB = [30, 58, 138];
+const INK: RGB = [17, 24, 39];
+const MUTED: RGB = [107, 114, 128];
+const RULE: RGB = [209, 213, 219];
+const TABLE_HEADER_FILL: RGB = [239, 246, 255];
+const CODE_FILL: RGB = [243, 244, 246];
+
+// Page layout (mm, A4)
+const MARGIN = 20;
+const HEADER_HEIGHT = 8;
+const FOOTER_HEIGHT = 8;
+
+// Type sizes (pt) and line spacing
+const BODY_SIZE = 10.5;
+const CODE_SIZE = 9;
+const LINE_SPACING = 1.4;
+const PT_TO_MM = 0.3528;
+
+// Table of contents entry height (mm)
+const TOC_ENTRY_HEIGHT = 8;
+
+// Indent per list level (mm)
+const LIST_INDENT = 6;
+
+/**
+ * A piece of inline text with one style
+ */
+interface TextRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  href?: string;
+}
+
+/**
+ * Where and how blocks are drawn
+ *
+ * - indent: Left offset from the margin (lists, quotes)
+ * - quote: Inside a blockquote (italic, muted, with a bar)
+ */
+interface BlockContext {
+  indent: number;
+  quote?: boolean;
+}
+
+const lineHeightOf = (size: number): number => size * PT_TO_MM * LINE_SPACING;
+
+/**
+ * Styled runs of inline Markdown
+ */
+const toRuns = (nodes: MarkdownInline[], style: Omit<TextRun, 'text'> = {}): TextRun[] =>
+  nodes.flatMap((node): TextRun[] => {
+    switch (node.type) {
+      case 'text':
+        return [{ ...style, text: node.text }];
+      case 'code':
+        return [{ ...style, code: true, text: node.text }];
+      case 'strong':
+        return toRuns(node.children, { ...style, bold: true });
+      case 'emphasis':
+        return toRuns(node.children, { ...style, italic: true });
+      case 'link':
+        return toRuns(node.children, { ...style, href: node.href });
+    }
+  });
+
+/**
+ * Initials for the cover logo mark, e.g. "SunPower Tech" -> "ST"
+ */
+const initialsOf = (name: string): string =>
+  name
+    .split(/\s+/)
+    .filter(word => /[a-z0-9]/i.test(word))
+    .slice(0, 2)
+    .map(word => word.replace(/[^a-z0-9]/gi, '').charAt(0).toUpperCase())
+    .join('') || 'B';
+
+/**
+ * Section title as numbered in the document, e.g. "3. Market Analysis"
+ */
+const numberedTitle = (title: string, index: number): string =>
+  /^\d+[.)]\s/.test(title) ? title : `${index + 1}. ${title}`;
+
+/**
+ * Plan to PDF
+ *
+ * @param plan - Plan and cover details
+ * @returns Blob - A4 PDF document
+ */
+export const planToPdf = (plan: PlanExportDocument): Blob => {
+  const pdf = new jsPDF({ unit: 'mm', format: 'a4', compress: true });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - MARGIN * 2;
+  const top = MARGIN + HEADER_HEIGHT;
+  const bottom = pageHeight - MARGIN - FOOTER_HEIGHT;
+  let y = top;
+
+  const newPage = () => {
+    pdf.addPage();
+    y = top;
+  };
+
+  /**
+   * Start a new page unless `height` still fits on this one
+   */
+  const ensureSpace = (height: number) => {
+    if (y + height > bottom) newPage();
+  };
+
+  const setRunFont = (run: Omit<TextRun, 'text'>, size: number) => {
+    const style = run.bold && run.italic ? 'bolditalic' : run.bold ? 'bold' : run.italic ? 'italic' : 'normal';
+    pdf.setFont(run.code ? 'courier' : 'helvetica', style);
+    pdf.setFontSize(run.code ? size * 0.92 : size);
+  };
+
+  /**
+   * Write styled runs wrapped to the available width
+   *
+   * @param onFirstLine - Called with the y of the first line once its page is known (list markers)
+   */
+  const writeRuns = (
+    runs: TextRun[],
+    { size = BODY_SIZE, color = INK, indent = 0, spacingAfter = 3, quote = false }: {
+      size?: number;
+      color?: RGB;
+      indent?: number;
+      spacingAfter?: number;
+      quote?: boolean;
+    } = {},
+    onFirstLine?: (lineY: number) => void
+  ) => {
+    const lineHeight = lineHeightOf(size);
+    const maxWidth = contentWidth - indent;
+    const lines: { text: string; run: TextRun; width: number }[][] = [];
+    let line: { text: string; run: TextRun; width: number }[] = [];
+    let lineWidth = 0;
+
+    const endLine = () => {
+      while (line.length > 0 && line[line.length - 1].text === ' ') {
+        lineWidth -= line.pop()!.width;
+      }
+      lines.push(line);
+      line = [];
+      lineWidth = 0;
+    };
+
+    runs.forEach(run => {
+      const styledRun = quote ? { ...run, italic: true } : run;
+      toPdfText(run.text)
+        .split(/(\n|[ \t]+)/)
+        .filter(Boolean)
+        .forEach(piece => {
+          if (piece === '\n') {
+            endLine();
+            return;
+          }
+
+          const text = /^[ \t]+$/.test(piece) ? ' ' : piece;
+          if (text === ' ' && line.length === 0) return;
+
+          setRunFont(styledRun, size);
+          const width = pdf.getTextWidth(text);
+          if (text !== ' ' && line.length > 0 && lineWidth + width > maxWidth) endLine();
+
+          line.push({ text, run: styledRun, width });
+          lineWidth += width;
+        });
+    });
+    if (line.length > 0) endLine();
+
+    lines.forEach((words, index) => {
+      ensureSpace(lineHeight);
+      if (index === 0) onFirstLine?.(y);
+
+      if (quote) {
+        pdf.setDrawColor(...RULE);
+        pdf.setLineWidth(0.8);
+        pdf.line(MARGIN + indent - 3, y, MARGIN + indent - 3, y + lineHeight);
+      }
+
+      let x = MARGIN + indent;
+      words.forEach(word => {
+        setRunFont(word.run, size);
+        pdf.setTextColor(...(word.run.href ? BRAND : color));
+        pdf.text(word.text, x, y, { baseline: 'top' });
+        if (word.run.href && word.text !== ' ') {
+          pdf.link(x, y, word.width, lineHeight, { url: word.run.href });
+        }
+        x += word.width;
+      });
+      y += lineHeight;
+    });
+    y += spacingAfter;
+  };
+
+  /**
+   * Table with a shaded header row that is repeated after page breaks
+   */
+  const writeTable = (block: Extract<MarkdownBlock, { type: 'table' }>, indent: number) => {
+    const padding = 2;
+    const size = 9;
+    const lineHeight = lineHeightOf(size);
+    const available = contentWidth - indent;
+    const columnCount = block.header.length;
+    const toCells = (row: string[]) =>
+      Array.from({ length: columnCount }, (_, column) => toPdfText(inlineToPlainText(parseInline(row[column] || ''))));
+    const header = toCells(block.header);
+    const rows = block.rows.map(toCells);
+
+    // Columns share the width in proportion to their longest cell
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(size);
+    const natural = header.map((_, column) =>
+      Math.max(...[header, ...rows].map(row => pdf.getTextWidth(row[column]))) + padding * 2
+    );
+    const naturalTotal = natural.reduce((sum, width) => sum + width, 0);
+    const minWidth = Math.min(18, available / columnCount);
+    const widths = naturalTotal <= available
+      ? natural.map(width => width + (available - naturalTotal) / columnCount)
+      : (() => {
+          const flexible = available - minWidth * columnCount;
+          return natural.map(width => minWidth + (flexible * width) / naturalTotal);
+        })();
+
+    const drawRow = (cells: string[], isHeader: boolean) => {
+      pdf.setFont('helvetica', isHeader ? 'bold' : 'normal');
+      pdf.setFontSize(size);
+      const wrapped = cells.map((cell, column) => pdf.splitTextToSize(cell, widths[column] - padding * 2) as string[]);
+      const rowHeight = Math.max(...wrapped.map(lines => lines.length)) * lineHeight + padding * 2;
+
+      if (y + rowHeight > bottom) {
+        newPage();
+        if (!isHeader) drawRow(header, true);
+        pdf.setFont('helvetica', isHeader ? 'bold' : 'normal');
+        pdf.setFontSize(size);
+      }
+
+      let x = MARGIN + indent;
+      wrapped.forEach((lines, column) => {
+        const width = widths[column];
+        if (isHeader) {
+          pdf.setFillColor(...TABLE_HEADER_FILL);
+          pdf.rect(x, y, width, rowHeight, 'F');
+        }
+        pdf.setDrawColor(...RULE);
+        pdf.setLineWidth(0.2);
+        pdf.rect(x, y, width, rowHeight);
+
+        const align = block.align[column] || 'left';
+        const textX = align === 'right' ? x + width - padding : align === 'center' ? x + width / 2 : x + padding;
+        pdf.setTextColor(...INK);
+        lines.forEach((text, index) => {
+          pdf.text(text, textX, y + padding + index * lineHeight, { baseline: 'top', align });
+        });
+        x += width;
+      });
+      y += rowHeight;
+    };
+
+    drawRow(header, true);
+    rows.forEach(row => drawRow(row, false));
+    y += 4;
+  };
+
+  /**
+   * Draw Markdown blocks of a section
+   */
+  const writeBlocks = (blocks: MarkdownBlock[], context: BlockContext) => {
+    const textColor = context.quote ? MUTED : INK;
+
+    blocks.forEach(block => {
+      switch (block.type) {
+        case 'heading': {
+          const size = block.level <= 2 ? 14 : block.level === 3 ? 12 : 11;
+          // Keep a heading with the first lines below it
+          y += 2;
+          ensureSpace(lineHeightOf(size) + lineHeightOf(BODY_SIZE) * 2);
+          writeRuns(toRuns(parseInline(block.text), { bold: true }), {
+            size,
+            color: block.level <= 3 ? BRAND_DARK : INK,
+            indent: context.indent,
+            spacingAfter: 2
+          });
+          break;
+        }
+        case 'paragraph':
+          writeRuns(toRuns(parseInline(block.text)), { color: textColor, indent: context.indent, quote: context.quote });
+          break;
+        case 'list':
+          block.items.forEach((item, index) => {
+            const marker = block.ordered ? `${block.start + index}.` : '•';
+            const itemIndent = context.indent + LIST_INDENT;
+            const drawMarker = (lineY: number) => {
+              setRunFont({}, BODY_SIZE);
+              pdf.setTextColor(...(block.ordered ? textColor : BRAND));
+              pdf.text(marker, MARGIN + itemIndent - 1.5, lineY, { baseline: 'top', align: 'right' });
+            };
+            const [first, ...rest] = item.blocks;
+
+            if (first?.type === 'paragraph') {
+              writeRuns(toRuns(parseInline(first.text)), {
+                color: textColor,
+                indent: itemIndent,
+                spacingAfter: 1.5,
+                quote: context.quote
+              }, drawMarker);
+              writeBlocks(rest, { ...context, indent: itemIndent });
+            } else {
+              ensureSpace(lineHeightOf(BODY_SIZE));
+              drawMarker(y);
+              writeBlocks(item.blocks, { ...context, indent: itemIndent });
+            }
+          });
+          y += 1.5;
+          break;
+        case 'code': {
+          const lineHeight = lineHeightOf(CODE_SIZE);
+          pdf.setFont('courier', 'normal');
+          pdf.setFontSize(CODE_SIZE);
+          const lines = pdf.splitTextToSize(toPdfText(block.code), contentWidth - context.indent - 6) as string[];
+          lines.forEach(text => {
+            ensureSpace(lineHeight);
+            pdf.setFillColor(...CODE_FILL);
+            pdf.rect(MARGIN + context.indent, y, contentWidth - context.indent, lineHeight, 'F');
+            pdf.setFont('courier', 'normal');
+            pdf.setFontSize(CODE_SIZE);
+            pdf.setTextColor(...INK);
+            pdf.text(text, MARGIN + context.indent + 3, y + 0.4, { baseline: 'top' });
+            y += lineHeight;
+          });
+          y += 3;
+          break;
+        }
+        case 'blockquote':
+          writeBlocks(block.blocks, { indent: context.indent + 5, quote: true });
+          break;
+        case 'table':
+          writeTable(block, context.indent);
+          break;
+        case 'rule':
+          ensureSpace(6);
+          pdf.setDrawColor(...RULE);
+          pdf.setLineWidth(0.3);
+          pdf.line(MARGIN + context.indent, y + 2, pageWidth - MARGIN, y + 2);
+          y += 6;
+          break;
+      }
+    });
+  };
+
+  pdf.setProperties({
+    title: plan.title,
+    subject: `Business plan for ${plan.businessName}`,
+    author: plan.author || plan.businessName,
+    keywords: ['business plan', plan.industry, plan.location].filter(Boolean).join(', '),
+    creator: 'BizGenius'
+  });
+
+  // ==================== COVER PAGE ====================
+
+  pdf.setFillColor(...BRAND_DARK);
+  pdf.rect(0, 0, pageWidth, 90, 'F');
+
+  // Logo mark: initials on a rounded square
+  const logoSize = 28;
+  pdf.setFillColor(255, 255, 255);
+  pdf.roundedRect(MARGIN, 45, logoSize, logoSize, 4, 4, 'F');
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(22);
+  pdf.setTextColor(...BRAND_DARK);
+  pdf.text(initialsOf(plan.businessName), MARGIN + logoSize / 2, 45 + logoSize / 2, { align: 'center', baseline: 'middle' });
+
+  pdf.setFontSize(11);
+  pdf.setTextColor(191, 219, 254);
+  pdf.text('BUSINESS PLAN', MARGIN + logoSize + 8, 55, { baseline: 'top' });
+  pdf.setFontSize(16);
+  pdf.setTextColor(255, 255, 255);
+  pdf.text(toPdfText(plan.businessName), MARGIN + logoSize + 8, 62, { baseline: 'top', maxWidth: contentWidth - logoSize - 8 });
+
+  y = 115;
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(26);
+  pdf.setTextColor(...INK);
+  const titleLines = pdf.splitTextToSize(toPdfText(plan.title), contentWidth) as string[];
+  pdf.text(titleLines, MARGIN, y, { baseline: 'top', lineHeightFactor: 1.2 });
+  y += titleLines.length * lineHeightOf(26) * 0.86 + 8;
+
+  pdf.setDrawColor(...BRAND);
+  pdf.setLineWidth(1);
+  pdf.line(MARGIN, y, MARGIN + 30, y);
+  y += 8;
+
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(12);
+  pdf.setTextColor(...MUTED);
+  [plan.industry, plan.location].filter(Boolean).forEach(detail => {
+    pdf.text(toPdfText(detail!), MARGIN, y, { baseline: 'top' });
+    y += 7;
+  });
+
+  pdf.setFontSize(11);
+  pdf.text(plan.date.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' }), MARGIN, pageHeight - MARGIN - 12, { baseline: 'top' });
+  pdf.text('Prepared with BizGenius', pageWidth - MARGIN, pageHeight - MARGIN - 12, { baseline: 'top', align: 'right' });
+
+  // ==================== TABLE OF CONTENTS ====================
+
+  // Reserve the contents pages now; entries are written once page numbers are known
+  const tocTitleHeight = 18;
+  const firstTocCapacity = Math.floor((bottom - top - tocTitleHeight) / TOC_ENTRY_HEIGHT);
+  const tocCapacity = Math.floor((bottom - top) / TOC_ENTRY_HEIGHT);
+  const tocPageCount = plan.sections.length <= firstTocCapacity
+    ? 1
+    : 1 + Math.ceil((plan.sections.length - firstTocCapacity) / tocCapacity);
+  const firstTocPage = 2;
+  for (let page = 0; page < tocPageCount; page++) newPage();
+
+  // ==================== SECTIONS ====================
+
+  const sectionPages: number[] = [];
+  plan.sections.forEach((section, index) => {
+    newPage();
+    sectionPages.push(pdf.getNumberOfPages());
+
+    const title = toPdfText(numberedTitle(section.title, index));
+    pdf.setFillColor(...BRAND);
+    pdf.rect(MARGIN, y, 12, 1.2, 'F');
+    y += 5;
+    writeRuns([{ text: title, bold: true }], { size: 20, color: INK, spacingAfter: 6 });
+    pdf.outline.add(null, title, { pageNumber: sectionPages[index] });
+
+    writeBlocks(parseMarkdown(section.content), { indent: 0 });
+  });
+
+  // Contents entries with dot leaders, page numbers and links
+  pdf.setPage(firstTocPage);
+  y = top;
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(20);
+  pdf.setTextColor(...INK);
+  pdf.text('Table of Contents', MARGIN, y, { baseline: 'top' });
+  y += tocTitleHeight;
+
+  plan.sections.forEach((section, index) => {
+    if (y + TOC_ENTRY_HEIGHT > bottom) {
+      pdf.setPage(pdf.getCurrentPageInfo().pageNumber + 1);
+      y = top;
+    }
+
+    const pageLabel = String(sectionPages[index]);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(11);
+    pdf.setTextColor(...INK);
+    const pageLabelWidth = pdf.getTextWidth(pageLabel);
+    const maxTitleWidth = contentWidth - pageLabelWidth - 12;
+    let title = toPdfText(numberedTitle(section.title, index));
+    if (pdf.getTextWidth(title) > maxTitleWidth) {
+      title = `${(pdf.splitTextToSize(title, maxTitleWidth - pdf.getTextWidth('...')) as string[])[0]}...`;
+    }
+
+    const titleWidth = pdf.getTextWidth(title);
+    pdf.text(title, MARGIN, y, { baseline: 'top' });
+    pdf.text(pageLabel, pageWidth - MARGIN, y, { baseline: 'top', align: 'right' });
+
+    pdf.setDrawColor(...MUTED);
+    pdf.setLineWidth(0.2);
+    pdf.setLineDashPattern([0.3, 1.2], 0);
+    pdf.line(MARGIN + titleWidth + 2, y + 3.2, pageWidth - MARGIN - pageLabelWidth - 2, y + 3.2);
+    pdf.setLineDashPattern([], 0);
+
+    pdf.link(MARGIN, y - 1, contentWidth, TOC_ENTRY_HEIGHT - 1, { pageNumber: sectionPages[index] });
+    y += TOC_ENTRY_HEIGHT;
+  });
+
+  // ==================== HEADER AND FOOTER ====================
+
+  const pageCount = pdf.getNumberOfPages();
+  const headerTitle = toPdfText(plan.title);
+  for (let page = 2; page <= pageCount; page++) {
+    pdf.setPage(page);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(8);
+    pdf.setTextColor(...MUTED);
+
+    pdf.text(
+      (pdf.splitTextToSize(headerTitle, contentWidth * 0.6) as string[])[0],
+      MARGIN,
+      MARGIN - 4,
+      { baseline: 'bottom' }
+    );
+    pdf.text(toPdfText(plan.businessName), pageWidth - MARGIN, MARGIN - 4, { baseline: 'bottom', align: 'right' });
+    pdf.setDrawColor(...RULE);
+    pdf.setLineWidth(0.2);
+    pdf.line(MARGIN, MARGIN - 2, pageWidth - MARGIN, MARGIN - 2);
+
+    pdf.line(MARGIN, pageHeight - MARGIN + 2, pageWidth - MARGIN, pageHeight - MARGIN + 2);
+    pdf.text('Confidential', MARGIN, pageHeight - MARGIN + 4, { baseline: 'top' });
+    pdf.text(`Page ${page} of ${pageCount}`, pageWidth - MARGIN, pageHeight - MARGIN + 4, { baseline: 'top', align: 'right' });
+  }
+
+  return pdf.output('blob');
+};
+
+// ==================== DOCX ====================
+
+const WORD_NAMESPACES = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+const RELATIONSHIP_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// Page layout (twentieths of a point, A4 with 2.5cm margins)
+const DOCX_PAGE_WIDTH = 11906;
+const DOCX_PAGE_HEIGHT = 16838;
+const DOCX_MARGIN = 1418;
+const DOCX_CONTENT_WIDTH = DOCX_PAGE_WIDTH - DOCX_MARGIN * 2;
+
+// Indent per list level (twentieths of a point)
+const DOCX_LIST_INDENT = 720;
+
+// Bullet list numbering; ordered lists get their own numbering from 2 up
+const BULLET_NUMBERING_ID = 1;
+
+/**
+ * Where blocks are written
+ *
+ * - depth: List nesting level (-1 outside lists)
+ * - quote: Inside a blockquote
+ */
+interface DocxBlockContext {
+  depth: number;
+  quote?: boolean;
+}
+
+/**
+ * Escape text for XML, dropping characters XML can't contain
+ */
+const escapeXml = (text: string): string =>
+  text
+    .replace(/[^\t\n\r\x20-\uFFFD]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Word run (w:r) of a piece of text; line breaks and tabs become w:br and w:tab
+ */
+const docxRun = (text: string, { bold, italic, code, href }: Omit<TextRun, 'text'> = {}, extraProperties = ''): string => {
+  const properties = [
+    href ? '<w:rStyle w:val="Hyperlink"/>' : '',
+    code ? '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/>' : '',
+    bold ? '<w:b/>' : '',
+    italic ? '<w:i/>' : '',
+    extraProperties
+  ].join('');
+  const content = text
+    .split(/(\n|\t)/)
+    .filter(Boolean)
+    .map(piece => piece === '\n' ? '<w:br/>' : piece === '\t' ? '<w:tab/>' : `<w:t xml:space="preserve">${escapeXml(piece)}</w:t>`)
+    .join('');
+
+  return `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}${content}</w:r>`;
+};
+
+/**
+ * Word paragraph (w:p)
+ */
+const docxParagraph = (content: string, properties = ''): string =>
+  `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${content}</w:p>`;
+
+/**
+ * Simple field such as PAGE or NUMPAGES, showing `placeholder` until updated
+ */
+const docxField = (instruction: string, placeholder: string, runProperties = ''): string =>
+  `<w:r><w:fldChar w:fldCharType="begin"/></w:r><w:r><w:instrText xml:space="preserve"> ${instruction} </w:instrText></w:r><w:r><w:fldChar w:fldCharType="separate"/></w:r>${docxRun(placeholder, {}, runProperties)}<w:r><w:fldChar w:fldCharType="end"/></w:r>`;
+
+/**
+ * Paragraph, character and table styles
+ *
+ * Headings use Word's built-in style IDs and outline levels, so the
+ * navigation pane and the table of contents pick them up.
+ */
+const docxStyles = (): string => {
+  const heading = (level: number, size: number, extra = '') =>
+    `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:uiPriority w:val="9"/><w:qFormat/><w:pPr><w:keepNext/><w:keepLines/>${extra}<w:spacing w:before="${level === 1 ? 0 : 240}" w:after="120"/><w:outlineLvl w:val="${level - 1}"/></w:pPr><w:rPr><w:b/><w:color w:val="${level === 1 ? '111827' : '1E3A8A'}"/><w:sz w:val="${size}"/><w:szCs w:val="${size}"/></w:rPr></w:style>`;
+
+  return `${XML_DECLARATION}<w:styles ${WORD_NAMESPACES}>
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/><w:sz w:val="22"/><w:szCs w:val="22"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="288" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/><w:rPr><w:color w:val="111827"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:before="0" w:after="240" w:line="240" w:lineRule="auto"/></w:pPr><w:rPr><w:b/><w:sz w:val="56"/><w:szCs w:val="56"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="120"/></w:pPr><w:rPr><w:color w:val="1E3A8A"/><w:sz w:val="32"/><w:szCs w:val="32"/></w:rPr></w:style>
+${heading(1, 40, '<w:pageBreakBefore/><w:pBdr><w:top w:val="single" w:sz="18" w:space="12" w:color="2563EB"/></w:pBdr>')}
+${heading(2, 28)}
+${heading(3, 24)}
+${heading(4, 22)}
+<w:style w:type="paragraph" w:styleId="TOCHeading"><w:name w:val="TOC Heading"/><w:basedOn w:val="Heading1"/><w:next w:val="Normal"/><w:uiPriority w:val="39"/><w:qFormat/><w:pPr><w:pBdr/><w:outlineLvl w:val="9"/></w:pPr></w:style>
+<w:style w:type="paragraph" w:styleId="TOC1"><w:name w:val="toc 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:uiPriority w:val="39"/><w:pPr><w:tabs><w:tab w:val="right" w:leader="dot" w:pos="${DOCX_CONTENT_WIDTH}"/></w:tabs><w:spacing w:after="100"/></w:pPr></w:style>
+<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:uiPriority w:val="34"/><w:qFormat/><w:pPr><w:spacing w:after="60"/><w:contextualSpacing/></w:pPr></w:style>
+<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:uiPriority w:val="29"/><w:qFormat/><w:pPr><w:pBdr><w:left w:val="single" w:sz="18" w:space="8" w:color="D1D5DB"/></w:pBdr><w:ind w:left="284"/></w:pPr><w:rPr><w:i/><w:color w:val="6B7280"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:customStyle="1" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/><w:pPr><w:shd w:val="clear" w:color="auto" w:fill="F3F4F6"/><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="18"/><w:szCs w:val="18"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Header"><w:name w:val="header"/><w:basedOn w:val="Normal"/><w:pPr><w:tabs><w:tab w:val="right" w:pos="${DOCX_CONTENT_WIDTH}"/></w:tabs><w:spacing w:after="0"/></w:pPr><w:rPr><w:color w:val="6B7280"/><w:sz w:val="16"/><w:szCs w:val="16"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Footer"><w:name w:val="footer"/><w:basedOn w:val="Header"/></w:style>
+<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:uiPriority w:val="99"/><w:rPr><w:color w:val="2563EB"/><w:u w:val="single"/></w:rPr></w:style>
+<w:style w:type="table" w:default="1" w:styleId="TableNormal"><w:name w:val="Normal Table"/><w:tblPr><w:tblInd w:w="0" w:type="dxa"/><w:tblCellMar><w:top w:w="0" w:type="dxa"/><w:left w:w="108" w:type="dxa"/><w:bottom w:w="0" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>
+<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:basedOn w:val="TableNormal"/><w:pPr><w:spacing w:before="40" w:after="40" w:line="240" w:lineRule="auto"/></w:pPr><w:rPr><w:sz w:val="20"/><w:szCs w:val="20"/></w:rPr><w:tblPr><w:tblBorders><w:top w:val="single" w:sz="4" w:space="0" w:color="D1D5DB"/><w:left w:val="single" w:sz="4" w:space="0" w:color="D1D5DB"/><w:bottom w:val="single" w:sz="4" w:space="0" w:color="D1D5DB"/><w:right w:val="single" w:sz="4" w:space="0" w:color="D1D5DB"/><w:insideH w:val="single" w:sz="4" w:space="0" w:color="D1D5DB"/><w:insideV w:val="single" w:sz="4" w:space="0" w:color="D1D5DB"/></w:tblBorders></w:tblPr></w:style>
+</w:styles>`;
+};
+
+/**
+ * List numbering: one bullet definition and one decimal definition that
+ * ordered lists restart at their own start number
+ */
+const docxNumbering = (orderedListStarts: { depth: number; start: number }[]): string => {
+  const bullets = ['•', '◦', '▪'];
+  const numberFormats = ['decimal', 'lowerLetter', 'lowerRoman'];
+  const levels = (format: (level: number) => string) =>
+    Array.from({ length: 9 }, (_, level) =>
+      `<w:lvl w:ilvl="${level}"><w:start w:val="1"/>${format(level)}<w:lvlJc w:val="left"/><w:pPr><w:ind w:left="${DOCX_LIST_INDENT * (level + 1)}" w:hanging="360"/></w:pPr></w:lvl>`
+    ).join('');
+
+  return `${XML_DECLARATION}<w:numbering ${WORD_NAMESPACES}>
+<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${levels(level => `<w:numFmt w:val="bullet"/><w:lvlText w:val="${bullets[level % bullets.length]}"/>`)}</w:abstractNum>
+<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${levels(level => `<w:numFmt w:val="${numberFormats[level % numberFormats.length]}"/><w:lvlText w:val="%${level + 1}."/>`)}</w:abstractNum>
+<w:num w:numId="${BULLET_NUMBERING_ID}"><w:abstractNumId w:val="0"/></w:num>
+${orderedListStarts.map(({ depth, start }, index) =>
+  `<w:num w:numId="${BULLET_NUMBERING_ID + 1 + index}"><w:abstractNumId w:val="1"/><w:lvlOverride w:ilvl="${depth}"><w:startOverride w:val="${start}"/></w:lvlOverride></w:num>`
+).join('\n')}
+</w:numbering>`;
+};
+
+/**
+ * Plan to DOCX
+ *
+ * Office Open XML document with a title page, a table of contents field
+ * (Word fills in the page numbers when it updates fields on opening),
+ * sections as Heading 1 on new pages, Markdown headings, lists and tables
+ * as Word headings, list items and tables, and page numbers in the footer.
+ *
+ * @param plan - Plan and cover details
+ * @returns Promise<Blob> - .docx document
+ */
+export const planToDocx = async (plan: PlanExportDocument): Promise<Blob> => {
+  const hyperlinks: string[] = [];
+  const orderedListStarts: { depth: number; start: number }[] = [];
+
+  /**
+   * Runs of inline Markdown; links become w:hyperlink elements
+   */
+  const inlineXml = (nodes: MarkdownInline[], style: Omit<TextRun, 'text'> = {}): string => {
+    const runs = toRuns(nodes, style);
+    let xml = '';
+
+    runs.forEach((run, index) => {
+      const previous = runs[index - 1];
+      const next = runs[index + 1];
+      if (run.href && previous?.href !== run.href) {
+        hyperlinks.push(run.href);
+        xml += `<w:hyperlink r:id="rIdLink${hyperlinks.length}">`;
+      }
+      xml += docxRun(run.text, run);
+      if (run.href && next?.href !== run.href) xml += '</w:hyperlink>';
+    });
+    return xml;
+  };
+
+  const tableXml = (block: Extract<MarkdownBlock, { type: 'table' }>, context: DocxBlockContext): string => {
+    const indent = context.depth >= 0 ? DOCX_LIST_INDENT * (context.depth + 1) : 0;
+    const columnWidth = Math.floor((DOCX_CONTENT_WIDTH - indent) / block.header.length);
+    const rowXml = (cells: string[], isHeader: boolean) =>
+      `<w:tr>${isHeader ? '<w:trPr><w:tblHeader/><w:cantSplit/></w:trPr>' : '<w:trPr><w:cantSplit/></w:trPr>'}${block.header.map((_, column) => {
+        const align = block.align[column];
+        return `<w:tc><w:tcPr><w:tcW w:w="${columnWidth}" w:type="dxa"/>${isHeader ? '<w:shd w:val="clear" w:color="auto" w:fill="EFF6FF"/>' : ''}</w:tcPr>${docxParagraph(
+          inlineXml(parseInline(cells[column] || ''), isHeader ? { bold: true } : {}),
+          align && align !== 'left' ? `<w:jc w:val="${align}"/>` : ''
+        )}</w:tc>`;
+      }).join('')}</w:tr>`;
+
+    return `<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="${columnWidth * block.header.length}" w:type="dxa"/>${indent ? `<w:tblInd w:w="${indent}" w:type="dxa"/>` : ''}<w:tblLook w:val="04A0" w:firstRow="1" w:lastRow="0" w:firstColumn="0" w:lastColumn="0" w:noHBand="0" w:noVBand="1"/></w:tblPr><w:tblGrid>${block.header.map(() => `<w:gridCol w:w="${columnWidth}"/>`).join('')}</w:tblGrid>${rowXml(block.header, true)}${block.rows.map(row => rowXml(row, false)).join('')}</w:tbl>${docxParagraph('', '<w:spacing w:after="0"/>')}`;
+  };
+
+  /**
+   * Word body elements for Markdown blocks
+   *
+   * @param numbering - List numbering of the first paragraph (list items)
+   */
+  const blocksXml = (blocks: MarkdownBlock[], context: DocxBlockContext, numbering?: { numId: number; level: number }): string =>
+    blocks.map((block, index) => {
+      const indent = context.depth >= 0 ? `<w:ind w:left="${DOCX_LIST_INDENT * (context.depth + 1)}"/>` : '';
+      const baseStyle = context.quote ? 'Quote' : context.depth >= 0 ? 'ListParagraph' : '';
+      const styleXml = baseStyle ? `<w:pStyle w:val="${baseStyle}"/>` : '';
+
+      switch (block.type) {
+        case 'heading':
+          return docxParagraph(inlineXml(parseInline(block.text)), `<w:pStyle w:val="Heading${Math.min(Math.max(block.level, 2), 4)}"/>`);
+        case 'paragraph':
+          return docxParagraph(
+            inlineXml(parseInline(block.text)),
+            index === 0 && numbering
+              ? `${styleXml}<w:numPr><w:ilvl w:val="${numbering.level}"/><w:numId w:val="${numbering.numId}"/></w:numPr>`
+              : `${styleXml}${indent}`
+          );
+        case 'list': {
+          const depth = context.depth + 1;
+          let numId = BULLET_NUMBERING_ID;
+          if (block.ordered) {
+            orderedListStarts.push({ depth, start: block.start });
+            numId = BULLET_NUMBERING_ID + orderedListStarts.length;
+          }
+          return block.items
+            .map(item => blocksXml(
+              item.blocks[0]?.type === 'paragraph' ? item.blocks : [{ type: 'paragraph', text: '' }, ...item.blocks],
+              { ...context, depth },
+              { numId, level: depth }
+            ))
+            .join('');
+        }
+        case 'code':
+          return docxParagraph(docxRun(block.code), `<w:pStyle w:val="Code"/><w:spacing w:after="120"/>${indent}`);
+        case 'blockquote':
+          return blocksXml(block.blocks, { ...context, quote: true });
+        case 'table':
+          return tableXml(block, context);
+        case 'rule':
+          return docxParagraph('', '<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="D1D5DB"/></w:pBdr>');
+      }
+    }).join('');
+
+  const detailsLine = [plan.industry, plan.location].filter(Boolean).join(' · ');
+  const formattedDate = plan.date.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+  const sectionTitles = plan.sections.map((section, index) => numberedTitle(section.title, index));
+
+  const titlePage = [
+    docxParagraph(docxRun('BUSINESS PLAN', { bold: true }, '<w:color w:val="2563EB"/><w:spacing w:val="40"/>'), '<w:spacing w:before="3600" w:after="240"/>'),
+    docxParagraph(docxRun(plan.title), '<w:pStyle w:val="Title"/>'),
+    docxParagraph(docxRun(plan.businessName), '<w:pStyle w:val="Subtitle"/>'),
+    detailsLine ? docxParagraph(docxRun(detailsLine, {}, '<w:color w:val="6B7280"/>')) : '',
+    docxParagraph(docxRun(formattedDate, {}, '<w:color w:val="6B7280"/>'), '<w:spacing w:before="1200" w:after="60"/>'),
+    plan.author ? docxParagraph(docxRun(`Prepared by ${plan.author}`, {}, '<w:color w:val="6B7280"/>')) : '',
+    docxParagraph(docxRun('Prepared with BizGenius', {}, '<w:color w:val="6B7280"/>'))
+  ].join('');
+
+  // The field result lists the sections (linked to their bookmarks) until Word updates it
+  const tableOfContents = [
+    docxParagraph(docxRun('Table of Contents'), '<w:pStyle w:val="TOCHeading"/>'),
+    ...sectionTitles.map((title, index) => docxParagraph(
+      `${index === 0 ? '<w:r><w:fldChar w:fldCharType="begin" w:dirty="true"/></w:r><w:r><w:instrText xml:space="preserve"> TOC \\o "1-1" \\h \\z \\u </w:instrText></w:r><w:r><w:fldChar w:fldCharType="separate"/></w:r>' : ''}<w:hyperlink w:anchor="_TocSection${index + 1}" w:history="1">${docxRun(title)}</w:hyperlink>${index === sectionTitles.length - 1 ? '<w:r><w:fldChar w:fldCharType="end"/></w:r>' : ''}`,
+      '<w:pStyle w:val="TOC1"/>'
+    ))
+  ].join('');
+
+  const sections = plan.sections.map((section, index) => [
+    docxParagraph(
+      `<w:bookmarkStart w:id="${index}" w:name="_TocSection${index + 1}"/>${docxRun(sectionTitles[index])}<w:bookmarkEnd w:id="${index}"/>`,
+      '<w:pStyle w:val="Heading1"/>'
+    ),
+    blocksXml(parseMarkdown(section.content), { depth: -1 })
+  ].join('')).join('');
+
+  const document = `${XML_DECLARATION}<w:document ${WORD_NAMESPACES}><w:body>${titlePage}${plan.sections.length > 0 ? tableOfContents : ''}${sections}<w:sectPr><w:headerReference w:type="default" r:id="rIdHeader"/><w:footerReference w:type="default" r:id="rIdFooter"/><w:pgSz w:w="${DOCX_PAGE_WIDTH}" w:h="${DOCX_PAGE_HEIGHT}"/><w:pgMar w:top="${DOCX_MARGIN}" w:right="${DOCX_MARGIN}" w:bottom="${DOCX_MARGIN}" w:left="${DOCX_MARGIN}" w:header="709" w:footer="709" w:gutter="0"/><w:titlePg/></w:sectPr></w:body></w:document>`;
+
+  const header = `${XML_DECLARATION}<w:hdr ${WORD_NAMESPACES}>${docxParagraph(
+    `${docxRun(plan.title)}<w:r><w:tab/></w:r>${docxRun(plan.businessName)}`,
+    '<w:pStyle w:val="Header"/><w:pBdr><w:bottom w:val="single" w:sz="4" w:space="4" w:color="D1D5DB"/></w:pBdr>'
+  )}</w:hdr>`;
+
+  const footer = `${XML_DECLARATION}<w:ftr ${WORD_NAMESPACES}>${docxParagraph(
+    `${docxRun('Confidential')}<w:r><w:tab/></w:r>${docxRun('Page ')}${docxField('PAGE', '1')}${docxRun(' of ')}${docxField('NUMPAGES', '1')}`,
+    '<w:pStyle w:val="Footer"/><w:pBdr><w:top w:val="single" w:sz="4" w:space="4" w:color="D1D5DB"/></w:pBdr>'
+  )}</w:ftr>`;
+
+  const documentRelationships = `${XML_DECLARATION}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rIdStyles" Type="${RELATIONSHIP_TYPE}/styles" Target="styles.xml"/>
+<Relationship Id="rIdNumbering" Type="${RELATIONSHIP_TYPE}/numbering" Target="numbering.xml"/>
+<Relationship Id="rIdSettings" Type="${RELATIONSHIP_TYPE}/settings" Target="settings.xml"/>
+<Relationship Id="rIdHeader" Type="${RELATIONSHIP_TYPE}/header" Target="header1.xml"/>
+<Relationship Id="rIdFooter" Type="${RELATIONSHIP_TYPE}/footer" Target="footer1.xml"/>
+${hyperlinks.map((href, index) =>
+  `<Relationship Id="rIdLink${index + 1}" Type="${RELATIONSHIP_TYPE}/hyperlink" Target="${escapeXml(href)}" TargetMode="External"/>`
+).join('\n')}
+</Relationships>`;
+
+  // updateFields makes Word offer to fill in the table of contents on opening
+  const settings = `${XML_DECLARATION}<w:settings ${WORD_NAMESPACES}><w:defaultTabStop w:val="720"/><w:updateFields w:val="true"/><w:compat><w:compatSetting w:name="compatibilityMode" w:uri="http://schemas.microsoft.com/office/word" w:val="15"/></w:compat></w:settings>`;
+
+  const timestamp = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const author = escapeXml(plan.author || plan.businessName);
+  const coreProperties = `${XML_DECLARATION}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"><dc:title>${escapeXml(plan.title)}</dc:title><dc:subject>${escapeXml(`Business plan for ${plan.businessName}`)}</dc:subject><dc:creator>${author}</dc:creator><cp:keywords>${escapeXml(['business plan', plan.industry, plan.location].filter(Boolean).join(', '))}</cp:keywords><cp:lastModifiedBy>${author}</cp:lastModifiedBy><dcterms:created xsi:type="dcterms:W3CDTF">${timestamp}</dcterms:created><dcterms:modified xsi:type="dcterms:W3CDTF">${timestamp}</dcterms:modified></cp:coreProperties>`;
+
+  const appProperties = `${XML_DECLARATION}<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties"><Application>BizGenius</Application><Company>${escapeXml(plan.company || plan.businessName)}</Company></Properties>`;
+
+  const contentTypes = `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>
+<Override PartName="/word/settings.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.settings+xml"/>
+<Override PartName="/word/header1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml"/>
+<Override PartName="/word/footer1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+<Override PartName="/docProps/app.xml" ContentType="application/vnd.openxmlformats-officedocument.extended-properties+xml"/>
+</Types>`;
+
+  const packageRelationships = `${XML_DECLARATION}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="${RELATIONSHIP_TYPE}/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+<Relationship Id="rId3" Type="${RELATIONSHIP_TYPE}/extended-properties" Target="docProps/app.xml"/>
+</Relationships>`;
+
+  const parts: Record<string, string> = {
+    '[Content_Types].xml': contentTypes,
+    '_rels/.rels': packageRelationships,
+    'docProps/core.xml': coreProperties,
+    'docProps/app.xml': appProperties,
+    'word/document.xml': document,
+    'word/_rels/document.xml.rels': documentRelationships,
+    'word/styles.xml': docxStyles(),
+    'word/numbering.xml': docxNumbering(orderedListStarts),
+    'word/settings.xml': settings,
+    'word/header1.xml': header,
+    'word/footer1.xml': footer
+  };
+
+  const zip = new JSZip();
+  Object.entries(parts).forEach(([path, xml]) => zip.file(path, xml, { createFolders: false }));
+
+  return zip.generateAsync({ type: 'blob', mimeType: DOCX_MIME_TYPE, compression: 'DEFLATE' });
+};
+
+/**
+ * Download a generated document
+ *
+ * @param blob - Document
+ * @param fileName - File name with extension
+ */
+export const downloadPlanFile = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
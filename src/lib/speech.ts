@@ -0,0 +1,183 @@
+/**
+ * Speech
+ *
+ * Browser speech helpers for the AI Assistant: dictation with the Web
+ * Speech API (SpeechRecognition, prefixed as webkitSpeechRecognition in
+ * Chrome and Safari) and read-aloud with speech synthesis. Both are
+ * optional browser features; callers check the is...Supported functions
+ * and fall back to typing and reading.
+ *
+ * @author BizGenius Team
+ * @version 1.0.0
+ */
+
+/**
+ * Minimal SpeechRecognition typing; the DOM library does not declare the
+ * constructor yet
+ */
+interface SpeechRecognitionLike {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: { resultIndex: number; results: SpeechRecognitionResultList }) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+/**
+ * Dictation callbacks
+ *
+ * - onTranscript: Text heard since start; final once isFinal is true
+ * - onEnd: Recognition stopped (released, silence or error)
+ * - onError: User-facing message for errors other than silence or abort
+ */
+export interface DictationHandlers {
+  onTranscript: (transcript: string, isFinal: boolean) => void;
+  onEnd: () => void;
+  onError: (message: string) => void;
+}
+
+/**
+ * Running dictation; stop() keeps what was heard, abort() discards it
+ */
+export interface Dictation {
+  stop: () => void;
+  abort: () => void;
+}
+
+export interface SpeakOptions {
+  voiceURI?: string;
+  rate?: number;
+  onEnd?: () => void;
+}
+
+const getRecognitionConstructor = (): SpeechRecognitionConstructor | null => {
+  if (typeof window === 'undefined') return null;
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  };
+  return speechWindow.SpeechRecognition || speechWindow.webkitSpeechRecognition || null;
+};
+
+/**
+ * Messages for recognition errors worth showing
+ */
+const RECOGNITION_ERRORS: Record<string, string> = {
+  'not-allowed': 'Microphone access was denied. Allow it in your browser settings to dictate.',
+  'service-not-allowed': 'Voice input is not available in this browser.',
+  'audio-capture': 'No microphone was found.',
+  network: 'Voice input needs an internet connection.'
+};
+
+export const isSpeechRecognitionSupported = (): boolean => getRecognitionConstructor() !== null;
+
+export const isSpeechSynthesisSupported = (): boolean =>
+  typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+/**
+ * Start dictation in the browser's language
+ *
+ * Keeps listening until stopped, so pauses while thinking do not end it.
+ *
+ * @returns Dictation | null - null when speech recognition is unsupported
+ */
+export const startDictation = (handlers: DictationHandlers): Dictation | null => {
+  const Recognition = getRecognitionConstructor();
+  if (!Recognition) return null;
+
+  const recognition = new Recognition();
+  recognition.lang = navigator.language || 'en-US';
+  recognition.continuous = true;
+  recognition.interimResults = true;
+
+  recognition.onresult = (event) => {
+    let transcript = '';
+    let isFinal = true;
+    for (let index = 0; index < event.results.length; index++) {
+      const result = event.results[index];
+      transcript += result[0].transcript;
+      isFinal = isFinal && result.isFinal;
+    }
+    handlers.onTranscript(transcript.trim(), isFinal);
+  };
+
+  recognition.onerror = (event) => {
+    const message = RECOGNITION_ERRORS[event.error];
+    if (message) handlers.onError(message);
+  };
+
+  recognition.onend = () => handlers.onEnd();
+
+  try {
+    recognition.start();
+  } catch (error) {
+    console.error('Error starting dictation:', error);
+    return null;
+  }
+
+  return {
+    stop: () => recognition.stop(),
+    abort: () => recognition.abort()
+  };
+};
+
+/**
+ * Voices available for read-aloud
+ *
+ * Some browsers load voices asynchronously; waits for them briefly.
+ */
+export const loadVoices = (): Promise<SpeechSynthesisVoice[]> => {
+  if (!isSpeechSynthesisSupported()) return Promise.resolve([]);
+
+  const voices = window.speechSynthesis.getVoices();
+  if (voices.length > 0) return Promise.resolve(voices);
+
+  return new Promise(resolve => {
+    const finish = () => {
+      window.speechSynthesis.removeEventListener('voiceschanged', finish);
+      resolve(window.speechSynthesis.getVoices());
+    };
+    window.speechSynthesis.addEventListener('voiceschanged', finish);
+    setTimeout(finish, 1500);
+  });
+};
+
+/**
+ * Read text aloud, interrupting anything being read
+ *
+ * @returns boolean - false when speech synthesis is unsupported
+ */
+export const speak = (text: string, options: SpeakOptions = {}): boolean => {
+  if (!isSpeechSynthesisSupported()) return false;
+
+  const synthesis = window.speechSynthesis;
+  synthesis.cancel();
+
+  const utterance = new SpeechSynthesisUtterance(text);
+  const voice = options.voiceURI
+    ? synthesis.getVoices().find(candidate => candidate.voiceURI === options.voiceURI)
+    : undefined;
+  if (voice) {
+    utterance.voice = voice;
+    utterance.lang = voice.lang;
+  }
+  utterance.rate = options.rate ?? 1;
+  utterance.onend = () => options.onEnd?.();
+  utterance.onerror = () => options.onEnd?.();
+
+  synthesis.speak(utterance);
+  return true;
+};
+
+/**
+ * Stop reading aloud
+ */
+export const stopSpeaking = () => {
+  if (isSpeechSynthesisSupported()) window.speechSynthesis.cancel();
+};
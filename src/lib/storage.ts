@@ -2,10 +2,12 @@
  * Storage Service Module
  * 
  * This module provides a comprehensive interface for file upload operations
- * with Supabase Storage, specifically for avatar/profile image management.
+ * with Supabase Storage: avatar/profile images (public bucket) and files
+ * attached to AI Assistant questions (private, per-user bucket).
  * 
  * Key Features:
  * - Avatar upload with automatic resizing
+ * - Chat attachment upload, signed download links and removal
  * - File validation (type, size)
  * - Automatic cleanup of old avatars
  * - Progress tracking for uploads
@@ -16,6 +18,7 @@
  */
 
 import { supabase } from './supabase';
+import type { AttachmentRecord } from './database';
 
 /**
  * Upload Result Interface
@@ -28,6 +31,35 @@ interface UploadResult {
   error?: string;
 }
 
+/**
+ * Attachment Upload Result Interface
+ */
+interface AttachmentUploadResult {
+  success: boolean;
+  attachment?: AttachmentRecord;
+  error?: string;
+}
+
+/**
+ * File types accepted as chat attachments, by extension
+ * 
+ * The content type is set from the extension on upload, since browsers
+ * report CSV and TXT files inconsistently.
+ */
+export const ATTACHMENT_MIME_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  csv: 'text/csv',
+  txt: 'text/plain'
+};
+
+/**
+ * Lowercased file extension ('' when there is none)
+ */
+export const getFileExtension = (fileName: string): string =>
+  fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : '';
+
 /**
  * Storage Service Class
  * 
@@ -38,6 +70,8 @@ export class StorageService {
   private readonly AVATAR_BUCKET = 'avatars';
   private readonly MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
   private readonly ALLOWED_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+  private readonly ATTACHMENT_BUCKET = 'chat-attachments';
+  private readonly MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // 10MB
 
   /**
    * Get current authenticated user
@@ -238,6 +272,154 @@ export class StorageService {
     }
   }
 
+  /**
+   * Validate Attachment
+   * 
+   * Checks the size and type of a file attached to an assistant question
+   * 
+   * @param file - File to validate
+   */
+  validateAttachment(file: File): { valid: boolean; error?: string } {
+    if (file.size > this.MAX_ATTACHMENT_SIZE) {
+      return {
+        valid: false,
+        error: `${file.name} is larger than 10MB`
+      };
+    }
+
+    if (!ATTACHMENT_MIME_TYPES[getFileExtension(file.name)]) {
+      return {
+        valid: false,
+        error: `${file.name} is not supported. Attach a PDF, DOCX, CSV, XLSX or TXT file.`
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Upload Chat Attachment
+   * 
+   * Uploads a file attached to an assistant question to the user's folder
+   * in the private attachments bucket.
+   * 
+   * @param file - File to upload
+   * @returns Promise<AttachmentUploadResult> - Stored attachment or error
+   */
+  async uploadChatAttachment(file: File): Promise<AttachmentUploadResult> {
+    try {
+      const user = await this.getCurrentUser();
+
+      const validation = this.validateAttachment(file);
+      if (!validation.valid) {
+        return {
+          success: false,
+          error: validation.error
+        };
+      }
+
+      // Unique per upload; the original name is kept on the attachment record
+      const extension = getFileExtension(file.name);
+      const mimeType = ATTACHMENT_MIME_TYPES[extension];
+      const filePath = `${user.id}/${crypto.randomUUID()}.${extension}`;
+
+      const { error } = await supabase.storage
+        .from(this.ATTACHMENT_BUCKET)
+        .upload(filePath, file, {
+          contentType: mimeType,
+          upsert: false
+        });
+
+      if (error) {
+        throw error;
+      }
+
+      return {
+        success: true,
+        attachment: {
+          name: file.name,
+          path: filePath,
+          mime_type: mimeType,
+          size: file.size
+        }
+      };
+
+    } catch (error) {
+      console.error('Attachment upload error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Upload failed'
+      };
+    }
+  }
+
+  /**
+   * Get Attachment URL
+   * 
+   * Short-lived signed URL that downloads an attachment under its original name
+   * 
+   * @param attachment - Stored attachment
+   * @returns Promise<string | null> - Signed URL or null on failure
+   */
+  async getAttachmentUrl(attachment: AttachmentRecord): Promise<string | null> {
+    try {
+      const { data, error } = await supabase.storage
+        .from(this.ATTACHMENT_BUCKET)
+        .createSignedUrl(attachment.path, 60, { download: attachment.name });
+
+      if (error) throw error;
+      return data.signedUrl;
+
+    } catch (error) {
+      console.error('Error getting attachment URL:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Download Chat Attachment
+   * 
+   * @param attachment - Stored attachment
+   * @returns Promise<Blob> - File contents
+   */
+  async downloadChatAttachment(attachment: AttachmentRecord): Promise<Blob> {
+    try {
+      const { data, error } = await supabase.storage
+        .from(this.ATTACHMENT_BUCKET)
+        .download(attachment.path);
+
+      if (error) throw error;
+      return data;
+
+    } catch (error) {
+      console.error('Error downloading attachment:', error);
+      throw new Error('Failed to download attachment');
+    }
+  }
+
+  /**
+   * Delete Chat Attachment
+   * 
+   * Removes an attachment that was uploaded but not sent
+   * 
+   * @param path - Path in the attachments bucket
+   * @returns Promise<boolean> - Success status
+   */
+  async deleteChatAttachment(path: string): Promise<boolean> {
+    try {
+      const { error } = await supabase.storage
+        .from(this.ATTACHMENT_BUCKET)
+        .remove([path]);
+
+      if (error) throw error;
+      return true;
+
+    } catch (error) {
+      console.error('Error deleting attachment:', error);
+      return false;
+    }
+  }
+
   /**
    * Delete Avatar
    * 
@@ -267,4 +449,4 @@ export const storageService = new StorageService();
 /**
  * Type Exports for TypeScript Support
  */
-export type { UploadResult };
\ No newline at end of file
+export type { UploadResult, AttachmentUploadResult };
\ No newline at end of file
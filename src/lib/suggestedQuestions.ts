@@ -0,0 +1,130 @@
+/**
+ * Suggested Questions
+ *
+ * Follow-up questions: the assistant is asked to end each answer with 2-4
+ * questions the user may want to ask next, in a <follow_ups> block with one
+ * "- question" per line. The block is hidden while the answer streams and
+ * parsed out of the finished answer; the questions are shown as chips under
+ * the answer and stored on the chat_history row (follow_ups).
+ *
+ * Starter questions: for users without any conversation yet, questions
+ * tailored to the company and position in their profile.
+ *
+ * @author BizGenius Team
+ * @version 1.0.0
+ */
+
+const FOLLOW_UPS_OPEN = '<follow_ups>';
+const FOLLOW_UPS_CLOSE = '</follow_ups>';
+
+const MAX_FOLLOW_UPS = 4;
+
+// Longer lines are not questions (e.g. the model kept writing its answer)
+const MAX_FOLLOW_UP_LENGTH = 200;
+
+/**
+ * Instructions added to the system prompt of chat answers
+ */
+export const FOLLOW_UP_GUIDELINES = `After your answer, suggest 2 to 4 short follow-up questions the user is likely to ask next, written as the user would ask them. Put them last, in exactly this format, and do not refer to them in your answer:
+${FOLLOW_UPS_OPEN}
+- First follow-up question?
+- Second follow-up question?
+${FOLLOW_UPS_CLOSE}`;
+
+/**
+ * Answer text and the follow-up questions parsed from it
+ */
+export interface ParsedAnswer {
+  content: string;
+  followUps: string[];
+}
+
+/**
+ * Answer text to show while streaming: the follow-up block, or the start of
+ * its tag still arriving, is cut off
+ *
+ * @param raw - Answer streamed so far
+ */
+export const hideFollowUps = (raw: string): string => {
+  const start = raw.indexOf(FOLLOW_UPS_OPEN);
+  if (start !== -1) return raw.slice(0, start);
+
+  const partialTag = raw.match(/<[a-z_]*$/i);
+  if (partialTag && FOLLOW_UPS_OPEN.startsWith(partialTag[0].toLowerCase())) {
+    return raw.slice(0, partialTag.index);
+  }
+  return raw;
+};
+
+/**
+ * Split a finished answer into its text and follow-up questions
+ *
+ * Tolerates a missing closing tag and numbered or bulleted lines; answers
+ * without a block have no follow-ups.
+ *
+ * @param raw - Complete answer from the model
+ * @returns ParsedAnswer - Answer without the block, and up to 4 distinct questions
+ */
+export const splitFollowUps = (raw: string): ParsedAnswer => {
+  const start = raw.indexOf(FOLLOW_UPS_OPEN);
+  if (start === -1) return { content: raw, followUps: [] };
+
+  const end = raw.indexOf(FOLLOW_UPS_CLOSE, start);
+  const block = raw.slice(start + FOLLOW_UPS_OPEN.length, end === -1 ? undefined : end);
+  const followUps: string[] = [];
+
+  block
+    .split('\n')
+    .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').replace(/[*_`]/g, '').trim())
+    .filter(line => line && line.length <= MAX_FOLLOW_UP_LENGTH)
+    .forEach(line => {
+      if (!followUps.some(existing => existing.toLowerCase() === line.toLowerCase())) {
+        followUps.push(line);
+      }
+    });
+
+  return {
+    content: `${raw.slice(0, start)}${end === -1 ? '' : raw.slice(end + FOLLOW_UPS_CLOSE.length)}`,
+    followUps: followUps.slice(0, MAX_FOLLOW_UPS)
+  };
+};
+
+/**
+ * Starter questions tailored to the user's profile
+ *
+ * @param profile - Company and position from the user's profile
+ * @returns string[] - Up to 4 questions; empty when neither is filled in
+ */
+export const buildProfileStarterQuestions = (profile: { company?: string | null; position?: string | null }): string[] => {
+  const company = profile.company?.trim();
+  const position = profile.position?.trim();
+
+  if (company && position) {
+    return [
+      `As ${position} at ${company}, what should my priorities be for the next 90 days?`,
+      `How can ${company} attract more customers on a limited budget?`,
+      `Which financial metrics should I track as ${position} at ${company}?`,
+      `What are the biggest risks ${company} should plan for this year?`
+    ];
+  }
+
+  if (company) {
+    return [
+      `What should ${company} focus on to grow this year?`,
+      `How can ${company} attract more customers on a limited budget?`,
+      `Which financial metrics should ${company} track every month?`,
+      `What are the biggest risks ${company} should plan for?`
+    ];
+  }
+
+  if (position) {
+    return [
+      `What should my priorities be in my first 90 days as ${position}?`,
+      `Which metrics matter most in my role as ${position}?`,
+      `How can I make better decisions faster as ${position}?`,
+      `What skills should I develop to succeed as ${position}?`
+    ];
+  }
+
+  return [];
+};
@@ -0,0 +1,93 @@
+/**
+ * Text Diff
+ *
+ * Line-by-line diff of two versions of a text, e.g. a plan section before
+ * and after an AI revision. Lines are matched with a longest common
+ * subsequence, so moved or rewritten lines show as removed and added.
+ *
+ * @author BizGenius Team
+ * @version 1.0.0
+ */
+
+/**
+ * A line of the diff: in both versions, only in the new one, or only in the old one
+ */
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Added and removed line counts of a diff
+ */
+export interface DiffStats {
+  added: number;
+  removed: number;
+}
+
+const splitLines = (text: string): string[] => (text ? text.replace(/\r\n?/g, '\n').split('\n') : []);
+
+/**
+ * Diff Lines
+ *
+ * @param before - Old version
+ * @param after - New version
+ * @returns DiffLine[] - Every line of both versions in order; removed lines come before the added lines that replace them
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const oldLines = splitLines(before);
+  const newLines = splitLines(after);
+
+  // Unchanged first and last lines don't need the LCS table
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+    start++;
+  }
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const oldMiddle = oldLines.slice(start, oldEnd);
+  const newMiddle = newLines.slice(start, newEnd);
+  const columns = newMiddle.length + 1;
+
+  // common[i * columns + j]: LCS length of oldMiddle[i..] and newMiddle[j..]
+  const common = new Uint32Array((oldMiddle.length + 1) * columns);
+  for (let i = oldMiddle.length - 1; i >= 0; i--) {
+    for (let j = newMiddle.length - 1; j >= 0; j--) {
+      common[i * columns + j] = oldMiddle[i] === newMiddle[j]
+        ? common[(i + 1) * columns + j + 1] + 1
+        : Math.max(common[(i + 1) * columns + j], common[i * columns + j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = oldLines.slice(0, start).map(text => ({ type: 'same', text }));
+  let i = 0;
+  let j = 0;
+  while (i < oldMiddle.length || j < newMiddle.length) {
+    if (i < oldMiddle.length && j < newMiddle.length && oldMiddle[i] === newMiddle[j]) {
+      lines.push({ type: 'same', text: oldMiddle[i] });
+      i++;
+      j++;
+    } else if (j >= newMiddle.length || (i < oldMiddle.length && common[(i + 1) * columns + j] >= common[i * columns + j + 1])) {
+      lines.push({ type: 'removed', text: oldMiddle[i] });
+      i++;
+    } else {
+      lines.push({ type: 'added', text: newMiddle[j] });
+      j++;
+    }
+  }
+
+  return lines.concat(oldLines.slice(oldEnd).map(text => ({ type: 'same', text })));
+};
+
+/**
+ * Count the added and removed lines of a diff
+ */
+export const getDiffStats = (lines: DiffLine[]): DiffStats => ({
+  added: lines.filter(line => line.type === 'added').length,
+  removed: lines.filter(line => line.type === 'removed').length
+});
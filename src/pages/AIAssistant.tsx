@@ -7,8 +7,15 @@
  * Key Features:
  * - Real-time AI chat with business expertise
  * - Message history and context management
+ * - Rolling conversation summary when history exceeds the token budget
+ * - Model picker with the user's default chat model
  * - Bookmarking important responses
- * - Conversation export functionality
+ * - Regenerate answers (optionally with another model or temperature) and
+ *   edit-and-resend questions, kept as branches the user can switch between
+ * - Export to Markdown, JSON and PDF (one conversation or all history) and JSON import
+ * - File attachments (PDF, DOCX, CSV, XLSX, TXT) whose text is sent with the question
+ * - Suggested follow-up questions under the latest answer, and starter
+ *   questions tailored to a new user's company and position
  * - Mobile-first responsive design
  * - Error handling and loading states
  * - Keyboard shortcuts and accessibility
@@ -16,7 +23,7 @@
  * Architecture:
  * - React functional component with hooks
  * - State management for messages and UI states
- * - Integration with OpenRouter API via businessAssistant
+ * - Integration with the configured LLM provider via businessAssistant
  * - Responsive design with Tailwind CSS
  * - Proper error boundaries and user feedback
  * 
@@ -30,10 +37,59 @@
  * @version 1.0.0
  */
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Bot, User, Bookmark, Download, Trash2, AlertCircle, Loader2, StickyNote } from 'lucide-react';
-import { businessAssistant, type ChatMessage } from '../lib/openai';
-import { databaseService, type ChatHistoryRecord } from '../lib/database';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useUndo } from '../contexts/useUndo';
+import { Send, Bot, User, Bookmark, Trash2, AlertCircle, Loader2, StickyNote, Square, MessageSquare, Paperclip, Copy, Check, FileText, GraduationCap, Pencil, ChevronLeft, ChevronRight, Volume2, VolumeX } from 'lucide-react';
+import { businessAssistant, type ChatMessage, type GenerationOverrides } from '../lib/openai';
+import { addUsage, type TokenUsage } from '../lib/llmProvider';
+import { QuotaExceededError } from '../lib/aiQuota';
+import { markdownToPlainText } from '../lib/markdown';
+import { BUILT_IN_PERSONAS, toAssistantPersona, type AssistantPersona } from '../lib/personas';
+import { buildPlanContextMessage, extractPlanCitations } from '../lib/planContext';
+import { getLessonPath } from '../lib/lessonRetrieval';
+import {
+  ATTACHMENT_ACCEPT,
+  MAX_ATTACHMENTS,
+  buildAttachmentContextMessage,
+  extractAttachmentText,
+  readStoredAttachments,
+  type AttachmentContent
+} from '../lib/attachments';
+import { storageService } from '../lib/storage';
+import { buildProfileStarterQuestions } from '../lib/suggestedQuestions';
+import { isSpeechSynthesisSupported, speak, stopSpeaking } from '../lib/speech';
+import { buildBranchPath, findLatestLeaf, getBranchPosition, resolveActiveTurn } from '../lib/chatBranches';
+import {
+  buildConversationExport,
+  buildHistoryExport,
+  downloadChatExport,
+  importChatExport,
+  parseChatExport,
+  type ChatExportFormat
+} from '../lib/chatExport';
+import {
+  databaseService,
+  type AttachmentRecord,
+  type BusinessPlanRecord,
+  type ChatHistoryRecord,
+  type ConversationRecord,
+  type LessonSourceRecord,
+  type VoicePreferences
+} from '../lib/database';
 import NotesPanel from '../components/NotesPanel';
+import ConversationsPanel from '../components/ConversationsPanel';
+import ConversationMemory from '../components/ConversationMemory';
+import ModelSelector from '../components/ModelSelector';
+import PersonaSelector from '../components/PersonaSelector';
+import PlanContextSelector from '../components/PlanContextSelector';
+import MarkdownContent from '../components/MarkdownContent';
+import ToolInvocationList from '../components/ToolInvocationList';
+import AttachmentList, { type AttachmentListItem } from '../components/AttachmentList';
+import RegenerateMenu from '../components/RegenerateMenu';
+import DictationButton from '../components/DictationButton';
+import VoiceSettingsMenu from '../components/VoiceSettingsMenu';
+import ChatExportMenu, { type ChatExportScope } from '../components/ChatExportMenu';
+import type { ToolInvocation } from '../lib/assistantTools';
 
 /**
  * Message Interface
@@ -47,17 +103,176 @@ import NotesPanel from '../components/NotesPanel';
  * - content: Message text content
  * - timestamp: When the message was created
  * - bookmarked: Whether user has bookmarked this message
- * - isStreaming: Whether message is currently being streamed (future feature)
+ * - isStreaming: Whether message is currently being streamed
+ * - isError: Local error notice, never sent to the model
+ * - turnId: chat_history row of the turn (set on both of its messages once saved)
  */
 interface Message {
   id: string;
+  turnId?: string;
   type: 'user' | 'assistant';
   content: string;
   timestamp: Date;
   bookmarked?: boolean;
   isStreaming?: boolean;
+  isError?: boolean;
+  model?: string; // Model that answered (may be a fallback model)
+  personaName?: string; // Persona that answered
+  planTitle?: string; // Business plan attached as context
+  lessonSources?: LessonSourceRecord[]; // Lessons retrieved as context
+  toolInvocations?: ToolInvocation[]; // Tools called while answering
+  followUps?: string[]; // Follow-up questions suggested with the answer
+  attachments?: AttachmentRecord[]; // Files attached to the question
 }
 
+/**
+ * Conversation Memory
+ * 
+ * Rolling summary of the turns that no longer fit in the context window.
+ * Turns created at or before summarizedThrough are represented only by
+ * the summary; later turns are sent verbatim.
+ */
+interface ConversationMemoryState {
+  summary: string;
+  summarizedThrough: string | null;
+}
+
+const EMPTY_MEMORY: ConversationMemoryState = { summary: '', summarizedThrough: null };
+
+/**
+ * Send Options
+ * 
+ * Where a question goes in the conversation tree and how it is answered.
+ * 
+ * - baseMessages: Messages shown before the new turn (the branch up to its parent)
+ * - parentId: Turn the new turn follows (null for the first turn)
+ * - isBranch: The turn is an alternative to an existing turn
+ * - plan: Business plan sent as context
+ * - attachments: Files attached to the question
+ * - attachmentContents: Their text when already read; otherwise the stored
+ *   files are read again
+ * - overrides: Model and temperature for this answer only
+ */
+interface SendOptions {
+  baseMessages: Message[];
+  parentId: string | null;
+  isBranch: boolean;
+  plan: BusinessPlanRecord | null;
+  attachments?: AttachmentRecord[];
+  attachmentContents?: AttachmentContent[];
+  overrides?: GenerationOverrides;
+}
+
+/**
+ * File attached in the input area; content is set once it has been read
+ * and uploaded
+ */
+type PendingAttachment = AttachmentListItem & { content?: AttachmentContent };
+
+/**
+ * Welcome Message
+ * 
+ * Shown at the start of every new conversation. It is UI-only and never
+ * sent to the model as context.
+ */
+const WELCOME_MESSAGE_ID = 'welcome';
+
+const createWelcomeMessage = (): Message => ({
+  id: WELCOME_MESSAGE_ID,
+  type: 'assistant',
+  content: "Hello! I'm your AI business assistant powered by BizGenius. I can help you with marketing strategies, financial planning, operations management, business strategy, and more. What business challenge can I help you solve today?",
+  timestamp: new Date()
+});
+
+/**
+ * Convert chat_history records into UI messages
+ * 
+ * Each record holds one question/answer turn and becomes a user message
+ * followed by an assistant message.
+ * 
+ * @param records - Turns in chronological order
+ * @param bookmarkedChatIds - IDs of bookmarked chat_history rows
+ */
+const toUiMessages = (records: ChatHistoryRecord[], bookmarkedChatIds: Set<string>): Message[] => {
+  const uiMessages: Message[] = [];
+
+  records.forEach(record => {
+    // Add user question
+    uiMessages.push({
+      id: `${record.id}-question`,
+      turnId: record.id,
+      type: 'user',
+      content: record.question,
+      timestamp: new Date(record.created_at),
+      attachments: record.attachments || []
+    });
+
+    // Add AI answer
+    uiMessages.push({
+      id: record.id,
+      turnId: record.id,
+      type: 'assistant',
+      content: record.answer,
+      timestamp: new Date(record.created_at),
+      bookmarked: bookmarkedChatIds.has(record.id),
+      model: record.model_used || undefined,
+      personaName: record.persona_name || undefined,
+      planTitle: record.business_plan_title || undefined,
+      lessonSources: record.lesson_sources || [],
+      toolInvocations: record.tool_invocations || [],
+      followUps: record.follow_ups || []
+    });
+  });
+
+  return uiMessages;
+};
+
+/**
+ * Loaded Conversation
+ * 
+ * - turns: Every turn of the conversation, all branches included
+ * - activeTurnId: Last turn of the branch shown in messages
+ */
+interface LoadedConversation {
+  messages: Message[];
+  turns: ChatHistoryRecord[];
+  activeTurnId: string | null;
+  bookmarkedChatIds: Set<string>;
+  memory: ConversationMemoryState;
+}
+
+/**
+ * Load a conversation's active branch as UI messages with bookmark state,
+ * together with all of its turns and its rolling summary
+ * 
+ * @param conversationId - Conversation to load
+ * @param focusTurnId - Turn that must be on the loaded branch (e.g. a search
+ *   result); its latest branch is loaded instead of the active one
+ */
+const loadConversationMessages = async (conversationId: string, focusTurnId?: string): Promise<LoadedConversation> => {
+  const [conversation, chatBookmarks] = await Promise.all([
+    databaseService.getConversation(conversationId),
+    databaseService.getChatBookmarks()
+  ]);
+  const bookmarkedChatIds = new Set(chatBookmarks.map(b => b.related_id));
+  const activeTurnId = focusTurnId && conversation.messages.some(record => record.id === focusTurnId)
+    ? findLatestLeaf(conversation.messages, focusTurnId)
+    : resolveActiveTurn(conversation.messages, conversation.active_turn_id);
+
+  return {
+    messages: activeTurnId
+      ? toUiMessages(buildBranchPath(conversation.messages, activeTurnId), bookmarkedChatIds)
+      : [createWelcomeMessage()],
+    turns: conversation.messages,
+    activeTurnId,
+    bookmarkedChatIds,
+    memory: {
+      summary: conversation.summary || '',
+      summarizedThrough: conversation.summarized_through
+    }
+  };
+};
+
 /**
  * AIAssistant Component
  * 
@@ -65,16 +280,32 @@ interface Message {
  * Manages conversation state, API interactions, and user interface.
  * 
  * State Management:
- * - messages: Array of conversation messages
+ * - messages: Array of messages in the active conversation
+ * - conversations: User's conversation threads
+ * - activeConversationId: Open thread (null for a new, unsaved one)
+ * - memory: Rolling summary of the open thread's older turns
+ * - turns / activeTurnId: All turns of the open thread and the last turn of
+ *   the branch on screen
+ * - selectedModel: Model used for chat, defaulting to the profile preference
+ * - attachedPlan: Business plan sent as context with new questions
  * - input: Current user input text
  * - isLoading: API request loading state
  * - error: Error message display
  * 
  * Key Methods:
- * - handleSend: Process user input and get AI response
+ * - handleSend: Process user input and stream AI response
+ * - sendQuestion: Stream and save a turn after a given point of the branch
+ * - regenerateAnswer / resendEditedQuestion: Add an alternative turn
+ * - switchBranch: Show another alternative of a turn
+ * - stopGeneration: Abort the in-flight response
+ * - selectConversation / startNewConversation: Switch threads
+ * - renameConversation / deleteConversation: Manage threads
+ * - saveMemory: Persist a user-edited conversation summary
+ * - changeModel: Switch chat model and remember it as the default
  * - toggleBookmark: Bookmark/unbookmark messages
  * - clearConversation: Reset chat history
- * - exportConversation: Download chat as text file
+ * - exportChats / importChats: Download chats as Markdown, JSON or PDF; import JSON exports
+ * - readAloud / handleDictation...: Read answers aloud; dictate questions (hands-free sends them)
  * 
  * Responsive Design:
  * - Mobile-first approach with base styles
@@ -89,6 +320,11 @@ export default function AIAssistant() {
   // User input state
   const [input, setInput] = useState('');
   
+  // Files attached to the next question, and those removed while still being read
+  const [pendingAttachments, setPendingAttachments] = useState<PendingAttachment[]>([]);
+  const removedAttachmentKeysRef = useRef<Set<string>>(new Set());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  
   // Loading state for API requests
   const [isLoading, setIsLoading] = useState(false);
   
@@ -101,8 +337,78 @@ export default function AIAssistant() {
   // Notes panel state
   const [showNotesPanel, setShowNotesPanel] = useState(false);
   
+  // Conversation threads state
+  const [conversations, setConversations] = useState<ConversationRecord[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const [isConversationLoading, setIsConversationLoading] = useState(false);
+  
+  // Rolling summary of the active conversation
+  const [memory, setMemory] = useState<ConversationMemoryState>(EMPTY_MEMORY);
+  
+  // All turns of the active conversation (every branch) and the last turn on screen
+  const [turns, setTurns] = useState<ChatHistoryRecord[]>([]);
+  const [activeTurnId, setActiveTurnId] = useState<string | null>(null);
+  const [bookmarkedChatIds, setBookmarkedChatIds] = useState<Set<string>>(new Set());
+  
+  // Question being edited in place (turn ID) and its draft
+  const [editingTurnId, setEditingTurnId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+  
+  // Model used for chat responses
+  const [selectedModel, setSelectedModel] = useState(businessAssistant.getCurrentModel());
+  
+  // Built-in and custom personas, and the one used for new questions
+  const [personas, setPersonas] = useState<AssistantPersona[]>(BUILT_IN_PERSONAS);
+  const [selectedPersona, setSelectedPersona] = useState<AssistantPersona>(businessAssistant.getCurrentPersona());
+  
+  // Starter questions tailored to the profile's company and position (for new users)
+  const [profileStarterQuestions, setProfileStarterQuestions] = useState<string[]>([]);
+  
+  // Saved business plans and the one attached as context to new questions
+  const [businessPlans, setBusinessPlans] = useState<BusinessPlanRecord[]>([]);
+  const [attachedPlan, setAttachedPlan] = useState<BusinessPlanRecord | null>(null);
+  
+  // Conversations sidebar visibility on small screens
+  const [showConversations, setShowConversations] = useState(false);
+  
+  // Export or import in progress
+  const [isTransferring, setIsTransferring] = useState(false);
+  
+  // Answer just copied to the clipboard (shows a check mark briefly)
+  const [copiedMessageId, setCopiedMessageId] = useState<string | null>(null);
+  
+  // Read-aloud and hands-free settings, and the answer being read aloud
+  const [voicePreferences, setVoicePreferences] = useState<VoicePreferences>({});
+  const [speakingMessageId, setSpeakingMessageId] = useState<string | null>(null);
+  
+  // Input text when dictation started; dictated text is appended to it
+  const dictationBaseRef = useRef('');
+  
+  // Pending save of changed voice settings
+  const voiceSaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  
+  // Incremented per read-aloud, so a replaced reading does not clear the new one
+  const speechIdRef = useRef(0);
+  const canReadAloud = isSpeechSynthesisSupported();
+  
+  // Turn opened from search results: scrolled into view and highlighted
+  const [focusedTurnId, setFocusedTurnId] = useState<string | null>(null);
+  
+  // Undo toast for deleted conversations
+  const { showUndo } = useUndo();
+  
+  // Conversation and message to open on mount, set by search result links
+  const [searchParams, setSearchParams] = useSearchParams();
+  const searchTargetRef = useRef({
+    conversationId: searchParams.get('conversation'),
+    turnId: searchParams.get('message') || undefined
+  });
+  
   // Ref for auto-scrolling to bottom of messages
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  
+  // Abort controller for the in-flight streaming request
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   /**
    * Auto-scroll to bottom of messages
@@ -118,207 +424,803 @@ export default function AIAssistant() {
    * Effect: Auto-scroll when messages change
    * 
    * Automatically scrolls to show new messages when they're added.
-   * Runs after every message state update.
+   * Runs after every message state update. A turn opened from search
+   * results is centered instead.
    */
   useEffect(() => {
+    if (focusedTurnId) {
+      document.getElementById(`message-${focusedTurnId}-question`)?.scrollIntoView({ block: 'center' });
+      return;
+    }
     scrollToBottom();
-  }, [messages]);
+  }, [messages, focusedTurnId]);
 
   /**
-   * Load Chat History from Database
+   * Effect: Stop reading aloud when leaving the page
+   */
+  useEffect(() => () => stopSpeaking(), []);
+
+  /**
+   * Show a loaded conversation
+   */
+  const applyConversation = (loaded: LoadedConversation) => {
+    setMessages(loaded.messages);
+    setTurns(loaded.turns);
+    setActiveTurnId(loaded.activeTurnId);
+    setBookmarkedChatIds(loaded.bookmarkedChatIds);
+    setMemory(loaded.memory);
+    setEditingTurnId(null);
+    setFocusedTurnId(null);
+  };
+
+  /**
+   * Reset to an empty, unsaved conversation
+   */
+  const resetConversation = () => {
+    setActiveConversationId(null);
+    setMessages([createWelcomeMessage()]);
+    setTurns([]);
+    setActiveTurnId(null);
+    setMemory(EMPTY_MEMORY);
+    setEditingTurnId(null);
+    setFocusedTurnId(null);
+  };
+
+  /**
+   * Load Conversations from Database
    * 
-   * Fetches user's chat history on component mount and converts
-   * database records to UI message format.
+   * Fetches the user's conversation list on component mount and reopens
+   * the most recently active conversation, or the conversation and message
+   * requested in the URL (?conversation=...&message=..., from search).
    */
   useEffect(() => {
-    const loadChatHistory = async () => {
+    const { conversationId: requestedConversationId, turnId: requestedTurnId } = searchTargetRef.current;
+
+    const loadConversations = async () => {
       try {
         setIsInitialLoading(true);
-        const chatHistory = await databaseService.getChatHistory(50);
+        const [conversationList, modelPreferences, customPersonas, plans, voiceSettings, profile] = await Promise.all([
+          databaseService.listConversations(),
+          databaseService.getModelPreferences(),
+          databaseService.getCustomPersonas().catch(error => {
+            console.error('Error loading custom personas:', error);
+            return [];
+          }),
+          databaseService.getBusinessPlans().catch(error => {
+            console.error('Error loading business plans:', error);
+            return [];
+          }),
+          databaseService.getVoicePreferences(),
+          databaseService.getProfile().catch(error => {
+            console.error('Error loading profile:', error);
+            return null;
+          })
+        ]);
+        setConversations(conversationList);
+        if (profile) setProfileStarterQuestions(buildProfileStarterQuestions(profile));
+        setVoicePreferences(voiceSettings);
+        setPersonas([...BUILT_IN_PERSONAS, ...customPersonas.map(toAssistantPersona)]);
+        setBusinessPlans(plans);
+        
+        // Apply the user's default chat model
+        if (modelPreferences.chat) {
+          businessAssistant.setModel(modelPreferences.chat);
+          setSelectedModel(modelPreferences.chat);
+        }
         
-        if (chatHistory.length === 0) {
+        if (requestedConversationId) {
+          // Open the requested conversation on the branch of the requested message
+          const loaded = await loadConversationMessages(requestedConversationId, requestedTurnId);
+          setActiveConversationId(requestedConversationId);
+          applyConversation(loaded);
+
+          if (requestedTurnId && loaded.turns.some(turn => turn.id === requestedTurnId)) {
+            setFocusedTurnId(requestedTurnId);
+            if (loaded.activeTurnId) {
+              // Keep showing this branch after a reload
+              databaseService.setActiveTurn(requestedConversationId, loaded.activeTurnId)
+                .catch(error => console.error('Error saving active branch:', error));
+            }
+          }
+        } else if (conversationList.length === 0) {
           // Show welcome message if no history
-          setMessages([{
-            id: '1',
-            type: 'assistant',
-            content: "Hello! I'm your AI business assistant powered by BizGenius AI. I can help you with marketing strategies, financial planning, operations management, business strategy, and more. What business challenge can I help you solve today?",
-            timestamp: new Date()
-          }]);
+          setMessages([createWelcomeMessage()]);
         } else {
-          // Convert database records to UI messages
-          const uiMessages: Message[] = [];
-          
-          // Group by conversation and sort
-          const sortedHistory = chatHistory.sort((a, b) => 
-            new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
-          );
-          
-          // Get bookmarked chat IDs for proper bookmark state
-          const chatBookmarks = await databaseService.getChatBookmarks();
-          const bookmarkedChatIds = new Set(chatBookmarks.map(b => b.related_id));
-          
-          sortedHistory.forEach(record => {
-            // Add user question
-            uiMessages.push({
-              id: `${record.id}-question`,
-              type: 'user',
-              content: record.question,
-              timestamp: new Date(record.created_at)
-            });
-            
-            // Add AI answer
-            uiMessages.push({
-              id: record.id,
-              type: 'assistant',
-              content: record.answer,
-              timestamp: new Date(record.created_at),
-              bookmarked: bookmarkedChatIds.has(record.id)
-            });
-          });
-          
-          setMessages(uiMessages);
+          // Reopen the latest conversation
+          const latest = conversationList[0];
+          const loaded = await loadConversationMessages(latest.id);
+          setActiveConversationId(latest.id);
+          applyConversation(loaded);
         }
       } catch (error) {
         console.error('Error loading chat history:', error);
         setError('Failed to load chat history');
         // Show welcome message on error
-        setMessages([{
-          id: '1',
-          type: 'assistant',
-          content: "Hello! I'm your AI business assistant powered by BizGenius. I can help you with marketing strategies, financial planning, operations management, business strategy, and more. What business challenge can I help you solve today?",
-          timestamp: new Date()
-        }]);
+        setMessages([createWelcomeMessage()]);
       } finally {
         setIsInitialLoading(false);
       }
     };
 
-    loadChatHistory();
+    loadConversations();
   }, []);
+
+  /**
+   * Effect: Drop the search target from the URL once a conversation is open
+   */
+  useEffect(() => {
+    if (activeConversationId && searchParams.has('conversation')) {
+      setSearchParams({}, { replace: true });
+    }
+  }, [activeConversationId, searchParams, setSearchParams]);
+
+  /**
+   * Select Conversation
+   * 
+   * Opens a past conversation so it can be read and continued.
+   * 
+   * @param conversationId - Conversation to open
+   */
+  const selectConversation = async (conversationId: string) => {
+    if (isLoading || isConversationLoading || conversationId === activeConversationId) return;
+    
+    try {
+      setIsConversationLoading(true);
+      setError(null);
+      const loaded = await loadConversationMessages(conversationId);
+
+      // Switch only once its messages are loaded, so a failed load leaves
+      // new questions going to the conversation that is on screen
+      setActiveConversationId(conversationId);
+      applyConversation(loaded);
+      setShowConversations(false);
+    } catch (error) {
+      console.error('Error loading conversation:', error);
+      setError('Failed to load conversation');
+    } finally {
+      setIsConversationLoading(false);
+    }
+  };
+
+  /**
+   * Start New Conversation
+   * 
+   * Resets the chat to the welcome message. The conversation row is only
+   * created when the first question is saved.
+   */
+  const startNewConversation = () => {
+    if (isLoading) return;
+    
+    resetConversation();
+    setError(null);
+    setShowConversations(false);
+  };
+
+  /**
+   * Rename Conversation
+   * 
+   * @param conversationId - Conversation to rename
+   * @param title - New title
+   */
+  const renameConversation = async (conversationId: string, title: string) => {
+    try {
+      const updated = await databaseService.renameConversation(conversationId, title);
+      setConversations(prev =>
+        prev.map(conversation =>
+          conversation.id === conversationId ? updated : conversation
+        )
+      );
+    } catch (error) {
+      console.error('Error renaming conversation:', error);
+      setError('Failed to rename conversation');
+    }
+  };
+
+  /**
+   * Delete Conversation
+   * 
+   * Moves a whole thread to the trash, with an undo toast. If it was open,
+   * a new conversation is started.
+   * 
+   * @param conversationId - Conversation to delete
+   */
+  const deleteConversation = async (conversationId: string) => {
+    const conversation = conversations.find(item => item.id === conversationId);
+    
+    try {
+      const deletedAt = await databaseService.deleteConversation(conversationId);
+      setConversations(prev => prev.filter(item => item.id !== conversationId));
+      
+      if (conversationId === activeConversationId) {
+        resetConversation();
+      }
+      
+      showUndo('Conversation moved to trash', async () => {
+        await databaseService.restoreTrashItem({ type: 'conversation', id: conversationId, deleted_at: deletedAt });
+        if (conversation) {
+          setConversations(prev =>
+            [...prev, conversation].sort((a, b) => b.last_message_at.localeCompare(a.last_message_at))
+          );
+        }
+      });
+    } catch (error) {
+      console.error('Error deleting conversation:', error);
+      setError('Failed to delete conversation');
+    }
+  };
+
+  /**
+   * Save Memory
+   * 
+   * Persists a user-edited summary of the active conversation. The
+   * summarized-through boundary is left unchanged.
+   * 
+   * @param summary - Edited summary text
+   */
+  const saveMemory = async (summary: string) => {
+    if (!activeConversationId) return;
+    
+    try {
+      const updated = await databaseService.updateConversationSummary(activeConversationId, summary);
+      setMemory(prev => ({ ...prev, summary: updated.summary }));
+    } catch (error) {
+      console.error('Error saving conversation summary:', error);
+      setError('Failed to save conversation summary');
+      throw error;
+    }
+  };
+
+  /**
+   * Change Model
+   * 
+   * Switches the model used for chat and remembers it as the user's
+   * default chat model.
+   * 
+   * @param modelId - Model identifier from the provider
+   */
+  const changeModel = async (modelId: string) => {
+    businessAssistant.setModel(modelId);
+    setSelectedModel(modelId);
+    
+    try {
+      await databaseService.saveModelPreference('chat', modelId);
+    } catch (error) {
+      console.error('Error saving default chat model:', error);
+      setError('Failed to save default model');
+    }
+  };
+
+  /**
+   * Change Persona
+   * 
+   * Applies the persona's system prompt and temperature to following questions.
+   */
+  const changePersona = (persona: AssistantPersona) => {
+    businessAssistant.setPersona(persona);
+    setSelectedPersona(persona);
+  };
+
+  /**
+   * Check that a question can be sent now
+   * 
+   * Validates the loading state and the AI provider configuration.
+   */
+  const canSend = (): boolean => {
+    if (isLoading || isInitialLoading) return false;
+
+    if (!businessAssistant.isConfigured()) {
+      setError('AI provider not configured. Please check the LLM settings in your .env file.');
+      return false;
+    }
+    return true;
+  };
+
   /**
    * Handle Send Message
    * 
-   * Main method for processing user input and getting AI responses.
-   * Handles the complete conversation flow with proper error handling.
+   * Sends the typed (or starter) question as the next turn of the branch
+   * on screen.
+   */
+  const handleSend = (starterQuestion?: string) => {
+    const question = starterQuestion ?? input;
+
+    // Validate input, loading state and configuration
+    if (!question.trim() || !canSend()) return;
+
+    if (pendingAttachments.some(item => item.status === 'reading')) {
+      setError('Please wait until the attached files have been read.');
+      return;
+    }
+
+    const attachmentContents = pendingAttachments.flatMap(item => (item.content ? [item.content] : []));
+
+    setInput('');
+    setPendingAttachments([]);
+    sendQuestion(question, {
+      baseMessages: messages,
+      parentId: activeTurnId,
+      isBranch: false,
+      plan: attachedPlan,
+      attachments: attachmentContents.map(content => content.attachment),
+      attachmentContents
+    });
+  };
+
+  /**
+   * Attach Files
+   * 
+   * Reads each file's text and uploads it to the user's private attachments
+   * folder. Files are shown in the input area while this runs; unreadable
+   * or unsupported files are shown with their error and are not sent.
+   * 
+   * @param files - Files chosen in the file picker
+   */
+  const attachFiles = (files: File[]) => {
+    const available = MAX_ATTACHMENTS - pendingAttachments.length;
+    if (files.length > available) {
+      setError(`You can attach up to ${MAX_ATTACHMENTS} files to a question.`);
+    }
+
+    files.slice(0, Math.max(available, 0)).forEach(file => {
+      const key = crypto.randomUUID();
+      const validation = storageService.validateAttachment(file);
+
+      setPendingAttachments(prev => [...prev, {
+        key,
+        name: file.name,
+        size: file.size,
+        status: validation.valid ? 'reading' : 'error',
+        error: validation.error
+      }]);
+      if (!validation.valid) return;
+
+      const readAndUpload = async () => {
+        try {
+          const text = await extractAttachmentText(file, file.name);
+          const upload = await storageService.uploadChatAttachment(file);
+          if (!upload.success || !upload.attachment) {
+            throw new Error(upload.error || `Failed to upload ${file.name}`);
+          }
+
+          const attachment = upload.attachment;
+          if (removedAttachmentKeysRef.current.has(key)) {
+            await storageService.deleteChatAttachment(attachment.path);
+            return;
+          }
+
+          setPendingAttachments(prev => prev.map(item =>
+            item.key === key ? { ...item, status: 'ready', attachment, content: { attachment, text } } : item
+          ));
+        } catch (error) {
+          setPendingAttachments(prev => prev.map(item =>
+            item.key === key
+              ? { ...item, status: 'error', error: error instanceof Error ? error.message : `Failed to attach ${file.name}` }
+              : item
+          ));
+        }
+      };
+
+      readAndUpload();
+    });
+  };
+
+  /**
+   * Remove an attachment from the next question and delete its upload
+   */
+  const removeAttachment = (key: string) => {
+    const item = pendingAttachments.find(pending => pending.key === key);
+    setPendingAttachments(prev => prev.filter(pending => pending.key !== key));
+
+    if (item?.attachment) {
+      storageService.deleteChatAttachment(item.attachment.path);
+    } else if (item?.status === 'reading') {
+      // Deleted once its upload finishes
+      removedAttachmentKeysRef.current.add(key);
+    }
+  };
+
+  /**
+   * Send Question
+   * 
+   * Main method for getting AI responses. Streams the answer token-by-token
+   * into a placeholder message and saves the turn after options.parentId.
    * 
    * Process Flow:
-   * 1. Validate input and API configuration
-   * 2. Add user message to conversation
-   * 3. Send request to AI assistant
-   * 4. Add AI response to conversation
-   * 5. Handle errors and loading states
+   * 1. Validate loading state and API configuration
+   * 2. Show the base messages, the user message and an empty streaming assistant message
+   * 3. Fit the history into the token budget, folding older turns into the summary
+   * 4. Attach the selected business plan, matching lesson excerpts and attached files as context
+   * 5. Stream the AI response into the placeholder as chunks arrive
+   * 6. Persist the interaction (complete or partial) with its parent turn, and the summary
+   * 7. Handle errors, aborts and loading states
+   * 
+   * Branches:
+   * - The rolling summary is only used when every summarized turn is part of
+   *   the base messages; otherwise the full base history is sent and any
+   *   summary made for this request is not saved
+   * - A new alternative becomes the conversation's active branch
    * 
    * Error Handling:
    * - API key validation
    * - Network errors
    * - Rate limiting
    * - Invalid responses
+   * - User-initiated stop (partial answer is kept and saved)
    * 
    * State Management:
    * - Updates messages array
-   * - Manages loading state
+   * - Manages loading state and abort controller
    * - Handles error display
-   * - Clears input field
+   * 
+   * @param question - Question to send
+   * @param options - Where the turn goes and how to answer it (see SendOptions)
    */
-  const handleSend = async () => {
-    // Validate input and loading state
-    if (!input.trim() || isLoading || isInitialLoading) return;
+  const sendQuestion = async (question: string, options: SendOptions) => {
+    const { baseMessages, parentId, isBranch, plan, attachments = [], attachmentContents, overrides = {} } = options;
 
-    // Validate API key configuration
-    if (!import.meta.env.VITE_OPENROUTER_API_KEY || import.meta.env.VITE_OPENROUTER_API_KEY === 'your_openrouter_api_key_here') {
-      setError('OpenRouter API key not configured. Please add your API key to the .env file.');
-      return;
-    }
+    // Validate loading state and API configuration
+    if (!canSend()) return;
 
     // Create user message object
     const userMessage: Message = {
       id: Date.now().toString(),
       type: 'user',
-      content: input,
-      timestamp: new Date()
+      content: question,
+      timestamp: new Date(),
+      attachments
     };
 
+    // Placeholder that receives streamed chunks
+    const tempId = `temp-${Date.now()}`;
+    const streamingMessage: Message = {
+      id: tempId,
+      type: 'assistant',
+      content: '',
+      timestamp: new Date(),
+      isStreaming: true
+    };
+
+    // The summary applies if every summarized turn is on this branch
+    const summarizedThrough = memory.summarizedThrough ? new Date(memory.summarizedThrough) : null;
+    const baseTurnIds = new Set(baseMessages.map(msg => msg.turnId));
+    const useMemory = !summarizedThrough || turns.every(turn =>
+      new Date(turn.created_at) > summarizedThrough || baseTurnIds.has(turn.id)
+    );
+
+    // Prior turns not yet covered by the summary, plus the new question
+    const contextSource = [
+      ...baseMessages.filter(msg =>
+        !msg.isStreaming &&
+        !msg.isError &&
+        msg.id !== WELCOME_MESSAGE_ID &&
+        (!useMemory || !summarizedThrough || msg.timestamp > summarizedThrough)
+      ),
+      userMessage
+    ];
+
+    // Convert to API format
+    const chatMessages: ChatMessage[] = contextSource.map(msg => ({
+      role: msg.type === 'user' ? 'user' : 'assistant',
+      content: msg.content
+    }));
+
     // Update UI state
-    setMessages(prev => [...prev, userMessage]);
-    setInput('');
+    const previousMessages = messages;
+    setMessages([...baseMessages, userMessage, streamingMessage]);
+    setEditingTurnId(null);
+    setFocusedTurnId(null);
+    stopReading();
     setIsLoading(true);
     setError(null);
 
-    const startTime = Date.now();
-
-    try {
-      // Convert UI messages to API format
-      const chatMessages: ChatMessage[] = messages
-        .filter(msg => !msg.isStreaming)
-        .map(msg => ({
-          role: msg.type === 'user' ? 'user' : 'assistant',
-          content: msg.content
-        }));
-
-      // Include current user message in context
-      chatMessages.push({
-        role: 'user',
-        content: input
-      });
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
 
-      // Request AI response with full conversation context
-      const response = await businessAssistant.getChatCompletion(chatMessages);
-      const responseTime = Date.now() - startTime;
-
-      // Create AI response message with temporary ID
-      const tempId = `temp-${Date.now()}`;
-      const aiResponse: Message = {
-        id: tempId,
-        type: 'assistant',
-        content: response,
-        timestamp: new Date()
-      };
+    const startTime = Date.now();
+    let partialAnswer = '';
+    
+    // Set when older turns were folded into the summary for this request
+    let updatedMemory: ConversationMemoryState | null = null;
+    
+    // Tokens spent on this turn (summary + answer) and the model that answered
+    let usage: TokenUsage | null = null;
+    let answeredModel = overrides.model ?? businessAssistant.getCurrentModel();
+    const persona = businessAssistant.getCurrentPersona();
+    const temperature = overrides.temperature ?? persona.temperature;
+    let lessonSources: LessonSourceRecord[] = [];
+    let followUps: string[] = [];
+    const toolInvocations: ToolInvocation[] = [];
 
-      // Add AI response to conversation
-      setMessages(prev => [...prev, aiResponse]);
-      
-      // Save to database
+    /**
+     * Persist the interaction and swap the temporary IDs for the database UUID
+     * 
+     * Starts a conversation (titled from this question) if none is open,
+     * then moves the conversation to the top of the list.
+     */
+    const saveInteraction = async (answer: string, messageType: 'interaction' | 'error') => {
       try {
+        let conversationId = activeConversationId;
+        
+        if (!conversationId) {
+          const conversation = await databaseService.createConversation(question);
+          conversationId = conversation.id;
+          setActiveConversationId(conversation.id);
+          setConversations(prev => [conversation, ...prev]);
+        }
+        
         const savedRecord = await databaseService.saveChatHistory({
-          question: input,
-          answer: response,
-          conversation_id: crypto.randomUUID(),
-          message_type: 'interaction',
-          tokens_used: 0, // Would need to get from API response
-          model_used: businessAssistant.getCurrentModel(),
-          response_time_ms: responseTime
+          question,
+          answer,
+          conversation_id: conversationId,
+          message_type: messageType,
+          tokens_used: usage?.totalTokens || 0,
+          prompt_tokens: usage?.promptTokens || 0,
+          completion_tokens: usage?.completionTokens || 0,
+          cost_usd: usage?.cost ?? null,
+          model_used: answeredModel,
+          response_time_ms: Date.now() - startTime,
+          persona_id: persona.id,
+          persona_name: persona.name,
+          business_plan_id: plan?.id ?? null,
+          business_plan_title: plan?.title ?? null,
+          lesson_sources: lessonSources,
+          tool_invocations: toolInvocations,
+          attachments,
+          follow_ups: followUps,
+          parent_id: parentId,
+          temperature
         });
-        
-        // Update the message with the actual database UUID
-        setMessages(prev => 
-          prev.map(msg => 
-            msg.id === tempId 
-              ? { ...msg, id: savedRecord.id }
-              : msg
+
+        // Update the messages with the actual database UUID; use the stored
+        // timestamp so the summary boundary matches after a reload
+        const savedAt = new Date(savedRecord.created_at);
+        setMessages(prev =>
+          prev.map(msg =>
+            msg.id === tempId
+              ? { ...msg, id: savedRecord.id, turnId: savedRecord.id, timestamp: savedAt }
+              : msg.id === userMessage.id
+                ? { ...msg, id: `${savedRecord.id}-question`, turnId: savedRecord.id, timestamp: savedAt }
+                : msg
           )
         );
+        setSpeakingMessageId(current => (current === tempId ? savedRecord.id : current));
+        setTurns(prev => [...prev, savedRecord]);
+        setActiveTurnId(savedRecord.id);
+        
+        // Follow-up questions are found from the active turn; alternatives must be stored
+        if (isBranch) {
+          await databaseService.setActiveTurn(conversationId, savedRecord.id);
+        }
+        
+        if (updatedMemory) {
+          await databaseService.updateConversationSummary(
+            conversationId,
+            updatedMemory.summary,
+            updatedMemory.summarizedThrough
+          );
+        }
+        
+        // Most recently active conversation goes first
+        setConversations(prev => {
+          const current = prev.find(conversation => conversation.id === savedRecord.conversation_id);
+          if (!current) return prev;
+          return [
+            { ...current, last_message_at: savedRecord.created_at },
+            ...prev.filter(conversation => conversation.id !== current.id)
+          ];
+        });
       } catch (dbError) {
         console.error('Failed to save chat to database:', dbError);
         // Don't show error to user, just log it
       }
+    };
+
+    try {
+      // Keep recent turns verbatim and summarize the rest; look up matching lessons
+      // and read stored attachments again (regenerate/edit) meanwhile
+      const [context, lessonContext, attachedFiles] = await Promise.all([
+        businessAssistant.prepareContext(chatMessages, useMemory ? memory.summary : ''),
+        businessAssistant.retrieveLessonContext(question),
+        attachmentContents ?? readStoredAttachments(attachments)
+      ]);
+      usage = context.usage;
+      lessonSources = lessonContext?.sources || [];
+      if (context.foldedCount > 0 && useMemory) {
+        updatedMemory = {
+          summary: context.summary,
+          summarizedThrough: contextSource[context.foldedCount - 1].timestamp.toISOString()
+        };
+        setMemory(updatedMemory);
+      }
+
+      // Ground the answer in the attached plan (inputs + sections relevant to the question),
+      // in matching lesson excerpts and in the attached files
+      const requestMessages = [
+        ...(plan ? [buildPlanContextMessage(plan, question)] : []),
+        ...(lessonContext ? [lessonContext.message] : []),
+        ...(attachedFiles.length > 0 ? [buildAttachmentContextMessage(attachedFiles)] : []),
+        ...context.messages
+      ];
+
+      // Stream AI response with the prepared context
+      const response = await businessAssistant.streamChatCompletion(
+        requestMessages,
+        (content) => {
+          partialAnswer = content;
+          setMessages(prev =>
+            prev.map(msg =>
+              msg.id === tempId ? { ...msg, content } : msg
+            )
+          );
+        },
+        abortController.signal,
+        (invocation) => {
+          // Show each tool call in the transcript as soon as it has run
+          toolInvocations.push(invocation);
+          setMessages(prev =>
+            prev.map(msg =>
+              msg.id === tempId ? { ...msg, toolInvocations: [...toolInvocations] } : msg
+            )
+          );
+        },
+        overrides
+      );
+
+      // Finalize the streamed message
+      setMessages(prev =>
+        prev.map(msg =>
+          msg.id === tempId
+            ? { ...msg, content: response.content, isStreaming: false, model: response.model, personaName: persona.name, planTitle: plan?.title, lessonSources, followUps: response.followUps }
+            : msg
+        )
+      );
+
+      // Hands-free: read the answer as soon as it is complete
+      if (voicePreferences.hands_free) {
+        readAloud(tempId, response.content);
+      }
+
+      usage = addUsage(usage, response.usage);
+      answeredModel = response.model;
+      followUps = response.followUps;
+      await saveInteraction(response.content, 'interaction');
     } catch (error) {
+      const wasStopped = error instanceof DOMException && error.name === 'AbortError';
+
+      if (partialAnswer || toolInvocations.length > 0) {
+        // Keep the partial answer visible and persist it
+        setMessages(prev =>
+          prev.map(msg =>
+            msg.id === tempId
+              ? { ...msg, content: partialAnswer, isStreaming: false }
+              : msg
+          )
+        );
+        await saveInteraction(partialAnswer, wasStopped ? 'interaction' : 'error');
+      } else {
+        // Nothing was generated - drop the empty placeholder (and go back to
+        // the branch on screen when this was an alternative)
+        setMessages(prev => isBranch ? previousMessages : prev.filter(msg => msg.id !== tempId));
+      }
+
+      if (wasStopped) return;
+
       console.error('AI Assistant Error:', error);
       setError(error instanceof Error ? error.message : 'Failed to get AI response');
-      
-      // Add error message to conversation for user visibility
-      const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        type: 'assistant',
-        content: "I apologize, but I'm having trouble connecting to the AI service right now. Please check your API configuration and try again.",
-        timestamp: new Date()
-      };
-      setMessages(prev => [...prev, errorMessage]);
+
+      if (!partialAnswer) {
+        // Add error message to conversation for user visibility
+        const errorMessage: Message = {
+          id: (Date.now() + 1).toString(),
+          type: 'assistant',
+          content: error instanceof QuotaExceededError
+            ? error.message
+            : "I apologize, but I'm having trouble connecting to the AI service right now. Please check your API configuration and try again.",
+          timestamp: new Date(),
+          isError: true
+        };
+        setMessages(prev => [...prev, errorMessage]);
+      }
     } finally {
       // Always clear loading state
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
   };
 
+  /**
+   * Regenerate Answer
+   * 
+   * Asks a turn's question again as an alternative to the turn, with the
+   * business plan and files it was asked with and optional model/temperature
+   * overrides.
+   * 
+   * @param turnId - Turn to regenerate
+   * @param overrides - Model and temperature for the new answer
+   */
+  const regenerateAnswer = (turnId: string, overrides: GenerationOverrides) => {
+    const turn = turns.find(record => record.id === turnId);
+    const index = messages.findIndex(msg => msg.turnId === turnId);
+    if (!turn || index === -1) return;
+
+    sendQuestion(turn.question, {
+      baseMessages: messages.slice(0, index),
+      parentId: turn.parent_id,
+      isBranch: true,
+      plan: businessPlans.find(businessPlan => businessPlan.id === turn.business_plan_id) ?? null,
+      attachments: turn.attachments || [],
+      overrides
+    });
+  };
+
+  /**
+   * Start Editing Question
+   * 
+   * @param message - User message to edit in place
+   */
+  const startEditing = (message: Message) => {
+    if (!message.turnId) return;
+    setEditingTurnId(message.turnId);
+    setEditDraft(message.content);
+  };
+
+  /**
+   * Resend Edited Question
+   * 
+   * Sends the edited question (with the original's attached files) as an
+   * alternative to the edited turn; the original question and everything
+   * after it stay available as a branch.
+   */
+  const resendEditedQuestion = () => {
+    const question = editDraft.trim();
+    const turn = turns.find(record => record.id === editingTurnId);
+    const index = messages.findIndex(msg => msg.turnId === editingTurnId);
+    if (!question || !turn || index === -1) return;
+
+    sendQuestion(question, {
+      baseMessages: messages.slice(0, index),
+      parentId: turn.parent_id,
+      isBranch: true,
+      plan: businessPlans.find(businessPlan => businessPlan.id === turn.business_plan_id) ?? null,
+      attachments: turn.attachments || []
+    });
+  };
+
+  /**
+   * Switch Branch
+   * 
+   * Shows another alternative of a turn, continued to its latest follow-up,
+   * and remembers it as the conversation's active branch.
+   * 
+   * @param turnId - Alternative to show
+   */
+  const switchBranch = async (turnId: string) => {
+    if (isLoading || !activeConversationId) return;
+
+    const leafId = findLatestLeaf(turns, turnId);
+    setMessages(toUiMessages(buildBranchPath(turns, leafId), bookmarkedChatIds));
+    setActiveTurnId(leafId);
+    setEditingTurnId(null);
+    setFocusedTurnId(null);
+
+    try {
+      await databaseService.setActiveTurn(activeConversationId, leafId);
+    } catch (error) {
+      console.error('Error saving active branch:', error);
+      // The branch is still shown; it is just not restored after a reload
+    }
+  };
+
+  /**
+   * Stop Generation
+   * 
+   * Aborts the in-flight streaming request. The partial answer received
+   * so far stays in the conversation and is saved by handleSend.
+   */
+  const stopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
   /**
    * Toggle Message Bookmark
    * 
@@ -348,6 +1250,17 @@ export default function AIAssistant() {
       // Update database using new bookmarks system
       const isNowBookmarked = await databaseService.toggleBookmark('chat', messageId);
       
+      // Remember it for branches rebuilt from turns
+      setBookmarkedChatIds(prev => {
+        const next = new Set(prev);
+        if (isNowBookmarked) {
+          next.add(messageId);
+        } else {
+          next.delete(messageId);
+        }
+        return next;
+      });
+      
       // Ensure local state matches database state
       setMessages(prev =>
         prev.map(msg =>
@@ -371,66 +1284,191 @@ export default function AIAssistant() {
   };
 
   /**
-   * Clear Conversation
+   * Clear All History
    * 
-   * Resets the conversation to initial state with welcome message.
-   * Useful for starting fresh conversations or clearing sensitive data.
+   * Moves every conversation to the trash and resets the chat to the
+   * welcome message, with an undo toast. Useful for clearing sensitive data.
    * 
    * Resets:
    * - Messages array to initial welcome message
+   * - Conversation list and active conversation
    * - Error state
    * - Clears database history
    */
   const clearConversation = async () => {
     try {
-      await databaseService.clearAllChatHistory();
-      setMessages([
-        {
-          id: '1',
-          type: 'assistant',
-          content: "Hello! I'm your AI business assistant powered by BizGenius. I can help you with marketing strategies, financial planning, operations management, business strategy, and more. What business challenge can I help you solve today?",
-          timestamp: new Date()
-        }
-      ]);
+      const deletedAt = await databaseService.clearAllChatHistory();
+      resetConversation();
+      setConversations([]);
       setError(null);
+      
+      showUndo('Chat history moved to trash', async () => {
+        await databaseService.restoreChatHistory(deletedAt);
+        setConversations(await databaseService.listConversations());
+      });
     } catch (error) {
       console.error('Error clearing conversation:', error);
       setError('Failed to clear conversation');
     }
   };
 
+  // Starter questions for an empty chat
+  const useProfileStarters = conversations.length === 0 && profileStarterQuestions.length > 0;
+  const starterQuestions = useProfileStarters ? profileStarterQuestions : selectedPersona.starterQuestions;
+
+  // Follow-ups of the last answer on screen
+  const lastMessage = messages[messages.length - 1];
+  const latestFollowUps = lastMessage?.type === 'assistant' && !lastMessage.isStreaming
+    ? lastMessage.followUps || []
+    : [];
+
+  /**
+   * Read Aloud
+   * 
+   * Reads an answer (as plain text) with the chosen voice and speed,
+   * replacing anything being read.
+   * 
+   * @param messageId - Message shown as being read
+   * @param content - Markdown answer
+   */
+  const readAloud = (messageId: string, content: string) => {
+    const speechId = ++speechIdRef.current;
+    const started = speak(markdownToPlainText(content), {
+      voiceURI: voicePreferences.voice_uri,
+      rate: voicePreferences.rate,
+      onEnd: () => {
+        if (speechIdRef.current === speechId) setSpeakingMessageId(null);
+      }
+    });
+    if (started) setSpeakingMessageId(messageId);
+  };
+
+  /**
+   * Stop reading aloud
+   */
+  const stopReading = () => {
+    speechIdRef.current++;
+    stopSpeaking();
+    setSpeakingMessageId(null);
+  };
+
+  /**
+   * Change voice settings; saved to the profile shortly after the last change
+   */
+  const updateVoicePreferences = (updates: VoicePreferences) => {
+    const next = { ...voicePreferences, ...updates };
+    setVoicePreferences(next);
+
+    if (voiceSaveTimerRef.current) clearTimeout(voiceSaveTimerRef.current);
+    voiceSaveTimerRef.current = setTimeout(() => {
+      databaseService.saveVoicePreferences(next).catch(error => {
+        console.error('Error saving voice preferences:', error);
+      });
+    }, 500);
+  };
+
   /**
-   * Export Conversation
+   * Dictation: text heard so far is appended to what was already typed
+   */
+  const handleDictationStart = () => {
+    stopReading();
+    setError(null);
+    dictationBaseRef.current = input.trim();
+  };
+
+  const handleDictationTranscript = (transcript: string) => {
+    setInput([dictationBaseRef.current, transcript].filter(Boolean).join(' '));
+  };
+
+  /**
+   * Dictation ended; hands-free mode sends the question right away
+   */
+  const handleDictationFinish = (transcript: string) => {
+    if (!voicePreferences.hands_free || !transcript.trim()) return;
+    handleSend([dictationBaseRef.current, transcript].filter(Boolean).join(' '));
+  };
+
+  /**
+   * Copy Message
    * 
-   * Generates a downloadable text file of the entire conversation.
-   * Useful for record-keeping, sharing, or further analysis.
+   * Copies an answer to the clipboard as plain text (Markdown converted).
+   */
+  const copyMessage = async (message: Message) => {
+    try {
+      await navigator.clipboard.writeText(markdownToPlainText(message.content));
+      setCopiedMessageId(message.id);
+      setTimeout(() => setCopiedMessageId(current => (current === message.id ? null : current)), 2000);
+    } catch (error) {
+      console.error('Error copying message:', error);
+      setError('Failed to copy to clipboard');
+    }
+  };
+
+  /**
+   * Export Chats
    * 
-   * Format:
-   * - Plain text format
-   * - Clear speaker identification
-   * - Chronological order
-   * - Timestamped filename
+   * Downloads the open conversation or the whole chat history with
+   * timestamps, models and the user's notes on each turn.
    * 
-   * Enhancement Opportunities:
-   * - Add PDF export option
-   * - Include conversation metadata
-   * - Support for different export formats
-   * - Email sharing functionality
+   * @param scope - Open conversation or all history
+   * @param format - Markdown, JSON (importable) or PDF
    */
-  const exportConversation = () => {
-    // Format conversation as readable text
-    const conversationText = messages
-      .map(msg => `${msg.type === 'user' ? 'You' : 'AI Assistant'}: ${msg.content}`)
-      .join('\n\n');
+  const exportChats = async (scope: ChatExportScope, format: ChatExportFormat) => {
+    if (scope === 'conversation' && !activeConversationId) return;
     
-    // Create and download file
-    const blob = new Blob([conversationText], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `business-consultation-${new Date().toISOString().split('T')[0]}.txt`;
-    a.click();
-    URL.revokeObjectURL(url);
+    try {
+      setIsTransferring(true);
+      setError(null);
+      
+      const date = new Date().toISOString().split('T')[0];
+      if (scope === 'conversation' && activeConversationId) {
+        const file = await buildConversationExport(activeConversationId);
+        downloadChatExport(file, format, `business-consultation-${date}`);
+      } else {
+        const file = await buildHistoryExport();
+        downloadChatExport(file, format, `bizgenius-chat-history-${date}`);
+      }
+    } catch (error) {
+      console.error('Error exporting chats:', error);
+      setError('Failed to export chat history');
+    } finally {
+      setIsTransferring(false);
+    }
+  };
+
+  /**
+   * Import Chats
+   * 
+   * Imports the conversations of a JSON export into this account and opens
+   * the first of them.
+   * 
+   * @param file - JSON file chosen by the user
+   */
+  const importChats = async (file: File) => {
+    try {
+      setIsTransferring(true);
+      setError(null);
+      
+      const exportFile = parseChatExport(await file.text());
+      const result = await importChatExport(exportFile);
+      
+      if (result.failed > 0) {
+        setError(`${result.failed} of ${exportFile.conversations.length} conversations could not be imported`);
+      }
+      
+      if (result.conversations.length > 0) {
+        setConversations(await databaseService.listConversations());
+        const imported = result.conversations[0];
+        const loaded = await loadConversationMessages(imported.id);
+        setActiveConversationId(imported.id);
+        applyConversation(loaded);
+      }
+    } catch (error) {
+      console.error('Error importing chats:', error);
+      setError(error instanceof Error ? error.message : 'Failed to import chat history');
+    } finally {
+      setIsTransferring(false);
+    }
   };
 
   /**
@@ -482,8 +1520,21 @@ export default function AIAssistant() {
    */
   return (
     <div className="h-full flex bg-gray-50">
+      {/* Conversations Sidebar - always visible from md:, toggled on mobile */}
+      {!isInitialLoading && (
+        <ConversationsPanel
+          conversations={conversations}
+          activeConversationId={activeConversationId}
+          onSelect={selectConversation}
+          onNewConversation={startNewConversation}
+          onRename={renameConversation}
+          onDelete={deleteConversation}
+          className={`${showConversations ? 'flex' : 'hidden'} md:flex w-64 flex-shrink-0`}
+        />
+      )}
+
       {/* Main Chat Area */}
-      <div className="flex-1 flex flex-col">
+      <div className="flex-1 flex flex-col min-w-0">
       {/* Initial Loading State */}
       {isInitialLoading && (
         <div className="flex-1 flex items-center justify-center">
@@ -509,17 +1560,54 @@ export default function AIAssistant() {
             </div>
           </div>
           
-          {/* Action buttons - Export and Clear */}
+          {/* Action buttons - Persona, Model, Conversations, Export and Clear */}
           <div className="flex items-center space-x-1 sm:space-x-2">
-            {/* Export conversation button */}
+            {/* Persona picker */}
+            <PersonaSelector
+              personas={personas}
+              value={selectedPersona.id}
+              onChange={changePersona}
+              disabled={isLoading}
+              align="right"
+            />
+            
+            {/* Model picker */}
+            <ModelSelector
+              value={selectedModel}
+              onChange={changeModel}
+              loadModels={() => businessAssistant.getAvailableModels()}
+              disabled={isLoading}
+              align="right"
+            />
+            
+            {/* Conversations toggle button (mobile only) */}
             <button
-              onClick={exportConversation}
-              className="px-2 py-2 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors sm:px-3 sm:text-sm"
+              onClick={() => setShowConversations(!showConversations)}
+              className={`md:hidden px-2 py-2 text-xs font-medium border rounded-md transition-colors ${
+                showConversations
+                  ? 'text-blue-700 bg-blue-50 border-blue-300'
+                  : 'text-gray-700 bg-white border-gray-300 hover:bg-gray-50'
+              }`}
+              aria-label="Show conversations"
             >
-              <Download className="h-4 w-4 sm:mr-2 inline" />
-              <span className="hidden sm:inline">Export</span>
+              <MessageSquare className="h-4 w-4" />
             </button>
             
+            {/* Read-aloud and hands-free settings */}
+            <VoiceSettingsMenu
+              preferences={voicePreferences}
+              onChange={updateVoicePreferences}
+            />
+            
+            {/* Export and import menu */}
+            <ChatExportMenu
+              onExport={exportChats}
+              onImport={importChats}
+              canExportConversation={Boolean(activeConversationId)}
+              isBusy={isTransferring}
+              disabled={isLoading}
+            />
+            
             {/* Clear conversation button */}
             <button
               onClick={clearConversation}
@@ -556,12 +1644,35 @@ export default function AIAssistant() {
         </div>
       )}
 
+      {/* Conversation Memory - summary of turns folded out of the context window */}
+      {!isInitialLoading && !isConversationLoading && activeConversationId && memory.summary && (
+        <ConversationMemory
+          summary={memory.summary}
+          onSave={saveMemory}
+          disabled={isLoading}
+        />
+      )}
+
       {/* Messages Container - Scrollable conversation area */}
-      {!isInitialLoading && (
+      {!isInitialLoading && isConversationLoading && (
+        <div className="flex-1 flex items-center justify-center">
+          <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+        </div>
+      )}
+      
+      {!isInitialLoading && !isConversationLoading && (
         <div className="flex-1 overflow-auto p-3 space-y-4 sm:p-6">
-        {messages.map((message) => (
+        {messages.filter(message => !(message.isStreaming && !message.content && !message.toolInvocations?.length)).map((message) => {
+          // Alternatives of this turn (regenerated answers, edited questions)
+          const turnId = message.turnId;
+          const branch = message.type === 'assistant' && turnId ? getBranchPosition(turns, turnId) : null;
+          const isEditing = message.type === 'user' && Boolean(message.turnId) && message.turnId === editingTurnId;
+          const isFocused = Boolean(turnId) && turnId === focusedTurnId;
+
+          return (
           <div
             key={message.id}
+            id={`message-${message.id}`}
             className={`flex ${message.type === 'user' ? 'justify-end' : 'justify-start'}`}
           >
             {/* Message bubble with avatar and content */}
@@ -582,39 +1693,236 @@ export default function AIAssistant() {
                 message.type === 'user'
                   ? 'bg-blue-600 text-white'
                   : 'bg-white border border-gray-200'
-              }`}>
-                {/* Message text with proper formatting */}
-                <p className="text-sm leading-relaxed whitespace-pre-wrap">{message.content}</p>
+              } ${isFocused ? 'ring-2 ring-yellow-400 ring-offset-2' : ''}`}>
+                {/* Message text: questions as typed, answers rendered from Markdown */}
+                {isEditing ? (
+                  <div className="space-y-2">
+                    <textarea
+                      value={editDraft}
+                      onChange={(e) => setEditDraft(e.target.value)}
+                      rows={3}
+                      autoFocus
+                      className="w-full min-w-[16rem] px-2 py-1.5 text-sm text-gray-900 bg-white border border-blue-300 rounded-md focus:ring-2 focus:ring-white focus:border-transparent resize-y"
+                    />
+                    <div className="flex justify-end space-x-2">
+                      <button
+                        onClick={() => setEditingTurnId(null)}
+                        className="px-3 py-1 text-xs font-medium text-blue-100 hover:text-white transition-colors"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={resendEditedQuestion}
+                        disabled={!editDraft.trim() || isLoading}
+                        className="px-3 py-1 text-xs font-medium text-blue-700 bg-white rounded-md hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                      >
+                        Save &amp; send
+                      </button>
+                    </div>
+                  </div>
+                ) : message.type === 'user' ? (
+                  <>
+                    <p className="text-sm leading-relaxed whitespace-pre-wrap">{message.content}</p>
+                    {message.attachments && message.attachments.length > 0 && (
+                      <AttachmentList
+                        variant="question"
+                        items={message.attachments.map(attachment => ({
+                          key: attachment.path,
+                          name: attachment.name,
+                          size: attachment.size,
+                          attachment
+                        }))}
+                      />
+                    )}
+                  </>
+                ) : (
+                  <div className="text-sm leading-relaxed text-gray-900">
+                    {message.toolInvocations && message.toolInvocations.length > 0 && (
+                      <ToolInvocationList invocations={message.toolInvocations} />
+                    )}
+                    <MarkdownContent content={message.content} />
+                    {message.isStreaming && (
+                      <span className="inline-block w-2 h-4 mt-1 bg-blue-600 animate-pulse" />
+                    )}
+                  </div>
+                )}
+                
+                {/* Plan sections the answer cites */}
+                {message.type === 'assistant' && message.planTitle && !message.isStreaming && (
+                  <div className="flex flex-wrap items-center gap-1 mt-2 pt-2 border-t border-gray-100">
+                    <span className="inline-flex items-center text-xs text-gray-500 mr-1" title="Business plan attached as context">
+                      <FileText className="h-3 w-3 mr-1" />
+                      {message.planTitle}
+                    </span>
+                    {extractPlanCitations(message.content).map(section => (
+                      <span
+                        key={section}
+                        className="px-2 py-0.5 text-xs text-emerald-800 bg-emerald-50 border border-emerald-200 rounded-full"
+                      >
+                        {section}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                
+                {/* Lessons retrieved for the answer */}
+                {message.type === 'assistant' && message.lessonSources && message.lessonSources.length > 0 && !message.isStreaming && (
+                  <div className="mt-2 pt-2 border-t border-gray-100">
+                    <p className="flex items-center text-xs font-medium text-gray-500 mb-1">
+                      <GraduationCap className="h-3 w-3 mr-1" />
+                      Related lessons
+                    </p>
+                    <ul className="space-y-0.5">
+                      {message.lessonSources.map(source => (
+                        <li key={source.lesson_id} className="text-xs">
+                          <Link to={getLessonPath(source.lesson_id)} className="text-blue-600 hover:text-blue-700 hover:underline">
+                            {source.lesson_title}
+                          </Link>
+                          <span className="text-gray-500"> · {source.course_title}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
                 
-                {/* Message metadata - timestamp and bookmark */}
+                {/* Message metadata - timestamp, branches and actions */}
                 <div className="flex items-center justify-between mt-2">
                   <p className={`text-xs ${
                     message.type === 'user' ? 'text-blue-100' : 'text-gray-500'
                   }`}>
                     {message.timestamp.toLocaleTimeString()}
+                    {message.type === 'assistant' && message.personaName && !message.isStreaming && (
+                      <span title="Persona that answered"> · {message.personaName}</span>
+                    )}
+                    {message.type === 'assistant' && message.model && !message.isStreaming && (
+                      <span title="Model that answered"> · {message.model}</span>
+                    )}
                   </p>
                   
-                  {/* Bookmark button for assistant messages */}
-                  {message.type === 'assistant' && (
+                  {/* Edit button for saved questions */}
+                  {message.type === 'user' && message.turnId && !isEditing && !isLoading && (
                     <button
-                      onClick={() => toggleBookmark(message.id)}
-                      className={`p-1 rounded ${
-                        message.bookmarked
-                          ? 'text-amber-500 hover:text-amber-600'
-                          : 'text-gray-400 hover:text-gray-600'
-                      } transition-colors`}
+                      onClick={() => startEditing(message)}
+                      className="p-1 rounded text-blue-200 hover:text-white transition-colors"
+                      aria-label="Edit and resend question"
+                      title="Edit and resend"
                     >
-                      <Bookmark className="h-4 w-4" fill={message.bookmarked ? 'currentColor' : 'none'} />
+                      <Pencil className="h-3.5 w-3.5" />
                     </button>
                   )}
+                  
+                  {/* Branch switcher, regenerate, copy and bookmark buttons for assistant messages */}
+                  {message.type === 'assistant' && !message.isStreaming && (
+                    <div className="flex items-center space-x-1">
+                      {branch && branch.siblings.length > 1 && (
+                        <div className="flex items-center text-xs text-gray-500" aria-label="Answer versions">
+                          <button
+                            onClick={() => switchBranch(branch.siblings[branch.index - 1].id)}
+                            disabled={branch.index === 0 || isLoading}
+                            className="p-0.5 rounded hover:text-gray-700 disabled:opacity-30 disabled:cursor-not-allowed"
+                            aria-label="Previous version"
+                          >
+                            <ChevronLeft className="h-4 w-4" />
+                          </button>
+                          <span>{branch.index + 1}/{branch.siblings.length}</span>
+                          <button
+                            onClick={() => switchBranch(branch.siblings[branch.index + 1].id)}
+                            disabled={branch.index === branch.siblings.length - 1 || isLoading}
+                            className="p-0.5 rounded hover:text-gray-700 disabled:opacity-30 disabled:cursor-not-allowed"
+                            aria-label="Next version"
+                          >
+                            <ChevronRight className="h-4 w-4" />
+                          </button>
+                        </div>
+                      )}
+                      {turnId && (
+                        <RegenerateMenu
+                          defaultModel={message.model || selectedModel}
+                          defaultTemperature={selectedPersona.temperature}
+                          loadModels={() => businessAssistant.getAvailableModels()}
+                          onRegenerate={(overrides) => regenerateAnswer(turnId, overrides)}
+                          disabled={isLoading}
+                        />
+                      )}
+                      {canReadAloud && (
+                        <button
+                          onClick={() => speakingMessageId === message.id ? stopReading() : readAloud(message.id, message.content)}
+                          className={`p-1 rounded transition-colors ${
+                            speakingMessageId === message.id ? 'text-blue-600 hover:text-blue-700' : 'text-gray-400 hover:text-gray-600'
+                          }`}
+                          aria-label={speakingMessageId === message.id ? 'Stop reading aloud' : 'Read aloud'}
+                          title={speakingMessageId === message.id ? 'Stop reading aloud' : 'Read aloud'}
+                        >
+                          {speakingMessageId === message.id ? <VolumeX className="h-4 w-4" /> : <Volume2 className="h-4 w-4" />}
+                        </button>
+                      )}
+                      <button
+                        onClick={() => copyMessage(message)}
+                        className="p-1 rounded text-gray-400 hover:text-gray-600 transition-colors"
+                        aria-label="Copy answer as plain text"
+                      >
+                        {copiedMessageId === message.id ? <Check className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
+                      </button>
+                      <button
+                        onClick={() => toggleBookmark(message.id)}
+                        className={`p-1 rounded ${
+                          message.bookmarked
+                            ? 'text-amber-500 hover:text-amber-600'
+                            : 'text-gray-400 hover:text-gray-600'
+                        } transition-colors`}
+                      >
+                        <Bookmark className="h-4 w-4" fill={message.bookmarked ? 'currentColor' : 'none'} />
+                      </button>
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
           </div>
-        ))}
+          );
+        })}
         
-        {/* Loading indicator while AI is responding */}
-        {isLoading && (
+        {/* Starter questions in an empty chat: tailored to the profile until the
+            first conversation, otherwise the selected persona's */}
+        {!isLoading && messages.every(msg => msg.id === WELCOME_MESSAGE_ID) && starterQuestions.length > 0 && (
+          <div className="pl-8 sm:pl-11">
+            <p className="text-xs font-medium text-gray-500 mb-2">
+              {useProfileStarters ? 'Suggested for you:' : `Try asking the ${selectedPersona.name}:`}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {starterQuestions.map(starterQuestion => (
+                <button
+                  key={starterQuestion}
+                  onClick={() => handleSend(starterQuestion)}
+                  className="px-3 py-1.5 text-xs text-left text-blue-700 bg-blue-50 border border-blue-200 rounded-full hover:bg-blue-100 transition-colors sm:text-sm"
+                >
+                  {starterQuestion}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+        
+        {/* Follow-up questions suggested with the latest answer */}
+        {!isLoading && latestFollowUps.length > 0 && (
+          <div className="pl-8 sm:pl-11">
+            <p className="text-xs font-medium text-gray-500 mb-2">Suggested follow-ups:</p>
+            <div className="flex flex-wrap gap-2">
+              {latestFollowUps.map(followUp => (
+                <button
+                  key={followUp}
+                  onClick={() => handleSend(followUp)}
+                  className="px-3 py-1.5 text-xs text-left text-blue-700 bg-blue-50 border border-blue-200 rounded-full hover:bg-blue-100 transition-colors sm:text-sm"
+                >
+                  {followUp}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+        
+        {/* Loading indicator until the first streamed chunk arrives */}
+        {isLoading && !messages.some(msg => msg.isStreaming && (msg.content || msg.toolInvocations?.length)) && (
           <div className="flex justify-start">
             <div className="flex space-x-2 max-w-full sm:space-x-3 sm:max-w-3xl">
               <div className="w-6 h-6 rounded-full bg-gray-200 flex items-center justify-center sm:w-8 sm:h-8">
@@ -638,7 +1946,43 @@ export default function AIAssistant() {
       {/* Input Section - Message composition area */}
       {!isInitialLoading && (
         <div className="bg-white border-t border-gray-200 p-3 sm:p-6">
+        {/* Business plan context for following questions */}
+        <div className="mb-2">
+          <PlanContextSelector
+            plans={businessPlans}
+            value={attachedPlan}
+            onChange={setAttachedPlan}
+            disabled={isLoading}
+          />
+        </div>
+        
+        {/* Files attached to the next question */}
+        <AttachmentList items={pendingAttachments} onRemove={removeAttachment} />
+        
         <div className="flex space-x-2 sm:space-x-4">
+          {/* File attachments (text is read in the browser) */}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ATTACHMENT_ACCEPT}
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              attachFiles(Array.from(e.target.files || []));
+              e.target.value = '';
+            }}
+          />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isLoading || pendingAttachments.length >= MAX_ATTACHMENTS}
+            className="px-3 py-2 bg-white border border-gray-300 text-gray-600 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors sm:px-4 sm:py-3"
+            aria-label="Attach files"
+            title="Attach PDF, DOCX, CSV, XLSX or TXT files (up to 3, 10MB each)"
+          >
+            <Paperclip className="h-4 w-4 sm:h-5 sm:w-5" />
+          </button>
+          
           {/* Auto-resizing textarea for user input */}
           <textarea
             value={input}
@@ -656,23 +2000,39 @@ export default function AIAssistant() {
             }}
           />
           
-          {/* Send button with loading state */}
-          <button
-            onClick={handleSend}
-            disabled={!input.trim() || isLoading || isInitialLoading}
-            className="px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors sm:px-6 sm:py-3"
-          >
-            {isLoading ? (
-              <Loader2 className="h-4 w-4 animate-spin sm:h-5 sm:w-5" />
-            ) : (
+          {/* Push-to-talk dictation */}
+          <DictationButton
+            onStart={handleDictationStart}
+            onTranscript={handleDictationTranscript}
+            onFinish={handleDictationFinish}
+            onError={setError}
+            disabled={isLoading || isInitialLoading}
+          />
+          
+          {/* Stop button while streaming, send button otherwise */}
+          {isLoading ? (
+            <button
+              onClick={stopGeneration}
+              className="px-3 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 focus:ring-2 focus:ring-red-500 focus:ring-offset-2 transition-colors flex items-center sm:px-6 sm:py-3"
+              aria-label="Stop generating"
+            >
+              <Square className="h-4 w-4 sm:h-5 sm:w-5" fill="currentColor" />
+              <span className="hidden sm:inline sm:ml-2 text-sm font-medium">Stop</span>
+            </button>
+          ) : (
+            <button
+              onClick={() => handleSend()}
+              disabled={!input.trim() || isInitialLoading}
+              className="px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors sm:px-6 sm:py-3"
+            >
               <Send className="h-4 w-4 sm:h-5 sm:w-5" />
-            )}
-          </button>
+            </button>
+          )}
         </div>
         
         {/* Usage instructions */}
         <p className="text-xs text-gray-500 mt-2 text-center">
-          Press Enter to send, Shift+Enter for new line
+          Press Enter to send, Shift+Enter for new line{voicePreferences.hands_free ? ' · Hands-free: hold the mic, release to send' : ''}
         </p>
       </div>
       )}
@@ -1,5 +1,6 @@
 import React from 'react';
 import { useProgress } from '../contexts/ProgressContext';
+import AIUsagePanel from '../components/AIUsagePanel';
 import { 
   TrendingUp, 
   BookOpen, 
@@ -152,6 +153,9 @@ export default function Analytics() {
         </div>
       </div>
 
+      {/* AI Usage - tokens, cost by model and slowest responses */}
+      <AIUsagePanel />
+
       {/* Achievements and Goals */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
         {/* Recent Achievements */}
@@ -5,12 +5,16 @@
  * It handles plan generation, viewing, editing, and AI-powered modifications.
  * 
  * Key Features:
- * - AI-powered business plan generation using OpenRouter
+ * - AI-powered business plan generation using OpenRouter, section by section
+ *   with live progress and retry of failed sections
  * - Professional form with industry-specific inputs
  * - Plan viewing with structured sections
  * - Direct editing capabilities
  * - AI-powered plan modifications
- * - Export functionality (PDF, Word)
+ * - Section-level AI actions (regenerate, expand, shorten, make more
+ *   conservative, rewrite for an audience) reviewed as a diff
+ * - Version history of every save, with diffs and one-click restore
+ * - Export functionality (formatted PDF, Word .docx)
  * - Plan management (view, edit, delete)
  * - Mobile-first responsive design
  * 
@@ -39,9 +43,91 @@
  * @version 1.0.0
  */
 import React, { useState, useEffect } from 'react';
-import { FileText, Download, Plus, Eye, Edit, Trash2, Loader2, AlertCircle, MessageSquare } from 'lucide-react';
-import { businessPlanGenerator, type BusinessPlanInput, type GeneratedBusinessPlan } from '../lib/businessPlanGenerator';
-import { databaseService, type BusinessPlanRecord } from '../lib/database';
+import { FileText, Download, Plus, Eye, Edit, Trash2, Loader2, AlertCircle, MessageSquare, History } from 'lucide-react';
+import {
+  businessPlanGenerator,
+  getMissingPlanSections,
+  insertPlanSection,
+  findPlanSection,
+  type BusinessPlanInput,
+  type BusinessPlanSection,
+  type GeneratedBusinessPlan,
+  type PlanSectionProgress,
+  type SectionAction
+} from '../lib/businessPlanGenerator';
+import {
+  databaseService,
+  type BusinessPlanRecord,
+  type BusinessPlanContentUpdate,
+  type BusinessPlanVersionRecord,
+  type PlanVersionChange
+} from '../lib/database';
+import { useUndo } from '../contexts/useUndo';
+import { useAuth } from '../contexts/AuthContext';
+import ModelSelector from '../components/ModelSelector';
+import MarkdownContent from '../components/MarkdownContent';
+import PlanGenerationProgress from '../components/PlanGenerationProgress';
+import SectionActionsMenu from '../components/SectionActionsMenu';
+import SectionDiff from '../components/SectionDiff';
+import PlanVersionHistory from '../components/PlanVersionHistory';
+
+/**
+ * Section Revision
+ * 
+ * New version of one plan section from a section action, waiting for the
+ * user to accept or discard it. The revised section is found again by its
+ * position and original content, so it can't replace a section that has
+ * changed or moved since.
+ */
+interface SectionRevision {
+  planId: string;
+  index: number;
+  original: BusinessPlanSection;
+  label: string;
+  section: BusinessPlanSection;
+  model: string;
+}
+
+/**
+ * Change summary of a manual edit, e.g. "Renamed the plan; edited Market Analysis"
+ * 
+ * @returns string | null - Summary, or null when nothing changed
+ */
+const describeManualEdit = (before: BusinessPlanRecord, after: BusinessPlanRecord): string | null => {
+  const changes: string[] = [];
+  if (before.title !== after.title) {
+    changes.push('renamed the plan');
+  }
+
+  const editedSections = after.generated_plan
+    .filter((section, index) =>
+      section.title !== before.generated_plan[index]?.title || section.content !== before.generated_plan[index]?.content
+    )
+    .map(section => section.title);
+  if (editedSections.length > 3) {
+    changes.push(`edited ${editedSections.slice(0, 3).join(', ')} and ${editedSections.length - 3} more sections`);
+  } else if (editedSections.length > 0) {
+    changes.push(`edited ${editedSections.join(', ')}`);
+  }
+
+  if (changes.length === 0) return null;
+  const summary = changes.join('; ');
+  return summary.charAt(0).toUpperCase() + summary.slice(1);
+};
+
+/**
+ * Business details of a saved plan, as given to the generator
+ */
+const toPlanInput = (plan: BusinessPlanRecord): BusinessPlanInput => ({
+  businessName: plan.business_name,
+  industry: plan.industry,
+  businessType: plan.business_type,
+  location: plan.location,
+  targetAudience: plan.target_audience,
+  uniqueValue: plan.value_proposition,
+  revenueModel: plan.revenue_model,
+  goals: plan.goals
+});
 
 /**
  * BusinessPlan Component
@@ -59,8 +145,16 @@ import { databaseService, type BusinessPlanRecord } from '../lib/database';
  * - modificationRequest: User's modification request
  * - isGenerating: Loading state for plan generation
  * - isModifying: Loading state for AI modifications
+ * - isSavingEdit: Loading state while manual edits are saved
+ * - generationProgress: Per-section state while a plan is generated
+ * - sectionRetries: State of missing sections being retried, by plan and title
+ * - isRetryingSections: Loading state while missing sections are generated
+ * - revisingSection: Index of the section a section action is running on
+ * - sectionRevision: New version of a section waiting to be accepted
+ * - showHistory: Boolean for the version history panel
  * - error: Error message display
  * - formData: Form input data
+ * - selectedModel: Model used for generation, defaulting to the profile preference
  * 
  * View States:
  * 1. Plans List - Default view showing all plans
@@ -74,9 +168,17 @@ import { databaseService, type BusinessPlanRecord } from '../lib/database';
  * - handleEditPlan: Enter edit mode
  * - handleModifyRequest: Request AI modifications
  * - exportPlan: Download plan in different formats
- * - deletePlan: Remove plan from list
+ * - deletePlan: Move plan to the trash
+ * - changeModel: Switch plan model and remember it as the default
+ * - reviseSection / acceptSectionRevision: Section-level AI actions
+ * - savePlanChange: Save a plan and record the change as a version
+ * - restoreVersion: Restore an earlier version from the history
  */
 export default function BusinessPlan() {
+  // Undo toast for deleted plans
+  const { showUndo } = useUndo();
+  const { user } = useAuth();
+  
   // Plans storage - in production, this would be persisted
   const [plans, setPlans] = useState<BusinessPlanRecord[]>([]);
   
@@ -85,7 +187,7 @@ export default function BusinessPlan() {
   
   // View state management
   const [showGenerator, setShowGenerator] = useState(false);
-  const [showPlanView, setShowPlanView] = useState<GeneratedBusinessPlan | null>(null);
+  const [showPlanView, setShowPlanView] = useState<BusinessPlanRecord | null>(null);
   const [showEditMode, setShowEditMode] = useState(false);
   const [showModifyMode, setShowModifyMode] = useState(false);
   
@@ -96,10 +198,27 @@ export default function BusinessPlan() {
   // Loading states
   const [isGenerating, setIsGenerating] = useState(false);
   const [isModifying, setIsModifying] = useState(false);
+  const [isSavingEdit, setIsSavingEdit] = useState(false);
+
+  // Section progress of plan generation, and retries of missing sections
+  const [generationProgress, setGenerationProgress] = useState<PlanSectionProgress[]>([]);
+  const [sectionRetries, setSectionRetries] = useState<Record<string, PlanSectionProgress>>({});
+  const [isRetryingSections, setIsRetryingSections] = useState(false);
+
+  // Section-level AI actions and the revision waiting for review
+  const [revisingSection, setRevisingSection] = useState<number | null>(null);
+  const [sectionRevision, setSectionRevision] = useState<SectionRevision | null>(null);
+  const [isSavingRevision, setIsSavingRevision] = useState(false);
+
+  // Version history panel of the viewed plan
+  const [showHistory, setShowHistory] = useState(false);
   
   // Error handling
   const [error, setError] = useState<string | null>(null);
   
+  // Model used for plan generation and modification
+  const [selectedModel, setSelectedModel] = useState(businessPlanGenerator.getCurrentModel());
+  
   /**
    * Form Data State
    * 
@@ -131,8 +250,17 @@ export default function BusinessPlan() {
     const loadBusinessPlans = async () => {
       try {
         setIsInitialLoading(true);
-        const businessPlans = await databaseService.getBusinessPlans();
+        const [businessPlans, modelPreferences] = await Promise.all([
+          databaseService.getBusinessPlans(),
+          databaseService.getModelPreferences()
+        ]);
         setPlans(businessPlans);
+        
+        // Apply the user's default plan model
+        if (modelPreferences.plan) {
+          businessPlanGenerator.setModel(modelPreferences.plan);
+          setSelectedModel(modelPreferences.plan);
+        }
       } catch (error) {
         console.error('Error loading business plans:', error);
         setError('Failed to load business plans');
@@ -242,6 +370,26 @@ export default function BusinessPlan() {
     return true;
   };
 
+  /**
+   * Change Model
+   * 
+   * Switches the model used for business plans and remembers it as the
+   * user's default plan model.
+   * 
+   * @param modelId - Model identifier from the provider
+   */
+  const changeModel = async (modelId: string) => {
+    businessPlanGenerator.setModel(modelId);
+    setSelectedModel(modelId);
+    
+    try {
+      await databaseService.saveModelPreference('plan', modelId);
+    } catch (error) {
+      console.error('Error saving default plan model:', error);
+      setError('Failed to save default model');
+    }
+  };
+
   /**
    * Handle Generate Plan
    * 
@@ -251,9 +399,10 @@ export default function BusinessPlan() {
    * Process Flow:
    * 1. Validate form inputs
    * 2. Set loading state
-   * 3. Call AI generation service
-   * 4. Add plan to plans list
-   * 5. Reset form and return to list view
+   * 3. Call AI generation service, showing the progress of each section
+   * 4. Add plan to plans list (as a draft if some sections failed)
+   * 5. Reset form and return to list view, or open a draft plan so its
+   *    failed sections can be retried
    * 6. Handle any errors
    * 
    * Error Handling:
@@ -273,14 +422,20 @@ export default function BusinessPlan() {
     
     setIsGenerating(true);
     setError(null);
+    setGenerationProgress([]);
     
     const startTime = Date.now();
+    let finalProgress: PlanSectionProgress[] = [];
     try {
-      // Generate plan using AI service
-      const generatedPlan = await businessPlanGenerator.generateBusinessPlan(formData);
+      // Generate plan using AI service, section by section
+      const generatedPlan = await businessPlanGenerator.generateBusinessPlan(formData, progress => {
+        finalProgress = progress;
+        setGenerationProgress(progress);
+      });
       const generationTime = Date.now() - startTime;
+      const model = generatedPlan.model || businessPlanGenerator.getCurrentModel();
       
-      // Save to database
+      // Save to database with its first version
       const savedPlan = await databaseService.saveBusinessPlan({
         business_name: formData.businessName,
         industry: formData.industry,
@@ -292,12 +447,34 @@ export default function BusinessPlan() {
         goals: formData.goals,
         generated_plan: generatedPlan.sections,
         title: generatedPlan.title,
-        ai_model_used: businessPlanGenerator.getCurrentModel(),
-        generation_time_ms: generationTime
+        ai_model_used: model,
+        generation_time_ms: generationTime,
+        tokens_used: generatedPlan.usage?.totalTokens || 0,
+        prompt_tokens: generatedPlan.usage?.promptTokens || 0,
+        completion_tokens: generatedPlan.usage?.completionTokens || 0,
+        cost_usd: generatedPlan.usage?.cost ?? null,
+        status: generatedPlan.status
+      }, {
+        change_type: 'created',
+        change_summary: generatedPlan.status === 'draft'
+          ? `Generated ${generatedPlan.sections.length} of ${generatedPlan.sections.length + getMissingPlanSections(generatedPlan.sections).length} sections`
+          : 'Generated with AI',
+        author_name: user?.name || null,
+        ai_model: model
       });
       
       // Add to local state (newest first)
       setPlans(prev => [savedPlan, ...prev]);
+
+      // Open a draft plan with its failed sections, ready to retry
+      if (generatedPlan.status === 'draft') {
+        const failedSections = finalProgress.filter(item => item.status === 'failed');
+        setSectionRetries(prev => ({
+          ...prev,
+          ...Object.fromEntries(failedSections.map(item => [`${savedPlan.id}/${item.title}`, item]))
+        }));
+        setShowPlanView(savedPlan);
+      }
       
       // Return to list view and reset form
       setShowGenerator(false);
@@ -316,36 +493,208 @@ export default function BusinessPlan() {
       setError(error instanceof Error ? error.message : 'Failed to generate business plan');
     } finally {
       setIsGenerating(false);
+      setGenerationProgress([]);
     }
   };
 
+  /**
+   * Save Plan Change
+   * 
+   * Saves changes to a plan together with a new version, with the current
+   * user as its author, and shows the saved plan. Nothing is saved if
+   * either fails.
+   * 
+   * @param plan - Plan being changed
+   * @param updates - Changed content
+   * @param change - What changed, for the version history
+   * @returns Promise<BusinessPlanRecord> - Saved plan
+   */
+  const savePlanChange = async (
+    plan: BusinessPlanRecord,
+    updates: BusinessPlanContentUpdate,
+    change: PlanVersionChange
+  ): Promise<BusinessPlanRecord> => {
+    const updatedPlan = await databaseService.updateBusinessPlan(plan.id, updates, {
+      author_name: user?.name || null,
+      ...change
+    });
+
+    setPlans(prev => prev.map(existing => existing.id === updatedPlan.id ? updatedPlan : existing));
+    setShowPlanView(prev => prev?.id === updatedPlan.id ? updatedPlan : prev);
+    return updatedPlan;
+  };
+
+  /**
+   * Save Plan Sections
+   * 
+   * Stores new sections of a plan written by AI. The usage of the requests
+   * that produced them was already added to the plan's totals when each
+   * request was recorded.
+   * 
+   * @param plan - Plan being changed
+   * @param sections - All sections of the plan after the change
+   * @param change - What changed, for the version history
+   * @param status - New plan status (unchanged by default)
+   * @returns Promise<BusinessPlanRecord> - Saved plan
+   */
+  const savePlanSections = (
+    plan: BusinessPlanRecord,
+    sections: BusinessPlanSection[],
+    change: PlanVersionChange,
+    status: BusinessPlanRecord['status'] = plan.status
+  ): Promise<BusinessPlanRecord> =>
+    savePlanChange(plan, { generated_plan: sections, status }, change);
+
+  /**
+   * Retry Sections
+   * 
+   * Generates sections that are missing from a plan (because they failed or
+   * were lost) one at a time, without regenerating the rest of the plan.
+   * Each section is saved into the plan in its place as soon as it is
+   * written; the plan becomes complete once no section is missing.
+   * 
+   * @param plan - Plan to complete
+   * @param titles - Missing sections to generate
+   */
+  const retrySections = async (plan: BusinessPlanRecord, titles: string[]) => {
+    setIsRetryingSections(true);
+    setError(null);
+
+    const input = toPlanInput(plan);
+    let currentPlan = plan;
+    for (const title of titles) {
+      const key = `${plan.id}/${title}`;
+      setSectionRetries(prev => ({ ...prev, [key]: { title, status: 'generating' } }));
+
+      try {
+        const { section, model } = await businessPlanGenerator.generateSection(input, title, plan.id);
+        const sections = insertPlanSection(currentPlan.generated_plan, section);
+
+        currentPlan = await savePlanSections(
+          currentPlan,
+          sections,
+          { change_type: 'section_retry', change_summary: `Generated ${section.title}`, ai_model: model },
+          getMissingPlanSections(sections).length === 0 ? 'complete' : 'draft'
+        );
+        setSectionRetries(prev => ({ ...prev, [key]: { title, status: 'complete' } }));
+      } catch (error) {
+        console.error('Business Plan Section Retry Error:', error);
+        setSectionRetries(prev => ({
+          ...prev,
+          [key]: { title, status: 'failed', error: error instanceof Error ? error.message : 'Failed to generate section' }
+        }));
+      }
+    }
+
+    setIsRetryingSections(false);
+  };
+
+  /**
+   * Revise Section
+   * 
+   * Runs a section action on one section of the viewed plan. The new version
+   * is not saved; it is shown as a diff against the current section until
+   * the user accepts or discards it.
+   * 
+   * @param plan - Plan being viewed
+   * @param index - Position of the section in the plan
+   * @param action - Section action to run
+   * @param label - Name of the action, shown with the diff
+   */
+  const reviseSection = async (plan: BusinessPlanRecord, index: number, action: SectionAction, label: string) => {
+    setRevisingSection(index);
+    setSectionRevision(null);
+    setError(null);
+
+    try {
+      const original = plan.generated_plan[index];
+      const { section, model } = await businessPlanGenerator.reviseSection(toPlanInput(plan), original, action, plan.id);
+      setSectionRevision({ planId: plan.id, index, original, label, section, model });
+    } catch (error) {
+      console.error('Business Plan Section Action Error:', error);
+      setError(error instanceof Error ? error.message : 'Failed to revise section');
+    } finally {
+      setRevisingSection(null);
+    }
+  };
+
+  /**
+   * Accept Section Revision
+   * 
+   * Saves the reviewed section in place of the old one. Only that section
+   * changes: every other section is kept exactly as stored. Nothing is
+   * saved if the old section has changed since the action ran.
+   * 
+   * @param plan - Plan being viewed
+   * @param revision - Revision to save
+   */
+  const acceptSectionRevision = async (plan: BusinessPlanRecord, revision: SectionRevision) => {
+    const revisedIndex = findPlanSection(plan.generated_plan, revision.index, revision.original);
+    if (revisedIndex === -1) {
+      setError(`${revision.original.title} has changed since this version was written. Discard it and run the action again.`);
+      return;
+    }
+
+    setIsSavingRevision(true);
+    setError(null);
+
+    try {
+      const sections = plan.generated_plan.map((section, index) =>
+        index === revisedIndex ? revision.section : section
+      );
+      await savePlanSections(plan, sections, {
+        change_type: 'section_action',
+        change_summary: `${revision.label}: ${revision.section.title}`,
+        ai_model: revision.model
+      });
+      setSectionRevision(null);
+    } catch (error) {
+      console.error('Business Plan Section Save Error:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save section');
+    } finally {
+      setIsSavingRevision(false);
+    }
+  };
+
+  /**
+   * Restore Version
+   * 
+   * Makes an earlier version the current content of the plan. The restore
+   * is saved as a new version, so the replaced content stays in the history.
+   * 
+   * @param plan - Plan being viewed
+   * @param version - Version to restore
+   * @throws Error - When the plan could not be saved (shown by the history panel)
+   */
+  const restoreVersion = async (plan: BusinessPlanRecord, version: BusinessPlanVersionRecord) => {
+    setError(null);
+    await savePlanChange(plan, {
+      title: version.title,
+      status: version.status,
+      generated_plan: version.generated_plan
+    }, {
+      change_type: 'restore',
+      change_summary: `Restored version ${version.version_number}`
+    });
+    setSectionRevision(null);
+  };
+
   /**
    * Export Plan
    * 
-   * Downloads business plan in specified format.
-   * Currently supports PDF (text) and Word (doc) formats.
+   * Downloads business plan in specified format. The export count is only
+   * incremented once the file has been produced.
    * 
    * @param plan - Business plan to export
    * @param format - Export format ('pdf' or 'docx')
    * 
    * Export Formats:
-   * - PDF: Plain text file with .txt extension
-   * - Word: Word-compatible file with .doc extension
-   * 
-   * Enhancement Opportunities:
-   * - True PDF generation with formatting
-   * - Real Word document creation
-   * - Custom styling and branding
-   * - Multiple export templates
+   * - PDF: Formatted document with cover page, table of contents and page numbers
+   * - Word: .docx document with title page, table of contents, headings, lists and tables
    */
   const exportPlan = async (plan: BusinessPlanRecord, format: 'pdf' | 'docx') => {
-    try {
-      // Increment export count in database
-      await databaseService.incrementExportCount(plan.id);
-    } catch (error) {
-      console.error('Failed to update export count:', error);
-    }
-    
+    setError(null);
+
     // Convert to GeneratedBusinessPlan format for export
     const exportPlan: GeneratedBusinessPlan = {
       id: plan.id,
@@ -356,36 +705,64 @@ export default function BusinessPlan() {
       status: plan.status as 'draft' | 'complete'
     };
     
-    if (format === 'pdf') {
-      businessPlanGenerator.exportToPDF(exportPlan);
-    } else {
-      businessPlanGenerator.exportToWord(exportPlan);
+    // Author and company for the document properties
+    const profile = await databaseService.getProfile().catch(() => null);
+    const details = {
+      businessName: plan.business_name,
+      location: plan.location,
+      author: profile?.full_name || user?.name,
+      company: profile?.company || undefined
+    };
+
+    try {
+      if (format === 'pdf') {
+        businessPlanGenerator.exportToPDF(exportPlan, details);
+      } else {
+        await businessPlanGenerator.exportToWord(exportPlan, details);
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to export business plan');
+      return;
+    }
+
+    try {
+      // Increment export count in database
+      await databaseService.incrementExportCount(plan.id);
+    } catch (error) {
+      console.error('Failed to update export count:', error);
     }
   };
 
   /**
    * Delete Plan
    * 
-   * Removes a business plan from the plans list.
-   * In production, this would also delete from database.
+   * Moves a business plan to the trash and removes it from the plans list.
    * 
    * @param planId - ID of plan to delete
    * 
    * Features:
    * - Immediate removal from UI
-   * - No confirmation dialog (could be added)
+   * - Undo toast; restorable from the Trash for 30 days
    * - Maintains other plans in list
    * 
    * Enhancement Opportunities:
-   * - Add confirmation dialog
-   * - Soft delete with undo option
    * - Bulk delete functionality
-   * - Archive instead of delete
    */
   const deletePlan = async (planId: string) => {
+    const deletedPlan = plans.find(plan => plan.id === planId);
+    
     try {
-      await databaseService.deleteBusinessPlan(planId);
+      const deletedAt = await databaseService.deleteBusinessPlan(planId);
       setPlans(prev => prev.filter(plan => plan.id !== planId));
+      
+      showUndo('Business plan moved to trash', async () => {
+        await databaseService.restoreTrashItem({ type: 'business_plan', id: planId, deleted_at: deletedAt });
+        if (deletedPlan) {
+          setPlans(prev =>
+            [...prev, deletedPlan].sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+          );
+        }
+      });
     } catch (error) {
       console.error('Error deleting business plan:', error);
       setError('Failed to delete business plan');
@@ -423,7 +800,8 @@ export default function BusinessPlan() {
    * Updates the plan in the plans list.
    * 
    * Process:
-   * 1. Update plan in plans array
+   * 1. Save the plan and record the edit as a version (skipped when
+   *    nothing changed)
    * 2. Exit edit mode
    * 3. Return to plan viewer
    * 4. Clear edit state
@@ -431,27 +809,40 @@ export default function BusinessPlan() {
    * Features:
    * - Replaces original plan with edited version
    * - Maintains plan ID and metadata
-   * - Seamless transition back to viewer
+   * - Stays in edit mode with the changes kept if the save fails
    */
-  const handleSaveEdit = () => {
-    if (editedPlan) {
-      // Update database
-      databaseService.updateBusinessPlan(editedPlan.id, {
-        title: editedPlan.title,
-        generated_plan: editedPlan.generated_plan
-      }).then(updatedPlan => {
-        setPlans(prev => prev.map(plan => 
-          plan.id === editedPlan.id ? updatedPlan : plan
-        ));
-      }).catch(error => {
+  const handleSaveEdit = async () => {
+    if (!editedPlan) return;
+
+    const originalPlan = plans.find(plan => plan.id === editedPlan.id);
+    const changeSummary = originalPlan ? describeManualEdit(originalPlan, editedPlan) : 'Edited the plan';
+    let savedPlan = originalPlan || editedPlan;
+
+    // Update database and record the edit in the version history
+    if (changeSummary) {
+      setIsSavingEdit(true);
+      setError(null);
+      try {
+        savedPlan = await savePlanChange(editedPlan, {
+          title: editedPlan.title,
+          generated_plan: editedPlan.generated_plan
+        }, {
+          change_type: 'manual_edit',
+          change_summary: changeSummary
+        });
+        setSectionRevision(null);
+      } catch (error) {
         console.error('Error updating business plan:', error);
-        setError('Failed to update business plan');
-      });
-      
-      setShowEditMode(false);
-      setShowPlanView(editedPlan);
-      setEditedPlan(null);
+        setError(error instanceof Error ? error.message : 'Failed to update business plan');
+        return;
+      } finally {
+        setIsSavingEdit(false);
+      }
     }
+
+    setShowEditMode(false);
+    setShowPlanView(savedPlan);
+    setEditedPlan(null);
   };
 
   /**
@@ -473,6 +864,7 @@ export default function BusinessPlan() {
   const handleCancelEdit = () => {
     setShowEditMode(false);
     setEditedPlan(null);
+    setError(null);
     if (showPlanView) {
       // Return to plan view if editing from viewer
       return;
@@ -483,19 +875,18 @@ export default function BusinessPlan() {
    * Handle Modify Request
    * 
    * Processes AI-powered modification requests.
-   * Creates a new modified version of the plan.
+   * Saves the modified plan in place as a new version.
    * 
    * Process Flow:
    * 1. Validate modification request
    * 2. Set loading state
    * 3. Send request to AI service
-   * 4. Add modified plan to list
-   * 5. Update viewer to show new plan
-   * 6. Reset modification state
+   * 4. Save the plan and record the version
+   * 5. Reset modification state
    * 
    * Features:
    * - Natural language modification requests
-   * - Creates new plan version (preserves original)
+   * - Previous content stays in the version history
    * - Full context awareness
    * - Professional quality modifications
    * 
@@ -511,7 +902,6 @@ export default function BusinessPlan() {
     setIsModifying(true);
     setError(null);
     
-    const startTime = Date.now();
     try {
       // Convert BusinessPlanRecord to GeneratedBusinessPlan for modification
       const planForModification: GeneratedBusinessPlan = {
@@ -526,29 +916,17 @@ export default function BusinessPlan() {
       // Request AI modification
       const modifiedPlan = await businessPlanGenerator.modifyBusinessPlan(
         planForModification, 
-        modificationRequest
+        modificationRequest,
+        showPlanView.id
       );
-      const modificationTime = Date.now() - startTime;
       
-      // Save modified plan to database
-      const savedModifiedPlan = await databaseService.saveBusinessPlan({
-        business_name: showPlanView.business_name,
-        industry: showPlanView.industry,
-        business_type: showPlanView.business_type,
-        location: showPlanView.location,
-        target_audience: showPlanView.target_audience,
-        value_proposition: showPlanView.value_proposition,
-        revenue_model: showPlanView.revenue_model,
-        goals: showPlanView.goals,
-        generated_plan: modifiedPlan.sections,
-        title: `${showPlanView.title} (Modified)`,
-        ai_model_used: businessPlanGenerator.getCurrentModel(),
-        generation_time_ms: modificationTime
+      // Save the modified plan in place; the previous content stays in its history
+      await savePlanSections(showPlanView, modifiedPlan.sections, {
+        change_type: 'ai_modification',
+        change_summary: modificationRequest.trim(),
+        ai_model: modifiedPlan.model || businessPlanGenerator.getCurrentModel()
       });
-      
-      // Add modified plan to list and show it
-      setPlans(prev => [savedModifiedPlan, ...prev]);
-      setShowPlanView(savedModifiedPlan);
+      setSectionRevision(null);
       
       // Reset modification state
       setShowModifyMode(false);
@@ -620,20 +998,31 @@ export default function BusinessPlan() {
               {/* Save changes button */}
               <button
                 onClick={handleSaveEdit}
-                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+                disabled={isSavingEdit}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center"
               >
+                {isSavingEdit && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
                 Save Changes
               </button>
               {/* Cancel editing button */}
               <button
                 onClick={handleCancelEdit}
-                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                disabled={isSavingEdit}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
               >
                 Cancel
               </button>
             </div>
           </div>
 
+          {/* Save error display; the edits are kept */}
+          {error && (
+            <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+              <AlertCircle className="h-5 w-5 text-red-500" />
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+
           {/* Edit form container */}
           <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 sm:p-8">
             {/* Business plan title editing */}
@@ -664,6 +1053,9 @@ export default function BusinessPlan() {
                     className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm leading-relaxed"
                     placeholder={`Enter content for ${section.title}...`}
                   />
+                  <p className="mt-1 text-xs text-gray-500">
+                    Markdown is supported: **bold**, lists, tables and ### subheadings.
+                  </p>
                 </div>
               ))}
             </div>
@@ -694,6 +1086,11 @@ export default function BusinessPlan() {
    * - Responsive design for all screen sizes
    */
   if (showPlanView) {
+    const missingSections = getMissingPlanSections(showPlanView.generated_plan);
+    const revision = sectionRevision?.planId === showPlanView.id ? sectionRevision : null;
+    const revisedIndex = revision ? findPlanSection(showPlanView.generated_plan, revision.index, revision.original) : -1;
+    const isSectionBusy = revisingSection !== null || revision !== null;
+
     return (
       <div className="p-4 sm:p-6">
         <div className="max-w-4xl mx-auto">
@@ -726,6 +1123,15 @@ export default function BusinessPlan() {
                 <MessageSquare className="h-4 w-4" />
                 <span className="hidden sm:inline">AI Modify</span>
               </button>
+
+              {/* Version history button */}
+              <button
+                onClick={() => setShowHistory(!showHistory)}
+                className="px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors flex items-center space-x-1"
+              >
+                <History className="h-4 w-4" />
+                <span className="hidden sm:inline">History</span>
+              </button>
               
               {/* Export PDF button */}
               <button
@@ -763,7 +1169,15 @@ export default function BusinessPlan() {
                   rows={3}
                   className="w-full px-4 py-3 border border-amber-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-transparent text-sm"
                 />
-                <div className="flex space-x-2">
+                <div className="flex flex-wrap gap-2">
+                  {/* Model picker */}
+                  <ModelSelector
+                    value={selectedModel}
+                    onChange={changeModel}
+                    loadModels={() => businessPlanGenerator.getAvailableModels()}
+                    disabled={isModifying}
+                  />
+                  
                   {/* Apply modifications button */}
                   <button
                     onClick={handleModifyRequest}
@@ -798,6 +1212,47 @@ export default function BusinessPlan() {
             </div>
           )}
 
+          {/* Version history panel */}
+          {showHistory && (
+            <PlanVersionHistory
+              plan={showPlanView}
+              onRestore={version => restoreVersion(showPlanView, version)}
+              onClose={() => setShowHistory(false)}
+            />
+          )}
+
+          {/* Missing sections - failed or lost sections can be generated again */}
+          {missingSections.length > 0 && (
+            <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 sm:p-6 mb-6">
+              <div className="flex items-start justify-between gap-4 mb-4">
+                <div>
+                  <h3 className="text-base font-semibold text-amber-900">
+                    {missingSections.length === 1 ? '1 section is missing' : `${missingSections.length} sections are missing`}
+                  </h3>
+                  <p className="text-sm text-amber-800 mt-1">
+                    These sections could not be generated. Retry them without regenerating the rest of the plan.
+                  </p>
+                </div>
+                {missingSections.length > 1 && (
+                  <button
+                    onClick={() => retrySections(showPlanView, missingSections)}
+                    disabled={isRetryingSections}
+                    className="px-3 py-2 text-sm font-medium text-white bg-amber-600 rounded-lg hover:bg-amber-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex-shrink-0"
+                  >
+                    Retry all
+                  </button>
+                )}
+              </div>
+              <PlanGenerationProgress
+                progress={missingSections.map(title =>
+                  sectionRetries[`${showPlanView.id}/${title}`] || { title, status: 'failed' }
+                )}
+                onRetry={isRetryingSections ? undefined : title => retrySections(showPlanView, [title])}
+                showSummary={false}
+              />
+            </div>
+          )}
+
           {/* Error display */}
           {error && (
             <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
@@ -806,6 +1261,21 @@ export default function BusinessPlan() {
             </div>
           )}
 
+          {/* Section revision whose section changed while the action ran */}
+          {revision && revisedIndex === -1 && (
+            <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg flex flex-wrap items-center justify-between gap-2">
+              <p className="text-sm text-amber-800">
+                {revision.original.title} changed while "{revision.label}" was running, so its new version can't be applied.
+              </p>
+              <button
+                onClick={() => setSectionRevision(null)}
+                className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-200 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                Discard
+              </button>
+            </div>
+          )}
+
           {/* Plan content display */}
           <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 sm:p-8">
             {/* Plan header with metadata */}
@@ -813,28 +1283,66 @@ export default function BusinessPlan() {
               <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 mb-2">{showPlanView.title}</h1>
               <p className="text-gray-600">Industry: {showPlanView.industry}</p>
               <p className="text-sm text-gray-500">Created: {new Date(showPlanView.created_at).toLocaleDateString()}</p>
+              {showPlanView.ai_model_used && (
+                <p className="text-sm text-gray-500">Generated by: {showPlanView.ai_model_used}</p>
+              )}
             </div>
 
             {/* Plan sections display */}
             <div className="space-y-8">
               {showPlanView.generated_plan.map((section, index) => (
                 <div key={index} className="border-b border-gray-200 pb-6 last:border-b-0">
-                  {/* Section title */}
-                  <h2 className="text-xl sm:text-2xl font-semibold text-gray-900 mb-4">{section.title}</h2>
-                  
-                  {/* Section content with proper formatting */}
-                  <div className="text-sm sm:text-base text-gray-700 leading-relaxed">
-                    {(section.content || '').split('\n\n').map((paragraph, pIndex) => (
-                      <p key={pIndex} className="mb-4 last:mb-0">
-                        {paragraph.split('\n').map((line, lIndex) => (
-                          <span key={lIndex}>
-                            {line}
-                            {lIndex < paragraph.split('\n').length - 1 && <br />}
-                          </span>
-                        ))}
-                      </p>
-                    ))}
+                  {/* Section title with its AI actions */}
+                  <div className="flex items-start justify-between gap-4 mb-4">
+                    <h2 className="text-xl sm:text-2xl font-semibold text-gray-900">{section.title}</h2>
+                    {revisingSection === index ? (
+                      <span className="flex items-center text-xs text-gray-500 flex-shrink-0 mt-1">
+                        <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+                        Working...
+                      </span>
+                    ) : (
+                      <div className="flex-shrink-0 mt-1">
+                        <SectionActionsMenu
+                          sectionTitle={section.title}
+                          onAction={(action, label) => reviseSection(showPlanView, index, action, label)}
+                          disabled={isSectionBusy || isModifying}
+                        />
+                      </div>
+                    )}
                   </div>
+
+                  {revision && revisedIndex === index ? (
+                    /* Revised section to review before it replaces the current one */
+                    <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+                      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                        <p className="text-sm font-medium text-blue-900">{revision.label}: review the changes</p>
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => acceptSectionRevision(showPlanView, revision)}
+                            disabled={isSavingRevision}
+                            className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center"
+                          >
+                            {isSavingRevision && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                            Accept
+                          </button>
+                          <button
+                            onClick={() => setSectionRevision(null)}
+                            disabled={isSavingRevision}
+                            className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-200 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                          >
+                            Discard
+                          </button>
+                        </div>
+                      </div>
+                      <SectionDiff before={section.content || ''} after={revision.section.content} />
+                    </div>
+                  ) : (
+                    /* Section content rendered from Markdown */
+                    <MarkdownContent
+                      content={section.content || ''}
+                      className="text-sm sm:text-base text-gray-700 leading-relaxed"
+                    />
+                  )}
                 </div>
               ))}
             </div>
@@ -1027,6 +1535,26 @@ export default function BusinessPlan() {
                 />
               </div>
 
+              {/* AI model selection */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  AI Model
+                </label>
+                <ModelSelector
+                  value={selectedModel}
+                  onChange={changeModel}
+                  loadModels={() => businessPlanGenerator.getAvailableModels()}
+                  disabled={isGenerating}
+                />
+              </div>
+
+              {/* Live progress of each section while the plan is generated */}
+              {isGenerating && generationProgress.length > 0 && (
+                <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg">
+                  <PlanGenerationProgress progress={generationProgress} />
+                </div>
+              )}
+
               {/* Form action buttons */}
               <div className="flex flex-col sm:flex-row space-y-3 sm:space-y-0 sm:space-x-4 pt-6">
                 {/* Cancel button */}
@@ -1125,6 +1653,14 @@ export default function BusinessPlan() {
         </div>
       )}
 
+      {/* Error display */}
+      {!isInitialLoading && error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+          <AlertCircle className="h-5 w-5 text-red-500" />
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
       {/* Plans grid or empty state */}
       {!isInitialLoading && (plans.length > 0 ? (
         <>
@@ -1138,7 +1674,9 @@ export default function BusinessPlan() {
                       <h3 className="text-base sm:text-lg font-semibold text-gray-900 mb-1">{plan.title}</h3>
                       <p className="text-sm text-gray-600">{plan.industry}</p>
                     </div>
-                    <span className="px-2 py-1 text-xs font-medium rounded-full bg-green-100 text-green-800">
+                    <span className={`px-2 py-1 text-xs font-medium rounded-full ${
+                      plan.status === 'draft' ? 'bg-amber-100 text-amber-800' : 'bg-green-100 text-green-800'
+                    }`}>
                       {plan.status}
                     </span>
                   </div>
@@ -1149,6 +1687,11 @@ export default function BusinessPlan() {
                   <p className="text-sm text-gray-500 mb-4">
                     {plan.sections_count || plan.generated_plan.length} sections
                   </p>
+                  {plan.ai_model_used && (
+                    <p className="text-xs text-gray-500 mb-4 truncate" title="Model that generated this plan">
+                      Model: {plan.ai_model_used}
+                    </p>
+                  )}
 
                   <div className="flex items-center space-x-2">
                     <button 
@@ -1,7 +1,9 @@
 import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Play, BookOpen, Clock, Star, Bookmark, CheckCircle, Filter, StickyNote, BookmarkCheck } from 'lucide-react';
 import { databaseService, type CourseRecord, type CourseProgressSummary } from '../lib/database';
 import NotesPanel from '../components/NotesPanel';
+import LessonViewer from '../components/LessonViewer';
 
 // Extended interface for UI state
 interface CourseWithProgress extends CourseRecord {
@@ -19,6 +21,10 @@ export default function LearningHub() {
   const [error, setError] = useState<string | null>(null);
   const [userStats, setUserStats] = useState<any>(null);
 
+  // Lesson opened through /learning?lesson=<id> (e.g. from an AI Assistant answer)
+  const [searchParams, setSearchParams] = useSearchParams();
+  const openLessonId = searchParams.get('lesson');
+
   // Notes panel state
   const [showNotesPanel, setShowNotesPanel] = useState(false);
   const [selectedCourseForNotes, setSelectedCourseForNotes] = useState<string | null>(null);
@@ -127,6 +133,10 @@ export default function LearningHub() {
     <div className="flex h-full">
       {/* Main Learning Content */}
       <div className="flex-1 p-3 sm:p-6 overflow-y-auto">
+        {openLessonId ? (
+          <LessonViewer lessonId={openLessonId} onClose={() => setSearchParams({})} />
+        ) : (
+        <>
         {/* Header */}
         <div className="mb-8">
           <div className="flex items-center justify-between">
@@ -349,6 +359,8 @@ export default function LearningHub() {
             <p className="text-gray-600">Try adjusting your filters to see more courses.</p>
           </div>
         )}
+        </>
+        )}
       </div>
     </div>
   );
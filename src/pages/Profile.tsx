@@ -3,6 +3,8 @@ import { useAuth } from '../contexts/AuthContext';
 import { useProgress } from '../contexts/ProgressContext';
 import { databaseService, type UserLearningStats } from '../lib/database';
 import AvatarUpload from '../components/AvatarUpload';
+import AIQuotaMeter from '../components/AIQuotaMeter';
+import PersonaManager from '../components/PersonaManager';
 import { 
   User, 
   Mail, 
@@ -361,6 +363,9 @@ export function Profile() {
             </div>
           </div>
 
+          {/* Custom assistant personas */}
+          <PersonaManager />
+
           {/* Achievements */}
           {/* Achievements - Only show if user has achievements */}
           {!isLoadingData && realAchievements.length > 0 && (
@@ -424,6 +429,8 @@ export function Profile() {
             </div>
           </div>
 
+          <AIQuotaMeter />
+
           <div className="bg-gradient-to-br from-blue-600 to-teal-600 rounded-xl p-4 sm:p-6 text-white">
             <h3 className="text-base sm:text-lg font-semibold mb-4">Learning Progress</h3>
             <div className="space-y-3">
@@ -0,0 +1,324 @@
+/**
+ * Search Results Page
+ *
+ * Full-text search across the user's AI Assistant history, opened from the
+ * header search box. Query and filters live in the URL, so a search can be
+ * refreshed, shared between tabs and reached again with the back button.
+ *
+ * Key Features:
+ * - Matches in questions and answers highlighted
+ * - Filters: date range, model, conversation, bookmarked only
+ * - Results open the conversation scrolled to the matching message
+ * - Paged loading
+ *
+ * @author BizGenius Team
+ * @version 1.0.0
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Search, Bookmark, MessageSquare, AlertCircle, Loader2, X } from 'lucide-react';
+import { databaseService } from '../lib/database';
+import type { ChatSearchFilters, ChatSearchResult, ConversationRecord } from '../lib/database';
+
+const PAGE_SIZE = 20;
+
+// Markers search_chat_history puts around matches
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+
+/**
+ * Render an excerpt with its matches highlighted
+ */
+const renderExcerpt = (excerpt: string) =>
+  excerpt.split(MATCH_START).map((part, index) => {
+    if (index === 0) return <span key={index}>{part.split(MATCH_END).join('')}</span>;
+
+    const [match, ...rest] = part.split(MATCH_END);
+    return (
+      <span key={index}>
+        <mark className="bg-yellow-200 text-gray-900 rounded-sm px-0.5">{match}</mark>
+        {rest.join('')}
+      </span>
+    );
+  });
+
+/**
+ * Date input value (YYYY-MM-DD, local time) to an ISO timestamp, optionally
+ * moved a number of days ahead
+ */
+const toTimestamp = (date: string, addDays: number = 0): string | undefined => {
+  if (!date) return undefined;
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day + addDays).toISOString();
+};
+
+/**
+ * Search filters from the page URL
+ */
+const readFilters = (params: URLSearchParams): ChatSearchFilters => ({
+  from: toTimestamp(params.get('from') || ''),
+  to: toTimestamp(params.get('to') || '', 1),
+  model: params.get('model') || undefined,
+  conversationId: params.get('conversation') || undefined,
+  bookmarkedOnly: params.get('bookmarked') === '1'
+});
+
+export default function SearchResults() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [results, setResults] = useState<ChatSearchResult[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [models, setModels] = useState<string[]>([]);
+  const [conversations, setConversations] = useState<ConversationRecord[]>([]);
+  const requestRef = useRef(0);
+
+  const query = searchParams.get('q')?.trim() || '';
+  const fromDate = searchParams.get('from') || '';
+  const toDate = searchParams.get('to') || '';
+  const model = searchParams.get('model') || '';
+  const conversationId = searchParams.get('conversation') || '';
+  const bookmarkedOnly = searchParams.get('bookmarked') === '1';
+  const hasFilters = Boolean(fromDate || toDate || model || conversationId || bookmarkedOnly);
+
+  /**
+   * Load filter options once
+   */
+  useEffect(() => {
+    Promise.all([databaseService.getChatModels(), databaseService.listConversations(200)])
+      .then(([chatModels, chatConversations]) => {
+        setModels(chatModels);
+        setConversations(chatConversations);
+      })
+      .catch(err => console.error('Error loading search filters:', err));
+  }, []);
+
+  /**
+   * Run the search whenever the query or a filter changes
+   */
+  useEffect(() => {
+    const requestId = ++requestRef.current;
+    setResults([]);
+    setHasMore(false);
+    setError(null);
+
+    if (!query) return;
+
+    setIsLoading(true);
+    databaseService.searchChatHistory(query, readFilters(searchParams), PAGE_SIZE, 0)
+      .then(found => {
+        if (requestId !== requestRef.current) return;
+        setResults(found);
+        setHasMore(found.length === PAGE_SIZE);
+      })
+      .catch(err => {
+        if (requestId !== requestRef.current) return;
+        console.error('Error searching chat history:', err);
+        setError('Search failed. Please try again.');
+      })
+      .finally(() => {
+        if (requestId === requestRef.current) setIsLoading(false);
+      });
+  }, [query, searchParams]);
+
+  /**
+   * Append the next page of results
+   */
+  const loadMore = async () => {
+    const requestId = requestRef.current;
+    setIsLoadingMore(true);
+
+    try {
+      const found = await databaseService.searchChatHistory(query, readFilters(searchParams), PAGE_SIZE, results.length);
+      if (requestId !== requestRef.current) return;
+      setResults(prev => [...prev, ...found]);
+      setHasMore(found.length === PAGE_SIZE);
+    } catch (err) {
+      console.error('Error loading more results:', err);
+      setError('Failed to load more results. Please try again.');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  /**
+   * Update one filter in the URL, keeping the others
+   */
+  const setFilter = (key: string, value: string) => {
+    const params = new URLSearchParams(searchParams);
+    if (value) {
+      params.set(key, value);
+    } else {
+      params.delete(key);
+    }
+    setSearchParams(params, { replace: true });
+  };
+
+  const clearFilters = () => {
+    setSearchParams(query ? { q: query } : {}, { replace: true });
+  };
+
+  return (
+    <div className="p-3 sm:p-6 space-y-4 sm:space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-xl sm:text-2xl font-bold text-gray-900 mb-2">Search Chat History</h1>
+        <p className="text-sm sm:text-base text-gray-600">
+          {query
+            ? <>Results for <span className="font-medium text-gray-900">“{query}”</span></>
+            : 'Use the search box above to find questions and answers from your conversations'}
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white p-3 sm:p-4 rounded-xl shadow-sm border border-gray-200">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+          <div>
+            <label htmlFor="search-from" className="block text-xs font-medium text-gray-600 mb-1">From</label>
+            <input
+              id="search-from"
+              type="date"
+              value={fromDate}
+              max={toDate || undefined}
+              onChange={(e) => setFilter('from', e.target.value)}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label htmlFor="search-to" className="block text-xs font-medium text-gray-600 mb-1">To</label>
+            <input
+              id="search-to"
+              type="date"
+              value={toDate}
+              min={fromDate || undefined}
+              onChange={(e) => setFilter('to', e.target.value)}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label htmlFor="search-model" className="block text-xs font-medium text-gray-600 mb-1">Model</label>
+            <select
+              id="search-model"
+              value={model}
+              onChange={(e) => setFilter('model', e.target.value)}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">All models</option>
+              {models.map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="search-conversation" className="block text-xs font-medium text-gray-600 mb-1">Conversation</label>
+            <select
+              id="search-conversation"
+              value={conversationId}
+              onChange={(e) => setFilter('conversation', e.target.value)}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">All conversations</option>
+              {conversations.map(conversation => (
+                <option key={conversation.id} value={conversation.id}>{conversation.title}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between mt-3">
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={bookmarkedOnly}
+              onChange={(e) => setFilter('bookmarked', e.target.checked ? '1' : '')}
+              className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            <span>Bookmarked only</span>
+          </label>
+          {hasFilters && (
+            <button
+              type="button"
+              onClick={clearFilters}
+              className="text-sm text-gray-600 hover:text-gray-900 flex items-center space-x-1"
+            >
+              <X className="h-4 w-4" />
+              <span>Clear filters</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2 text-sm text-red-700">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {/* Results */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12 text-gray-500">
+          <Loader2 className="h-6 w-6 animate-spin mr-2" />
+          <span>Searching...</span>
+        </div>
+      ) : query && results.length === 0 && !error ? (
+        <div className="text-center py-12">
+          <Search className="h-10 w-10 text-gray-300 mx-auto mb-3" />
+          <p className="text-gray-600">No messages match your search.</p>
+          {hasFilters && <p className="text-sm text-gray-500 mt-1">Try removing some filters.</p>}
+        </div>
+      ) : (
+        <ul className="space-y-3">
+          {results.map(result => {
+            const target = result.conversation_id
+              ? `/assistant?conversation=${result.conversation_id}&message=${result.chat_id}`
+              : '/assistant';
+
+            return (
+              <li key={result.chat_id}>
+                <Link
+                  to={target}
+                  className="block bg-white p-3 sm:p-4 rounded-xl shadow-sm border border-gray-200 hover:border-blue-300 hover:shadow transition-colors"
+                >
+                  <div className="flex items-center justify-between text-xs text-gray-500 mb-2">
+                    <span className="flex items-center space-x-1 min-w-0">
+                      <MessageSquare className="h-3 w-3 flex-shrink-0" />
+                      <span className="truncate">{result.conversation_title || 'Untitled conversation'}</span>
+                    </span>
+                    <span className="flex items-center space-x-2 flex-shrink-0 ml-2">
+                      {result.is_bookmarked && <Bookmark className="h-3 w-3 text-blue-600 fill-current" />}
+                      <span className="hidden sm:inline">{result.model_used}</span>
+                      <span>{new Date(result.created_at).toLocaleDateString()}</span>
+                    </span>
+                  </div>
+                  <p className="text-sm font-medium text-gray-900 line-clamp-2">
+                    {renderExcerpt(result.question_excerpt)}
+                  </p>
+                  <p className="text-sm text-gray-600 mt-1 line-clamp-3">
+                    {renderExcerpt(result.answer_excerpt)}
+                  </p>
+                </Link>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {hasMore && !isLoading && (
+        <div className="flex justify-center">
+          <button
+            type="button"
+            onClick={loadMore}
+            disabled={isLoadingMore}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors flex items-center disabled:opacity-50"
+          >
+            {isLoadingMore && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Load more
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+/**
+ * Trash Page
+ *
+ * Lists deleted conversations, chat messages, notes, business plans and
+ * bookmarks so they can be restored. Items are deleted permanently 30 days
+ * after they were trashed, or earlier from here.
+ *
+ * Key Features:
+ * - Restore or permanently delete single items
+ * - Filter by item type
+ * - Days left before each item is purged
+ * - Empty trash
+ *
+ * @author BizGenius Team
+ * @version 1.0.0
+ */
+
+import { useState, useEffect } from 'react';
+import {
+  Trash2,
+  ArchiveRestore,
+  MessageSquare,
+  MessageCircle,
+  StickyNote,
+  FileText,
+  Bookmark,
+  AlertCircle,
+  Loader2
+} from 'lucide-react';
+import { databaseService, type TrashItem, type TrashItemType } from '../lib/database';
+
+const TYPE_LABELS: Record<TrashItemType, string> = {
+  conversation: 'Conversations',
+  chat: 'Messages',
+  note: 'Notes',
+  business_plan: 'Business plans',
+  bookmark: 'Bookmarks'
+};
+
+const TYPE_ICONS: Record<TrashItemType, typeof Trash2> = {
+  conversation: MessageSquare,
+  chat: MessageCircle,
+  note: StickyNote,
+  business_plan: FileText,
+  bookmark: Bookmark
+};
+
+/**
+ * Whole days until an item is purged (0 on its last day)
+ */
+const daysLeft = (purgeAt: string): number =>
+  Math.max(0, Math.floor((new Date(purgeAt).getTime() - Date.now()) / (1000 * 60 * 60 * 24)));
+
+const itemKey = (item: TrashItem) => `${item.type}-${item.id}-${item.deleted_at}`;
+
+export default function Trash() {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [filterType, setFilterType] = useState<TrashItemType | 'all'>('all');
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Load trashed items
+   */
+  useEffect(() => {
+    const loadTrash = async () => {
+      try {
+        setIsLoading(true);
+        setItems(await databaseService.getTrash());
+      } catch (err) {
+        console.error('Error loading trash:', err);
+        setError('Failed to load trash');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadTrash();
+  }, []);
+
+  /**
+   * Restore an item and drop it from the list
+   */
+  const restoreItem = async (item: TrashItem) => {
+    try {
+      setBusyKey(itemKey(item));
+      setError(null);
+      await databaseService.restoreTrashItem(item);
+      setItems(prev => prev.filter(other => itemKey(other) !== itemKey(item)));
+    } catch (err) {
+      console.error('Error restoring item:', err);
+      setError('Failed to restore item');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  /**
+   * Permanently delete an item after confirmation
+   */
+  const deleteItem = async (item: TrashItem) => {
+    if (!confirm('Delete this item permanently? This cannot be undone.')) return;
+
+    try {
+      setBusyKey(itemKey(item));
+      setError(null);
+      await databaseService.deleteTrashItem(item);
+      setItems(prev => prev.filter(other => itemKey(other) !== itemKey(item)));
+    } catch (err) {
+      console.error('Error deleting item:', err);
+      setError('Failed to delete item');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  /**
+   * Permanently delete everything after confirmation
+   */
+  const emptyTrash = async () => {
+    if (!confirm('Permanently delete everything in the trash? This cannot be undone.')) return;
+
+    try {
+      setBusyKey('all');
+      setError(null);
+      await databaseService.emptyTrash();
+      setItems([]);
+    } catch (err) {
+      console.error('Error emptying trash:', err);
+      setError('Failed to empty trash');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const filteredItems = items.filter(item => filterType === 'all' || item.type === filterType);
+  const types = (Object.keys(TYPE_LABELS) as TrashItemType[]).filter(type => items.some(item => item.type === type));
+
+  return (
+    <div className="p-3 sm:p-6 space-y-4 sm:space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-3">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold text-gray-900 mb-2">Trash</h1>
+          <p className="text-sm sm:text-base text-gray-600">
+            Deleted items are kept for 30 days before they are removed permanently
+          </p>
+        </div>
+        {items.length > 0 && (
+          <button
+            type="button"
+            onClick={emptyTrash}
+            disabled={busyKey !== null}
+            className="self-start sm:self-auto px-3 py-2 text-sm font-medium text-red-700 bg-white border border-red-300 rounded-md hover:bg-red-50 transition-colors flex items-center space-x-2 disabled:opacity-50"
+          >
+            {busyKey === 'all' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+            <span>Empty trash</span>
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2 text-sm text-red-700">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {/* Type filter */}
+      {types.length > 1 && (
+        <div className="flex flex-wrap gap-2">
+          {(['all', ...types] as const).map(type => (
+            <button
+              key={type}
+              type="button"
+              onClick={() => setFilterType(type)}
+              className={`px-3 py-1 text-sm rounded-full border transition-colors ${
+                filterType === type
+                  ? 'bg-blue-600 border-blue-600 text-white'
+                  : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {type === 'all' ? 'All' : TYPE_LABELS[type]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12 text-gray-500">
+          <Loader2 className="h-6 w-6 animate-spin mr-2" />
+          <span>Loading trash...</span>
+        </div>
+      ) : filteredItems.length === 0 ? (
+        <div className="text-center py-12">
+          <Trash2 className="h-10 w-10 text-gray-300 mx-auto mb-3" />
+          <p className="text-gray-600">The trash is empty.</p>
+        </div>
+      ) : (
+        <ul className="bg-white rounded-xl shadow-sm border border-gray-200 divide-y divide-gray-100">
+          {filteredItems.map(item => {
+            const Icon = TYPE_ICONS[item.type];
+            const key = itemKey(item);
+            const remaining = daysLeft(item.purge_at);
+
+            return (
+              <li key={key} className="flex items-start space-x-3 p-3 sm:p-4">
+                <Icon className="h-5 w-5 text-gray-400 flex-shrink-0 mt-0.5" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">{item.title}</p>
+                  {item.detail && <p className="text-sm text-gray-600 line-clamp-2">{item.detail}</p>}
+                  <p className="text-xs text-gray-500 mt-1">
+                    Deleted {new Date(item.deleted_at).toLocaleDateString()} ·{' '}
+                    {remaining > 0 ? `${remaining} day${remaining === 1 ? '' : 's'} left` : 'Deleted permanently today'}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-1 flex-shrink-0">
+                  <button
+                    type="button"
+                    onClick={() => restoreItem(item)}
+                    disabled={busyKey !== null}
+                    className="px-2 py-1 text-sm text-blue-600 rounded hover:bg-blue-50 flex items-center space-x-1 disabled:opacity-50"
+                  >
+                    {busyKey === key ? <Loader2 className="h-4 w-4 animate-spin" /> : <ArchiveRestore className="h-4 w-4" />}
+                    <span className="hidden sm:inline">Restore</span>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => deleteItem(item)}
+                    disabled={busyKey !== null}
+                    className="p-1 text-gray-400 rounded hover:text-red-600 hover:bg-red-50 disabled:opacity-50"
+                    aria-label="Delete permanently"
+                    title="Delete permanently"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -30,7 +30,7 @@
   3. Performance
     - Add indexes for common queries (category, level, featured, published)
     - Add full-text search index for title and description
-</*/
+*/
 
 -- Create enum for course levels
 CREATE TYPE course_level AS ENUM ('beginner', 'intermediate', 'advanced');
@@ -0,0 +1,131 @@
+/*
+  # Create Conversations Table for Multi-Turn Chat Threads
+
+  1. New Tables
+    - `conversations`
+      - `id` (uuid, primary key) - Referenced by chat_history.conversation_id
+      - `user_id` (uuid, foreign key) - References auth.users for user ownership
+      - `title` (text) - Display title, generated from the first question and editable by the user
+      - `last_message_at` (timestamptz) - When the latest turn was added, used for ordering the list
+      - `created_at` (timestamptz, default now())
+      - `updated_at` (timestamptz, default now())
+
+  2. Data Migration
+    - Backfill one conversation per existing chat_history.conversation_id,
+      titled from its first question
+
+  3. Relationships
+    - chat_history.conversation_id now references conversations(id)
+    - Deleting a conversation deletes all of its turns (ON DELETE CASCADE)
+    - The random default on chat_history.conversation_id is dropped; the
+      application creates the conversation before saving the first turn
+
+  4. Security
+    - Enable RLS on `conversations` table
+    - Users can only read, create, update and delete their own conversations
+
+  5. Indexes
+    - Index on user_id + last_message_at for the conversation list
+
+  6. Triggers
+    - Auto-update updated_at timestamp
+    - Bump last_message_at whenever a chat_history row is inserted
+*/
+
+-- Create the conversations table
+CREATE TABLE IF NOT EXISTS conversations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title text NOT NULL DEFAULT 'New conversation',
+  last_message_at timestamptz DEFAULT now(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE conversations ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can read own conversations"
+  ON conversations
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own conversations"
+  ON conversations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own conversations"
+  ON conversations
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own conversations"
+  ON conversations
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_conversations_user_id ON conversations(user_id);
+CREATE INDEX IF NOT EXISTS idx_conversations_user_last_message ON conversations(user_id, last_message_at DESC);
+
+-- Trigger to automatically update updated_at
+DROP TRIGGER IF EXISTS update_conversations_updated_at ON conversations;
+CREATE TRIGGER update_conversations_updated_at
+  BEFORE UPDATE ON conversations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Backfill conversations from existing chat history
+INSERT INTO conversations (id, user_id, title, created_at, last_message_at)
+SELECT
+  first_turn.conversation_id,
+  first_turn.user_id,
+  left(first_turn.question, 80),
+  first_turn.created_at,
+  stats.last_message_at
+FROM (
+  SELECT DISTINCT ON (conversation_id) conversation_id, user_id, question, created_at
+  FROM chat_history
+  WHERE conversation_id IS NOT NULL
+  ORDER BY conversation_id, created_at ASC
+) first_turn
+JOIN (
+  SELECT conversation_id, max(created_at) AS last_message_at
+  FROM chat_history
+  GROUP BY conversation_id
+) stats USING (conversation_id)
+ON CONFLICT (id) DO NOTHING;
+
+-- Link chat history to conversations
+ALTER TABLE chat_history ALTER COLUMN conversation_id DROP DEFAULT;
+
+ALTER TABLE chat_history
+  ADD CONSTRAINT chat_history_conversation_id_fkey
+  FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE;
+
+-- Keep last_message_at in sync with new turns
+CREATE OR REPLACE FUNCTION touch_conversation_last_message()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE conversations
+  SET last_message_at = NEW.created_at
+  WHERE id = NEW.conversation_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS touch_conversation_on_chat_insert ON chat_history;
+CREATE TRIGGER touch_conversation_on_chat_insert
+  AFTER INSERT ON chat_history
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_conversation_last_message();
+
+-- Grant necessary permissions
+GRANT ALL ON conversations TO authenticated;
@@ -0,0 +1,17 @@
+/*
+  # Add Rolling Summaries to Conversations
+
+  1. Modified Tables
+    - `conversations`
+      - `summary` (text, default '') - Rolling summary of older turns that no
+        longer fit in the model's context window; shown to and editable by the user
+      - `summarized_through` (timestamptz, nullable) - created_at of the last
+        chat_history turn folded into the summary; later turns are sent verbatim
+
+  2. Security
+    - Covered by the existing conversations RLS policies
+*/
+
+ALTER TABLE conversations
+  ADD COLUMN IF NOT EXISTS summary text NOT NULL DEFAULT '',
+  ADD COLUMN IF NOT EXISTS summarized_through timestamptz;
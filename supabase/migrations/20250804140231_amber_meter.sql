@@ -0,0 +1,103 @@
+/*
+  # Token Usage and Cost Accounting
+
+  1. Modified Tables
+    - `chat_history`
+      - `prompt_tokens` (integer, default 0) - Input tokens reported by the provider
+      - `completion_tokens` (integer, default 0) - Output tokens reported by the provider
+      - `cost_usd` (numeric, nullable) - Cost reported by the provider, null when unknown
+      - `tokens_used` keeps the total (prompt + completion)
+    - `business_plans`
+      - `tokens_used`, `prompt_tokens`, `completion_tokens` (integer, default 0)
+      - `cost_usd` (numeric, nullable)
+
+  2. New Views (security_invoker, so the RLS policies of the base tables apply)
+    - `ai_usage_events` - One row per AI call: chat turns and plan generations/modifications
+    - `ai_usage_daily` - Usage summed per user, day and model
+    - `ai_usage_monthly` - Usage summed per user, month and model
+
+  3. Indexes
+    - chat_history(user_id, response_time_ms DESC) for the slowest responses list
+*/
+
+-- Usage columns on chat history
+ALTER TABLE chat_history
+  ADD COLUMN IF NOT EXISTS prompt_tokens integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS completion_tokens integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS cost_usd numeric(12, 6);
+
+-- Usage columns on business plans
+ALTER TABLE business_plans
+  ADD COLUMN IF NOT EXISTS tokens_used integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS prompt_tokens integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS completion_tokens integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS cost_usd numeric(12, 6);
+
+CREATE INDEX IF NOT EXISTS idx_chat_history_user_response_time
+  ON chat_history(user_id, response_time_ms DESC);
+
+-- Every AI call as a single stream of usage events
+CREATE OR REPLACE VIEW ai_usage_events
+WITH (security_invoker = true) AS
+SELECT
+  id,
+  user_id,
+  'chat'::text AS source,
+  left(question, 120) AS label,
+  model_used AS model,
+  prompt_tokens,
+  completion_tokens,
+  tokens_used AS total_tokens,
+  cost_usd,
+  response_time_ms,
+  created_at
+FROM chat_history
+UNION ALL
+SELECT
+  id,
+  user_id,
+  'plan'::text AS source,
+  title AS label,
+  ai_model_used AS model,
+  prompt_tokens,
+  completion_tokens,
+  tokens_used AS total_tokens,
+  cost_usd,
+  generation_time_ms AS response_time_ms,
+  created_at
+FROM business_plans;
+
+-- Usage per user, day and model
+CREATE OR REPLACE VIEW ai_usage_daily
+WITH (security_invoker = true) AS
+SELECT
+  user_id,
+  date_trunc('day', created_at)::date AS period,
+  model,
+  count(*)::integer AS request_count,
+  sum(prompt_tokens)::integer AS prompt_tokens,
+  sum(completion_tokens)::integer AS completion_tokens,
+  sum(total_tokens)::integer AS total_tokens,
+  coalesce(sum(cost_usd), 0) AS cost_usd
+FROM ai_usage_events
+GROUP BY user_id, date_trunc('day', created_at)::date, model;
+
+-- Usage per user, month and model
+CREATE OR REPLACE VIEW ai_usage_monthly
+WITH (security_invoker = true) AS
+SELECT
+  user_id,
+  date_trunc('month', created_at)::date AS period,
+  model,
+  count(*)::integer AS request_count,
+  sum(prompt_tokens)::integer AS prompt_tokens,
+  sum(completion_tokens)::integer AS completion_tokens,
+  sum(total_tokens)::integer AS total_tokens,
+  coalesce(sum(cost_usd), 0) AS cost_usd
+FROM ai_usage_events
+GROUP BY user_id, date_trunc('month', created_at)::date, model;
+
+-- Grant necessary permissions
+GRANT SELECT ON ai_usage_events TO authenticated;
+GRANT SELECT ON ai_usage_daily TO authenticated;
+GRANT SELECT ON ai_usage_monthly TO authenticated;
@@ -0,0 +1,155 @@
+/*
+  # Per-User AI Quotas
+
+  1. New Tables
+    - `ai_quotas`
+      - `user_id` (uuid, primary key) - References auth.users
+      - `requests_per_day` (integer, default 100) - Daily limit on AI requests
+      - `tokens_per_month` (integer, default 500000) - Monthly limit on AI tokens
+      - `requests_today` (integer) - Requests made on request_day
+      - `request_day` (date) - UTC day requests_today applies to
+      - `tokens_this_month` (integer) - Tokens used in token_month
+      - `token_month` (date) - First day (UTC) of the month tokens_this_month applies to
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Functions (security definer, always act on auth.uid())
+    - `consume_ai_request(p_consume boolean)` - Creates the quota row if missing,
+      rolls counters over at the start of a new day/month, checks both limits and,
+      when allowed and p_consume is true, counts one request. Returns the quota
+      status including whether the request is allowed and when each limit resets.
+    - `record_ai_tokens(p_tokens integer)` - Adds tokens to the monthly counter
+
+  3. Security
+    - Enable RLS on `ai_quotas`
+    - Users can only read their own quota; there are no insert/update/delete
+      policies, so limits and counters can only change through the functions
+      above or the service role
+
+  4. Configuration
+    - Change the column defaults to adjust limits for new users, or update a
+      user's row with the service role to give them a custom quota
+*/
+
+-- Create the ai_quotas table
+CREATE TABLE IF NOT EXISTS ai_quotas (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  requests_per_day integer NOT NULL DEFAULT 100,
+  tokens_per_month integer NOT NULL DEFAULT 500000,
+  requests_today integer NOT NULL DEFAULT 0,
+  request_day date NOT NULL DEFAULT (now() AT TIME ZONE 'utc')::date,
+  tokens_this_month integer NOT NULL DEFAULT 0,
+  token_month date NOT NULL DEFAULT date_trunc('month', now() AT TIME ZONE 'utc')::date,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE ai_quotas ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can read own AI quota"
+  ON ai_quotas
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Trigger to automatically update updated_at
+DROP TRIGGER IF EXISTS update_ai_quotas_updated_at ON ai_quotas;
+CREATE TRIGGER update_ai_quotas_updated_at
+  BEFORE UPDATE ON ai_quotas
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Check (and optionally consume) one AI request against the caller's quota
+CREATE OR REPLACE FUNCTION consume_ai_request(p_consume boolean DEFAULT true)
+RETURNS TABLE (
+  allowed boolean,
+  limit_type text,
+  requests_today integer,
+  requests_per_day integer,
+  tokens_this_month integer,
+  tokens_per_month integer,
+  day_resets_at timestamptz,
+  month_resets_at timestamptz
+) AS $$
+DECLARE
+  v_today date := (now() AT TIME ZONE 'utc')::date;
+  v_month date := date_trunc('month', now() AT TIME ZONE 'utc')::date;
+  v_quota ai_quotas%ROWTYPE;
+  v_limit text := NULL;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO ai_quotas (user_id)
+  VALUES (auth.uid())
+  ON CONFLICT (user_id) DO NOTHING;
+
+  -- Lock the row so concurrent requests are counted correctly
+  SELECT * INTO v_quota FROM ai_quotas q WHERE q.user_id = auth.uid() FOR UPDATE;
+
+  -- Roll counters over at the start of a new day / month
+  IF v_quota.request_day < v_today THEN
+    v_quota.requests_today := 0;
+    v_quota.request_day := v_today;
+  END IF;
+  IF v_quota.token_month < v_month THEN
+    v_quota.tokens_this_month := 0;
+    v_quota.token_month := v_month;
+  END IF;
+
+  IF v_quota.requests_today >= v_quota.requests_per_day THEN
+    v_limit := 'requests';
+  ELSIF v_quota.tokens_this_month >= v_quota.tokens_per_month THEN
+    v_limit := 'tokens';
+  ELSIF p_consume THEN
+    v_quota.requests_today := v_quota.requests_today + 1;
+  END IF;
+
+  UPDATE ai_quotas q
+  SET
+    requests_today = v_quota.requests_today,
+    request_day = v_quota.request_day,
+    tokens_this_month = v_quota.tokens_this_month,
+    token_month = v_quota.token_month
+  WHERE q.user_id = auth.uid();
+
+  RETURN QUERY SELECT
+    v_limit IS NULL,
+    v_limit,
+    v_quota.requests_today,
+    v_quota.requests_per_day,
+    v_quota.tokens_this_month,
+    v_quota.tokens_per_month,
+    ((v_today + 1)::timestamp AT TIME ZONE 'utc'),
+    ((v_month + interval '1 month')::timestamp AT TIME ZONE 'utc');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Add tokens used by a completion to the caller's monthly counter
+CREATE OR REPLACE FUNCTION record_ai_tokens(p_tokens integer)
+RETURNS void AS $$
+DECLARE
+  v_month date := date_trunc('month', now() AT TIME ZONE 'utc')::date;
+BEGIN
+  IF auth.uid() IS NULL OR p_tokens IS NULL OR p_tokens <= 0 THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO ai_quotas (user_id, tokens_this_month, token_month)
+  VALUES (auth.uid(), p_tokens, v_month)
+  ON CONFLICT (user_id) DO UPDATE
+  SET
+    tokens_this_month = CASE
+      WHEN ai_quotas.token_month < v_month THEN p_tokens
+      ELSE ai_quotas.tokens_this_month + p_tokens
+    END,
+    token_month = v_month;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Grant necessary permissions
+GRANT SELECT ON ai_quotas TO authenticated;
+GRANT EXECUTE ON FUNCTION consume_ai_request(boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION record_ai_tokens(integer) TO authenticated;
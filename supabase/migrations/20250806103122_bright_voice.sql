@@ -0,0 +1,89 @@
+/*
+  # Assistant Personas
+
+  1. New Tables
+    - `assistant_personas`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key) - References auth.users for user ownership
+      - `name` (text) - Display name, e.g. "Restaurant advisor"
+      - `description` (text) - Short description shown in the persona picker
+      - `system_prompt` (text) - Instructions that define the persona's expertise and tone
+      - `temperature` (numeric, 0-2, default 0.7) - Sampling temperature for the persona
+      - `starter_questions` (text[]) - Suggested questions shown in an empty chat
+      - `created_at` (timestamptz, default now())
+      - `updated_at` (timestamptz, default now())
+
+  2. Changes to `chat_history`
+    - `persona_id` (text) - Built-in persona key (e.g. 'cfo') or a custom persona's uuid
+    - `persona_name` (text) - Persona name at the time of the turn, kept if the
+      custom persona is later renamed or deleted
+
+  3. Security
+    - Enable RLS on `assistant_personas` table
+    - Users can only read, create, update and delete their own personas
+
+  4. Indexes
+    - Index on user_id for the persona list
+
+  5. Triggers
+    - Auto-update updated_at timestamp
+*/
+
+-- Create the assistant_personas table
+CREATE TABLE IF NOT EXISTS assistant_personas (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  description text DEFAULT '',
+  system_prompt text NOT NULL,
+  temperature numeric(3, 2) NOT NULL DEFAULT 0.7 CHECK (temperature >= 0 AND temperature <= 2),
+  starter_questions text[] DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE assistant_personas ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can read own personas"
+  ON assistant_personas
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own personas"
+  ON assistant_personas
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own personas"
+  ON assistant_personas
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own personas"
+  ON assistant_personas
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_assistant_personas_user_id ON assistant_personas(user_id);
+
+-- Trigger to automatically update updated_at
+DROP TRIGGER IF EXISTS update_assistant_personas_updated_at ON assistant_personas;
+CREATE TRIGGER update_assistant_personas_updated_at
+  BEFORE UPDATE ON assistant_personas
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Record the persona used for each chat turn
+ALTER TABLE chat_history ADD COLUMN IF NOT EXISTS persona_id text;
+ALTER TABLE chat_history ADD COLUMN IF NOT EXISTS persona_name text;
+
+-- Grant necessary permissions
+GRANT ALL ON assistant_personas TO authenticated;
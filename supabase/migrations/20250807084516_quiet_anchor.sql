@@ -0,0 +1,20 @@
+/*
+  # Business Plan Context for Chat
+
+  1. Modified Tables
+    - `chat_history`
+      - `business_plan_id` (uuid, nullable) - Plan attached as context when the question was asked
+      - `business_plan_title` (text, nullable) - Plan title at the time, kept if the plan is deleted
+
+  2. Indexes
+    - chat_history(business_plan_id) for finding chats grounded in a plan
+*/
+
+-- Plan attached to each chat turn; deleting the plan keeps the turn
+ALTER TABLE chat_history
+  ADD COLUMN IF NOT EXISTS business_plan_id uuid REFERENCES business_plans(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS business_plan_title text;
+
+CREATE INDEX IF NOT EXISTS idx_chat_history_business_plan_id
+  ON chat_history(business_plan_id)
+  WHERE business_plan_id IS NOT NULL;
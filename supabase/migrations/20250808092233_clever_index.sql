@@ -0,0 +1,181 @@
+/*
+  # Lesson Retrieval Index
+
+  1. New Tables
+    - `lesson_chunks`
+      - `id` (uuid, primary key)
+      - `lesson_id` (uuid, foreign key to lessons)
+      - `course_id` (uuid, foreign key to courses)
+      - `source` (text) - 'description' or 'transcript'
+      - `chunk_index` (integer) - Position of the chunk within the source
+      - `lesson_title` (text) - Denormalized so it can be weighted in the search vector
+      - `content` (text) - About 180 words, overlapping the previous chunk by 30
+      - `search_vector` (tsvector, generated) - Lesson title (weight A) + content (weight B)
+      - `created_at` (timestamp)
+
+  2. Functions
+    - `chunk_lesson_text(text, size, overlap)` - Split text into overlapping word windows
+    - `reindex_lesson_chunks(lesson_id)` - Rebuild a lesson's chunks (internal)
+    - `search_lesson_chunks(query, limit, min_rank)` - Top matching chunks of published
+      lessons; any query word may match, ranked with ts_rank_cd
+
+  3. Triggers
+    - Lesson chunks are rebuilt whenever a lesson's title, description or transcript changes
+    - Existing lessons (including the seeded ones) are indexed by this migration
+
+  4. Security
+    - Enable RLS on `lesson_chunks`
+    - Chunks of published lessons are readable like the lessons themselves
+    - Chunks are only written by the reindex trigger
+*/
+
+-- Create lesson chunks table
+CREATE TABLE IF NOT EXISTS lesson_chunks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lesson_id uuid NOT NULL REFERENCES lessons(id) ON DELETE CASCADE,
+  course_id uuid NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  source text NOT NULL CHECK (source IN ('description', 'transcript')),
+  chunk_index integer NOT NULL,
+  lesson_title text NOT NULL,
+  content text NOT NULL,
+  search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(lesson_title, '')), 'A') ||
+    setweight(to_tsvector('english', content), 'B')
+  ) STORED,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (lesson_id, source, chunk_index)
+);
+
+-- Enable RLS
+ALTER TABLE lesson_chunks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Chunks of published lessons are viewable by everyone"
+  ON lesson_chunks
+  FOR SELECT
+  TO anon, authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM lessons
+      WHERE lessons.id = lesson_chunks.lesson_id
+      AND lessons.is_published = true
+    )
+  );
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_lesson_chunks_search ON lesson_chunks USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_lesson_chunks_lesson_id ON lesson_chunks(lesson_id);
+
+-- Split text into overlapping windows of words
+CREATE OR REPLACE FUNCTION chunk_lesson_text(
+  p_text text,
+  p_size integer DEFAULT 180,
+  p_overlap integer DEFAULT 30
+)
+RETURNS TABLE (chunk_index integer, content text)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  WITH words AS (
+    SELECT regexp_split_to_array(btrim(p_text), '\s+') AS list
+    WHERE btrim(coalesce(p_text, '')) <> ''
+  )
+  SELECT
+    (window_start.word / (p_size - p_overlap))::integer AS chunk_index,
+    array_to_string(words.list[window_start.word + 1 : window_start.word + p_size], ' ') AS content
+  FROM words,
+    generate_series(0, greatest(cardinality(words.list) - p_overlap - 1, 0), p_size - p_overlap) AS window_start(word);
+$$;
+
+-- Rebuild the chunks of one lesson from its description and transcript
+CREATE OR REPLACE FUNCTION reindex_lesson_chunks(p_lesson_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM lesson_chunks WHERE lesson_id = p_lesson_id;
+
+  INSERT INTO lesson_chunks (lesson_id, course_id, source, chunk_index, lesson_title, content)
+  SELECT l.id, l.course_id, src.source, chunk.chunk_index, l.title, chunk.content
+  FROM lessons l
+  CROSS JOIN LATERAL (
+    VALUES ('description', l.description), ('transcript', l.transcript)
+  ) AS src(source, body)
+  CROSS JOIN LATERAL chunk_lesson_text(src.body) AS chunk
+  WHERE l.id = p_lesson_id;
+END;
+$$;
+
+-- Keep chunks in sync with lesson content
+CREATE OR REPLACE FUNCTION handle_lesson_content_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM reindex_lesson_chunks(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reindex_lesson_chunks_on_change ON lessons;
+CREATE TRIGGER reindex_lesson_chunks_on_change
+  AFTER INSERT OR UPDATE OF title, description, transcript, course_id ON lessons
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_lesson_content_change();
+
+-- Index existing lessons
+SELECT reindex_lesson_chunks(id) FROM lessons;
+
+-- Top matching chunks for a question
+-- plainto_tsquery ANDs every word; questions rarely match all of them, so the
+-- words are ORed and ts_rank_cd puts chunks matching more (and title) words first
+CREATE OR REPLACE FUNCTION search_lesson_chunks(
+  p_query text,
+  p_limit integer DEFAULT 4,
+  p_min_rank real DEFAULT 0.01
+)
+RETURNS TABLE (
+  chunk_id uuid,
+  lesson_id uuid,
+  course_id uuid,
+  lesson_title text,
+  course_title text,
+  source text,
+  content text,
+  rank real
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT NULLIF(replace(plainto_tsquery('english', p_query)::text, ' & ', ' | '), '')::tsquery AS terms
+  )
+  SELECT
+    lc.id,
+    lc.lesson_id,
+    lc.course_id,
+    lc.lesson_title,
+    c.title,
+    lc.source,
+    lc.content,
+    ts_rank_cd(lc.search_vector, query.terms, 32) AS rank
+  FROM query
+  JOIN lesson_chunks lc ON lc.search_vector @@ query.terms
+  JOIN lessons l ON l.id = lc.lesson_id AND l.is_published = true
+  JOIN courses c ON c.id = lc.course_id AND c.is_published = true
+  WHERE ts_rank_cd(lc.search_vector, query.terms, 32) >= p_min_rank
+  ORDER BY rank DESC
+  LIMIT least(greatest(p_limit, 1), 10);
+$$;
+
+-- Record the lessons retrieved for each chat turn
+ALTER TABLE chat_history ADD COLUMN IF NOT EXISTS lesson_sources jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+-- Grant necessary permissions
+REVOKE EXECUTE ON FUNCTION reindex_lesson_chunks(uuid) FROM PUBLIC;
+GRANT SELECT ON lesson_chunks TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_lesson_chunks(text, integer, real) TO anon, authenticated;
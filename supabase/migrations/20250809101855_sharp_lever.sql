@@ -0,0 +1,11 @@
+/*
+  # Assistant Tool Invocations
+
+  1. Modified Tables
+    - `chat_history`
+      - `tool_invocations` (jsonb, default []) - Tools the assistant called while answering:
+        id, name, label, arguments, result and error for each call, in call order
+*/
+
+-- Tools called for each chat turn, shown inline in the transcript
+ALTER TABLE chat_history ADD COLUMN IF NOT EXISTS tool_invocations jsonb NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,57 @@
+/*
+  # Branching Chat Turns
+
+  1. Modified Tables
+    - `chat_history`
+      - `parent_id` (uuid, nullable) - The turn this turn follows; null for the first turn
+        of a conversation. Turns with the same parent are alternatives (branches):
+        regenerated answers and edited questions
+      - `temperature` (numeric, nullable) - Sampling temperature used for the answer
+    - `conversations`
+      - `active_turn_id` (uuid, nullable) - Last turn of the branch the user is viewing
+
+  2. Data Migration
+    - Existing turns are chained in creation order within their conversation
+    - Each conversation's active turn is its latest turn
+
+  3. Relationships
+    - Deleting a turn deletes the turns that follow it (its branches)
+    - Deleting the active turn clears active_turn_id (the app then shows the latest branch)
+
+  4. Indexes
+    - Index on parent_id for loading branches
+*/
+
+-- Turn tree
+ALTER TABLE chat_history
+  ADD COLUMN IF NOT EXISTS parent_id uuid REFERENCES chat_history(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS temperature numeric(3, 2);
+
+CREATE INDEX IF NOT EXISTS idx_chat_history_parent_id ON chat_history(parent_id);
+
+-- Chain existing turns in creation order
+UPDATE chat_history
+SET parent_id = ordered.previous_id
+FROM (
+  SELECT id, lag(id) OVER (PARTITION BY conversation_id ORDER BY created_at, id) AS previous_id
+  FROM chat_history
+  WHERE conversation_id IS NOT NULL
+) ordered
+WHERE chat_history.id = ordered.id
+  AND ordered.previous_id IS NOT NULL
+  AND chat_history.parent_id IS NULL;
+
+-- Branch the user is viewing
+ALTER TABLE conversations
+  ADD COLUMN IF NOT EXISTS active_turn_id uuid REFERENCES chat_history(id) ON DELETE SET NULL;
+
+UPDATE conversations
+SET active_turn_id = latest.id
+FROM (
+  SELECT DISTINCT ON (conversation_id) conversation_id, id
+  FROM chat_history
+  WHERE conversation_id IS NOT NULL
+  ORDER BY conversation_id, created_at DESC
+) latest
+WHERE conversations.id = latest.conversation_id
+  AND conversations.active_turn_id IS NULL;
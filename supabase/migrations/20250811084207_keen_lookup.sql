@@ -0,0 +1,103 @@
+/*
+  # Chat History Search
+
+  1. Modified Tables
+    - `chat_history`
+      - `search_vector` (tsvector, generated) - Question (weight A) + answer (weight B)
+
+  2. Indexes
+    - GIN index on chat_history.search_vector
+
+  3. Functions
+    - `search_chat_history(query, from, to, model, bookmarked_only, conversation_id, limit, offset)`
+      - Searches the current user's turns with websearch syntax ("exact phrase", -exclude, or)
+      - Optional filters: created_at range, model, bookmarked turns (bookmarks table),
+        conversation
+      - Returns highlighted excerpts of question and answer: matches are wrapped in
+        chr(2) ... chr(3), which the app turns into highlights
+      - Best match first, newest first for equal rank
+
+  4. Security
+    - SECURITY INVOKER: chat_history and bookmarks RLS apply, and rows are also
+      limited to auth.uid() explicitly
+*/
+
+-- Searchable text of each turn
+ALTER TABLE chat_history
+  ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(question, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(answer, '')), 'B')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_chat_history_search_vector ON chat_history USING GIN(search_vector);
+
+-- Search the current user's chat history
+CREATE OR REPLACE FUNCTION search_chat_history(
+  p_query text,
+  p_from timestamptz DEFAULT NULL,
+  p_to timestamptz DEFAULT NULL,
+  p_model text DEFAULT NULL,
+  p_bookmarked_only boolean DEFAULT false,
+  p_conversation_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  chat_id uuid,
+  conversation_id uuid,
+  conversation_title text,
+  question_excerpt text,
+  answer_excerpt text,
+  model_used text,
+  is_bookmarked boolean,
+  created_at timestamptz,
+  rank real
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', p_query) AS terms
+  ),
+  matches AS (
+    SELECT
+      ch.*,
+      ts_rank_cd(ch.search_vector, query.terms) AS match_rank,
+      query.terms,
+      EXISTS (
+        SELECT 1 FROM bookmarks b
+        WHERE b.user_id = ch.user_id
+        AND b.type = 'chat'
+        AND b.related_id = ch.id
+      ) AS bookmarked
+    FROM query
+    JOIN chat_history ch ON ch.search_vector @@ query.terms
+    WHERE ch.user_id = auth.uid()
+    AND (p_from IS NULL OR ch.created_at >= p_from)
+    AND (p_to IS NULL OR ch.created_at < p_to)
+    AND (p_model IS NULL OR ch.model_used = p_model)
+    AND (p_conversation_id IS NULL OR ch.conversation_id = p_conversation_id)
+  )
+  SELECT
+    m.id,
+    m.conversation_id,
+    c.title,
+    ts_headline('english', m.question, m.terms,
+      'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', HighlightAll=true'),
+    ts_headline('english', m.answer, m.terms,
+      'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', MaxFragments=2, MaxWords=30, MinWords=12, FragmentDelimiter=" … "'),
+    m.model_used,
+    m.bookmarked,
+    m.created_at,
+    m.match_rank
+  FROM matches m
+  LEFT JOIN conversations c ON c.id = m.conversation_id
+  WHERE NOT p_bookmarked_only OR m.bookmarked
+  ORDER BY m.match_rank DESC, m.created_at DESC
+  LIMIT least(greatest(p_limit, 1), 50)
+  OFFSET greatest(p_offset, 0);
+$$;
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION search_chat_history(text, timestamptz, timestamptz, text, boolean, uuid, integer, integer) TO authenticated;
@@ -0,0 +1,143 @@
+/*
+  # Trash (Soft Delete)
+
+  1. Modified Tables
+    - `chat_history`, `conversations`, `notes`, `business_plans`, `bookmarks`
+      - `deleted_at` (timestamptz, nullable) - When the row was moved to the trash;
+        null for live rows. Rows trashed together (a conversation and its turns,
+        a turn and its branches, a cleared history) share the same timestamp
+
+  2. Security
+    - New UPDATE policy on `bookmarks` so bookmarks can be trashed and restored
+
+  3. Functions
+    - `search_chat_history` - Skips trashed turns and trashed bookmarks
+    - `purge_deleted_items()` - Permanently deletes rows trashed more than 30 days ago;
+      runs daily at 03:15 UTC via pg_cron, not callable by clients
+
+  4. Notes
+    - The ai_usage_* views keep counting trashed rows: the AI usage happened
+    - Indexes only cover trashed rows, so live queries are unaffected
+*/
+
+-- Trash timestamps
+ALTER TABLE chat_history ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+ALTER TABLE business_plans ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+ALTER TABLE bookmarks ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_chat_history_deleted_at ON chat_history(user_id, deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_conversations_deleted_at ON conversations(user_id, deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_notes_deleted_at ON notes(user_id, deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_business_plans_deleted_at ON business_plans(user_id, deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_bookmarks_deleted_at ON bookmarks(user_id, deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Bookmarks are trashed and restored with an update
+DROP POLICY IF EXISTS "Users can update own bookmarks" ON bookmarks;
+CREATE POLICY "Users can update own bookmarks"
+  ON bookmarks
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Search live turns only
+CREATE OR REPLACE FUNCTION search_chat_history(
+  p_query text,
+  p_from timestamptz DEFAULT NULL,
+  p_to timestamptz DEFAULT NULL,
+  p_model text DEFAULT NULL,
+  p_bookmarked_only boolean DEFAULT false,
+  p_conversation_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  chat_id uuid,
+  conversation_id uuid,
+  conversation_title text,
+  question_excerpt text,
+  answer_excerpt text,
+  model_used text,
+  is_bookmarked boolean,
+  created_at timestamptz,
+  rank real
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', p_query) AS terms
+  ),
+  matches AS (
+    SELECT
+      ch.*,
+      ts_rank_cd(ch.search_vector, query.terms) AS match_rank,
+      query.terms,
+      EXISTS (
+        SELECT 1 FROM bookmarks b
+        WHERE b.user_id = ch.user_id
+        AND b.type = 'chat'
+        AND b.related_id = ch.id
+        AND b.deleted_at IS NULL
+      ) AS bookmarked
+    FROM query
+    JOIN chat_history ch ON ch.search_vector @@ query.terms
+    WHERE ch.user_id = auth.uid()
+    AND ch.deleted_at IS NULL
+    AND (p_from IS NULL OR ch.created_at >= p_from)
+    AND (p_to IS NULL OR ch.created_at < p_to)
+    AND (p_model IS NULL OR ch.model_used = p_model)
+    AND (p_conversation_id IS NULL OR ch.conversation_id = p_conversation_id)
+  )
+  SELECT
+    m.id,
+    m.conversation_id,
+    c.title,
+    ts_headline('english', m.question, m.terms,
+      'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', HighlightAll=true'),
+    ts_headline('english', m.answer, m.terms,
+      'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', MaxFragments=2, MaxWords=30, MinWords=12, FragmentDelimiter=" … "'),
+    m.model_used,
+    m.bookmarked,
+    m.created_at,
+    m.match_rank
+  FROM matches m
+  LEFT JOIN conversations c ON c.id = m.conversation_id
+  WHERE NOT p_bookmarked_only OR m.bookmarked
+  ORDER BY m.match_rank DESC, m.created_at DESC
+  LIMIT least(greatest(p_limit, 1), 50)
+  OFFSET greatest(p_offset, 0);
+$$;
+
+-- Permanently delete items trashed more than 30 days ago
+CREATE OR REPLACE FUNCTION purge_deleted_items()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  cutoff timestamptz := now() - interval '30 days';
+BEGIN
+  -- Conversations first: their turns go with them (ON DELETE CASCADE)
+  DELETE FROM conversations WHERE deleted_at < cutoff;
+  DELETE FROM chat_history WHERE deleted_at < cutoff;
+  DELETE FROM notes WHERE deleted_at < cutoff;
+  DELETE FROM business_plans WHERE deleted_at < cutoff;
+  DELETE FROM bookmarks WHERE deleted_at < cutoff;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION purge_deleted_items() FROM PUBLIC, anon, authenticated;
+
+-- Daily purge
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'purge-deleted-items',
+  '15 3 * * *',
+  'SELECT public.purge_deleted_items()'
+);
@@ -0,0 +1,61 @@
+/*
+  # Chat Attachments
+
+  1. Storage
+    - Create the private `chat-attachments` bucket for files attached to
+      assistant questions (PDF, DOCX, CSV, XLSX, TXT; 10MB limit)
+    - Files are stored under `<user_id>/`; there are no public URLs, files
+      are opened with short-lived signed URLs
+
+  2. Modified Tables
+    - `chat_history`
+      - `attachments` (jsonb) - Files attached to the question:
+        [{ name, path, mime_type, size }]
+
+  3. Security
+    - Users can only read, upload and delete files in their own folder
+*/
+
+-- Create the chat attachments bucket
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'chat-attachments',
+  'chat-attachments',
+  false,
+  10485760, -- 10MB limit
+  ARRAY[
+    'application/pdf',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'text/csv',
+    'text/plain'
+  ]
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Users can read their own attachments
+CREATE POLICY "Users can read their own chat attachments"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'chat-attachments'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+);
+
+-- Users can upload their own attachments
+CREATE POLICY "Users can upload their own chat attachments"
+ON storage.objects FOR INSERT
+WITH CHECK (
+  bucket_id = 'chat-attachments'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+);
+
+-- Users can delete their own attachments
+CREATE POLICY "Users can delete their own chat attachments"
+ON storage.objects FOR DELETE
+USING (
+  bucket_id = 'chat-attachments'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+);
+
+-- Record the files attached to each question
+ALTER TABLE chat_history ADD COLUMN IF NOT EXISTS attachments jsonb NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,10 @@
+/*
+  # Suggested Follow-up Questions
+
+  1. Modified Tables
+    - `chat_history`
+      - `follow_ups` (jsonb) - 2-4 follow-up questions suggested with the answer
+*/
+
+-- Record the follow-up questions suggested with each answer
+ALTER TABLE chat_history ADD COLUMN IF NOT EXISTS follow_ups jsonb NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,124 @@
+/*
+  # Business Plan Version History
+
+  1. New Tables
+    - `business_plan_versions`
+      - `id` (uuid, primary key)
+      - `plan_id` (uuid, foreign key to business_plans)
+      - `user_id` (uuid) - Plan owner, references auth.users
+      - `version_number` (integer) - 1, 2, 3... per plan, set on insert
+      - `title` (text) - Plan title in this version
+      - `status` (text) - Plan status in this version
+      - `generated_plan` (jsonb) - Plan sections in this version
+      - `change_type` (text) - 'created', 'manual_edit', 'ai_modification',
+        'section_action', 'section_retry' or 'restore'
+      - `change_summary` (text) - What changed, e.g. the modification request
+      - `author_name` (text) - Name of the user who made the change
+      - `ai_model` (text) - Model that wrote the change, for AI changes
+      - `created_at` (timestamp)
+
+  2. Triggers
+    - `version_number` is always the plan's next number, so concurrent saves
+      can't get the same one
+
+  3. Data
+    - Every existing plan gets its current content as version 1
+
+  4. Security
+    - Enable RLS on `business_plan_versions`
+    - Users can read and add versions of their own plans; versions can't be
+      changed, and are deleted with their plan
+*/
+
+-- Create business_plan_versions table
+CREATE TABLE IF NOT EXISTS business_plan_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  plan_id uuid NOT NULL REFERENCES business_plans(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  version_number integer NOT NULL,
+  title text NOT NULL,
+  status text NOT NULL DEFAULT 'complete' CHECK (status IN ('draft', 'complete', 'archived')),
+  generated_plan jsonb NOT NULL DEFAULT '[]'::jsonb,
+  change_type text NOT NULL CHECK (change_type IN (
+    'created', 'manual_edit', 'ai_modification', 'section_action', 'section_retry', 'restore'
+  )),
+  change_summary text NOT NULL DEFAULT '',
+  author_name text,
+  ai_model text,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (plan_id, version_number)
+);
+
+-- Enable Row Level Security
+ALTER TABLE business_plan_versions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can read versions of own business plans"
+  ON business_plan_versions
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add versions to own business plans"
+  ON business_plan_versions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM business_plans
+      WHERE business_plans.id = business_plan_versions.plan_id
+      AND business_plans.user_id = auth.uid()
+    )
+  );
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_business_plan_versions_plan ON business_plan_versions(plan_id, version_number DESC);
+CREATE INDEX IF NOT EXISTS idx_business_plan_versions_user_id ON business_plan_versions(user_id);
+
+-- Number each new version after the plan's latest one
+-- The plan row is locked so concurrent saves are numbered one after the other
+CREATE OR REPLACE FUNCTION set_business_plan_version_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM 1 FROM business_plans WHERE id = NEW.plan_id FOR UPDATE;
+
+  SELECT coalesce(max(version_number), 0) + 1
+  INTO NEW.version_number
+  FROM business_plan_versions
+  WHERE plan_id = NEW.plan_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_business_plan_version_number ON business_plan_versions;
+CREATE TRIGGER set_business_plan_version_number
+  BEFORE INSERT ON business_plan_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION set_business_plan_version_number();
+
+-- Record the current content of existing plans as their first version
+INSERT INTO business_plan_versions (plan_id, user_id, version_number, title, status, generated_plan, change_type, change_summary, ai_model, created_at)
+SELECT
+  bp.id,
+  bp.user_id,
+  1,
+  bp.title,
+  bp.status,
+  bp.generated_plan,
+  'created',
+  'Version before history was recorded',
+  bp.ai_model_used,
+  coalesce(bp.last_modified_at, bp.created_at, now())
+FROM business_plans bp
+WHERE NOT EXISTS (
+  SELECT 1 FROM business_plan_versions v WHERE v.plan_id = bp.id
+);
+
+-- Grant necessary permissions
+GRANT SELECT, INSERT ON business_plan_versions TO authenticated;
@@ -0,0 +1,115 @@
+/*
+  # Per-Request Plan Usage
+
+  Plan usage was read from the totals on `business_plans`, so the usage of
+  every later modification, section retry and section action was counted
+  on the day the plan was created and under the model that first generated
+  it. Each plan AI request is now recorded on its own.
+
+  1. New Tables
+    - `plan_usage_events` - One row per plan AI request (section generation,
+      section action, plan modification), including requests whose result
+      was discarded
+      - `id` (uuid, primary key)
+      - `user_id` (uuid) - References auth.users
+      - `label` (text) - What the request was for, e.g. "Acme Coffee: Market Analysis"
+      - `model` (text) - Model that answered the request
+      - `prompt_tokens`, `completion_tokens`, `total_tokens` (integer)
+      - `cost_usd` (numeric, nullable) - Cost reported by the provider, null when unknown
+      - `response_time_ms` (integer)
+      - `created_at` (timestamp) - When the request was made
+
+  2. Modified Views
+    - `ai_usage_events` - Plan events come from `plan_usage_events` instead
+      of `business_plans`; `ai_usage_daily` and `ai_usage_monthly` follow
+
+  3. Data
+    - The usage recorded so far on each plan becomes one event at the
+      plan's creation, as it was counted before
+
+  4. Security
+    - Enable RLS on `plan_usage_events`
+    - Users can read and add their own events; events can't be changed
+*/
+
+-- Create plan_usage_events table
+CREATE TABLE IF NOT EXISTS plan_usage_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  label text NOT NULL DEFAULT '',
+  model text NOT NULL,
+  prompt_tokens integer NOT NULL DEFAULT 0,
+  completion_tokens integer NOT NULL DEFAULT 0,
+  total_tokens integer NOT NULL DEFAULT 0,
+  cost_usd numeric(12, 6),
+  response_time_ms integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE plan_usage_events ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can read own plan usage"
+  ON plan_usage_events
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add own plan usage"
+  ON plan_usage_events
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_plan_usage_events_user_created ON plan_usage_events(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_plan_usage_events_user_response_time ON plan_usage_events(user_id, response_time_ms DESC);
+
+-- Usage recorded on existing plans, as it was counted until now
+INSERT INTO plan_usage_events (user_id, label, model, prompt_tokens, completion_tokens, total_tokens, cost_usd, response_time_ms, created_at)
+SELECT
+  user_id,
+  title,
+  coalesce(ai_model_used, 'unknown'),
+  prompt_tokens,
+  completion_tokens,
+  tokens_used,
+  cost_usd,
+  coalesce(generation_time_ms, 0),
+  created_at
+FROM business_plans;
+
+-- Every AI call as a single stream of usage events
+CREATE OR REPLACE VIEW ai_usage_events
+WITH (security_invoker = true) AS
+SELECT
+  id,
+  user_id,
+  'chat'::text AS source,
+  left(question, 120) AS label,
+  model_used AS model,
+  prompt_tokens,
+  completion_tokens,
+  tokens_used AS total_tokens,
+  cost_usd,
+  response_time_ms,
+  created_at
+FROM chat_history
+UNION ALL
+SELECT
+  id,
+  user_id,
+  'plan'::text AS source,
+  label,
+  model,
+  prompt_tokens,
+  completion_tokens,
+  total_tokens,
+  cost_usd,
+  response_time_ms,
+  created_at
+FROM plan_usage_events;
+
+-- Grant necessary permissions
+GRANT SELECT, INSERT ON plan_usage_events TO authenticated;
@@ -0,0 +1,102 @@
+/*
+  # Save Business Plans and Their Versions Together
+
+  A plan save and its version row were written by two separate requests, so
+  a failure between them left a save without a version (or the history out
+  of step with the plan). Both are now written by one function call, in one
+  transaction: either both are saved or neither is.
+
+  1. Functions
+    - `create_business_plan(plan, change)` - Insert a generated plan and its
+      first version
+    - `save_business_plan_change(plan_id, updates, change)` - Update a plan's
+      content and record the result as its next version
+      - `updates` may set `title`, `status`, `generated_plan`, `tokens_used`,
+        `prompt_tokens`, `completion_tokens` and `cost_usd`
+    - `change` is `{ change_type, change_summary, author_name, ai_model }`
+    - Both return the saved plan
+
+  2. Security
+    - SECURITY INVOKER: the RLS policies of `business_plans` and
+      `business_plan_versions` apply, so users can only save their own plans
+*/
+
+-- Insert a plan and record it as version 1
+CREATE OR REPLACE FUNCTION create_business_plan(p_plan jsonb, p_change jsonb)
+RETURNS business_plans AS $$
+DECLARE
+  v_plan business_plans;
+BEGIN
+  INSERT INTO business_plans (
+    user_id, business_name, industry, business_type, location, target_audience,
+    value_proposition, revenue_model, goals, generated_plan, title, ai_model_used,
+    generation_time_ms, tokens_used, prompt_tokens, completion_tokens, cost_usd, status
+  )
+  SELECT
+    auth.uid(), p.business_name, p.industry, p.business_type, p.location, p.target_audience,
+    p.value_proposition, p.revenue_model, p.goals, p.generated_plan, p.title, p.ai_model_used,
+    p.generation_time_ms, p.tokens_used, p.prompt_tokens, p.completion_tokens, p.cost_usd, p.status
+  FROM jsonb_populate_record(NULL::business_plans, p_plan) AS p
+  RETURNING * INTO v_plan;
+
+  INSERT INTO business_plan_versions (plan_id, user_id, title, status, generated_plan, change_type, change_summary, author_name, ai_model)
+  VALUES (
+    v_plan.id,
+    v_plan.user_id,
+    v_plan.title,
+    v_plan.status,
+    v_plan.generated_plan,
+    p_change->>'change_type',
+    coalesce(p_change->>'change_summary', ''),
+    p_change->>'author_name',
+    p_change->>'ai_model'
+  );
+
+  RETURN v_plan;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+-- Update a plan's content and record the result as its next version
+CREATE OR REPLACE FUNCTION save_business_plan_change(p_plan_id uuid, p_updates jsonb, p_change jsonb)
+RETURNS business_plans AS $$
+DECLARE
+  v_plan business_plans;
+BEGIN
+  UPDATE business_plans
+  SET
+    title = coalesce(p_updates->>'title', title),
+    status = coalesce(p_updates->>'status', status),
+    generated_plan = coalesce(p_updates->'generated_plan', generated_plan),
+    tokens_used = coalesce((p_updates->>'tokens_used')::integer, tokens_used),
+    prompt_tokens = coalesce((p_updates->>'prompt_tokens')::integer, prompt_tokens),
+    completion_tokens = coalesce((p_updates->>'completion_tokens')::integer, completion_tokens),
+    cost_usd = CASE WHEN p_updates ? 'cost_usd' THEN (p_updates->>'cost_usd')::numeric ELSE cost_usd END,
+    last_modified_at = now()
+  WHERE id = p_plan_id
+  AND user_id = auth.uid()
+  RETURNING * INTO v_plan;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Business plan % not found', p_plan_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  INSERT INTO business_plan_versions (plan_id, user_id, title, status, generated_plan, change_type, change_summary, author_name, ai_model)
+  VALUES (
+    v_plan.id,
+    v_plan.user_id,
+    v_plan.title,
+    v_plan.status,
+    v_plan.generated_plan,
+    p_change->>'change_type',
+    coalesce(p_change->>'change_summary', ''),
+    p_change->>'author_name',
+    p_change->>'ai_model'
+  );
+
+  RETURN v_plan;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION create_business_plan(jsonb, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION save_business_plan_change(uuid, jsonb, jsonb) TO authenticated;
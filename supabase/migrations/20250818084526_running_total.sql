@@ -0,0 +1,114 @@
+/*
+  # Plan Usage Totals From Usage Events
+
+  The usage totals on `business_plans` were computed by the client from the
+  plan it had loaded and saved as absolute values, so two saves close
+  together (or a save from another tab) lost usage. Only accepted changes
+  were added, while `plan_usage_events` also records requests whose result
+  was discarded, so the totals and the events drifted apart. A plan's
+  totals are now added to by the database as each usage event of the plan
+  is recorded.
+
+  1. Modified Tables
+    - `plan_usage_events`
+      - `plan_id` (uuid, nullable) - Plan the request was made for; null for
+        the requests that generate a new plan, whose usage is saved with the
+        plan, and for events recorded before this migration
+
+  2. Triggers
+    - A usage event with a `plan_id` adds its tokens and cost to that plan's
+      totals, in the same statement as the event is recorded
+
+  3. Functions
+    - `save_business_plan_change` no longer sets `tokens_used`,
+      `prompt_tokens`, `completion_tokens` or `cost_usd`
+
+  4. Security
+    - Users can only record usage for their own plans
+*/
+
+-- Link usage events to the plan they were made for
+ALTER TABLE plan_usage_events
+  ADD COLUMN IF NOT EXISTS plan_id uuid REFERENCES business_plans(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_plan_usage_events_plan_id ON plan_usage_events(plan_id) WHERE plan_id IS NOT NULL;
+
+-- Users can only add usage to their own plans
+DROP POLICY IF EXISTS "Users can add own plan usage" ON plan_usage_events;
+
+CREATE POLICY "Users can add own plan usage"
+  ON plan_usage_events
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      plan_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM business_plans
+        WHERE business_plans.id = plan_usage_events.plan_id
+        AND business_plans.user_id = auth.uid()
+      )
+    )
+  );
+
+-- Add each usage event of a plan to the plan's totals
+-- The increment happens in the database, so concurrent requests are all counted
+CREATE OR REPLACE FUNCTION add_plan_usage_to_plan()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE business_plans
+  SET
+    tokens_used = tokens_used + NEW.total_tokens,
+    prompt_tokens = prompt_tokens + NEW.prompt_tokens,
+    completion_tokens = completion_tokens + NEW.completion_tokens,
+    cost_usd = CASE WHEN NEW.cost_usd IS NULL THEN cost_usd ELSE coalesce(cost_usd, 0) + NEW.cost_usd END
+  WHERE id = NEW.plan_id;
+
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER add_plan_usage_events_to_plan
+  AFTER INSERT ON plan_usage_events
+  FOR EACH ROW
+  WHEN (NEW.plan_id IS NOT NULL)
+  EXECUTE FUNCTION add_plan_usage_to_plan();
+
+-- Update a plan's content and record the result as its next version
+-- Usage totals are left to the usage events
+CREATE OR REPLACE FUNCTION save_business_plan_change(p_plan_id uuid, p_updates jsonb, p_change jsonb)
+RETURNS business_plans AS $$
+DECLARE
+  v_plan business_plans;
+BEGIN
+  UPDATE business_plans
+  SET
+    title = coalesce(p_updates->>'title', title),
+    status = coalesce(p_updates->>'status', status),
+    generated_plan = coalesce(p_updates->'generated_plan', generated_plan),
+    last_modified_at = now()
+  WHERE id = p_plan_id
+  AND user_id = auth.uid()
+  RETURNING * INTO v_plan;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Business plan % not found', p_plan_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  INSERT INTO business_plan_versions (plan_id, user_id, title, status, generated_plan, change_type, change_summary, author_name, ai_model)
+  VALUES (
+    v_plan.id,
+    v_plan.user_id,
+    v_plan.title,
+    v_plan.status,
+    v_plan.generated_plan,
+    p_change->>'change_type',
+    coalesce(p_change->>'change_summary', ''),
+    p_change->>'author_name',
+    p_change->>'ai_model'
+  );
+
+  RETURN v_plan;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
@@ -0,0 +1,81 @@
+/*
+  # Local Seed Data
+
+  Loaded by `supabase db reset` after the migrations. The migrations seed the
+  courses and lessons with one-line placeholder transcripts; this replaces them
+  with full transcripts so lesson retrieval (lesson_chunks,
+  search_lesson_chunks) can be tried and tested locally against realistic
+  content.
+
+  1. Lessons
+    - Transcripts for the seeded lessons; updating them rebuilds their chunks
+      through the lessons trigger
+    - "Creating Financial Projections" is long enough to be split into several
+      overlapping chunks
+    - An unpublished draft lesson ("Cash Flow Forecasting") that must never be
+      returned by search_lesson_chunks
+
+  Tests in supabase/tests/database rely on this data.
+*/
+
+-- Full transcripts for the seeded lessons
+UPDATE lessons l
+SET transcript = seed.transcript
+FROM (VALUES
+  ('Digital Marketing Fundamentals', 'Introduction to Digital Marketing',
+   'Welcome to digital marketing. In this lesson we map the channels a small business can use to reach customers online: search, social media, email, content and paid advertising. Each channel plays a different role in the customer journey. Search and content capture people who are already looking for a solution, social media builds awareness and trust, and email turns first-time visitors into repeat customers. We also introduce the metrics you will see throughout the course, such as reach, click-through rate, conversion rate and customer acquisition cost. Start with one or two channels where your customers already spend their time, set a monthly budget, and measure results every week before adding more.'),
+  ('Digital Marketing Fundamentals', 'SEO Fundamentals',
+   'Search engine optimization, or SEO, is how you make your website easy to find on Google and other search engines. Start with keyword research: list the questions your customers type into search and pick keywords with clear intent and realistic competition. Each page should target one main keyword in its title tag, heading and first paragraph. On-page SEO also covers meta descriptions, descriptive image alt text and fast loading pages. Technical SEO makes sure search engines can crawl your site, with a sitemap, clean URLs and a mobile friendly layout. Finally, backlinks from trusted sites tell search engines your content is credible. SEO takes months, not days, so track rankings and organic traffic monthly.'),
+  ('Digital Marketing Fundamentals', 'Social Media Marketing',
+   'Social media marketing works best when you pick the platforms your audience actually uses instead of being everywhere at once. Instagram and TikTok favour visual, short form content, LinkedIn suits business to business services, and Facebook groups are strong for local communities. Plan a content calendar with a mix of educational posts, behind the scenes stories and promotions, roughly eighty percent value and twenty percent selling. Engagement matters more than follower counts: reply to comments, share customer stories and collaborate with creators in your niche. Use each platform analytics to see which posts drive website visits and sales, and put a small paid budget behind the posts that already perform well organically.'),
+  ('Digital Marketing Fundamentals', 'Content Marketing Strategy',
+   'A content marketing strategy turns your expertise into articles, videos, guides and newsletters that attract the right customers. Begin by defining your audience personas and the problems they are trying to solve at each stage of the buying journey. Build content pillars, three to five core topics you want to be known for, and plan pieces for awareness, consideration and decision. Repurpose every long piece into smaller formats for social media and email. Set a realistic publishing cadence you can keep, because consistency beats volume. Measure content by the leads and sales it influences, not only by page views, and update your best performing pieces every few months.'),
+  ('Financial Planning for Startups', 'Financial Planning Basics',
+   'Financial planning gives a startup a clear view of where its money comes from and where it goes. In this lesson we cover the three core financial statements. The income statement shows revenue, costs and profit over a period. The balance sheet lists what the business owns and owes at a point in time. The cash flow statement tracks the actual cash moving in and out, which is what keeps a young company alive. We also separate fixed costs such as rent and salaries from variable costs that grow with sales, and introduce the break-even point, the sales volume at which revenue covers all costs. Keep your bookkeeping up to date from day one.'),
+  ('Financial Planning for Startups', 'Creating Financial Projections',
+   'In this lesson we build financial projections step by step, the way investors and lenders expect to see them. Financial projections are your best estimate of revenue, costs and cash over the next three to five years, usually monthly for the first year and quarterly or yearly after that. They are not a promise; they are a model of how the business works, and the assumptions behind them matter more than the final numbers. Start with a bottom-up revenue forecast. Instead of claiming a share of a huge market, work from the drivers you control: how many leads your marketing generates each month, what percentage convert into paying customers, the average order value and how often customers buy again. Multiply these drivers out month by month and you get a revenue forecast you can defend, because every number can be checked against real results as soon as you launch. Next, project your costs. Cost of goods sold grows with each sale, so express it as a percentage of revenue or a cost per unit. Operating expenses such as salaries, rent, software and marketing are mostly fixed or step up when you hire. Write down when each new hire starts and what they cost including taxes and benefits, since payroll is usually the largest line in a startup budget. With revenue and costs in place you can build the three statements: the projected income statement, the balance sheet and, most important for a startup, the cash flow forecast. Profit and cash are not the same thing. Customers may pay thirty or sixty days after you invoice, inventory must be bought before it is sold, and loan repayments and equipment purchases use cash without appearing as expenses. Your cash flow forecast shows the lowest point your bank balance will reach and therefore how much funding you need and when. Finally, test your projections. Build a base case, a conservative case and an optimistic case by changing the key assumptions, such as conversion rate, price and hiring speed. Calculate your monthly burn rate and runway in each case. If the business only works in the optimistic scenario, revisit the plan before you present it. Update the projections every month with actual results; the gap between forecast and actuals is one of the most useful management tools you have.'),
+  ('Financial Planning for Startups', 'Funding Strategies',
+   'There are many ways to fund a startup, and the right choice depends on how fast you need to grow and how much control you want to keep. Bootstrapping means funding the business from savings and early revenue; it is slower but you keep full ownership. Friends and family rounds are common for the first small amounts, but treat them as formal investments with written terms. Angel investors and venture capital firms buy equity in exchange for capital and expect high growth and an exit. Bank loans and government backed small business loans require repayments and often collateral, but do not dilute your ownership. Grants, crowdfunding and revenue based financing are further options. Match the amount you raise to your cash flow forecast plus a safety buffer.'),
+  ('Operations Management Excellence', 'Operations Overview',
+   'Operations management is about turning inputs such as materials, people and time into products and services customers value, as efficiently as possible. In this lesson we look at the core areas: process design, capacity planning, inventory management, quality control and the supply chain. We introduce key performance indicators like cycle time, throughput, utilization and defect rate, and explain why you should measure only a handful that reflect what customers care about. Good operations are documented, repeatable and owned by someone. Start by mapping how work flows through your business today before trying to improve it.'),
+  ('Operations Management Excellence', 'Lean Methodologies',
+   'Lean methodology comes from the Toyota Production System and focuses on delivering customer value with the least waste. We cover the eight wastes: defects, overproduction, waiting, unused talent, transportation, inventory, motion and extra processing. Value stream mapping helps you see every step from order to delivery and highlight the steps that add no value. Tools such as 5S workplace organization, kanban boards to limit work in progress, and kaizen events for continuous improvement make lean practical for small teams. Lean is not about cutting people; it is about freeing them from waste so they can focus on work customers pay for.'),
+  ('Operations Management Excellence', 'Process Optimization',
+   'Process optimization starts with measuring how a process performs today. Map each step, record how long it takes and where work waits, and find the bottleneck, the one step that limits the output of the whole process. Improving any other step will not increase throughput. Use root cause analysis techniques such as the five whys and fishbone diagrams to fix problems at their source. Standardize the improved process with checklists and clear ownership, then automate repetitive steps with software where it saves real time. Track the results against your baseline so you know the change worked.'),
+  ('Strategic Business Planning', 'Strategy Fundamentals',
+   'Strategy is the set of choices about where your business will compete and how it will win. In this lesson we define mission, vision and values, and show how they guide decisions. We introduce SWOT analysis to assess internal strengths and weaknesses alongside external opportunities and threats, and Porter generic strategies: cost leadership, differentiation and focus. A good strategy says no to many opportunities so resources can be concentrated where you have an advantage. Write your strategy down in one page that everyone on the team can understand.'),
+  ('Strategic Business Planning', 'Competitive Analysis',
+   'Competitive analysis helps you understand who else is solving your customer problem and how you can stand out. List direct competitors offering the same product, indirect competitors solving the problem differently, and the option of customers doing nothing. For each, compare pricing, features, target customers, distribution channels, reviews and brand positioning in a competitor matrix. Porter five forces analysis looks at the wider industry: rivalry, the threat of new entrants and substitutes, and the bargaining power of buyers and suppliers. Use what you learn to define a clear unique value proposition and revisit the analysis every quarter.'),
+  ('Strategic Business Planning', 'Strategic Implementation',
+   'Strategic implementation turns a plan into results. Break your strategy into a few measurable objectives for the year and translate them into quarterly goals using OKRs, objectives and key results. Assign a single owner to each goal, allocate budget and people, and agree on milestones. Hold a short monthly review to compare progress against the key results, remove blockers and adjust priorities when the market changes. Communicate the strategy repeatedly so every team member knows how their work contributes.'),
+  ('Leadership and Team Management', 'Leadership Principles',
+   'Leadership is the ability to set direction and help people do their best work. We compare leadership styles, from directive to coaching and servant leadership, and explain when each is appropriate. Effective leaders build trust by being consistent, transparent and accountable, and they delegate outcomes rather than tasks. Emotional intelligence, self awareness, empathy and self regulation, often matters more than technical expertise. Lead by example, give credit to the team and take responsibility for mistakes.'),
+  ('Leadership and Team Management', 'Team Building',
+   'High performing teams are built deliberately. Start by hiring for values and complementary skills, then set clear roles, shared goals and ways of working. Research on team effectiveness shows psychological safety, the confidence that you can speak up without being punished, is the strongest predictor of team performance. Teams move through forming, storming, norming and performing stages; expect conflict and help the team resolve it constructively. Regular one to one meetings, team retrospectives and recognizing good work keep engagement high as the company grows.'),
+  ('Leadership and Team Management', 'Communication Skills',
+   'Clear communication is a core leadership skill. Practise active listening: let people finish, ask clarifying questions and summarize what you heard. When giving feedback, describe the specific situation, the behaviour and its impact, and agree on next steps. Tailor your message to the audience and choose the right channel; difficult conversations belong in person or on a call, not in chat. In meetings, share an agenda in advance and end with decisions and owners. Good communication reduces rework, conflict and misunderstanding across the team.'),
+  ('Advanced Financial Analysis', 'Financial Modeling',
+   'A financial model is a spreadsheet that links assumptions to the three financial statements so you can test decisions before you make them. Keep inputs, calculations and outputs on separate sheets, colour code input cells and never hard code numbers in formulas. Build the income statement, balance sheet and cash flow statement so they reconcile, with the balance sheet always balancing. Add sensitivity tables and scenarios to see which drivers move the result most. A good model is simple enough for someone else to audit in an hour.'),
+  ('Advanced Financial Analysis', 'Valuation Methods',
+   'Business valuation estimates what a company is worth. The discounted cash flow method projects free cash flows and discounts them to today using the weighted average cost of capital, plus a terminal value for the years beyond the forecast. Comparable company analysis applies multiples such as EV to EBITDA or price to earnings from similar public companies, while precedent transactions use prices paid in recent acquisitions. Early stage startups without profits are often valued with the venture capital method or scorecard method. Use several methods and treat the result as a range, not a single number.'),
+  ('Advanced Financial Analysis', 'Investment Analysis',
+   'Investment analysis helps you decide which projects and opportunities deserve your capital. Net present value discounts a project future cash flows at your required rate of return; a positive NPV creates value. Internal rate of return is the discount rate at which NPV is zero, and the payback period shows how quickly the initial investment is recovered. Compare return on investment across options, account for risk with scenario analysis, and remember opportunity cost: money spent on one project is not available for another.')
+) AS seed(course_title, lesson_title, transcript)
+JOIN courses c ON c.title = seed.course_title
+WHERE l.course_id = c.id
+AND l.title = seed.lesson_title;
+
+-- Unpublished draft lesson, which retrieval must never return
+INSERT INTO lessons (course_id, title, video_url, transcript, "order", duration, description, is_published)
+SELECT
+  c.id,
+  'Cash Flow Forecasting',
+  'https://example.com/video20',
+  'Draft lesson. A cash flow forecast predicts the cash coming in and going out of the business week by week. Forecast cash receipts from customers, cash payments to suppliers, payroll and loan repayments, and watch the closing cash balance for each week of the forecast.',
+  4,
+  '18:00',
+  'Build a weekly cash flow forecast',
+  false
+FROM courses c
+WHERE c.title = 'Financial Planning for Startups'
+ON CONFLICT (course_id, "order") DO NOTHING;
@@ -0,0 +1,127 @@
+/*
+  # Lesson Retrieval Tests
+
+  Runs lesson retrieval (chunk_lesson_text, the lessons reindex trigger and
+  search_lesson_chunks) against the lessons from supabase/seed.sql.
+
+  Run locally with:
+    supabase db reset
+    supabase test db
+*/
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(15);
+
+-- Chunking: 180-word windows overlapping by 30 words
+SELECT is(
+  (SELECT count(*)::integer FROM chunk_lesson_text((SELECT string_agg('w' || i, ' ') FROM generate_series(1, 400) AS i))),
+  3,
+  '400 words are split into 3 chunks'
+);
+
+SELECT is(
+  (SELECT split_part(content, ' ', 1) FROM chunk_lesson_text((SELECT string_agg('w' || i, ' ') FROM generate_series(1, 400) AS i)) WHERE chunk_index = 1),
+  'w151',
+  'Each chunk repeats the last 30 words of the one before it'
+);
+
+SELECT is_empty(
+  $$ SELECT * FROM chunk_lesson_text('   ') $$,
+  'Blank text has no chunks'
+);
+
+SELECT cmp_ok(
+  (SELECT count(*)::integer FROM lesson_chunks WHERE lesson_title = 'Creating Financial Projections' AND source = 'transcript'),
+  '>',
+  1,
+  'Long seeded transcripts are indexed as several chunks'
+);
+
+SELECT is(
+  (SELECT count(*)::integer FROM lessons l WHERE NOT EXISTS (SELECT 1 FROM lesson_chunks lc WHERE lc.lesson_id = l.id)),
+  0,
+  'Every seeded lesson is indexed'
+);
+
+-- Ranking
+SELECT is(
+  (SELECT lesson_title FROM search_lesson_chunks('How do I create financial projections?') LIMIT 1),
+  'Creating Financial Projections',
+  'A financial projections question finds the financial projections lesson first'
+);
+
+SELECT is(
+  (SELECT lesson_title FROM search_lesson_chunks('How should I do keyword research for SEO?') LIMIT 1),
+  'SEO Fundamentals',
+  'An SEO question finds the SEO lesson first'
+);
+
+SELECT is(
+  (SELECT lesson_title FROM search_lesson_chunks('What is psychological safety in a team?') LIMIT 1),
+  'Team Building',
+  'A question that matches only the transcript finds its lesson'
+);
+
+SELECT is_empty(
+  $$ SELECT * FROM (
+       SELECT rank, lag(rank) OVER () AS previous_rank
+       FROM search_lesson_chunks('cash flow and funding for a startup', 10)
+     ) AS ranked
+     WHERE rank > previous_rank $$,
+  'Matches are returned best first'
+);
+
+SELECT is_empty(
+  $$ SELECT * FROM search_lesson_chunks('zxqv florp') $$,
+  'Unrelated questions match nothing'
+);
+
+SELECT is(
+  (SELECT count(*)::integer FROM search_lesson_chunks('business', 50)),
+  10,
+  'At most 10 chunks are returned'
+);
+
+-- Only published lessons are returned
+SELECT is_empty(
+  $$ SELECT * FROM search_lesson_chunks('weekly cash flow forecast', 10) WHERE lesson_title = 'Cash Flow Forecasting' $$,
+  'Unpublished lessons are never returned'
+);
+
+-- Lesson links: matches carry the lesson and course they came from
+SELECT is_empty(
+  $$ SELECT *
+     FROM search_lesson_chunks('how to value a company', 10) AS match
+     WHERE NOT EXISTS (
+       SELECT 1 FROM lessons l
+       JOIN courses c ON c.id = l.course_id
+       WHERE l.id = match.lesson_id
+       AND l.title = match.lesson_title
+       AND c.id = match.course_id
+       AND c.title = match.course_title
+     ) $$,
+  'Every match links to its lesson and course'
+);
+
+-- Editing a transcript rebuilds the lesson's chunks
+UPDATE lessons
+SET transcript = 'Pricing psychology: anchor prices against a premium tier and use decoy offers.'
+WHERE title = 'Funding Strategies';
+
+SELECT is(
+  (SELECT lesson_title FROM search_lesson_chunks('decoy offers', 1)),
+  'Funding Strategies',
+  'New transcript content is searchable after an update'
+);
+
+SELECT is_empty(
+  $$ SELECT * FROM search_lesson_chunks('bootstrapping crowdfunding', 10) WHERE lesson_title = 'Funding Strategies' $$,
+  'Old transcript content is removed after an update'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;